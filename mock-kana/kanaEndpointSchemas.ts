@@ -0,0 +1,285 @@
+import {
+  compareIdentifier,
+  compareMembership,
+  compareOrderedValue,
+  evaluateKanaFilter,
+  KanaQueryError,
+  matchesSearchText,
+  readIdentifierNumber,
+  type KanaEndpointSchema,
+  type KanaFilterEvaluator,
+  type KanaOperator,
+  type KanaRecord,
+  type KanaSortKeyReader
+} from './kanaQueryEngine';
+
+export interface KanaFixtureDataset {
+  vn: KanaRecord[];
+  release: KanaRecord[];
+  character: KanaRecord[];
+  trait: KanaRecord[];
+  tag: KanaRecord[];
+  producer: KanaRecord[];
+  staff: KanaRecord[];
+}
+
+export type KanaFixtureEndpointName = keyof KanaFixtureDataset;
+export type KanaEndpointSchemaSet = Record<KanaFixtureEndpointName | 'ulist', KanaEndpointSchema>;
+
+function readRecordArray(entry: KanaRecord, fieldName: string): KanaRecord[] {
+  const fieldValue = entry[fieldName];
+  return Array.isArray(fieldValue) ? fieldValue.filter((item): item is KanaRecord => item !== null && typeof item === 'object') : [];
+}
+
+function readStringArray(entry: KanaRecord, fieldName: string): string[] {
+  const fieldValue = entry[fieldName];
+  return Array.isArray(fieldValue) ? fieldValue.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function collectFieldNames(entries: KanaRecord[]) {
+  return [...new Set(entries.flatMap((entry) => Object.keys(entry)))];
+}
+
+// VNDB's `length` filter works on its 1 (very short) to 5 (very long) buckets rather than minutes.
+function deriveLengthBucket(lengthMinutes: unknown) {
+  if (typeof lengthMinutes !== 'number') return null;
+  if (lengthMinutes < 120) return 1;
+  if (lengthMinutes < 600) return 2;
+  if (lengthMinutes < 1800) return 3;
+  if (lengthMinutes < 3000) return 4;
+  return 5;
+}
+
+const identifierFilter: KanaFilterEvaluator = (entry, operator, value) => compareIdentifier(entry.id, operator, value);
+const identifierSortKey: KanaSortKeyReader = (entry) => readIdentifierNumber(entry.id);
+
+function fieldFilter(fieldName: string): KanaFilterEvaluator {
+  return (entry, operator, value) => compareOrderedValue(entry[fieldName], operator, value);
+}
+
+function flagFilter(isFlagSet: (entry: KanaRecord) => boolean): KanaFilterEvaluator {
+  return (entry, operator) => compareMembership(isFlagSet(entry), operator);
+}
+
+function membershipFilter(readMembers: (entry: KanaRecord) => unknown[]): KanaFilterEvaluator {
+  return (entry, operator, value) => compareMembership(readMembers(entry).includes(value), operator);
+}
+
+function fieldSortKey(fieldName: string): KanaSortKeyReader {
+  return (entry) => {
+    const fieldValue = entry[fieldName];
+    return typeof fieldValue === 'string' || typeof fieldValue === 'number' ? fieldValue : null;
+  };
+}
+
+// Tag and trait filters take an ID or a tuple narrowing by spoiler level (and, for tags, minimum rating).
+function matchesWeightedReference(
+  references: KanaRecord[],
+  operator: KanaOperator,
+  value: unknown,
+  readLevel: (reference: KanaRecord) => number
+) {
+  const [referenceIdentifier, maximumSpoilerLevel = 2, minimumLevel = 0] = Array.isArray(value) ? value : [value];
+  if (typeof referenceIdentifier !== 'string') {
+    throw new KanaQueryError(`Invalid identifier in filter: ${JSON.stringify(value)}`);
+  }
+
+  const isMatch = references.some((reference) => (
+    reference.id === referenceIdentifier
+    && Number(reference.spoiler ?? 0) <= Number(maximumSpoilerLevel)
+    && readLevel(reference) >= Number(minimumLevel)
+  ));
+  return compareMembership(isMatch, operator);
+}
+
+// Builds per-endpoint schemas over one fixture dataset; nested filters (`developer`, `vn`, `seiyuu`, ...)
+// resolve related records by ID and evaluate the inner filter against the related endpoint's schema.
+export function createKanaEndpointSchemas(dataset: KanaFixtureDataset): KanaEndpointSchemaSet {
+  const schemas = {} as KanaEndpointSchemaSet;
+
+  function nestedFilter(
+    relatedEndpointName: KanaFixtureEndpointName,
+    readRelatedReferences: (entry: KanaRecord) => KanaRecord[]
+  ): KanaFilterEvaluator {
+    return (entry, operator, nestedSerializedFilter) => {
+      const isMatch = readRelatedReferences(entry).some((relatedReference) => {
+        // Prefer the full fixture record; fall back to the embedded reference for entries outside the snapshot.
+        const relatedEntry = dataset[relatedEndpointName].find((candidate) => candidate.id === relatedReference.id) ?? relatedReference;
+        return evaluateKanaFilter(schemas[relatedEndpointName], relatedEntry, nestedSerializedFilter);
+      });
+      return compareMembership(isMatch, operator);
+    };
+  }
+
+  const visualNovelFilters: Record<string, KanaFilterEvaluator> = {
+    id: identifierFilter,
+    search: (entry, operator, value) => matchesSearchText([entry.title, entry.alttitle, ...readStringArray(entry, 'aliases')], operator, value),
+    lang: membershipFilter((entry) => readStringArray(entry, 'languages')),
+    olang: fieldFilter('olang'),
+    platform: membershipFilter((entry) => readStringArray(entry, 'platforms')),
+    length: (entry, operator, value) => compareOrderedValue(deriveLengthBucket(entry.length_minutes), operator, value),
+    released: fieldFilter('released'),
+    rating: fieldFilter('rating'),
+    votecount: fieldFilter('votecount'),
+    devstatus: fieldFilter('devstatus'),
+    has_description: flagFilter((entry) => typeof entry.description === 'string' && entry.description !== ''),
+    has_screenshot: flagFilter((entry) => readRecordArray(entry, 'screenshots').length > 0),
+    tag: (entry, operator, value) => matchesWeightedReference(readRecordArray(entry, 'tags'), operator, value, (tag) => Number(tag.rating ?? 0)),
+    dtag: (entry, operator, value) => matchesWeightedReference(readRecordArray(entry, 'tags'), operator, value, (tag) => Number(tag.rating ?? 0)),
+    release: nestedFilter('release', (entry) => dataset.release.filter((release) => (
+      readRecordArray(release, 'vns').some((releaseVisualNovel) => releaseVisualNovel.id === entry.id)
+    ))),
+    character: nestedFilter('character', (entry) => dataset.character.filter((character) => (
+      readRecordArray(character, 'vns').some((characterVisualNovel) => characterVisualNovel.id === entry.id)
+    ))),
+    staff: nestedFilter('staff', (entry) => readRecordArray(entry, 'staff')),
+    developer: nestedFilter('producer', (entry) => readRecordArray(entry, 'developers'))
+  };
+
+  schemas.vn = {
+    fieldNames: collectFieldNames(dataset.vn),
+    filters: visualNovelFilters,
+    sortKeys: {
+      id: identifierSortKey,
+      title: fieldSortKey('title'),
+      released: fieldSortKey('released'),
+      rating: fieldSortKey('rating'),
+      votecount: fieldSortKey('votecount')
+    }
+  };
+
+  schemas.release = {
+    fieldNames: collectFieldNames(dataset.release),
+    filters: {
+      id: identifierFilter,
+      search: (entry, operator, value) => matchesSearchText([entry.title, entry.alttitle], operator, value),
+      lang: membershipFilter((entry) => readRecordArray(entry, 'languages').map((language) => language.lang)),
+      platform: membershipFilter((entry) => readStringArray(entry, 'platforms')),
+      released: fieldFilter('released'),
+      minage: fieldFilter('minage'),
+      medium: membershipFilter((entry) => readRecordArray(entry, 'media').map((medium) => medium.medium)),
+      voiced: fieldFilter('voiced'),
+      rtype: membershipFilter((entry) => readRecordArray(entry, 'vns').map((releaseVisualNovel) => releaseVisualNovel.rtype)),
+      patch: flagFilter((entry) => entry.patch === true),
+      freeware: flagFilter((entry) => entry.freeware === true),
+      official: flagFilter((entry) => entry.official === true),
+      vn: nestedFilter('vn', (entry) => readRecordArray(entry, 'vns')),
+      producer: nestedFilter('producer', (entry) => readRecordArray(entry, 'producers'))
+    },
+    sortKeys: {
+      id: identifierSortKey,
+      title: fieldSortKey('title'),
+      released: fieldSortKey('released')
+    }
+  };
+
+  schemas.character = {
+    fieldNames: collectFieldNames(dataset.character),
+    filters: {
+      id: identifierFilter,
+      search: (entry, operator, value) => matchesSearchText([entry.name, entry.original], operator, value),
+      role: membershipFilter((entry) => readRecordArray(entry, 'vns').map((characterVisualNovel) => characterVisualNovel.role)),
+      trait: (entry, operator, value) => matchesWeightedReference(readRecordArray(entry, 'traits'), operator, value, () => 0),
+      dtrait: (entry, operator, value) => matchesWeightedReference(readRecordArray(entry, 'traits'), operator, value, () => 0),
+      vn: nestedFilter('vn', (entry) => readRecordArray(entry, 'vns')),
+      // Voice actors are only recorded on the VN side, so walk every VN's cast for this character.
+      seiyuu: nestedFilter('staff', (entry) => dataset.vn.flatMap((visualNovel) => (
+        readRecordArray(visualNovel, 'va')
+          .filter((voiceCredit) => (voiceCredit.character as KanaRecord | null)?.id === entry.id)
+          .map((voiceCredit) => voiceCredit.staff as KanaRecord)
+      )))
+    },
+    sortKeys: {
+      id: identifierSortKey,
+      name: fieldSortKey('name')
+    }
+  };
+
+  schemas.producer = {
+    fieldNames: collectFieldNames(dataset.producer),
+    filters: {
+      id: identifierFilter,
+      search: (entry, operator, value) => matchesSearchText([entry.name, entry.original, ...readStringArray(entry, 'aliases')], operator, value),
+      lang: fieldFilter('lang'),
+      type: fieldFilter('type')
+    },
+    sortKeys: {
+      id: identifierSortKey,
+      name: fieldSortKey('name')
+    }
+  };
+
+  schemas.staff = {
+    fieldNames: collectFieldNames(dataset.staff),
+    filters: {
+      id: identifierFilter,
+      aid: membershipFilter((entry) => readRecordArray(entry, 'aliases').map((alias) => alias.aid)),
+      search: (entry, operator, value) => matchesSearchText(
+        [entry.name, entry.original, ...readRecordArray(entry, 'aliases').flatMap((alias) => [alias.name, alias.latin])],
+        operator,
+        value
+      ),
+      lang: fieldFilter('lang'),
+      gender: fieldFilter('gender')
+    },
+    sortKeys: {
+      id: identifierSortKey,
+      name: fieldSortKey('name')
+    }
+  };
+
+  schemas.tag = {
+    fieldNames: collectFieldNames(dataset.tag),
+    filters: {
+      id: identifierFilter,
+      search: (entry, operator, value) => matchesSearchText([entry.name, ...readStringArray(entry, 'aliases')], operator, value),
+      category: fieldFilter('category')
+    },
+    sortKeys: {
+      id: identifierSortKey,
+      name: fieldSortKey('name'),
+      vn_count: fieldSortKey('vn_count')
+    }
+  };
+
+  schemas.trait = {
+    fieldNames: collectFieldNames(dataset.trait),
+    filters: {
+      id: identifierFilter,
+      search: (entry, operator, value) => matchesSearchText([entry.name], operator, value)
+    },
+    sortKeys: {
+      id: identifierSortKey,
+      name: fieldSortKey('name'),
+      char_count: fieldSortKey('char_count')
+    }
+  };
+
+  // List entries are joined with their VN before querying, so VN filters apply to `entry.vn`.
+  const readJoinedVisualNovel = (entry: KanaRecord) => (entry.vn ?? {}) as KanaRecord;
+  schemas.ulist = {
+    fieldNames: ['id', 'added', 'voted', 'lastmod', 'vote', 'started', 'finished', 'notes', 'labels', 'vn'],
+    filters: {
+      ...Object.fromEntries(Object.entries(visualNovelFilters).map(([filterName, filterEvaluator]): [string, KanaFilterEvaluator] => [
+        filterName,
+        (entry, operator, value) => filterEvaluator(readJoinedVisualNovel(entry), operator, value)
+      ])),
+      label: membershipFilter((entry) => readRecordArray(entry, 'labels').map((label) => label.id))
+    },
+    sortKeys: {
+      id: identifierSortKey,
+      title: (entry) => fieldSortKey('title')(readJoinedVisualNovel(entry)),
+      released: (entry) => fieldSortKey('released')(readJoinedVisualNovel(entry)),
+      rating: (entry) => fieldSortKey('rating')(readJoinedVisualNovel(entry)),
+      votecount: (entry) => fieldSortKey('votecount')(readJoinedVisualNovel(entry)),
+      voted: fieldSortKey('voted'),
+      vote: fieldSortKey('vote'),
+      added: fieldSortKey('added'),
+      lastmod: fieldSortKey('lastmod'),
+      started: fieldSortKey('started'),
+      finished: fieldSortKey('finished')
+    }
+  };
+
+  return schemas;
+}
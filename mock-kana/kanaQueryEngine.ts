@@ -0,0 +1,230 @@
+// Generic Kana query evaluation over in-memory fixture records: filters, field selection, sorting and paging.
+// Endpoint-specific knowledge (which filters and fields exist) lives in `kanaEndpointSchemas.ts`.
+
+export type KanaRecord = Record<string, unknown>;
+export type KanaOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+const KANA_OPERATORS: KanaOperator[] = ['=', '!=', '>', '>=', '<', '<='];
+const MAXIMUM_RESULTS_PER_PAGE = 100;
+
+// Rejected queries; the server answers these with HTTP 400 and the message as plain text, like Kana.
+export class KanaQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KanaQueryError';
+  }
+}
+
+export type KanaFilterEvaluator = (entry: KanaRecord, operator: KanaOperator, value: unknown) => boolean;
+export type KanaSortKeyReader = (entry: KanaRecord) => string | number | null;
+
+export interface KanaEndpointSchema {
+  // Top-level selectable fields; nested paths (`image.url`) are checked by their first segment only.
+  fieldNames: string[];
+  filters: Record<string, KanaFilterEvaluator>;
+  sortKeys: Record<string, KanaSortKeyReader>;
+}
+
+export interface KanaQueryRequest {
+  filters?: unknown;
+  fields?: unknown;
+  sort?: unknown;
+  reverse?: unknown;
+  results?: unknown;
+  page?: unknown;
+  count?: unknown;
+}
+
+export interface KanaQueryResponse {
+  results: KanaRecord[];
+  more: boolean;
+  count?: number;
+}
+
+function isKanaOperator(candidate: unknown): candidate is KanaOperator {
+  return typeof candidate === 'string' && (KANA_OPERATORS as string[]).includes(candidate);
+}
+
+// VNDB identifiers sort by their numeric part, so `v17` comes before `v2002`.
+export function readIdentifierNumber(identifier: unknown) {
+  return typeof identifier === 'string' ? Number(identifier.replace(/^[a-z]+/, '')) : NaN;
+}
+
+export function compareOrderedValue(actualValue: unknown, operator: KanaOperator, expectedValue: unknown) {
+  if (actualValue === null || actualValue === undefined || expectedValue === null) {
+    const isEqual = (actualValue ?? null) === expectedValue;
+    if (operator === '=') return isEqual;
+    if (operator === '!=') return !isEqual;
+    return false;
+  }
+
+  switch (operator) {
+    case '=':
+      return actualValue === expectedValue;
+    case '!=':
+      return actualValue !== expectedValue;
+    case '>':
+      return (actualValue as number | string) > (expectedValue as number | string);
+    case '>=':
+      return (actualValue as number | string) >= (expectedValue as number | string);
+    case '<':
+      return (actualValue as number | string) < (expectedValue as number | string);
+    case '<=':
+      return (actualValue as number | string) <= (expectedValue as number | string);
+  }
+}
+
+// Identifier filters compare numerically so `["id", ">=", "v100"]` behaves like Kana.
+export function compareIdentifier(actualIdentifier: unknown, operator: KanaOperator, expectedIdentifier: unknown) {
+  if (typeof expectedIdentifier !== 'string' && typeof expectedIdentifier !== 'number') {
+    throw new KanaQueryError(`Invalid identifier in filter: ${JSON.stringify(expectedIdentifier)}`);
+  }
+
+  return compareOrderedValue(
+    readIdentifierNumber(actualIdentifier),
+    operator,
+    typeof expectedIdentifier === 'number' ? expectedIdentifier : readIdentifierNumber(expectedIdentifier)
+  );
+}
+
+// Set-membership filters (`lang`, `platform`, `trait`, ...) only accept `=` and `!=`.
+export function compareMembership(isMember: boolean, operator: KanaOperator) {
+  if (operator === '=') return isMember;
+  if (operator === '!=') return !isMember;
+  throw new KanaQueryError(`Operator '${operator}' is not supported for this filter`);
+}
+
+export function matchesSearchText(candidateTexts: unknown[], operator: KanaOperator, searchTerm: unknown) {
+  if (typeof searchTerm !== 'string') {
+    throw new KanaQueryError('Search filter expects a string');
+  }
+
+  const normalizedSearchTerm = searchTerm.trim().toLowerCase();
+  const isMatch = candidateTexts.some((candidateText) => (
+    typeof candidateText === 'string' && candidateText.toLowerCase().includes(normalizedSearchTerm)
+  ));
+  return compareMembership(isMatch, operator);
+}
+
+export function evaluateKanaFilter(schema: KanaEndpointSchema, entry: KanaRecord, serializedFilter: unknown): boolean {
+  if (!Array.isArray(serializedFilter) || serializedFilter.length < 2) {
+    throw new KanaQueryError(`Invalid filter: ${JSON.stringify(serializedFilter)}`);
+  }
+
+  const [filterName, ...filterArguments] = serializedFilter;
+  if (filterName === 'and') {
+    return filterArguments.every((childFilter) => evaluateKanaFilter(schema, entry, childFilter));
+  }
+  if (filterName === 'or') {
+    return filterArguments.some((childFilter) => evaluateKanaFilter(schema, entry, childFilter));
+  }
+
+  const [operator, filterValue] = filterArguments;
+  if (typeof filterName !== 'string' || filterArguments.length !== 2 || !isKanaOperator(operator)) {
+    throw new KanaQueryError(`Invalid filter: ${JSON.stringify(serializedFilter)}`);
+  }
+
+  const filterEvaluator = schema.filters[filterName];
+  if (!filterEvaluator) {
+    throw new KanaQueryError(`Unknown filter '${filterName}'`);
+  }
+
+  return filterEvaluator(entry, operator, filterValue);
+}
+
+interface FieldSelectionTree {
+  [fieldName: string]: FieldSelectionTree;
+}
+
+function parseFieldSelection(schema: KanaEndpointSchema, fields: unknown): FieldSelectionTree {
+  if (fields !== undefined && typeof fields !== 'string') {
+    throw new KanaQueryError('Invalid "fields" parameter');
+  }
+
+  const selectionTree: FieldSelectionTree = { id: {} };
+  (fields ?? '').split(',').map((fieldPath) => fieldPath.trim()).filter(Boolean).forEach((fieldPath) => {
+    const pathSegments = fieldPath.split('.');
+    if (!schema.fieldNames.includes(pathSegments[0])) {
+      throw new KanaQueryError(`Unknown field '${fieldPath}'`);
+    }
+
+    let currentNode = selectionTree;
+    pathSegments.forEach((pathSegment) => {
+      currentNode[pathSegment] ??= {};
+      currentNode = currentNode[pathSegment];
+    });
+  });
+  return selectionTree;
+}
+
+function projectSelectedFields(value: unknown, selectionTree: FieldSelectionTree): unknown {
+  if (Array.isArray(value)) {
+    return value.map((arrayItem) => projectSelectedFields(arrayItem, selectionTree));
+  }
+
+  const selectedFieldNames = Object.keys(selectionTree);
+  if (value === null || typeof value !== 'object' || selectedFieldNames.length === 0) {
+    return value ?? null;
+  }
+
+  const sourceRecord = value as KanaRecord;
+  return Object.fromEntries(selectedFieldNames.map((fieldName) => [
+    fieldName,
+    projectSelectedFields(sourceRecord[fieldName], selectionTree[fieldName])
+  ]));
+}
+
+function compareSortKeys(leftKey: string | number | null, rightKey: string | number | null) {
+  // Entries without a value for the sort key always go last, in either direction.
+  if (leftKey === null || rightKey === null) {
+    return 0;
+  }
+  if (leftKey < rightKey) return -1;
+  if (leftKey > rightKey) return 1;
+  return 0;
+}
+
+function readBoundedInteger(candidate: unknown, parameterName: string, defaultValue: number, minimum: number, maximum: number) {
+  if (candidate === undefined) {
+    return defaultValue;
+  }
+  if (typeof candidate !== 'number' || !Number.isInteger(candidate) || candidate < minimum || candidate > maximum) {
+    throw new KanaQueryError(`Invalid "${parameterName}" parameter`);
+  }
+  return candidate;
+}
+
+export function runKanaQuery(schema: KanaEndpointSchema, entries: KanaRecord[], request: KanaQueryRequest): KanaQueryResponse {
+  const resultsPerPage = readBoundedInteger(request.results, 'results', 10, 0, MAXIMUM_RESULTS_PER_PAGE);
+  const pageNumber = readBoundedInteger(request.page, 'page', 1, 1, Number.MAX_SAFE_INTEGER);
+  const selectionTree = parseFieldSelection(schema, request.fields);
+  const sortField = request.sort ?? 'id';
+  if (typeof sortField !== 'string' || (sortField !== 'searchrank' && !schema.sortKeys[sortField])) {
+    throw new KanaQueryError(`Invalid sort field '${String(sortField)}'`);
+  }
+
+  const hasFilters = Array.isArray(request.filters) && request.filters.length > 0;
+  const matchingEntries = entries.filter((entry) => !hasFilters || evaluateKanaFilter(schema, entry, request.filters));
+
+  // `searchrank` keeps fixture order, which stands in for relevance.
+  if (sortField !== 'searchrank') {
+    const readSortKey = schema.sortKeys[sortField];
+    const directionMultiplier = request.reverse === true ? -1 : 1;
+    matchingEntries.sort((leftEntry, rightEntry) => {
+      const leftKey = readSortKey(leftEntry);
+      const rightKey = readSortKey(rightEntry);
+      if ((leftKey === null) !== (rightKey === null)) {
+        return leftKey === null ? 1 : -1;
+      }
+      return compareSortKeys(leftKey, rightKey) * directionMultiplier;
+    });
+  }
+
+  const pageStartIndex = (pageNumber - 1) * resultsPerPage;
+  const pageEntries = matchingEntries.slice(pageStartIndex, pageStartIndex + resultsPerPage);
+  return {
+    results: pageEntries.map((entry) => projectSelectedFields(entry, selectionTree) as KanaRecord),
+    more: matchingEntries.length > pageStartIndex + resultsPerPage,
+    ...(request.count === true ? { count: matchingEntries.length } : {})
+  };
+}
@@ -0,0 +1,437 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import {
+  createKanaEndpointSchemas,
+  type KanaEndpointSchemaSet,
+  type KanaFixtureDataset,
+  type KanaFixtureEndpointName
+} from './kanaEndpointSchemas';
+import { KanaQueryError, runKanaQuery, type KanaQueryRequest, type KanaRecord } from './kanaQueryEngine';
+
+// Local stand-in for https://api.vndb.org/kana. Read endpoints serve recorded fixtures; `/ulist` is an
+// in-memory copy of `fixtures/users.json` that PATCH/DELETE mutate until the dev server restarts.
+
+const FIXTURE_ENDPOINT_NAMES: KanaFixtureEndpointName[] = ['vn', 'release', 'character', 'trait', 'tag', 'producer', 'staff'];
+// VNDB manages label 7 itself: it is present exactly when the entry has a vote.
+const VOTED_LABEL_IDENTIFIER = 7;
+const PATCH_FIELD_NAMES = ['vote', 'notes', 'started', 'finished', 'labels', 'labels_set', 'labels_unset'];
+
+interface MockUserListLabel {
+  id: number;
+  label: string;
+  private: boolean;
+}
+
+interface MockUserListEntry {
+  id: string;
+  added: number;
+  lastmod: number;
+  voted: number | null;
+  vote: number | null;
+  started: string | null;
+  finished: string | null;
+  notes: string;
+  labels: number[];
+}
+
+interface MockUser {
+  id: string;
+  username: string;
+  token: string;
+  permissions: string[];
+  labels: MockUserListLabel[];
+  ulist: MockUserListEntry[];
+}
+
+export interface MockKanaRequest {
+  method: string;
+  // Endpoint path relative to the Kana root, e.g. `/vn` or `/ulist/v17`.
+  path: string;
+  authorizationHeader?: string;
+  body?: unknown;
+}
+
+export interface MockKanaResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+export interface MockKanaServer {
+  handleRequest: (request: MockKanaRequest) => MockKanaResponse;
+  // Restores `/ulist` to the fixture state.
+  reset: () => void;
+}
+
+// Thrown by request handlers to short-circuit with an HTTP status and a plain-text message.
+class MockKanaHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MockKanaHttpError';
+    this.status = status;
+  }
+}
+
+function readFixtureFile<TFixture>(fixtureDirectory: string, fileName: string): TFixture {
+  return JSON.parse(fs.readFileSync(path.join(fixtureDirectory, fileName), 'utf8')) as TFixture;
+}
+
+function jsonResponse(payload: unknown, status = 200): MockKanaResponse {
+  return { status, contentType: 'application/json', body: JSON.stringify(payload) };
+}
+
+function textResponse(status: number, message: string): MockKanaResponse {
+  return { status, contentType: 'text/plain; charset=utf-8', body: message };
+}
+
+function emptyResponse(): MockKanaResponse {
+  return { status: 204, contentType: 'text/plain; charset=utf-8', body: '' };
+}
+
+function readQueryRequestBody(body: unknown): KanaQueryRequest & Record<string, unknown> {
+  if (body === undefined || body === null) {
+    return {};
+  }
+  if (typeof body !== 'object' || Array.isArray(body)) {
+    throw new MockKanaHttpError(400, 'Request body must be a JSON object');
+  }
+  return body as KanaQueryRequest & Record<string, unknown>;
+}
+
+function isValidDateValue(candidate: unknown) {
+  return candidate === null || (typeof candidate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(candidate));
+}
+
+function readLabelIdentifierList(candidate: unknown, fieldName: string) {
+  if (!Array.isArray(candidate) || !candidate.every((labelIdentifier) => Number.isInteger(labelIdentifier))) {
+    throw new MockKanaHttpError(400, `Invalid "${fieldName}": expected an array of label IDs`);
+  }
+  return candidate as number[];
+}
+
+export function createMockKanaServer(fixtureDirectory = path.resolve(process.cwd(), 'mock-kana/fixtures')): MockKanaServer {
+  const dataset = Object.fromEntries(FIXTURE_ENDPOINT_NAMES.map((endpointName) => [
+    endpointName,
+    readFixtureFile<KanaRecord[]>(fixtureDirectory, `${endpointName}.json`)
+  ])) as unknown as KanaFixtureDataset;
+  const endpointSchemas: KanaEndpointSchemaSet = createKanaEndpointSchemas(dataset);
+  const fixtureUsers = readFixtureFile<{ users: MockUser[] }>(fixtureDirectory, 'users.json').users;
+  let mockUsers: MockUser[] = structuredClone(fixtureUsers);
+
+  function resolveTokenUser(authorizationHeader: string | undefined) {
+    if (!authorizationHeader) {
+      return null;
+    }
+
+    const tokenMatch = /^Token\s+(\S+)$/i.exec(authorizationHeader.trim());
+    const tokenUser = tokenMatch ? mockUsers.find((user) => user.token === tokenMatch[1]) : undefined;
+    if (!tokenUser) {
+      throw new MockKanaHttpError(401, 'Invalid token');
+    }
+    return tokenUser;
+  }
+
+  function requireListWriteUser(authorizationHeader: string | undefined) {
+    const tokenUser = resolveTokenUser(authorizationHeader);
+    if (!tokenUser) {
+      throw new MockKanaHttpError(401, 'Missing token');
+    }
+    if (!tokenUser.permissions.includes('listwrite')) {
+      throw new MockKanaHttpError(403, 'Token does not have the listwrite permission');
+    }
+    return tokenUser;
+  }
+
+  function readVisualNovelFixture(visualNovelIdentifier: string) {
+    return dataset.vn.find((visualNovel) => visualNovel.id === visualNovelIdentifier) ?? null;
+  }
+
+  function findListOwner(requestedUserIdentifier: string) {
+    const normalizedUserIdentifier = requestedUserIdentifier.toLowerCase().startsWith('u')
+      ? requestedUserIdentifier.toLowerCase()
+      : `u${requestedUserIdentifier}`;
+    return mockUsers.find((user) => user.id === normalizedUserIdentifier) ?? null;
+  }
+
+  function canReadPrivateLabels(tokenUser: MockUser | null, listOwner: MockUser) {
+    return tokenUser?.id === listOwner.id && tokenUser.permissions.includes('listread');
+  }
+
+  // `GET /ulist_labels?user=...&fields=count`; like `/ulist`, private labels are only listed for the owner.
+  function handleUserListLabelsQuery(request: MockKanaRequest) {
+    const queryParameters = new URLSearchParams(request.path.split('?')[1] ?? '');
+    const requestedFieldNames = (queryParameters.get('fields') ?? '').split(',').map((fieldName) => fieldName.trim()).filter(Boolean);
+    const unknownFieldName = requestedFieldNames.find((fieldName) => fieldName !== 'count');
+    if (unknownFieldName) {
+      throw new MockKanaHttpError(400, `Unknown field '${unknownFieldName}'`);
+    }
+
+    const tokenUser = resolveTokenUser(request.authorizationHeader);
+    const requestedUserIdentifier = queryParameters.get('user') ?? tokenUser?.id;
+    if (!requestedUserIdentifier) {
+      throw new MockKanaHttpError(400, 'Missing "user" parameter');
+    }
+
+    const listOwner = findListOwner(requestedUserIdentifier);
+    if (!listOwner) {
+      return jsonResponse({ labels: [] });
+    }
+
+    const shouldIncludeCount = requestedFieldNames.includes('count');
+    const canReadPrivateEntries = canReadPrivateLabels(tokenUser, listOwner);
+    const visibleLabels = listOwner.labels.filter((label) => canReadPrivateEntries || !label.private);
+    return jsonResponse({
+      labels: visibleLabels.map((label) => ({
+        id: label.id,
+        label: label.label,
+        private: label.private,
+        ...(shouldIncludeCount
+          ? { count: listOwner.ulist.filter((listEntry) => listEntry.labels.includes(label.id)).length }
+          : {})
+      }))
+    });
+  }
+
+  // `GET /user?q=...`: each query matches a username case-insensitively or a `u123` ID, keyed by the query.
+  function handleUserLookup(request: MockKanaRequest) {
+    const userQueries = new URLSearchParams(request.path.split('?')[1] ?? '').getAll('q');
+    if (userQueries.length === 0) {
+      throw new MockKanaHttpError(400, 'Missing "q" parameter');
+    }
+
+    return jsonResponse(Object.fromEntries(userQueries.map((userQuery) => {
+      const normalizedUserQuery = userQuery.toLowerCase();
+      const matchingUser = mockUsers.find((user) => user.id === normalizedUserQuery || user.username.toLowerCase() === normalizedUserQuery);
+      return [userQuery, matchingUser ? { id: matchingUser.id, username: matchingUser.username } : null];
+    })));
+  }
+
+  function handleUserListQuery(request: MockKanaRequest) {
+    const queryBody = readQueryRequestBody(request.body);
+    const tokenUser = resolveTokenUser(request.authorizationHeader);
+    const requestedUserIdentifier = queryBody.user ?? tokenUser?.id;
+    if (typeof requestedUserIdentifier !== 'string') {
+      throw new MockKanaHttpError(400, 'Missing "user" parameter');
+    }
+
+    const listOwner = findListOwner(requestedUserIdentifier);
+    if (!listOwner) {
+      return jsonResponse({ results: [], more: false });
+    }
+
+    // Owners with `listread` see everything; anyone else only sees entries carrying a public label.
+    const canReadPrivateEntries = canReadPrivateLabels(tokenUser, listOwner);
+    const visibleLabels = listOwner.labels.filter((label) => canReadPrivateEntries || !label.private);
+    const joinedEntries = listOwner.ulist.flatMap((listEntry): KanaRecord[] => {
+      const entryLabels = visibleLabels.filter((label) => listEntry.labels.includes(label.id));
+      if (!canReadPrivateEntries && entryLabels.length === 0) {
+        return [];
+      }
+
+      return [{
+        ...listEntry,
+        labels: entryLabels.map((label) => ({ id: label.id, label: label.label })),
+        vn: readVisualNovelFixture(listEntry.id) ?? { id: listEntry.id }
+      }];
+    });
+
+    return jsonResponse(runKanaQuery(endpointSchemas.ulist, joinedEntries, queryBody));
+  }
+
+  function handleUserListPatch(request: MockKanaRequest, visualNovelIdentifier: string) {
+    const listOwner = requireListWriteUser(request.authorizationHeader);
+    const patchBody = readQueryRequestBody(request.body);
+    const unknownFieldName = Object.keys(patchBody).find((fieldName) => !PATCH_FIELD_NAMES.includes(fieldName));
+    if (unknownFieldName) {
+      throw new MockKanaHttpError(400, `Unknown member '${unknownFieldName}'`);
+    }
+    if (!readVisualNovelFixture(visualNovelIdentifier)) {
+      throw new MockKanaHttpError(404, `No visual novel with ID '${visualNovelIdentifier}' in the mock fixtures`);
+    }
+
+    const { vote, notes, started, finished } = patchBody;
+    if (vote !== undefined && vote !== null && (!Number.isInteger(vote) || (vote as number) < 10 || (vote as number) > 100)) {
+      throw new MockKanaHttpError(400, 'Invalid "vote": expected an integer between 10 and 100, or null');
+    }
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+      throw new MockKanaHttpError(400, 'Invalid "notes": expected a string');
+    }
+    if ((started !== undefined && !isValidDateValue(started)) || (finished !== undefined && !isValidDateValue(finished))) {
+      throw new MockKanaHttpError(400, 'Invalid date: expected YYYY-MM-DD or null');
+    }
+
+    const replacementLabels = patchBody.labels === undefined ? null : readLabelIdentifierList(patchBody.labels, 'labels');
+    const labelsToSet = patchBody.labels_set === undefined ? [] : readLabelIdentifierList(patchBody.labels_set, 'labels_set');
+    const labelsToUnset = patchBody.labels_unset === undefined ? [] : readLabelIdentifierList(patchBody.labels_unset, 'labels_unset');
+    const unknownLabelIdentifier = [...(replacementLabels ?? []), ...labelsToSet, ...labelsToUnset]
+      .find((labelIdentifier) => !listOwner.labels.some((label) => label.id === labelIdentifier));
+    if (unknownLabelIdentifier !== undefined) {
+      throw new MockKanaHttpError(400, `Unknown label ID ${unknownLabelIdentifier}`);
+    }
+
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    let listEntry = listOwner.ulist.find((entry) => entry.id === visualNovelIdentifier);
+    if (!listEntry) {
+      listEntry = {
+        id: visualNovelIdentifier,
+        added: currentTimestamp,
+        lastmod: currentTimestamp,
+        voted: null,
+        vote: null,
+        started: null,
+        finished: null,
+        notes: '',
+        labels: []
+      };
+      listOwner.ulist.push(listEntry);
+    }
+
+    if (vote !== undefined) {
+      listEntry.vote = vote as number | null;
+      listEntry.voted = vote === null ? null : currentTimestamp;
+    }
+    if (notes !== undefined) listEntry.notes = (notes as string | null) ?? '';
+    if (started !== undefined) listEntry.started = started as string | null;
+    if (finished !== undefined) listEntry.finished = finished as string | null;
+
+    const nextLabels = new Set(replacementLabels ?? listEntry.labels);
+    labelsToSet.forEach((labelIdentifier) => nextLabels.add(labelIdentifier));
+    labelsToUnset.forEach((labelIdentifier) => nextLabels.delete(labelIdentifier));
+    nextLabels.delete(VOTED_LABEL_IDENTIFIER);
+    if (listEntry.vote !== null) {
+      nextLabels.add(VOTED_LABEL_IDENTIFIER);
+    }
+    listEntry.labels = [...nextLabels].sort((leftLabel, rightLabel) => leftLabel - rightLabel);
+    listEntry.lastmod = currentTimestamp;
+    return emptyResponse();
+  }
+
+  function handleUserListDelete(request: MockKanaRequest, visualNovelIdentifier: string) {
+    const listOwner = requireListWriteUser(request.authorizationHeader);
+    listOwner.ulist = listOwner.ulist.filter((entry) => entry.id !== visualNovelIdentifier);
+    return emptyResponse();
+  }
+
+  function routeRequest(request: MockKanaRequest): MockKanaResponse {
+    const endpointPath = request.path.split('?')[0].replace(/\/+$/, '');
+    const method = request.method.toUpperCase();
+
+    if (endpointPath === '/stats' && method === 'GET') {
+      return jsonResponse({
+        chars: dataset.character.length,
+        producers: dataset.producer.length,
+        releases: dataset.release.length,
+        staff: dataset.staff.length,
+        tags: dataset.tag.length,
+        traits: dataset.trait.length,
+        vn: dataset.vn.length
+      });
+    }
+
+    if (endpointPath === '/authinfo' && method === 'GET') {
+      const tokenUser = resolveTokenUser(request.authorizationHeader);
+      if (!tokenUser) {
+        throw new MockKanaHttpError(401, 'Missing token');
+      }
+      return jsonResponse({ id: tokenUser.id, username: tokenUser.username, permissions: tokenUser.permissions });
+    }
+
+    if (endpointPath === '/user' && method === 'GET') {
+      return handleUserLookup(request);
+    }
+
+    if (endpointPath === '/ulist_labels' && method === 'GET') {
+      return handleUserListLabelsQuery(request);
+    }
+
+    if (endpointPath === '/ulist' && method === 'POST') {
+      return handleUserListQuery(request);
+    }
+
+    const userListEntryMatch = /^\/ulist\/(v\d+)$/.exec(endpointPath);
+    if (userListEntryMatch && method === 'PATCH') {
+      return handleUserListPatch(request, userListEntryMatch[1]);
+    }
+    if (userListEntryMatch && method === 'DELETE') {
+      return handleUserListDelete(request, userListEntryMatch[1]);
+    }
+
+    const fixtureEndpointName = FIXTURE_ENDPOINT_NAMES.find((endpointName) => endpointPath === `/${endpointName}`);
+    if (fixtureEndpointName && method === 'POST') {
+      return jsonResponse(runKanaQuery(
+        endpointSchemas[fixtureEndpointName],
+        dataset[fixtureEndpointName],
+        readQueryRequestBody(request.body)
+      ));
+    }
+
+    throw new MockKanaHttpError(404, `No mock handler for ${method} ${endpointPath}`);
+  }
+
+  return {
+    handleRequest: (request) => {
+      try {
+        return routeRequest(request);
+      } catch (caughtError) {
+        if (caughtError instanceof MockKanaHttpError) {
+          return textResponse(caughtError.status, caughtError.message);
+        }
+        if (caughtError instanceof KanaQueryError) {
+          return textResponse(400, caughtError.message);
+        }
+        throw caughtError;
+      }
+    },
+    reset: () => {
+      mockUsers = structuredClone(fixtureUsers);
+    }
+  };
+}
+
+async function readRequestBody(incomingRequest: IncomingMessage) {
+  const bodyChunks: Buffer[] = [];
+  for await (const bodyChunk of incomingRequest) {
+    bodyChunks.push(bodyChunk as Buffer);
+  }
+  return Buffer.concat(bodyChunks).toString('utf8');
+}
+
+// Connect-style middleware; mount it at the proxy prefix so `req.url` is the Kana endpoint path.
+export function createMockKanaMiddleware(mockServer: MockKanaServer) {
+  return async (incomingRequest: IncomingMessage, serverResponse: ServerResponse) => {
+    const rawBody = await readRequestBody(incomingRequest);
+    let mockResponse: MockKanaResponse;
+    try {
+      mockResponse = mockServer.handleRequest({
+        method: incomingRequest.method ?? 'GET',
+        path: incomingRequest.url ?? '/',
+        authorizationHeader: incomingRequest.headers.authorization,
+        body: rawBody === '' ? undefined : JSON.parse(rawBody)
+      });
+    } catch (caughtError) {
+      mockResponse = caughtError instanceof SyntaxError
+        ? textResponse(400, 'Invalid JSON in request body')
+        : textResponse(500, caughtError instanceof Error ? caughtError.message : 'Mock server failure');
+    }
+
+    serverResponse.statusCode = mockResponse.status;
+    serverResponse.setHeader('Content-Type', mockResponse.contentType);
+    serverResponse.end(mockResponse.body);
+  };
+}
+
+// Serves `/api/vndb/*` from the mock instead of proxying to api.vndb.org.
+export function mockKanaServerPlugin(): Plugin {
+  return {
+    name: 'mock-kana-server',
+    apply: 'serve',
+    configureServer(devServer) {
+      devServer.middlewares.use('/api/vndb', createMockKanaMiddleware(createMockKanaServer()));
+      devServer.config.logger.info('  Serving /api/vndb from mock Kana fixtures (VNDB_API_BACKEND=mock)');
+    }
+  };
+}
@@ -0,0 +1,14 @@
+// Loaded into the generated service worker via `workbox.importScripts` (see vite.config.ts).
+// When Background Sync fires after connectivity returns, open app windows are asked to replay their queued
+// list changes; the token and the queue logic stay in the page (src/api/userListMutationQueue.ts).
+self.addEventListener('sync', (syncEvent) => {
+  if (syncEvent.tag !== 'vndb-user-list-mutations') {
+    return;
+  }
+
+  syncEvent.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      windowClients.forEach((windowClient) => windowClient.postMessage({ type: 'vndb-user-list-mutations-sync' }));
+    })
+  );
+});
@@ -1,14 +1,49 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { VisualNovelList } from './components/VisualNovelList';
 import { VisualNovelDetailView } from './components/VisualNovelDetailView';
 import { TagExplorer } from './components/TagExplorer';
+import { ReleaseTrackerView } from './components/ReleaseTrackerView';
+import { UserListStatisticsView } from './components/UserListStatisticsView';
+import { ProducerDetailView } from './components/ProducerDetailView';
+import { StaffDetailView } from './components/StaffDetailView';
+import { CharacterDetailView } from './components/CharacterDetailView';
 import {
-  addVisualNovelToAuthenticatedUserList,
+  clearCachedVisualNovelDatabaseResponses,
   fetchDatabaseStatistics,
   fetchAuthenticationInfoByToken,
+  fetchAuthenticatedUserListLabels,
+  fetchLatestVisualNovelIdentifier,
+  fetchVisualNovelMatchCount,
   prefetchVisualNovelCoreDetailsById,
-  updateAuthenticatedUserVisualNovelStatusLabel
+  replayQueuedUserListMutations,
+  submitUserListMutation,
+  VndbAuthenticationError,
+  VndbOfflineError,
+  VndbPermissionError
 } from './api/visualNovelClient';
+import {
+  describeUserListMutation,
+  discardQueuedUserListMutation,
+  retryQueuedUserListMutation,
+  subscribeToUserListMutationQueue,
+  subscribeToUserListMutationSyncRequests,
+  type QueuedUserListMutation,
+  type UserListMutation
+} from './api/userListMutationQueue';
+import { isAbortError } from './api/vndbRequestExecutor';
+import { buildAppRoutePath, parseAppRoute, type AppRoute } from './utils/appRoutes';
+import {
+  buildSavedSearchNewResultFilter,
+  createSavedSearch,
+  parseSavedSearches,
+  serializeSavedSearches,
+  updateSavedSearch,
+  type SavedSearch
+} from './utils/savedSearches';
+import { USER_LIST_STATUS_OPTIONS } from './utils/userListLabels';
+import { type ListQueryDescriptor } from './utils/visualNovelListQuery';
+import { describeVndbError } from './utils/vndbErrorPresentation';
+import { type UserListLabelDefinition, type UserVisualNovelListEntryDetails } from './types/apiTypes';
 
 interface TagSearchRequest {
   requestId: number;
@@ -22,6 +57,48 @@ interface DeveloperSearchRequest {
   developerIdentifier?: string;
 }
 
+// Producer/staff/character pages stack on top of the list and VN detail panes.
+interface EntityDetailTarget {
+  kind: 'producer' | 'staff' | 'character';
+  identifier: string;
+}
+
+// What each history entry remembers; entries also carry the matching route URL so links can be shared.
+interface NavigationHistoryState {
+  view?: 'list' | 'detail' | 'producer' | 'staff' | 'character';
+  visualNovelIdentifier?: string;
+  producerIdentifier?: string;
+  staffIdentifier?: string;
+  characterIdentifier?: string;
+}
+
+// Routes are written relative to Vite's base path so the app also works from a sub-directory.
+const APP_BASE_PATH = import.meta.env.BASE_URL.replace(/\/$/, '');
+
+function toAppUrl(routePath: string) {
+  return `${APP_BASE_PATH}${routePath}`;
+}
+
+function readCurrentAppRoute() {
+  const { pathname, search } = window.location;
+  return parseAppRoute(pathname.startsWith(APP_BASE_PATH) ? pathname.slice(APP_BASE_PATH.length) || '/' : pathname, search);
+}
+
+function buildRouteHistoryState(appRoute: AppRoute): NavigationHistoryState | null {
+  switch (appRoute.kind) {
+    case 'visual-novel':
+      return { view: 'detail', visualNovelIdentifier: appRoute.identifier };
+    case 'producer':
+      return { view: 'producer', producerIdentifier: appRoute.identifier };
+    case 'staff':
+      return { view: 'staff', staffIdentifier: appRoute.identifier };
+    case 'character':
+      return { view: 'character', characterIdentifier: appRoute.identifier };
+    default:
+      return null;
+  }
+}
+
 interface AuthenticatedSession {
   token: string;
   userId: string;
@@ -105,6 +182,7 @@ export default function RootApplication() {
   const ONBOARDING_COMPLETED_STORAGE_KEY = 'vndb_client_onboarding_completed_v1';
   const THEME_STORAGE_KEY = 'vndb_client_theme_v1';
   const DISPLAY_PREFERENCES_STORAGE_KEY = 'vndb_client_display_preferences_v1';
+  const SAVED_SEARCHES_STORAGE_KEY = 'vndb_client_saved_searches_v1';
   const THEME_OPTIONS: Array<{ id: ThemeIdentifier; label: string }> = [
     { id: 'midnight', label: 'Midnight (Dark)' },
     { id: 'aurora', label: 'Aurora (Dark)' },
@@ -121,10 +199,32 @@ export default function RootApplication() {
     defaultListOnlyWithScreenshots: false,
     defaultListOnlyWithDescription: false
   };
-  const [activeVisualNovelIdentifier, setActiveVisualNovelIdentifier] = useState<string | null>(null);
-  const [activeTagSearchRequest, setActiveTagSearchRequest] = useState<TagSearchRequest | null>(null);
-  const [activeDeveloperSearchRequest, setActiveDeveloperSearchRequest] = useState<DeveloperSearchRequest | null>(null);
+  // The address bar at load decides the first view, so shared links open the page they point at.
+  const [initialAppRoute] = useState<AppRoute>(readCurrentAppRoute);
+  const initialQueryDescriptor = initialAppRoute.kind === 'search' ? initialAppRoute.queryDescriptor : null;
+  const [activeVisualNovelIdentifier, setActiveVisualNovelIdentifier] = useState<string | null>(
+    initialAppRoute.kind === 'visual-novel' ? initialAppRoute.identifier : null
+  );
+  const [activeEntityDetailTarget, setActiveEntityDetailTarget] = useState<EntityDetailTarget | null>(
+    initialAppRoute.kind === 'producer' || initialAppRoute.kind === 'staff' || initialAppRoute.kind === 'character'
+      ? { kind: initialAppRoute.kind, identifier: initialAppRoute.identifier }
+      : null
+  );
+  const [activeTagSearchRequest, setActiveTagSearchRequest] = useState<TagSearchRequest | null>(
+    initialQueryDescriptor?.kind === 'tag'
+      ? { requestId: 0, tagName: initialQueryDescriptor.term, tagIdentifier: initialQueryDescriptor.tagIdentifier }
+      : null
+  );
+  const [activeDeveloperSearchRequest, setActiveDeveloperSearchRequest] = useState<DeveloperSearchRequest | null>(
+    initialQueryDescriptor?.kind === 'developer'
+      ? { requestId: 0, developerName: initialQueryDescriptor.term, developerIdentifier: initialQueryDescriptor.developerIdentifier }
+      : null
+  );
+  // URL of the list entry in history; kept here too because the list can finish a search while another entry is current.
+  const listRoutePathReference = useRef<string>(initialQueryDescriptor ? buildAppRoutePath(initialAppRoute) : '/');
   const [isTagExplorerVisible, setIsTagExplorerVisible] = useState<boolean>(false);
+  const [isUserStatisticsVisible, setIsUserStatisticsVisible] = useState<boolean>(false);
+  const [isReleaseTrackerVisible, setIsReleaseTrackerVisible] = useState<boolean>(false);
   const [isMenuPanelVisible, setIsMenuPanelVisible] = useState<boolean>(false);
   const [tokenInputValue, setTokenInputValue] = useState<string>('');
   const [authenticatedSession, setAuthenticatedSession] = useState<AuthenticatedSession | null>(null);
@@ -141,6 +241,20 @@ export default function RootApplication() {
   const [databaseStatisticsErrorMessage, setDatabaseStatisticsErrorMessage] = useState<string | null>(null);
   const [isBackToTopButtonVisible, setIsBackToTopButtonVisible] = useState<boolean>(false);
   const [displayPreferences, setDisplayPreferences] = useState<UserDisplayPreferences>(DEFAULT_DISPLAY_PREFERENCES);
+  const [isCacheClearInFlight, setIsCacheClearInFlight] = useState<boolean>(false);
+  const [cacheClearStatusMessage, setCacheClearStatusMessage] = useState<string | null>(null);
+  const [isBrowserOnline, setIsBrowserOnline] = useState<boolean>(() => navigator.onLine);
+  const [userListLabelDefinitions, setUserListLabelDefinitions] = useState<UserListLabelDefinition[]>([]);
+  const [queuedUserListMutations, setQueuedUserListMutations] = useState<QueuedUserListMutation[]>([]);
+  const [isUserListSyncInFlight, setIsUserListSyncInFlight] = useState<boolean>(false);
+  const [userListSyncStatusMessage, setUserListSyncStatusMessage] = useState<string | null>(null);
+  const [userListSyncRequestToken, setUserListSyncRequestToken] = useState<number>(0);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(
+    () => parseSavedSearches(window.localStorage.getItem(SAVED_SEARCHES_STORAGE_KEY))
+  );
+  const [savedSearchNewResultCounts, setSavedSearchNewResultCounts] = useState<Record<string, number>>({});
+  const [savedSearchRunRequest, setSavedSearchRunRequest] = useState<{ requestId: number; queryDescriptor: ListQueryDescriptor } | null>(null);
+  const savedSearchCountAbortControllerReference = useRef<AbortController | null>(null);
 
   function completeOnboarding() {
     window.localStorage.setItem(ONBOARDING_COMPLETED_STORAGE_KEY, 'true');
@@ -165,10 +279,11 @@ export default function RootApplication() {
       return true;
     } catch (caughtError) {
       setAuthenticatedSession(null);
-      window.localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
-      setAuthenticationErrorMessage(
-        caughtError instanceof Error ? caughtError.message : 'Unable to validate authentication token.'
-      );
+      // Only a rejected token is discarded; being offline or VNDB being down must not log the user out for good.
+      if (caughtError instanceof VndbAuthenticationError) {
+        window.localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+      }
+      setAuthenticationErrorMessage(describeVndbError(caughtError, 'Unable to validate authentication token.').message);
       return false;
     } finally {
       setIsAuthenticationInFlight(false);
@@ -177,21 +292,43 @@ export default function RootApplication() {
 
   // Keep browser history in sync with list/detail view so native back gestures behave consistently.
   useEffect(() => {
-    const existingHistoryState = window.history.state as { view?: string } | null;
-    if (!existingHistoryState || existingHistoryState.view !== 'list') {
-      window.history.replaceState({ view: 'list' }, '');
+    const existingHistoryState = window.history.state as NavigationHistoryState | null;
+    const routeHistoryState = buildRouteHistoryState(initialAppRoute);
+    // A reload keeps its history entries; a fresh visit to a page link gets the list underneath so Back stays in the app.
+    if (existingHistoryState?.view !== (routeHistoryState?.view ?? 'list')) {
+      window.history.replaceState({ view: 'list' }, '', toAppUrl(listRoutePathReference.current));
+      if (routeHistoryState) {
+        window.history.pushState(routeHistoryState, '', toAppUrl(buildAppRoutePath(initialAppRoute)));
+      }
     }
 
     function handleHistoryPopState(popStateEvent: PopStateEvent) {
-      const navigationState = popStateEvent.state as {
-        view?: 'list' | 'detail';
-        visualNovelIdentifier?: string;
-      } | null;
+      const navigationState = popStateEvent.state as NavigationHistoryState | null;
+
+      if (navigationState?.view === 'character' && navigationState.characterIdentifier) {
+        setActiveEntityDetailTarget({ kind: 'character', identifier: navigationState.characterIdentifier });
+        return;
+      }
 
+      if (navigationState?.view === 'producer' && navigationState.producerIdentifier) {
+        setActiveEntityDetailTarget({ kind: 'producer', identifier: navigationState.producerIdentifier });
+        return;
+      }
+
+      if (navigationState?.view === 'staff' && navigationState.staffIdentifier) {
+        setActiveEntityDetailTarget({ kind: 'staff', identifier: navigationState.staffIdentifier });
+        return;
+      }
+
+      setActiveEntityDetailTarget(null);
       if (navigationState?.view === 'detail' && navigationState.visualNovelIdentifier) {
         setActiveVisualNovelIdentifier(navigationState.visualNovelIdentifier);
       } else {
         setActiveVisualNovelIdentifier(null);
+        const listUrl = toAppUrl(listRoutePathReference.current);
+        if (`${window.location.pathname}${window.location.search}` !== listUrl) {
+          window.history.replaceState({ view: 'list' }, '', listUrl);
+        }
       }
     }
 
@@ -199,8 +336,110 @@ export default function RootApplication() {
     return () => {
       window.removeEventListener('popstate', handleHistoryPopState);
     };
+  }, [initialAppRoute]);
+
+  useEffect(() => {
+    function handleConnectivityChange() {
+      setIsBrowserOnline(navigator.onLine);
+    }
+
+    window.addEventListener('online', handleConnectivityChange);
+    window.addEventListener('offline', handleConnectivityChange);
+    return () => {
+      window.removeEventListener('online', handleConnectivityChange);
+      window.removeEventListener('offline', handleConnectivityChange);
+    };
   }, []);
 
+  useEffect(() => subscribeToUserListMutationQueue(setQueuedUserListMutations), []);
+
+  useEffect(() => subscribeToUserListMutationSyncRequests(() => {
+    setUserListSyncRequestToken((currentToken) => currentToken + 1);
+  }), []);
+
+  // Offline list changes replay on login, when the connection returns, when the service worker relays a
+  // Background Sync, and on "Sync Now". The replay is not aborted on re-runs so a started write always finishes.
+  useEffect(() => {
+    if (!authenticatedSession) {
+      return;
+    }
+
+    let hasLifecycleBeenCancelled = false;
+
+    async function replayUserListMutations(activeSession: AuthenticatedSession) {
+      setIsUserListSyncInFlight(true);
+      try {
+        const replaySummary = await replayQueuedUserListMutations(activeSession.token, activeSession.userId);
+        if (hasLifecycleBeenCancelled) {
+          return;
+        }
+
+        if (replaySummary.appliedCount > 0) {
+          setUserListRefreshToken((currentToken) => currentToken + 1);
+        }
+        if (replaySummary.interruptingError) {
+          setUserListSyncStatusMessage(replaySummary.interruptingError instanceof VndbOfflineError
+            ? 'Still offline. Queued changes will sync once VNDB is reachable.'
+            : describeVndbError(replaySummary.interruptingError, 'Unable to sync queued list changes.').message);
+        } else if (replaySummary.appliedCount > 0 || replaySummary.heldCount > 0) {
+          setUserListSyncStatusMessage(
+            `Synced ${replaySummary.appliedCount} queued change${replaySummary.appliedCount === 1 ? '' : 's'}.` +
+            (replaySummary.heldCount > 0 ? ` ${replaySummary.heldCount} still need${replaySummary.heldCount === 1 ? 's' : ''} your attention.` : '')
+          );
+        }
+      } catch (caughtError) {
+        if (!hasLifecycleBeenCancelled) {
+          setUserListSyncStatusMessage(describeVndbError(caughtError, 'Unable to sync queued list changes.').message);
+        }
+      } finally {
+        if (!hasLifecycleBeenCancelled) {
+          setIsUserListSyncInFlight(false);
+        }
+      }
+    }
+
+    replayUserListMutations(authenticatedSession);
+
+    return () => {
+      hasLifecycleBeenCancelled = true;
+    };
+  }, [authenticatedSession, userListSyncRequestToken]);
+
+  // Label definitions are shared by the list and detail views; counts refresh with every list change.
+  useEffect(() => {
+    if (!authenticatedSession) {
+      setUserListLabelDefinitions([]);
+      return;
+    }
+
+    let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
+
+    async function loadUserListLabelDefinitions(activeSession: AuthenticatedSession) {
+      try {
+        const labelDefinitions = await fetchAuthenticatedUserListLabels(
+          activeSession.token,
+          activeSession.userId,
+          lifecycleAbortController.signal
+        );
+        if (!hasLifecycleBeenCancelled) {
+          setUserListLabelDefinitions(labelDefinitions);
+        }
+      } catch (caughtError) {
+        if (!hasLifecycleBeenCancelled && !isAbortError(caughtError)) {
+          console.warn('Unable to load list labels:', caughtError);
+        }
+      }
+    }
+
+    loadUserListLabelDefinitions(authenticatedSession);
+
+    return () => {
+      hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
+    };
+  }, [authenticatedSession, userListRefreshToken]);
+
   // Boot-time auth restore: reuse saved token when present, otherwise show onboarding once.
   useEffect(() => {
     const hasOnboardingBeenCompleted = window.localStorage.getItem(ONBOARDING_COMPLETED_STORAGE_KEY) === 'true';
@@ -273,16 +512,23 @@ export default function RootApplication() {
     window.localStorage.setItem(DISPLAY_PREFERENCES_STORAGE_KEY, JSON.stringify(displayPreferences));
   }, [displayPreferences]);
 
+  useEffect(() => {
+    window.localStorage.setItem(SAVED_SEARCHES_STORAGE_KEY, serializeSavedSearches(savedSearches));
+  }, [savedSearches]);
+
+  useEffect(() => () => savedSearchCountAbortControllerReference.current?.abort(), []);
+
   useEffect(() => {
     if (!isMenuPanelVisible || databaseStatistics) {
       return;
     }
 
     let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
     setIsDatabaseStatisticsLoading(true);
     setDatabaseStatisticsErrorMessage(null);
 
-    fetchDatabaseStatistics()
+    fetchDatabaseStatistics(lifecycleAbortController.signal)
       .then((statisticsPayload) => {
         if (!hasLifecycleBeenCancelled) {
           setDatabaseStatistics(statisticsPayload);
@@ -290,9 +536,7 @@ export default function RootApplication() {
       })
       .catch((caughtError) => {
         if (!hasLifecycleBeenCancelled) {
-          setDatabaseStatisticsErrorMessage(
-            caughtError instanceof Error ? caughtError.message : 'Unable to retrieve VNDB statistics.'
-          );
+          setDatabaseStatisticsErrorMessage(describeVndbError(caughtError, 'Unable to retrieve VNDB statistics.').message);
         }
       })
       .finally(() => {
@@ -303,6 +547,7 @@ export default function RootApplication() {
 
     return () => {
       hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
     };
   }, [isMenuPanelVisible, databaseStatistics]);
 
@@ -338,8 +583,13 @@ export default function RootApplication() {
   }, []);
 
   function handleNavigateToDetailView(visualNovelIdentifier: string) {
+    setActiveEntityDetailTarget(null);
     setActiveVisualNovelIdentifier(visualNovelIdentifier);
-    window.history.pushState({ view: 'detail', visualNovelIdentifier }, '');
+    window.history.pushState(
+      { view: 'detail', visualNovelIdentifier },
+      '',
+      toAppUrl(buildAppRoutePath({ kind: 'visual-novel', identifier: visualNovelIdentifier }))
+    );
   }
 
   function handleVisualNovelPrefetch(visualNovelIdentifier: string) {
@@ -348,15 +598,59 @@ export default function RootApplication() {
 
   function handleNavigateToListView() {
     setIsTagExplorerVisible(false);
+    setIsUserStatisticsVisible(false);
+    setIsReleaseTrackerVisible(false);
     const currentHistoryState = window.history.state as { view?: string } | null;
-    if (currentHistoryState?.view === 'detail') {
+    if (
+      currentHistoryState?.view === 'detail' ||
+      currentHistoryState?.view === 'producer' ||
+      currentHistoryState?.view === 'staff' ||
+      currentHistoryState?.view === 'character'
+    ) {
       window.history.back();
       return;
     }
 
+    setActiveEntityDetailTarget(null);
     setActiveVisualNovelIdentifier(null);
   }
 
+  function handleNavigateToProducerView(producerIdentifier: string) {
+    setActiveEntityDetailTarget({ kind: 'producer', identifier: producerIdentifier });
+    window.history.pushState(
+      { view: 'producer', producerIdentifier },
+      '',
+      toAppUrl(buildAppRoutePath({ kind: 'producer', identifier: producerIdentifier }))
+    );
+  }
+
+  function handleNavigateToStaffView(staffIdentifier: string) {
+    setActiveEntityDetailTarget({ kind: 'staff', identifier: staffIdentifier });
+    window.history.pushState(
+      { view: 'staff', staffIdentifier },
+      '',
+      toAppUrl(buildAppRoutePath({ kind: 'staff', identifier: staffIdentifier }))
+    );
+  }
+
+  function handleNavigateToCharacterView(characterIdentifier: string) {
+    setActiveEntityDetailTarget({ kind: 'character', identifier: characterIdentifier });
+    window.history.pushState(
+      { view: 'character', characterIdentifier },
+      '',
+      toAppUrl(buildAppRoutePath({ kind: 'character', identifier: characterIdentifier }))
+    );
+  }
+
+  // The list entry's URL follows the search on screen; replacing it keeps typing from flooding the history.
+  function handleListQueryDescriptorChange(queryDescriptor: ListQueryDescriptor) {
+    listRoutePathReference.current = buildAppRoutePath({ kind: 'search', queryDescriptor });
+    const currentHistoryState = window.history.state as NavigationHistoryState | null;
+    if (currentHistoryState?.view === 'list') {
+      window.history.replaceState(currentHistoryState, '', toAppUrl(listRoutePathReference.current));
+    }
+  }
+
   function handleNavigateToHome() {
     setIsTagExplorerVisible(false);
     setActiveTagSearchRequest(null);
@@ -366,11 +660,32 @@ export default function RootApplication() {
   }
 
   function handleNavigateToTagExplorer() {
+    setActiveEntityDetailTarget(null);
     setActiveVisualNovelIdentifier(null);
+    setIsUserStatisticsVisible(false);
+    setIsReleaseTrackerVisible(false);
     setIsTagExplorerVisible(true);
     setIsMenuPanelVisible(false);
   }
 
+  function handleNavigateToUserStatistics() {
+    setActiveEntityDetailTarget(null);
+    setActiveVisualNovelIdentifier(null);
+    setIsTagExplorerVisible(false);
+    setIsReleaseTrackerVisible(false);
+    setIsUserStatisticsVisible(true);
+    setIsMenuPanelVisible(false);
+  }
+
+  function handleNavigateToReleaseTracker() {
+    setActiveEntityDetailTarget(null);
+    setActiveVisualNovelIdentifier(null);
+    setIsTagExplorerVisible(false);
+    setIsUserStatisticsVisible(false);
+    setIsReleaseTrackerVisible(true);
+    setIsMenuPanelVisible(false);
+  }
+
   function handleTagSelection(tagName: string, tagIdentifier?: string) {
     // Tag/developer navigation always returns to list and triggers a new list query context.
     handleNavigateToListView();
@@ -381,7 +696,76 @@ export default function RootApplication() {
     });
   }
 
+  // Counts VNs added since each saved search last ran. The counts are a hint only, so failed requests just leave them out.
+  async function refreshSavedSearchNewResultCounts() {
+    savedSearchCountAbortControllerReference.current?.abort();
+    const countAbortController = new AbortController();
+    savedSearchCountAbortControllerReference.current = countAbortController;
+    const countResults = await Promise.allSettled(savedSearches.map(async (savedSearch) => {
+      const newResultFilter = buildSavedSearchNewResultFilter(savedSearch);
+      return [
+        savedSearch.id,
+        newResultFilter ? await fetchVisualNovelMatchCount(newResultFilter, countAbortController.signal) : 0
+      ] as const;
+    }));
+    if (countAbortController.signal.aborted) {
+      return;
+    }
+
+    setSavedSearchNewResultCounts(Object.fromEntries(countResults.flatMap((countResult) => (
+      countResult.status === 'fulfilled' ? [countResult.value] : []
+    ))));
+  }
+
+  // Remembers the newest VN at run time so the next count only includes VNs added afterwards.
+  async function recordSavedSearchRun(savedSearchIdentifier: string) {
+    const lastRunAt = new Date().toISOString();
+    setSavedSearchNewResultCounts((currentCounts) => ({ ...currentCounts, [savedSearchIdentifier]: 0 }));
+    try {
+      const latestVisualNovelIdentifier = await fetchLatestVisualNovelIdentifier();
+      setSavedSearches((currentSearches) => updateSavedSearch(currentSearches, savedSearchIdentifier, {
+        lastRunAt,
+        latestVisualNovelIdentifierAtLastRun: latestVisualNovelIdentifier
+      }));
+    } catch {
+      setSavedSearches((currentSearches) => updateSavedSearch(currentSearches, savedSearchIdentifier, { lastRunAt }));
+    }
+  }
+
+  function handleSaveSearch(searchName: string, queryDescriptor: ListQueryDescriptor) {
+    const savedSearch = createSavedSearch(savedSearches, searchName, queryDescriptor);
+    setSavedSearches((currentSearches) => [...currentSearches, savedSearch]);
+    void recordSavedSearchRun(savedSearch.id);
+  }
+
+  function handleRunSavedSearch(savedSearchIdentifier: string) {
+    const savedSearch = savedSearches.find((existingSearch) => existingSearch.id === savedSearchIdentifier);
+    if (!savedSearch) {
+      return;
+    }
+
+    handleNavigateToListView();
+    setIsMenuPanelVisible(false);
+    setActiveTagSearchRequest(null);
+    setActiveDeveloperSearchRequest(null);
+    setSavedSearchRunRequest({ requestId: Date.now(), queryDescriptor: savedSearch.queryDescriptor });
+    void recordSavedSearchRun(savedSearchIdentifier);
+  }
+
+  function handleMenuPanelToggle() {
+    if (!isMenuPanelVisible && savedSearches.some((savedSearch) => savedSearch.isPinned)) {
+      void refreshSavedSearchNewResultCounts();
+    }
+    setIsMenuPanelVisible((currentVisibility) => !currentVisibility);
+  }
+
   function handleDeveloperSelection(developerName: string, developerIdentifier?: string) {
+    // Developer chips open the producer profile; a filtered search is only the fallback for unidentified credits.
+    if (developerIdentifier) {
+      handleNavigateToProducerView(developerIdentifier);
+      return;
+    }
+
     handleNavigateToListView();
     setActiveDeveloperSearchRequest({
       requestId: Date.now(),
@@ -435,39 +819,129 @@ export default function RootApplication() {
     handleNavigateToListView();
   }
 
+  // Expired or under-privileged tokens: drop the session and reopen the token form with an explanation.
+  function handleReauthenticationRequest() {
+    setAuthenticatedSession(null);
+    window.localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    setTokenInputValue('');
+    setAuthenticationErrorMessage('Paste a current VNDB API token (with listread/listwrite) to log in again.');
+    setIsMenuPanelVisible(true);
+  }
+
   function handleCancelLogout() {
     setIsLogoutConfirmationVisible(false);
   }
 
-  async function handleAddVisualNovelToUserList(visualNovelIdentifier: string, labelIdentifier = 5) {
-    // Write operations are centralized here so list/detail UIs share one permission gate.
+  // Write operations are centralized here so list/detail UIs share one permission gate.
+  // Writes made while VNDB is unreachable are queued and resolve as if applied; views update optimistically.
+  async function submitUserListWrite(
+    visualNovelIdentifier: string,
+    mutation: UserListMutation,
+    authenticationRequirement: string,
+    requestSignal?: AbortSignal
+  ) {
     if (!authenticatedSession) {
-      throw new Error('Authentication required to add visual novels to your list.');
+      throw new VndbAuthenticationError(`Authentication required to ${authenticationRequirement}.`);
     }
 
     if (!authenticatedSession.permissions.includes('listwrite')) {
-      throw new Error('Your token does not include `listwrite` permission.');
+      throw new VndbPermissionError('Your token does not include `listwrite` permission.', 'listwrite');
     }
 
-    await addVisualNovelToAuthenticatedUserList(authenticatedSession.token, visualNovelIdentifier, labelIdentifier);
+    await submitUserListMutation(authenticatedSession.token, authenticatedSession.userId, visualNovelIdentifier, mutation, requestSignal);
   }
 
-  async function handleUpdateVisualNovelUserListStatus(visualNovelIdentifier: string, statusLabelIdentifier: number) {
-    if (!authenticatedSession) {
-      throw new Error('Authentication required to update visual novel status.');
-    }
+  async function handleAddVisualNovelToUserList(visualNovelIdentifier: string, labelIdentifier = 5, requestSignal?: AbortSignal) {
+    await submitUserListWrite(visualNovelIdentifier, { kind: 'add', labelIdentifier }, 'add visual novels to your list', requestSignal);
+  }
 
-    if (!authenticatedSession.permissions.includes('listwrite')) {
-      throw new Error('Your token does not include `listwrite` permission.');
-    }
+  async function handleUpdateVisualNovelUserListStatus(
+    visualNovelIdentifier: string,
+    statusLabelIdentifier: number,
+    requestSignal?: AbortSignal
+  ) {
+    await submitUserListWrite(visualNovelIdentifier, { kind: 'status', statusLabelIdentifier }, 'update visual novel status', requestSignal);
+  }
+
+  async function handleUpdateVisualNovelUserListEntryDetails(
+    visualNovelIdentifier: string,
+    detailChanges: Partial<UserVisualNovelListEntryDetails>
+  ) {
+    await submitUserListWrite(visualNovelIdentifier, { kind: 'details', detailChanges }, 'edit your list entry');
+  }
+
+  async function handleUpdateVisualNovelUserListLabels(
+    visualNovelIdentifier: string,
+    labelChanges: { labelsToSet: number[]; labelsToUnset: number[] },
+    requestSignal?: AbortSignal
+  ) {
+    await submitUserListWrite(visualNovelIdentifier, { kind: 'labels', ...labelChanges }, 'change labels', requestSignal);
+  }
+
+  async function handlePatchVisualNovelUserListEntry(
+    visualNovelIdentifier: string,
+    entryChanges: {
+      labelsToSet: number[];
+      labelsToUnset: number[];
+      detailChanges: Partial<UserVisualNovelListEntryDetails>;
+    },
+    requestSignal?: AbortSignal
+  ) {
+    await submitUserListWrite(visualNovelIdentifier, { kind: 'patch', ...entryChanges }, 'import list entries', requestSignal);
+  }
+
+  async function handleRemoveVisualNovelFromUserList(visualNovelIdentifier: string, requestSignal?: AbortSignal) {
+    await submitUserListWrite(visualNovelIdentifier, { kind: 'remove' }, 'remove visual novels from your list', requestSignal);
+  }
+
+  function handleUserListSyncRequest() {
+    setUserListSyncStatusMessage(null);
+    setUserListSyncRequestToken((currentToken) => currentToken + 1);
+  }
+
+  async function handleQueuedUserListMutationRetry(sequenceNumber: number) {
+    await retryQueuedUserListMutation(sequenceNumber);
+    handleUserListSyncRequest();
+  }
+
+  // Discarding drops the optimistic change too, so list views reload to VNDB's copy.
+  async function handleQueuedUserListMutationDiscard(sequenceNumber: number) {
+    await discardQueuedUserListMutation(sequenceNumber);
+    handleUserListRefreshRequest();
+  }
 
-    await updateAuthenticatedUserVisualNovelStatusLabel(authenticatedSession.token, visualNovelIdentifier, statusLabelIdentifier);
+  async function handleClearCachedData() {
+    setIsCacheClearInFlight(true);
+    setCacheClearStatusMessage(null);
+    try {
+      await clearCachedVisualNovelDatabaseResponses();
+      setCacheClearStatusMessage('Cached VNDB data cleared.');
+    } catch {
+      setCacheClearStatusMessage('Unable to clear cached data.');
+    } finally {
+      setIsCacheClearInFlight(false);
+    }
   }
 
   function handleUserListRefreshRequest() {
     setUserListRefreshToken((currentToken) => currentToken + 1);
   }
 
+  // Logging out while the statistics view or release tracker is open falls back to the list.
+  const isUserStatisticsViewActive = isUserStatisticsVisible && authenticatedSession !== null;
+  const isReleaseTrackerViewActive = isReleaseTrackerVisible && authenticatedSession !== null;
+  const isSecondaryViewActive = isTagExplorerVisible || isUserStatisticsViewActive || isReleaseTrackerViewActive;
+
+  const pendingUserListMutations = authenticatedSession
+    ? queuedUserListMutations.filter((queuedMutation) => queuedMutation.userIdentifier === authenticatedSession.userId.toLowerCase())
+    : [];
+  const heldUserListMutationCount = pendingUserListMutations.filter((queuedMutation) => queuedMutation.replayFailure !== null).length;
+  const pinnedSavedSearches = savedSearches.filter((savedSearch) => savedSearch.isPinned);
+  const userListLabelNamesById: Record<number, string> = Object.fromEntries([
+    ...USER_LIST_STATUS_OPTIONS.map((statusOption) => [statusOption.id, statusOption.label]),
+    ...userListLabelDefinitions.map((labelDefinition) => [labelDefinition.id, labelDefinition.label])
+  ]);
+
   if (!isOnboardingCheckComplete) {
     return null;
   }
@@ -514,12 +988,25 @@ export default function RootApplication() {
           className={`menu-toggle-button ${isMenuPanelVisible ? 'is-hidden' : ''}`}
           aria-label="Open app menu"
           aria-expanded={isMenuPanelVisible}
-          onClick={() => setIsMenuPanelVisible((currentVisibility) => !currentVisibility)}
+          onClick={handleMenuPanelToggle}
         >
           Menu
         </button>
       </div>
 
+      {!isBrowserOnline && (
+        <div className="offline-status-banner" role="status">
+          You're offline. Previously loaded VNDB data is still available from cache; new requests resume when you reconnect.
+          {pendingUserListMutations.length > 0 && ` ${pendingUserListMutations.length} list change${pendingUserListMutations.length === 1 ? ' is' : 's are'} queued and will sync then.`}
+        </div>
+      )}
+
+      {isBrowserOnline && heldUserListMutationCount > 0 && (
+        <div className="offline-status-banner" role="status">
+          {heldUserListMutationCount} queued list change{heldUserListMutationCount === 1 ? '' : 's'} could not be synced. Open the menu to review.
+        </div>
+      )}
+
       {isMenuPanelVisible && (
         <div className="menu-overlay-layer" onClick={() => setIsMenuPanelVisible(false)} aria-hidden />
       )}
@@ -655,6 +1142,119 @@ export default function RootApplication() {
           </div>
         </div>
 
+        <div className="theme-settings-panel">
+          <p className="theme-settings-title">Storage</p>
+          <p className="menu-drawer-note">VNDB responses are cached on this device and refreshed in the background.</p>
+          <button type="button" className="header-auth-button" onClick={handleClearCachedData} disabled={isCacheClearInFlight}>
+            {isCacheClearInFlight ? 'Clearing...' : 'Clear Cached Data'}
+          </button>
+          {cacheClearStatusMessage && <p className="menu-stats-status">{cacheClearStatusMessage}</p>}
+        </div>
+
+        {authenticatedSession && (pendingUserListMutations.length > 0 || userListSyncStatusMessage) && (
+          <div className="theme-settings-panel">
+            <p className="theme-settings-title">Pending List Changes</p>
+            <p className="menu-drawer-note">
+              {pendingUserListMutations.length > 0
+                ? 'Changes made without a connection are sent to VNDB in order once it is reachable.'
+                : 'All list changes are synced.'}
+            </p>
+            {pendingUserListMutations.length > 0 && (
+              <ul className="pending-mutation-list">
+                {pendingUserListMutations.map((queuedMutation) => (
+                  <li
+                    key={queuedMutation.sequenceNumber}
+                    className={`pending-mutation-item ${queuedMutation.replayFailure ? 'is-held' : ''}`}
+                  >
+                    <span>
+                      <strong>{queuedMutation.visualNovelIdentifier}</strong> · {describeUserListMutation(queuedMutation.mutation, userListLabelNamesById)}
+                    </span>
+                    <span className="pending-mutation-meta">Queued {new Date(queuedMutation.queuedAt).toLocaleString()}</span>
+                    {queuedMutation.replayFailure && (
+                      <span className="pending-mutation-failure">{queuedMutation.replayFailure.message}</span>
+                    )}
+                    <div className="pending-mutation-actions">
+                      {queuedMutation.replayFailure && (
+                        <button
+                          type="button"
+                          className="menu-close-button"
+                          onClick={() => handleQueuedUserListMutationRetry(queuedMutation.sequenceNumber)}
+                        >
+                          {queuedMutation.replayFailure.kind === 'conflict' ? 'Apply Anyway' : 'Retry'}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className="menu-close-button"
+                        onClick={() => handleQueuedUserListMutationDiscard(queuedMutation.sequenceNumber)}
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {pendingUserListMutations.length > 0 && (
+              <button
+                type="button"
+                className="header-auth-button"
+                onClick={handleUserListSyncRequest}
+                disabled={isUserListSyncInFlight || !isBrowserOnline}
+              >
+                {isUserListSyncInFlight ? 'Syncing...' : 'Sync Now'}
+              </button>
+            )}
+            {userListSyncStatusMessage && <p className="menu-stats-status">{userListSyncStatusMessage}</p>}
+          </div>
+        )}
+
+        <div className="theme-settings-panel">
+          <p className="theme-settings-title">Saved Searches</p>
+          {pinnedSavedSearches.length === 0 ? (
+            <p className="menu-drawer-note">Pin searches from the Saved Searches panel above the list to run them from here.</p>
+          ) : (
+            <ul className="pending-mutation-list">
+              {pinnedSavedSearches.map((savedSearch) => (
+                <li key={savedSearch.id} className="pending-mutation-item">
+                  <span>
+                    <strong>{savedSearch.name}</strong>
+                    {(savedSearchNewResultCounts[savedSearch.id] ?? 0) > 0 && ` · ${savedSearchNewResultCounts[savedSearch.id]} new`}
+                  </span>
+                  {savedSearch.lastRunAt && (
+                    <span className="pending-mutation-meta">Last run {new Date(savedSearch.lastRunAt).toLocaleString()}</span>
+                  )}
+                  <div className="pending-mutation-actions">
+                    <button type="button" className="menu-close-button" onClick={() => handleRunSavedSearch(savedSearch.id)}>
+                      Run
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {authenticatedSession && (
+          <div className="theme-settings-panel">
+            <p className="theme-settings-title">Your Reading Stats</p>
+            <p className="menu-drawer-note">Statuses, votes, finishes over time, favourite developers and tags from your list.</p>
+            <button type="button" className="header-auth-button" onClick={handleNavigateToUserStatistics}>
+              Open Reading Stats
+            </button>
+          </div>
+        )}
+
+        {authenticatedSession && (
+          <div className="theme-settings-panel">
+            <p className="theme-settings-title">Release Tracker</p>
+            <p className="menu-drawer-note">Upcoming and recent releases of your wishlisted and playing VNs, in your languages and platforms.</p>
+            <button type="button" className="header-auth-button" onClick={handleNavigateToReleaseTracker}>
+              Open Release Tracker
+            </button>
+          </div>
+        )}
+
         <p className="menu-drawer-note">VNDB API v2 uses API tokens for authentication.</p>
         <section className="menu-stats-panel">
           <h3 className="menu-stats-title">VNDB Database Stats</h3>
@@ -702,8 +1302,8 @@ export default function RootApplication() {
       
       <section className="data-presentation-layer">
         <div
-          className={`view-pane ${activeVisualNovelIdentifier === null && !isTagExplorerVisible ? 'is-visible' : 'is-hidden'}`}
-          aria-hidden={activeVisualNovelIdentifier !== null || isTagExplorerVisible}
+          className={`view-pane ${activeVisualNovelIdentifier === null && activeEntityDetailTarget === null && !isSecondaryViewActive ? 'is-visible' : 'is-hidden'}`}
+          aria-hidden={activeVisualNovelIdentifier !== null || activeEntityDetailTarget !== null || isSecondaryViewActive}
         >
           <VisualNovelList
             onVisualNovelSelection={handleNavigateToDetailView}
@@ -714,20 +1314,35 @@ export default function RootApplication() {
             authenticatedSession={authenticatedSession}
             onAddVisualNovelToUserList={handleAddVisualNovelToUserList}
             onUpdateVisualNovelUserListStatus={handleUpdateVisualNovelUserListStatus}
+            onUpdateVisualNovelUserListEntryDetails={handleUpdateVisualNovelUserListEntryDetails}
+            onUpdateVisualNovelUserListLabels={handleUpdateVisualNovelUserListLabels}
+            onRemoveVisualNovelFromUserList={handleRemoveVisualNovelFromUserList}
+            onPatchVisualNovelUserListEntry={handlePatchVisualNovelUserListEntry}
+            userListLabelDefinitions={userListLabelDefinitions}
             userListRefreshToken={userListRefreshToken}
             onOpenTagExplorer={handleNavigateToTagExplorer}
+            onReauthenticationRequested={handleReauthenticationRequest}
             nsfwCoverBlurMode={displayPreferences.nsfwCoverBlurMode}
             rememberListSettings={displayPreferences.rememberListSettings}
             defaultListSortField={displayPreferences.defaultListSortField}
             defaultListSortDirection={displayPreferences.defaultListSortDirection}
             defaultListOnlyWithScreenshots={displayPreferences.defaultListOnlyWithScreenshots}
             defaultListOnlyWithDescription={displayPreferences.defaultListOnlyWithDescription}
+            initialQueryDescriptor={initialQueryDescriptor}
+            onQueryDescriptorChange={handleListQueryDescriptorChange}
+            savedSearches={savedSearches}
+            savedSearchNewResultCounts={savedSearchNewResultCounts}
+            savedSearchRunRequest={savedSearchRunRequest}
+            onSaveSearch={handleSaveSearch}
+            onRunSavedSearch={handleRunSavedSearch}
+            onSavedSearchesChange={setSavedSearches}
+            onSavedSearchPanelOpen={() => void refreshSavedSearchNewResultCounts()}
           />
         </div>
 
         <div
-          className={`view-pane ${activeVisualNovelIdentifier === null && isTagExplorerVisible ? 'is-visible' : 'is-hidden'}`}
-          aria-hidden={activeVisualNovelIdentifier !== null || !isTagExplorerVisible}
+          className={`view-pane ${activeVisualNovelIdentifier === null && activeEntityDetailTarget === null && isTagExplorerVisible ? 'is-visible' : 'is-hidden'}`}
+          aria-hidden={activeVisualNovelIdentifier !== null || activeEntityDetailTarget !== null || !isTagExplorerVisible}
         >
           <TagExplorer
             onBackToSearch={handleNavigateToHome}
@@ -735,8 +1350,43 @@ export default function RootApplication() {
           />
         </div>
 
+        {/* Mounted only while open: loading the statistics pulls the whole list with tags. */}
+        {isUserStatisticsViewActive && (
+          <div
+            className={`view-pane ${activeVisualNovelIdentifier === null && activeEntityDetailTarget === null ? 'is-visible' : 'is-hidden'}`}
+            aria-hidden={activeVisualNovelIdentifier !== null || activeEntityDetailTarget !== null}
+          >
+            <UserListStatisticsView
+              key={authenticatedSession.userId}
+              authenticatedSession={authenticatedSession}
+              userListLabelDefinitions={userListLabelDefinitions}
+              onBackToSearch={handleNavigateToHome}
+              onProducerSelection={handleNavigateToProducerView}
+              onTagSelection={handleTagSelection}
+            />
+          </div>
+        )}
+
+        {isReleaseTrackerViewActive && (
+          <div
+            className={`view-pane ${activeVisualNovelIdentifier === null && activeEntityDetailTarget === null ? 'is-visible' : 'is-hidden'}`}
+            aria-hidden={activeVisualNovelIdentifier !== null || activeEntityDetailTarget !== null}
+          >
+            <ReleaseTrackerView
+              key={authenticatedSession.userId}
+              authenticatedSession={authenticatedSession}
+              userListLabelDefinitions={userListLabelDefinitions}
+              onBackToSearch={handleNavigateToHome}
+              onVisualNovelSelection={handleNavigateToDetailView}
+            />
+          </div>
+        )}
+
         {activeVisualNovelIdentifier !== null && (
-          <div className="view-pane is-visible">
+          <div
+            className={`view-pane ${activeEntityDetailTarget === null ? 'is-visible' : 'is-hidden'}`}
+            aria-hidden={activeEntityDetailTarget !== null}
+          >
             <DetailViewErrorBoundary
               key={activeVisualNovelIdentifier}
               onNavigateBack={handleNavigateToListView}
@@ -748,14 +1398,54 @@ export default function RootApplication() {
                 onTagSelection={handleTagSelection}
                 onRelatedVisualNovelSelection={handleNavigateToDetailView}
                 onDeveloperSelection={handleDeveloperSelection}
+                onStaffSelection={handleNavigateToStaffView}
                 authenticatedSession={authenticatedSession}
                 onAddVisualNovelToUserList={handleAddVisualNovelToUserList}
+                onUpdateVisualNovelUserListStatus={handleUpdateVisualNovelUserListStatus}
+                onUpdateVisualNovelUserListEntryDetails={handleUpdateVisualNovelUserListEntryDetails}
+                onRemoveVisualNovelFromUserList={handleRemoveVisualNovelFromUserList}
+                onUpdateVisualNovelUserListLabels={handleUpdateVisualNovelUserListLabels}
+                userListLabelDefinitions={userListLabelDefinitions}
                 onUserListRefreshRequested={handleUserListRefreshRequest}
+                onReauthenticationRequested={handleReauthenticationRequest}
                 defaultTagSpoilerLevel={displayPreferences.defaultTagSpoilerLevel}
               />
             </DetailViewErrorBoundary>
           </div>
         )}
+
+        {activeEntityDetailTarget !== null && (
+          <div className="view-pane is-visible">
+            <DetailViewErrorBoundary
+              key={`${activeEntityDetailTarget.kind}-${activeEntityDetailTarget.identifier}`}
+              onNavigateBack={handleNavigateToListView}
+            >
+              {activeEntityDetailTarget.kind === 'producer' ? (
+                <ProducerDetailView
+                  producerIdentifier={activeEntityDetailTarget.identifier}
+                  onNavigateBack={handleNavigateToListView}
+                  onProducerSelection={handleNavigateToProducerView}
+                  onVisualNovelSelection={handleNavigateToDetailView}
+                  onVisualNovelPrefetch={handleVisualNovelPrefetch}
+                />
+              ) : activeEntityDetailTarget.kind === 'character' ? (
+                <CharacterDetailView
+                  characterIdentifier={activeEntityDetailTarget.identifier}
+                  onNavigateBack={handleNavigateToListView}
+                  onCharacterSelection={handleNavigateToCharacterView}
+                  onVisualNovelSelection={handleNavigateToDetailView}
+                />
+              ) : (
+                <StaffDetailView
+                  staffIdentifier={activeEntityDetailTarget.identifier}
+                  onNavigateBack={handleNavigateToListView}
+                  onVisualNovelSelection={handleNavigateToDetailView}
+                  onVisualNovelPrefetch={handleVisualNovelPrefetch}
+                />
+              )}
+            </DetailViewErrorBoundary>
+          </div>
+        )}
       </section>
 
       {isLogoutConfirmationVisible && (
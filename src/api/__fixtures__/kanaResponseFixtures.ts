@@ -0,0 +1,88 @@
+// Recorded Kana response bodies (trimmed to the selected fields) used by the client tests.
+
+function buildReleaseFixture(releaseIdentifier: string, releaseTitle: string, extlinks: Array<{ url: string; label: string; name: string }>) {
+  return {
+    id: releaseIdentifier,
+    title: releaseTitle,
+    languages: [{ lang: 'en', mtl: false }],
+    platforms: ['win'],
+    media: [],
+    released: '2011-11-11',
+    minage: 12,
+    patch: false,
+    freeware: false,
+    official: true,
+    resolution: [1280, 720],
+    voiced: 4,
+    animation: [null, null, null, null],
+    vns: [{ id: 'v17', rtype: 'complete' }],
+    extlinks
+  };
+}
+
+// `/release` for v17: duplicate store links across releases, blank fields and non-store links.
+export const releaseStoreLinkResponse = {
+  results: [
+    buildReleaseFixture('r100', 'Ever17 -the out of infinity- (Steam)', [
+      { url: ' https://store.steampowered.com/app/1193470/ ', label: 'Steam', name: 'steam' },
+      { url: 'https://vndb.org/r100', label: 'VNDB', name: 'vndb' },
+      { url: '', label: 'GOG', name: 'gog' }
+    ]),
+    buildReleaseFixture('r101', '', [
+      { url: 'https://store.steampowered.com/app/1193470/', label: 'Steam', name: 'steam' },
+      { url: 'https://www.gog.com/game/ever17', label: '', name: 'gog' },
+      { url: 'https://jastusa.com/games/ever17', label: 'JAST USA', name: '' },
+      { url: 'https://twitter.com/kid_official', label: 'Twitter', name: 'twitter' }
+    ]),
+    { ...buildReleaseFixture('r102', 'Ever17 (Japanese)', []), extlinks: null }
+  ],
+  more: false
+};
+
+// `/ulist` for u1001 filtered to v17, with `labels.id, labels.label`; IDs come back unprefixed from some deployments.
+export const userListFilteredEntryResponse = {
+  results: [
+    {
+      id: 17,
+      labels: [{ id: 2, label: 'Finished' }, { id: '7', label: 'Voted' }, { id: 10, label: 'Favorites' }],
+      vote: 85,
+      notes: 'Reread the final route.',
+      started: '2023-10-02',
+      finished: '2023-11-20'
+    }
+  ],
+  more: false
+};
+
+export const userListEmptyResponse = { results: [], more: false };
+
+// Paged `/ulist` scan used when the filtered lookup is rejected.
+export const userListLabelPageResponses = [
+  {
+    results: [
+      { id: 'v2002', labels: [{ id: 1, label: 'Playing' }] },
+      { id: 'v97', labels: [{ id: 5, label: 'Wishlist' }] }
+    ],
+    more: true
+  },
+  {
+    results: [{ id: 'v7', labels: [{ id: 4, label: 'Dropped' }, { id: 7, label: 'Voted' }], vote: 72 }],
+    more: false
+  }
+];
+
+// Identifier-only `/ulist` scan, used when label fields are rejected as well.
+export const userListIdentifierResponse = {
+  results: [{ id: 'v17' }, { id: 'v2002' }],
+  more: false
+};
+
+// `/ulist_labels` with `fields=count`; label IDs may arrive as strings.
+export const userListLabelsResponse = {
+  labels: [
+    { id: 1, label: 'Playing', private: false, count: 4 },
+    { id: 7, label: 'Voted', private: false, count: 12 },
+    { id: '10', label: 'Owned', private: false, count: 9 },
+    { id: 11, label: 'Re-read', private: true, count: 2 }
+  ]
+};
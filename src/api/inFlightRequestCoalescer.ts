@@ -0,0 +1,83 @@
+import { createAbortError } from './vndbRequestExecutor';
+
+interface InFlightRequest {
+  sharedPromise: Promise<unknown>;
+  sharedAbortController: AbortController;
+  subscriberCount: number;
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+// Concurrent callers with the same key share one underlying request. Each caller can still cancel on its own;
+// the shared request is only aborted once every subscriber has gone away.
+export function coalesceInFlightRequest<TPayload>(
+  requestKey: string,
+  loadPayload: (sharedSignal: AbortSignal) => Promise<TPayload>,
+  requestSignal?: AbortSignal
+): Promise<TPayload> {
+  if (requestSignal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  let inFlightRequest = inFlightRequests.get(requestKey);
+  if (!inFlightRequest) {
+    const sharedAbortController = new AbortController();
+    const createdRequest: InFlightRequest = {
+      sharedPromise: Promise.resolve(),
+      sharedAbortController,
+      subscriberCount: 0
+    };
+    createdRequest.sharedPromise = loadPayload(sharedAbortController.signal).finally(() => {
+      if (inFlightRequests.get(requestKey) === createdRequest) {
+        inFlightRequests.delete(requestKey);
+      }
+    });
+    inFlightRequests.set(requestKey, createdRequest);
+    inFlightRequest = createdRequest;
+  }
+
+  const subscribedRequest = inFlightRequest;
+  subscribedRequest.subscriberCount += 1;
+
+  return new Promise<TPayload>((resolve, reject) => {
+    let isSettled = false;
+
+    function handleAbort() {
+      if (isSettled) {
+        return;
+      }
+
+      isSettled = true;
+      subscribedRequest.subscriberCount -= 1;
+      if (subscribedRequest.subscriberCount === 0) {
+        subscribedRequest.sharedAbortController.abort();
+        if (inFlightRequests.get(requestKey) === subscribedRequest) {
+          inFlightRequests.delete(requestKey);
+        }
+      }
+      reject(createAbortError());
+    }
+
+    requestSignal?.addEventListener('abort', handleAbort, { once: true });
+    subscribedRequest.sharedPromise.then(
+      (sharedPayload) => {
+        if (isSettled) {
+          return;
+        }
+
+        isSettled = true;
+        requestSignal?.removeEventListener('abort', handleAbort);
+        resolve(sharedPayload as TPayload);
+      },
+      (sharedError: unknown) => {
+        if (isSettled) {
+          return;
+        }
+
+        isSettled = true;
+        requestSignal?.removeEventListener('abort', handleAbort);
+        reject(sharedError);
+      }
+    );
+  });
+}
@@ -0,0 +1,271 @@
+import { coalesceInFlightRequest } from './inFlightRequestCoalescer';
+
+// Bumped when cached payload shapes change; v2 holds only schema-decoded responses, v3 keeps the truncation
+// flag with collected release lists.
+const CACHE_DATABASE_NAME = 'vndb_client_query_cache_v3';
+const CACHE_DATABASE_VERSION = 1;
+const CACHE_OBJECT_STORE_NAME = 'entries';
+const CACHE_NAMESPACE_INDEX_NAME = 'namespace';
+
+export interface QueryCachePolicy {
+  // Entries younger than this are served without touching the network.
+  timeToLiveMilliseconds: number;
+  // Expired entries inside this extra window are served instantly while a background refresh runs.
+  staleWhileRevalidateMilliseconds: number;
+  // Least-recently-used entries beyond this count are evicted (per namespace, per tier).
+  maximumEntries: number;
+  // Token-scoped or private payloads stay in memory only.
+  persistToDisk: boolean;
+}
+
+interface StoredQueryCacheEntry {
+  storageKey: string;
+  namespace: string;
+  payload: unknown;
+  storedAt: number;
+  lastAccessedAt: number;
+}
+
+export interface CachedQueryEntry {
+  payload: unknown;
+  isStale: boolean;
+}
+
+export interface QueryCache {
+  readonly namespace: string;
+  read(cacheKey: string): Promise<CachedQueryEntry | null>;
+  write(cacheKey: string, payload: unknown): void;
+  clear(): Promise<void>;
+}
+
+const registeredQueryCaches: QueryCache[] = [];
+let cacheDatabasePromise: Promise<IDBDatabase | null> | null = null;
+
+function promisifyRequest<TResult>(databaseRequest: IDBRequest<TResult>): Promise<TResult> {
+  return new Promise((resolve, reject) => {
+    databaseRequest.onsuccess = () => resolve(databaseRequest.result);
+    databaseRequest.onerror = () => reject(databaseRequest.error);
+  });
+}
+
+// IndexedDB is optional (private browsing, old WebViews); every disk path degrades to memory-only on failure.
+function openCacheDatabase(): Promise<IDBDatabase | null> {
+  if (cacheDatabasePromise) {
+    return cacheDatabasePromise;
+  }
+
+  cacheDatabasePromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const openRequest = indexedDB.open(CACHE_DATABASE_NAME, CACHE_DATABASE_VERSION);
+      openRequest.onupgradeneeded = () => {
+        const upgradeDatabase = openRequest.result;
+        if (!upgradeDatabase.objectStoreNames.contains(CACHE_OBJECT_STORE_NAME)) {
+          const entryStore = upgradeDatabase.createObjectStore(CACHE_OBJECT_STORE_NAME, { keyPath: 'storageKey' });
+          entryStore.createIndex(CACHE_NAMESPACE_INDEX_NAME, 'namespace', { unique: false });
+        }
+      };
+      openRequest.onsuccess = () => resolve(openRequest.result);
+      openRequest.onerror = () => resolve(null);
+      openRequest.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+
+  return cacheDatabasePromise;
+}
+
+async function readStoredEntry(storageKey: string): Promise<StoredQueryCacheEntry | null> {
+  const cacheDatabase = await openCacheDatabase();
+  if (!cacheDatabase) {
+    return null;
+  }
+
+  try {
+    const readTransaction = cacheDatabase.transaction(CACHE_OBJECT_STORE_NAME, 'readonly');
+    const storedEntry = await promisifyRequest<StoredQueryCacheEntry | undefined>(
+      readTransaction.objectStore(CACHE_OBJECT_STORE_NAME).get(storageKey)
+    );
+    return storedEntry ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeStoredEntry(storedEntry: StoredQueryCacheEntry, maximumEntries: number) {
+  const cacheDatabase = await openCacheDatabase();
+  if (!cacheDatabase) {
+    return;
+  }
+
+  try {
+    const writeTransaction = cacheDatabase.transaction(CACHE_OBJECT_STORE_NAME, 'readwrite');
+    const entryStore = writeTransaction.objectStore(CACHE_OBJECT_STORE_NAME);
+    entryStore.put(storedEntry);
+
+    const namespaceIndex = entryStore.index(CACHE_NAMESPACE_INDEX_NAME);
+    const namespaceEntryCount = await promisifyRequest(namespaceIndex.count(storedEntry.namespace));
+    if (namespaceEntryCount > maximumEntries) {
+      const namespaceEntries = await promisifyRequest<StoredQueryCacheEntry[]>(namespaceIndex.getAll(storedEntry.namespace));
+      namespaceEntries
+        .sort((firstEntry, secondEntry) => firstEntry.lastAccessedAt - secondEntry.lastAccessedAt)
+        .slice(0, namespaceEntries.length - maximumEntries)
+        .forEach((evictedEntry) => entryStore.delete(evictedEntry.storageKey));
+    }
+  } catch {
+    // Disk cache writes are best-effort only.
+  }
+}
+
+async function deleteStoredEntries(storageKeys: string[]) {
+  const cacheDatabase = await openCacheDatabase();
+  if (!cacheDatabase || storageKeys.length === 0) {
+    return;
+  }
+
+  try {
+    const deleteTransaction = cacheDatabase.transaction(CACHE_OBJECT_STORE_NAME, 'readwrite');
+    const entryStore = deleteTransaction.objectStore(CACHE_OBJECT_STORE_NAME);
+    storageKeys.forEach((storageKey) => entryStore.delete(storageKey));
+  } catch {
+    // Ignore; expired entries are re-checked on every read anyway.
+  }
+}
+
+async function deleteStoredNamespace(namespace: string) {
+  const cacheDatabase = await openCacheDatabase();
+  if (!cacheDatabase) {
+    return;
+  }
+
+  try {
+    const deleteTransaction = cacheDatabase.transaction(CACHE_OBJECT_STORE_NAME, 'readwrite');
+    const entryStore = deleteTransaction.objectStore(CACHE_OBJECT_STORE_NAME);
+    const namespaceKeys = await promisifyRequest(entryStore.index(CACHE_NAMESPACE_INDEX_NAME).getAllKeys(namespace));
+    namespaceKeys.forEach((storageKey) => entryStore.delete(storageKey));
+  } catch {
+    // Ignore; the in-memory tier is already cleared.
+  }
+}
+
+// Two-tier cache: an in-memory LRU `Map` in front of an IndexedDB store shared by all namespaces.
+export function createQueryCache(namespace: string, policy: QueryCachePolicy): QueryCache {
+  const memoryEntries = new Map<string, StoredQueryCacheEntry>();
+
+  function buildStorageKey(cacheKey: string) {
+    return `${namespace}|${cacheKey}`;
+  }
+
+  function rememberInMemory(cacheKey: string, storedEntry: StoredQueryCacheEntry) {
+    // Re-inserting moves the key to the end of Map iteration order, which doubles as LRU order.
+    memoryEntries.delete(cacheKey);
+    memoryEntries.set(cacheKey, storedEntry);
+    while (memoryEntries.size > policy.maximumEntries) {
+      const leastRecentlyUsedKey = memoryEntries.keys().next().value;
+      if (leastRecentlyUsedKey === undefined) {
+        break;
+      }
+      memoryEntries.delete(leastRecentlyUsedKey);
+    }
+  }
+
+  const queryCache: QueryCache = {
+    namespace,
+    async read(cacheKey) {
+      const storageKey = buildStorageKey(cacheKey);
+      let storedEntry = memoryEntries.get(cacheKey) ?? null;
+      const isDiskHit = !storedEntry && policy.persistToDisk;
+      if (isDiskHit) {
+        storedEntry = await readStoredEntry(storageKey);
+      }
+
+      if (!storedEntry) {
+        return null;
+      }
+
+      const currentTimestamp = Date.now();
+      const entryAge = currentTimestamp - storedEntry.storedAt;
+      if (entryAge > policy.timeToLiveMilliseconds + policy.staleWhileRevalidateMilliseconds) {
+        memoryEntries.delete(cacheKey);
+        if (policy.persistToDisk) {
+          void deleteStoredEntries([storageKey]);
+        }
+        return null;
+      }
+
+      const touchedEntry = { ...storedEntry, lastAccessedAt: currentTimestamp };
+      rememberInMemory(cacheKey, touchedEntry);
+      if (isDiskHit) {
+        // Memory hits skip the disk touch; entries that stay hot in memory are rewritten on revalidation anyway.
+        void writeStoredEntry(touchedEntry, policy.maximumEntries);
+      }
+      return {
+        payload: storedEntry.payload,
+        isStale: entryAge > policy.timeToLiveMilliseconds
+      };
+    },
+    write(cacheKey, payload) {
+      const currentTimestamp = Date.now();
+      const storedEntry: StoredQueryCacheEntry = {
+        storageKey: buildStorageKey(cacheKey),
+        namespace,
+        payload,
+        storedAt: currentTimestamp,
+        lastAccessedAt: currentTimestamp
+      };
+      rememberInMemory(cacheKey, storedEntry);
+      if (policy.persistToDisk) {
+        void writeStoredEntry(storedEntry, policy.maximumEntries);
+      }
+    },
+    async clear() {
+      memoryEntries.clear();
+      if (policy.persistToDisk) {
+        await deleteStoredNamespace(namespace);
+      }
+    }
+  };
+
+  registeredQueryCaches.push(queryCache);
+  return queryCache;
+}
+
+// Stale-while-revalidate read: fresh hits return directly, stale hits return instantly and refresh in the
+// background, misses load through `loadPayload`. Loads are coalesced per key, so a hover prefetch and the
+// detail view mounting for the same entry share one request. Background refreshes run without the caller's
+// abort signal so leaving a view does not cancel the cache update.
+export async function readThroughQueryCache<TPayload>(
+  queryCache: QueryCache,
+  cacheKey: string,
+  loadPayload: (requestSignal?: AbortSignal) => Promise<TPayload>,
+  requestSignal?: AbortSignal
+): Promise<TPayload> {
+  const cachedEntry = await queryCache.read(cacheKey);
+  if (cachedEntry && !cachedEntry.isStale) {
+    return cachedEntry.payload as TPayload;
+  }
+
+  const loadAndStorePayload = (sharedSignal: AbortSignal) => loadPayload(sharedSignal).then((loadedPayload) => {
+    queryCache.write(cacheKey, loadedPayload);
+    return loadedPayload;
+  });
+  const inFlightRequestKey = `${queryCache.namespace}|${cacheKey}`;
+
+  if (cachedEntry) {
+    coalesceInFlightRequest(inFlightRequestKey, loadAndStorePayload).catch(() => {
+      // Keep serving the stale payload; the next read retries.
+    });
+    return cachedEntry.payload as TPayload;
+  }
+
+  return coalesceInFlightRequest(inFlightRequestKey, loadAndStorePayload, requestSignal);
+}
+
+export async function clearAllQueryCaches() {
+  await Promise.all(registeredQueryCaches.map((queryCache) => queryCache.clear()));
+}
@@ -0,0 +1,189 @@
+import { VndbClientError } from './vndbErrors';
+
+// A decoder validates one value and returns it in normalized form, or throws `VndbDecodeError` naming the
+// offending field. Field paths read like property access, e.g. `/vn.results[3].image.sexual`.
+export type Decoder<TValue> = (rawValue: unknown, fieldPath: string) => TValue;
+
+export type DecoderShape<TObject> = { [TKey in keyof TObject]-?: Decoder<TObject[TKey]> };
+
+const MAXIMUM_RECEIVED_PREVIEW_LENGTH = 60;
+
+function describeReceivedValue(rawValue: unknown) {
+  if (rawValue === undefined) {
+    return 'nothing';
+  }
+  if (rawValue === null) {
+    return 'null';
+  }
+  if (Array.isArray(rawValue)) {
+    return 'an array';
+  }
+  if (typeof rawValue === 'object') {
+    return 'an object';
+  }
+
+  const serializedValue = JSON.stringify(rawValue) ?? String(rawValue);
+  return serializedValue.length > MAXIMUM_RECEIVED_PREVIEW_LENGTH
+    ? `${serializedValue.slice(0, MAXIMUM_RECEIVED_PREVIEW_LENGTH)}...`
+    : serializedValue;
+}
+
+export class VndbDecodeError extends VndbClientError {
+  readonly fieldPath: string;
+  readonly expectation: string;
+
+  constructor(fieldPath: string, expectation: string, receivedValue: unknown) {
+    super('decode', `Response decode failure: expected ${expectation} at ${fieldPath}, received ${describeReceivedValue(receivedValue)}.`);
+    this.name = 'VndbDecodeError';
+    this.fieldPath = fieldPath;
+    this.expectation = expectation;
+  }
+}
+
+function isPlainObject(rawValue: unknown): rawValue is Record<string, unknown> {
+  return typeof rawValue === 'object' && rawValue !== null && !Array.isArray(rawValue);
+}
+
+export const decodeString: Decoder<string> = (rawValue, fieldPath) => {
+  if (typeof rawValue !== 'string') {
+    throw new VndbDecodeError(fieldPath, 'a string', rawValue);
+  }
+  return rawValue;
+};
+
+export const decodeNumber: Decoder<number> = (rawValue, fieldPath) => {
+  if (typeof rawValue !== 'number' || !Number.isFinite(rawValue)) {
+    throw new VndbDecodeError(fieldPath, 'a number', rawValue);
+  }
+  return rawValue;
+};
+
+export const decodeBoolean: Decoder<boolean> = (rawValue, fieldPath) => {
+  if (typeof rawValue !== 'boolean') {
+    throw new VndbDecodeError(fieldPath, 'a boolean', rawValue);
+  }
+  return rawValue;
+};
+
+// Numbers that some endpoints serialize as strings (e.g. ulist label IDs).
+export const decodeNumericValue: Decoder<number> = (rawValue, fieldPath) => {
+  const numericValue = typeof rawValue === 'string' && rawValue.trim() !== '' ? Number(rawValue) : rawValue;
+  if (typeof numericValue !== 'number' || !Number.isFinite(numericValue)) {
+    throw new VndbDecodeError(fieldPath, 'a number or numeric string', rawValue);
+  }
+  return numericValue;
+};
+
+// VNDB IDs arrive as `v17`, `V17`, `"17"` or `17` depending on endpoint and field; all become `v17`.
+export function decodeVndbIdentifier(identifierPrefix: string): Decoder<string> {
+  const identifierPattern = new RegExp(`^${identifierPrefix}?(\\d+)$`, 'i');
+  return (rawValue, fieldPath) => {
+    const identifierMatch = typeof rawValue === 'string'
+      ? rawValue.trim().match(identifierPattern)
+      : typeof rawValue === 'number' && Number.isInteger(rawValue) && rawValue > 0
+        ? [String(rawValue), String(rawValue)]
+        : null;
+    if (!identifierMatch) {
+      throw new VndbDecodeError(fieldPath, `a ${identifierPrefix}-prefixed VNDB identifier`, rawValue);
+    }
+    return `${identifierPrefix}${Number(identifierMatch[1])}`;
+  };
+}
+
+export function decodeLiteral<TLiteral extends string | number>(...allowedValues: TLiteral[]): Decoder<TLiteral> {
+  return (rawValue, fieldPath) => {
+    if (!allowedValues.includes(rawValue as TLiteral)) {
+      throw new VndbDecodeError(fieldPath, `one of ${allowedValues.map((allowedValue) => JSON.stringify(allowedValue)).join(', ')}`, rawValue);
+    }
+    return rawValue as TLiteral;
+  };
+}
+
+// Missing and null both decode to null; Kana omits unselected fields and nulls unknown ones.
+export function decodeNullable<TValue>(decodeValue: Decoder<TValue>): Decoder<TValue | null> {
+  return (rawValue, fieldPath) => (rawValue === undefined || rawValue === null ? null : decodeValue(rawValue, fieldPath));
+}
+
+export function decodeOptional<TValue>(decodeValue: Decoder<TValue>): Decoder<TValue | undefined> {
+  return (rawValue, fieldPath) => (rawValue === undefined ? undefined : decodeValue(rawValue, fieldPath));
+}
+
+export function decodeArray<TValue>(decodeElement: Decoder<TValue>): Decoder<TValue[]> {
+  return (rawValue, fieldPath) => {
+    if (!Array.isArray(rawValue)) {
+      throw new VndbDecodeError(fieldPath, 'an array', rawValue);
+    }
+    return rawValue.map((rawElement, elementIndex) => decodeElement(rawElement, `${fieldPath}[${elementIndex}]`));
+  };
+}
+
+// Tries each decoder in turn; the error names every accepted form when none matches.
+export function decodeEither<TFirst, TSecond>(
+  decodeFirst: Decoder<TFirst>,
+  decodeSecond: Decoder<TSecond>,
+  expectation: string
+): Decoder<TFirst | TSecond> {
+  return (rawValue, fieldPath) => {
+    try {
+      return decodeFirst(rawValue, fieldPath);
+    } catch (caughtError) {
+      if (!(caughtError instanceof VndbDecodeError)) {
+        throw caughtError;
+      }
+    }
+
+    try {
+      return decodeSecond(rawValue, fieldPath);
+    } catch (caughtError) {
+      if (caughtError instanceof VndbDecodeError && caughtError.fieldPath === fieldPath) {
+        throw new VndbDecodeError(fieldPath, expectation, rawValue);
+      }
+      throw caughtError;
+    }
+  };
+}
+
+// Unknown keys are dropped so only the declared contract reaches components and caches.
+export function decodeObject<TObject>(shape: DecoderShape<TObject>): Decoder<TObject> {
+  return (rawValue, fieldPath) => {
+    if (!isPlainObject(rawValue)) {
+      throw new VndbDecodeError(fieldPath, 'an object', rawValue);
+    }
+
+    const decodedObject = {} as TObject;
+    (Object.keys(shape) as Array<keyof TObject>).forEach((shapeKey) => {
+      const decodedValue = shape[shapeKey](rawValue[shapeKey as string], `${fieldPath}.${String(shapeKey)}`);
+      if (decodedValue !== undefined) {
+        decodedObject[shapeKey] = decodedValue;
+      }
+    });
+    return decodedObject;
+  };
+}
+
+// For queries that select only a subset of an entry's fields: absent keys are skipped instead of failing,
+// while `requiredKeys` must always be present.
+export function decodePartialObject<TObject, TRequiredKey extends keyof TObject>(
+  shape: DecoderShape<TObject>,
+  requiredKeys: TRequiredKey[]
+): Decoder<Partial<TObject> & Pick<TObject, TRequiredKey>> {
+  return (rawValue, fieldPath) => {
+    if (!isPlainObject(rawValue)) {
+      throw new VndbDecodeError(fieldPath, 'an object', rawValue);
+    }
+
+    const decodedObject = {} as Partial<TObject> & Pick<TObject, TRequiredKey>;
+    (Object.keys(shape) as Array<keyof TObject>).forEach((shapeKey) => {
+      const rawFieldValue = rawValue[shapeKey as string];
+      if (rawFieldValue === undefined && !requiredKeys.includes(shapeKey as TRequiredKey)) {
+        return;
+      }
+
+      const decodedValue = shape[shapeKey](rawFieldValue, `${fieldPath}.${String(shapeKey)}`);
+      if (decodedValue !== undefined) {
+        decodedObject[shapeKey] = decodedValue;
+      }
+    });
+    return decodedObject;
+  };
+}
@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  applyQueuedUserListMutations,
+  detectUserListMutationConflict,
+  discardQueuedUserListMutation,
+  enqueueUserListMutation,
+  readQueuedUserListMutations,
+  replayUserListMutationQueue,
+  retryQueuedUserListMutation,
+  type QueuedUserListMutation,
+  type UserListMutation
+} from './userListMutationQueue';
+import { VndbOfflineError } from './vndbErrors';
+
+function buildQueuedMutation(visualNovelIdentifier: string, mutation: UserListMutation, sequenceNumber = 1): QueuedUserListMutation {
+  return {
+    sequenceNumber,
+    userIdentifier: 'u1001',
+    visualNovelIdentifier,
+    mutation,
+    queuedAt: 1_700_000_000_000,
+    conflictBaselineAt: 1_700_000_000_000,
+    replayFailure: null,
+    shouldIgnoreConflicts: false
+  };
+}
+
+afterEach(async () => {
+  const queuedMutations = await readQueuedUserListMutations();
+  for (const queuedMutation of queuedMutations) {
+    await discardQueuedUserListMutation(queuedMutation.sequenceNumber);
+  }
+});
+
+describe('applyQueuedUserListMutations', () => {
+  const serverEntries = [
+    { id: 'v17', labels: [{ id: 2, label: 'Finished' }, { id: 10, label: 'Favourites' }], vote: null },
+    { id: 'v97', labels: [{ id: 1, label: 'Playing' }] }
+  ];
+
+  it('applies status, label and detail changes in queue order', () => {
+    const overlaidEntries = applyQueuedUserListMutations(serverEntries, [
+      buildQueuedMutation('v17', { kind: 'status', statusLabelIdentifier: 1 }, 1),
+      buildQueuedMutation('v17', { kind: 'labels', labelsToSet: [11], labelsToUnset: [10] }, 2),
+      buildQueuedMutation('v17', { kind: 'details', detailChanges: { vote: 80, notes: 'Again.' } }, 3)
+    ]);
+
+    expect(overlaidEntries[0]).toEqual({
+      id: 'v17',
+      labels: [{ id: 1 }, { id: 11 }, { id: 7 }],
+      vote: 80,
+      notes: 'Again.'
+    });
+    expect(overlaidEntries[1]).toBe(serverEntries[1]);
+  });
+
+  it('drops removed entries and appends queued additions as id-only entries', () => {
+    const overlaidEntries = applyQueuedUserListMutations(serverEntries, [
+      buildQueuedMutation('v97', { kind: 'remove' }, 1),
+      buildQueuedMutation('v4', { kind: 'add', labelIdentifier: 5 }, 2),
+      buildQueuedMutation('v2002', { kind: 'status', statusLabelIdentifier: 2 }, 3)
+    ]);
+
+    expect(overlaidEntries.map((userListEntry) => userListEntry.id)).toEqual(['v17', 'v4']);
+    expect(overlaidEntries[1]).toEqual({ id: 'v4', labels: [{ id: 5 }] });
+  });
+});
+
+describe('detectUserListMutationConflict', () => {
+  const statusMutation = buildQueuedMutation('v17', { kind: 'status', statusLabelIdentifier: 1 });
+
+  it('reports entries changed on VNDB after the baseline, allowing for clock skew', () => {
+    expect(detectUserListMutationConflict(statusMutation, { isInList: true, lastModifiedAt: statusMutation.queuedAt + 30_000 })).toBeNull();
+    expect(detectUserListMutationConflict(statusMutation, { isInList: true, lastModifiedAt: statusMutation.queuedAt + 3_600_000 }))
+      .toMatch(/changed on VNDB/);
+  });
+
+  it('reports edits to entries removed on VNDB but not removals or additions', () => {
+    const absentEntry = { isInList: false, lastModifiedAt: null };
+    expect(detectUserListMutationConflict(statusMutation, absentEntry)).toMatch(/removed from your list/);
+    expect(detectUserListMutationConflict(buildQueuedMutation('v17', { kind: 'remove' }), absentEntry)).toBeNull();
+    expect(detectUserListMutationConflict(buildQueuedMutation('v17', { kind: 'add', labelIdentifier: 5 }), absentEntry)).toBeNull();
+  });
+});
+
+describe('replayUserListMutationQueue', () => {
+  it('replays in order and holds later changes to a conflicting entry only', async () => {
+    await enqueueUserListMutation('u1001', 'v17', { kind: 'status', statusLabelIdentifier: 1 });
+    await enqueueUserListMutation('u1001', 'v97', { kind: 'remove' });
+    await enqueueUserListMutation('u1001', 'v17', { kind: 'details', detailChanges: { vote: 90 } });
+    await enqueueUserListMutation('u1002', 'v4', { kind: 'remove' });
+    const appliedMutations: string[] = [];
+
+    const replaySummary = await replayUserListMutationQueue({
+      userIdentifier: 'u1001',
+      readServerEntry: async (visualNovelIdentifier) => ({
+        isInList: true,
+        lastModifiedAt: visualNovelIdentifier === 'v17' ? Date.now() + 3_600_000 : null
+      }),
+      applyMutation: async (queuedMutation) => {
+        appliedMutations.push(`${queuedMutation.visualNovelIdentifier}:${queuedMutation.mutation.kind}`);
+      }
+    });
+
+    expect(replaySummary).toEqual({ appliedCount: 1, heldCount: 2, interruptingError: null });
+    expect(appliedMutations).toEqual(['v97:remove']);
+    const remainingMutations = await readQueuedUserListMutations('u1001');
+    expect(remainingMutations.map((queuedMutation) => queuedMutation.replayFailure?.kind ?? null)).toEqual(['conflict', null]);
+    expect(await readQueuedUserListMutations('u1002')).toHaveLength(1);
+  });
+
+  it('applies a conflicting change anyway after a retry', async () => {
+    const queuedMutation = await enqueueUserListMutation('u1001', 'v17', { kind: 'status', statusLabelIdentifier: 1 });
+    const replayOptions = {
+      userIdentifier: 'u1001',
+      readServerEntry: async () => ({ isInList: false, lastModifiedAt: null }),
+      applyMutation: async () => undefined
+    };
+
+    await replayUserListMutationQueue(replayOptions);
+    await retryQueuedUserListMutation(queuedMutation.sequenceNumber);
+    const replaySummary = await replayUserListMutationQueue(replayOptions);
+
+    expect(replaySummary.appliedCount).toBe(1);
+    expect(await readQueuedUserListMutations()).toEqual([]);
+  });
+
+  it('shares an in-flight replay per user without blocking another user', async () => {
+    await enqueueUserListMutation('u1001', 'v17', { kind: 'remove' });
+    await enqueueUserListMutation('u1002', 'v97', { kind: 'remove' });
+    const appliedMutations: string[] = [];
+    const buildReplayOptions = (userIdentifier: string) => ({
+      userIdentifier,
+      readServerEntry: async () => ({ isInList: true, lastModifiedAt: null }),
+      applyMutation: async (queuedMutation: QueuedUserListMutation) => {
+        appliedMutations.push(`${queuedMutation.userIdentifier}:${queuedMutation.visualNovelIdentifier}`);
+      }
+    });
+
+    const firstReplay = replayUserListMutationQueue(buildReplayOptions('u1001'));
+    const repeatedReplay = replayUserListMutationQueue(buildReplayOptions('u1001'));
+    const otherUserReplay = replayUserListMutationQueue(buildReplayOptions('u1002'));
+
+    expect(repeatedReplay).toBe(firstReplay);
+    expect(otherUserReplay).not.toBe(firstReplay);
+    expect(await otherUserReplay).toMatchObject({ appliedCount: 1 });
+    expect(await firstReplay).toMatchObject({ appliedCount: 1 });
+    expect(appliedMutations.sort()).toEqual(['u1001:v17', 'u1002:v97']);
+    expect(await readQueuedUserListMutations()).toEqual([]);
+  });
+
+  it('stops at connectivity errors and keeps the rest queued', async () => {
+    await enqueueUserListMutation('u1001', 'v17', { kind: 'add', labelIdentifier: 5 });
+    await enqueueUserListMutation('u1001', 'v97', { kind: 'remove' });
+    const offlineError = new VndbOfflineError("You're offline.", true);
+
+    const replaySummary = await replayUserListMutationQueue({
+      userIdentifier: 'u1001',
+      readServerEntry: async () => ({ isInList: false, lastModifiedAt: null }),
+      applyMutation: async () => {
+        throw offlineError;
+      }
+    });
+
+    expect(replaySummary).toEqual({ appliedCount: 0, heldCount: 0, interruptingError: offlineError });
+    const remainingMutations = await readQueuedUserListMutations('u1001');
+    expect(remainingMutations.map((queuedMutation) => queuedMutation.replayFailure)).toEqual([null, null]);
+  });
+});
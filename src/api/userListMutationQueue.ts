@@ -0,0 +1,492 @@
+import type { UserVisualNovelListEntry, UserVisualNovelListEntryDetails } from '../types/apiTypes';
+import { USER_LIST_STATUS_LABEL_IDENTIFIERS, VOTED_USER_LIST_LABEL_IDENTIFIER } from '../utils/userListLabels';
+import { isAbortError } from './vndbRequestExecutor';
+import { VndbClientError } from './vndbErrors';
+
+// List writes made while VNDB is unreachable are kept here (IndexedDB, memory-only as a fallback) and replayed
+// in order once the connection returns. Views read the list through `applyQueuedUserListMutations`, so queued
+// changes show up immediately even though VNDB has not seen them yet.
+const QUEUE_DATABASE_NAME = 'vndb_client_list_mutations';
+const QUEUE_DATABASE_VERSION = 1;
+const QUEUE_OBJECT_STORE_NAME = 'mutations';
+
+// Background Sync tag; `public/list-sync-worker.js` relays it to open windows, which run the replay.
+export const USER_LIST_MUTATION_SYNC_TAG = 'vndb-user-list-mutations';
+export const USER_LIST_MUTATION_SYNC_MESSAGE_TYPE = 'vndb-user-list-mutations-sync';
+
+// Server `lastmod` values within this window of the baseline are treated as our own write (clock skew).
+const CONFLICT_CLOCK_TOLERANCE_MILLISECONDS = 60_000;
+
+export type UserListMutation =
+  | { kind: 'add'; labelIdentifier: number }
+  | { kind: 'status'; statusLabelIdentifier: number }
+  | { kind: 'labels'; labelsToSet: number[]; labelsToUnset: number[] }
+  | { kind: 'details'; detailChanges: Partial<UserVisualNovelListEntryDetails> }
+  // Labels and details in one PATCH, as written by list imports.
+  | { kind: 'patch'; labelsToSet: number[]; labelsToUnset: number[]; detailChanges: Partial<UserVisualNovelListEntryDetails> }
+  | { kind: 'remove' };
+
+export interface UserListMutationReplayFailure {
+  // `conflict`: the entry changed on VNDB after the mutation was queued. `error`: VNDB rejected the request.
+  kind: 'conflict' | 'error';
+  message: string;
+}
+
+export interface QueuedUserListMutation {
+  sequenceNumber: number;
+  userIdentifier: string;
+  visualNovelIdentifier: string;
+  mutation: UserListMutation;
+  queuedAt: number;
+  // Server changes after this time count as conflicts; moves forward whenever replay writes the same entry.
+  conflictBaselineAt: number;
+  // Set when replay stopped on this mutation; it is held (with later mutations for the same VN) until retried or discarded.
+  replayFailure: UserListMutationReplayFailure | null;
+  // Set by "Apply Anyway" so the retried mutation skips the server-change check.
+  shouldIgnoreConflicts: boolean;
+}
+
+export interface UserListServerEntrySnapshot {
+  isInList: boolean;
+  // Milliseconds since epoch, or null when VNDB did not report it.
+  lastModifiedAt: number | null;
+}
+
+export interface UserListMutationReplaySummary {
+  appliedCount: number;
+  heldCount: number;
+  // Connectivity, rate-limit, server and session errors stop the replay; the rest stays queued.
+  interruptingError: unknown | null;
+}
+
+type QueueListener = (queuedMutations: QueuedUserListMutation[]) => void;
+
+let queueDatabasePromise: Promise<IDBDatabase | null> | null = null;
+let queuedMutationsPromise: Promise<QueuedUserListMutation[]> | null = null;
+const queueListeners = new Set<QueueListener>();
+
+function promisifyRequest<TResult>(databaseRequest: IDBRequest<TResult>): Promise<TResult> {
+  return new Promise((resolve, reject) => {
+    databaseRequest.onsuccess = () => resolve(databaseRequest.result);
+    databaseRequest.onerror = () => reject(databaseRequest.error);
+  });
+}
+
+// Same degradation rule as the query cache: without IndexedDB the queue lives for the current page load only.
+function openQueueDatabase(): Promise<IDBDatabase | null> {
+  if (queueDatabasePromise) {
+    return queueDatabasePromise;
+  }
+
+  queueDatabasePromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const openRequest = indexedDB.open(QUEUE_DATABASE_NAME, QUEUE_DATABASE_VERSION);
+      openRequest.onupgradeneeded = () => {
+        const upgradeDatabase = openRequest.result;
+        if (!upgradeDatabase.objectStoreNames.contains(QUEUE_OBJECT_STORE_NAME)) {
+          upgradeDatabase.createObjectStore(QUEUE_OBJECT_STORE_NAME, { keyPath: 'sequenceNumber' });
+        }
+      };
+      openRequest.onsuccess = () => resolve(openRequest.result);
+      openRequest.onerror = () => resolve(null);
+      openRequest.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+
+  return queueDatabasePromise;
+}
+
+function loadQueuedMutations(): Promise<QueuedUserListMutation[]> {
+  if (queuedMutationsPromise) {
+    return queuedMutationsPromise;
+  }
+
+  queuedMutationsPromise = (async () => {
+    const queueDatabase = await openQueueDatabase();
+    if (!queueDatabase) {
+      return [];
+    }
+
+    try {
+      const readTransaction = queueDatabase.transaction(QUEUE_OBJECT_STORE_NAME, 'readonly');
+      const storedMutations = await promisifyRequest<QueuedUserListMutation[]>(
+        readTransaction.objectStore(QUEUE_OBJECT_STORE_NAME).getAll()
+      );
+      return storedMutations.sort((firstMutation, secondMutation) => firstMutation.sequenceNumber - secondMutation.sequenceNumber);
+    } catch {
+      return [];
+    }
+  })();
+
+  return queuedMutationsPromise;
+}
+
+async function persistQueuedMutations(changedMutations: QueuedUserListMutation[], deletedSequenceNumbers: number[]) {
+  const queueDatabase = await openQueueDatabase();
+  if (!queueDatabase) {
+    return;
+  }
+
+  try {
+    const writeTransaction = queueDatabase.transaction(QUEUE_OBJECT_STORE_NAME, 'readwrite');
+    const mutationStore = writeTransaction.objectStore(QUEUE_OBJECT_STORE_NAME);
+    changedMutations.forEach((queuedMutation) => mutationStore.put(queuedMutation));
+    deletedSequenceNumbers.forEach((sequenceNumber) => mutationStore.delete(sequenceNumber));
+  } catch {
+    // The in-memory queue stays authoritative for this page load.
+  }
+}
+
+function notifyQueueListeners(queuedMutations: QueuedUserListMutation[]) {
+  queueListeners.forEach((queueListener) => queueListener([...queuedMutations]));
+}
+
+export async function readQueuedUserListMutations(userIdentifier?: string): Promise<QueuedUserListMutation[]> {
+  const queuedMutations = await loadQueuedMutations();
+  return queuedMutations.filter((queuedMutation) => userIdentifier === undefined || queuedMutation.userIdentifier === userIdentifier);
+}
+
+export async function hasQueuedUserListMutationsFor(userIdentifier: string, visualNovelIdentifier: string) {
+  const queuedMutations = await readQueuedUserListMutations(userIdentifier);
+  return queuedMutations.some((queuedMutation) => queuedMutation.visualNovelIdentifier === visualNovelIdentifier);
+}
+
+// The listener is called with the whole queue (every user) after each change, and once right away.
+export function subscribeToUserListMutationQueue(queueListener: QueueListener) {
+  queueListeners.add(queueListener);
+  loadQueuedMutations().then((queuedMutations) => {
+    if (queueListeners.has(queueListener)) {
+      queueListener([...queuedMutations]);
+    }
+  });
+  return () => {
+    queueListeners.delete(queueListener);
+  };
+}
+
+export async function enqueueUserListMutation(
+  userIdentifier: string,
+  visualNovelIdentifier: string,
+  mutation: UserListMutation
+): Promise<QueuedUserListMutation> {
+  const queuedMutations = await loadQueuedMutations();
+  const queuedAt = Date.now();
+  const queuedMutation: QueuedUserListMutation = {
+    sequenceNumber: queuedMutations.reduce((highestSequence, existingMutation) => Math.max(highestSequence, existingMutation.sequenceNumber), 0) + 1,
+    userIdentifier,
+    visualNovelIdentifier,
+    mutation,
+    queuedAt,
+    conflictBaselineAt: queuedAt,
+    replayFailure: null,
+    shouldIgnoreConflicts: false
+  };
+
+  queuedMutations.push(queuedMutation);
+  await persistQueuedMutations([queuedMutation], []);
+  notifyQueueListeners(queuedMutations);
+  requestUserListMutationBackgroundSync();
+  return queuedMutation;
+}
+
+async function updateQueuedMutations(
+  applyUpdate: (queuedMutations: QueuedUserListMutation[]) => { changed: QueuedUserListMutation[]; deleted: number[] }
+) {
+  const queuedMutations = await loadQueuedMutations();
+  const { changed, deleted } = applyUpdate(queuedMutations);
+  if (changed.length === 0 && deleted.length === 0) {
+    return;
+  }
+
+  const remainingMutations = queuedMutations.filter((queuedMutation) => !deleted.includes(queuedMutation.sequenceNumber));
+  queuedMutations.splice(0, queuedMutations.length, ...remainingMutations);
+  await persistQueuedMutations(changed, deleted);
+  notifyQueueListeners(queuedMutations);
+}
+
+export async function discardQueuedUserListMutation(sequenceNumber: number) {
+  await updateQueuedMutations(() => ({ changed: [], deleted: [sequenceNumber] }));
+}
+
+// Clears a held mutation so the next replay tries it again; retrying a conflict means "apply anyway".
+export async function retryQueuedUserListMutation(sequenceNumber: number) {
+  await updateQueuedMutations((queuedMutations) => {
+    const heldMutation = queuedMutations.find((queuedMutation) => queuedMutation.sequenceNumber === sequenceNumber);
+    if (!heldMutation?.replayFailure) {
+      return { changed: [], deleted: [] };
+    }
+
+    heldMutation.shouldIgnoreConflicts = heldMutation.shouldIgnoreConflicts || heldMutation.replayFailure.kind === 'conflict';
+    heldMutation.replayFailure = null;
+    return { changed: [heldMutation], deleted: [] };
+  });
+}
+
+// Mirrors what VNDB does with each PATCH/DELETE; `null` means the VN is not in the list.
+export function applyUserListMutationToEntry(
+  userListEntry: UserVisualNovelListEntry | null,
+  visualNovelIdentifier: string,
+  mutation: UserListMutation
+): UserVisualNovelListEntry | null {
+  if (mutation.kind === 'remove') {
+    return null;
+  }
+
+  const currentEntry: UserVisualNovelListEntry = userListEntry ?? { id: visualNovelIdentifier, labels: [] };
+  const currentLabels = currentEntry.labels ?? [];
+  let labelsToSet: number[] = [];
+  let labelsToUnset: number[] = [];
+  let detailChanges: Partial<UserVisualNovelListEntryDetails> = {};
+  if (mutation.kind === 'add') {
+    labelsToSet = [mutation.labelIdentifier];
+  } else if (mutation.kind === 'status') {
+    labelsToSet = [mutation.statusLabelIdentifier];
+    labelsToUnset = USER_LIST_STATUS_LABEL_IDENTIFIERS.filter((labelIdentifier) => labelIdentifier !== mutation.statusLabelIdentifier);
+  } else if (mutation.kind === 'labels' || mutation.kind === 'patch') {
+    labelsToSet = [...mutation.labelsToSet];
+    labelsToUnset = [...mutation.labelsToUnset];
+  }
+  if (mutation.kind === 'details' || mutation.kind === 'patch') {
+    detailChanges = mutation.detailChanges;
+  }
+  // VNDB keeps the "Voted" label in sync with the vote.
+  if (detailChanges.vote !== undefined) {
+    (detailChanges.vote === null ? labelsToUnset : labelsToSet).push(VOTED_USER_LIST_LABEL_IDENTIFIER);
+  }
+
+  const nextLabels = currentLabels.filter((labelEntry) => !labelsToUnset.includes(labelEntry.id));
+  labelsToSet
+    .filter((labelIdentifier) => !nextLabels.some((labelEntry) => labelEntry.id === labelIdentifier))
+    .forEach((labelIdentifier) => nextLabels.push({ id: labelIdentifier }));
+  return { ...currentEntry, ...detailChanges, labels: nextLabels };
+}
+
+// Overlays queued mutations on server entries. Queued additions are appended as id-only entries
+// (callers hydrate them like any other placeholder) unless `includeAdditions` is false, e.g. for a single page.
+export function applyQueuedUserListMutations(
+  userListEntries: UserVisualNovelListEntry[],
+  queuedMutations: QueuedUserListMutation[],
+  includeAdditions = true
+): UserVisualNovelListEntry[] {
+  if (queuedMutations.length === 0) {
+    return userListEntries;
+  }
+
+  const entriesByIdentifier = new Map<string, UserVisualNovelListEntry | null>(
+    userListEntries.map((userListEntry) => [userListEntry.id, userListEntry])
+  );
+  const addedIdentifiers: string[] = [];
+  queuedMutations.forEach((queuedMutation) => {
+    const { visualNovelIdentifier } = queuedMutation;
+    const isKnownEntry = entriesByIdentifier.has(visualNovelIdentifier);
+    if (!isKnownEntry && !includeAdditions) {
+      return;
+    }
+    if (!isKnownEntry && queuedMutation.mutation.kind !== 'add' && queuedMutation.mutation.kind !== 'patch') {
+      return;
+    }
+
+    const nextEntry = applyUserListMutationToEntry(entriesByIdentifier.get(visualNovelIdentifier) ?? null, visualNovelIdentifier, queuedMutation.mutation);
+    if (!isKnownEntry) {
+      addedIdentifiers.push(visualNovelIdentifier);
+    }
+    entriesByIdentifier.set(visualNovelIdentifier, nextEntry);
+  });
+
+  return [...userListEntries.map((userListEntry) => userListEntry.id), ...addedIdentifiers]
+    .map((visualNovelIdentifier) => entriesByIdentifier.get(visualNovelIdentifier) ?? null)
+    .filter((userListEntry): userListEntry is UserVisualNovelListEntry => userListEntry !== null);
+}
+
+export function describeUserListMutation(mutation: UserListMutation, labelNamesById: Record<number, string> = {}) {
+  const describeLabel = (labelIdentifier: number) => labelNamesById[labelIdentifier] ?? `label ${labelIdentifier}`;
+  switch (mutation.kind) {
+    case 'add':
+      return `Add to list (${describeLabel(mutation.labelIdentifier)})`;
+    case 'status':
+      return `Set status to ${describeLabel(mutation.statusLabelIdentifier)}`;
+    case 'labels': {
+      const labelChangeParts = [
+        ...mutation.labelsToSet.map((labelIdentifier) => `+${describeLabel(labelIdentifier)}`),
+        ...mutation.labelsToUnset.map((labelIdentifier) => `−${describeLabel(labelIdentifier)}`)
+      ];
+      return `Change labels (${labelChangeParts.join(', ')})`;
+    }
+    case 'details':
+      return `Edit ${Object.keys(mutation.detailChanges).join(', ')}`;
+    case 'patch':
+      return `Import (${[
+        ...mutation.labelsToSet.map((labelIdentifier) => `+${describeLabel(labelIdentifier)}`),
+        ...mutation.labelsToUnset.map((labelIdentifier) => `−${describeLabel(labelIdentifier)}`),
+        ...Object.keys(mutation.detailChanges)
+      ].join(', ')})`;
+    case 'remove':
+      return 'Remove from list';
+  }
+}
+
+// Returns a conflict message when VNDB's copy of the entry changed after the mutation's baseline.
+export function detectUserListMutationConflict(queuedMutation: QueuedUserListMutation, serverEntry: UserListServerEntrySnapshot) {
+  if (!serverEntry.isInList) {
+    return ['add', 'patch', 'remove'].includes(queuedMutation.mutation.kind)
+      ? null
+      : 'This VN was removed from your list on VNDB after the change was queued.';
+  }
+
+  if (
+    serverEntry.lastModifiedAt !== null &&
+    serverEntry.lastModifiedAt > queuedMutation.conflictBaselineAt + CONFLICT_CLOCK_TOLERANCE_MILLISECONDS
+  ) {
+    return `This entry was changed on VNDB (${new Date(serverEntry.lastModifiedAt).toLocaleString()}) after the change was queued.`;
+  }
+
+  return null;
+}
+
+// Errors that say nothing about the mutation itself: stop and retry the whole queue later.
+function isReplayInterruptingError(caughtError: unknown) {
+  return isAbortError(caughtError) || (
+    caughtError instanceof VndbClientError &&
+    ['offline', 'rate-limit', 'server', 'authentication', 'permission'].includes(caughtError.kind)
+  );
+}
+
+interface UserListMutationReplayOptions {
+  userIdentifier: string;
+  readServerEntry: (visualNovelIdentifier: string, requestSignal?: AbortSignal) => Promise<UserListServerEntrySnapshot>;
+  applyMutation: (queuedMutation: QueuedUserListMutation, requestSignal?: AbortSignal) => Promise<void>;
+  requestSignal?: AbortSignal;
+}
+
+// The `online` event and a service-worker sync message often arrive together; both share one replay per user,
+// keyed by the normalized user ID the caller passes in.
+const activeReplayPromises = new Map<string, Promise<UserListMutationReplaySummary>>();
+
+// Replays one user's queue oldest-first. A conflicting or rejected mutation is held together with every later
+// mutation for the same VN; mutations for other VNs keep going.
+export function replayUserListMutationQueue(options: UserListMutationReplayOptions): Promise<UserListMutationReplaySummary> {
+  const activeReplayPromise = activeReplayPromises.get(options.userIdentifier);
+  if (activeReplayPromise) {
+    return activeReplayPromise;
+  }
+
+  const replayPromise = executeUserListMutationReplay(options).finally(() => {
+    activeReplayPromises.delete(options.userIdentifier);
+  });
+  activeReplayPromises.set(options.userIdentifier, replayPromise);
+  return replayPromise;
+}
+
+async function executeUserListMutationReplay(options: UserListMutationReplayOptions): Promise<UserListMutationReplaySummary> {
+  const replaySummary: UserListMutationReplaySummary = { appliedCount: 0, heldCount: 0, interruptingError: null };
+  const heldVisualNovelIdentifiers = new Set<string>();
+  const pendingMutations = await readQueuedUserListMutations(options.userIdentifier);
+
+  for (const queuedMutation of pendingMutations) {
+    const { visualNovelIdentifier } = queuedMutation;
+    if (queuedMutation.replayFailure || heldVisualNovelIdentifiers.has(visualNovelIdentifier)) {
+      heldVisualNovelIdentifiers.add(visualNovelIdentifier);
+      replaySummary.heldCount += 1;
+      continue;
+    }
+
+    try {
+      if (!queuedMutation.shouldIgnoreConflicts) {
+        const serverEntry = await options.readServerEntry(visualNovelIdentifier, options.requestSignal);
+        const conflictMessage = detectUserListMutationConflict(queuedMutation, serverEntry);
+        if (conflictMessage) {
+          await holdQueuedMutation(queuedMutation, { kind: 'conflict', message: conflictMessage });
+          heldVisualNovelIdentifiers.add(visualNovelIdentifier);
+          replaySummary.heldCount += 1;
+          continue;
+        }
+      }
+
+      await options.applyMutation(queuedMutation, options.requestSignal);
+      await completeQueuedMutation(queuedMutation);
+      replaySummary.appliedCount += 1;
+    } catch (caughtError) {
+      if (isReplayInterruptingError(caughtError)) {
+        replaySummary.interruptingError = caughtError;
+        break;
+      }
+
+      const errorMessage = caughtError instanceof Error ? caughtError.message : 'VNDB rejected this change.';
+      await holdQueuedMutation(queuedMutation, { kind: 'error', message: errorMessage });
+      heldVisualNovelIdentifiers.add(visualNovelIdentifier);
+      replaySummary.heldCount += 1;
+    }
+  }
+
+  return replaySummary;
+}
+
+async function holdQueuedMutation(queuedMutation: QueuedUserListMutation, replayFailure: UserListMutationReplayFailure) {
+  await updateQueuedMutations((queuedMutations) => {
+    const heldMutation = queuedMutations.find((candidateMutation) => candidateMutation.sequenceNumber === queuedMutation.sequenceNumber);
+    if (!heldMutation) {
+      return { changed: [], deleted: [] };
+    }
+
+    heldMutation.replayFailure = replayFailure;
+    return { changed: [heldMutation], deleted: [] };
+  });
+}
+
+// Our own write bumps the entry's `lastmod`, so later mutations for the same VN move their baseline past it.
+async function completeQueuedMutation(queuedMutation: QueuedUserListMutation) {
+  const completedAt = Date.now();
+  await updateQueuedMutations((queuedMutations) => {
+    const laterMutations = queuedMutations.filter((candidateMutation) => (
+      candidateMutation.sequenceNumber !== queuedMutation.sequenceNumber &&
+      candidateMutation.userIdentifier === queuedMutation.userIdentifier &&
+      candidateMutation.visualNovelIdentifier === queuedMutation.visualNovelIdentifier
+    ));
+    laterMutations.forEach((laterMutation) => {
+      laterMutation.conflictBaselineAt = Math.max(laterMutation.conflictBaselineAt, completedAt);
+    });
+    return { changed: laterMutations, deleted: [queuedMutation.sequenceNumber] };
+  });
+}
+
+interface BackgroundSyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (syncTag: string) => Promise<void> };
+}
+
+// Background Sync (Chromium) lets the service worker wake the app once connectivity returns, even if the tab
+// was backgrounded. Elsewhere the `online` event and the next app start trigger the replay instead.
+export function requestUserListMutationBackgroundSync() {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  navigator.serviceWorker.getRegistration()
+    .then((serviceWorkerRegistration) => (serviceWorkerRegistration as BackgroundSyncRegistration | undefined)?.sync?.register(USER_LIST_MUTATION_SYNC_TAG))
+    .catch(() => {
+      // Background Sync is an optimization; the `online` listener still covers replay.
+    });
+}
+
+// Calls `onSyncRequested` when the browser comes back online or the service worker relays a sync event.
+export function subscribeToUserListMutationSyncRequests(onSyncRequested: () => void) {
+  function handleServiceWorkerMessage(messageEvent: MessageEvent) {
+    if ((messageEvent.data as { type?: string } | null)?.type === USER_LIST_MUTATION_SYNC_MESSAGE_TYPE) {
+      onSyncRequested();
+    }
+  }
+
+  const serviceWorkerContainer = typeof navigator !== 'undefined' && 'serviceWorker' in navigator ? navigator.serviceWorker : null;
+  window.addEventListener('online', onSyncRequested);
+  serviceWorkerContainer?.addEventListener('message', handleServiceWorkerMessage);
+  return () => {
+    window.removeEventListener('online', onSyncRequested);
+    serviceWorkerContainer?.removeEventListener('message', handleServiceWorkerMessage);
+  };
+}
@@ -0,0 +1,303 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  releaseStoreLinkResponse,
+  userListEmptyResponse,
+  userListFilteredEntryResponse,
+  userListIdentifierResponse,
+  userListLabelPageResponses,
+  userListLabelsResponse
+} from './__fixtures__/kanaResponseFixtures';
+import { clearAllQueryCaches } from './persistentQueryCache';
+import { readQueuedUserListMutations } from './userListMutationQueue';
+import { userListFilters } from './vndbFilterBuilder';
+import {
+  fetchAuthenticatedUserListLabels,
+  fetchAuthenticatedUserVisualNovelListEntry,
+  fetchPublicUserVisualNovelList,
+  fetchVisualNovelStoreLinksById,
+  fetchVndbUserByName,
+  patchAuthenticatedUserVisualNovelListEntry,
+  replayQueuedUserListMutations,
+  submitUserListMutation,
+  updateAuthenticatedUserVisualNovelLabels,
+  updateAuthenticatedUserVisualNovelListEntryDetails
+} from './visualNovelClient';
+
+interface RecordedKanaRequest {
+  endpointPath: string;
+  payload: Record<string, unknown>;
+}
+
+// Replaces `fetch` with a responder over recorded fixtures and records every request body it receives.
+function stubKanaFetch(respond: (request: RecordedKanaRequest) => { status?: number; body: unknown }) {
+  const recordedRequests: RecordedKanaRequest[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (requestUrl: string, requestInit?: RequestInit) => {
+    const recordedRequest = {
+      endpointPath: requestUrl.replace(/^.*\/(api\/vndb|kana)/, ''),
+      payload: JSON.parse(String(requestInit?.body ?? '{}')) as Record<string, unknown>
+    };
+    recordedRequests.push(recordedRequest);
+    const { status = 200, body } = respond(recordedRequest);
+    if (body === null) {
+      return new Response(null, { status });
+    }
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' }
+    });
+  }));
+  return recordedRequests;
+}
+
+beforeEach(async () => {
+  await clearAllQueryCaches();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchVisualNovelStoreLinksById', () => {
+  it('keeps only storefront links, trimmed and deduplicated across releases', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ body: releaseStoreLinkResponse }));
+
+    const storeLinks = await fetchVisualNovelStoreLinksById('17');
+
+    expect(recordedRequests[0].endpointPath).toBe('/release');
+    expect(recordedRequests[0].payload.filters).toEqual(['vn', '=', ['id', '=', 'v17']]);
+    expect(storeLinks).toEqual([
+      {
+        url: 'https://store.steampowered.com/app/1193470/',
+        label: 'Steam',
+        source: 'steam',
+        releaseId: 'r100',
+        releaseTitle: 'Ever17 -the out of infinity- (Steam)'
+      },
+      {
+        url: 'https://www.gog.com/game/ever17',
+        label: 'gog',
+        source: 'gog',
+        releaseId: 'r101',
+        releaseTitle: undefined
+      },
+      {
+        url: 'https://jastusa.com/games/ever17',
+        label: 'JAST USA',
+        source: undefined,
+        releaseId: 'r101',
+        releaseTitle: undefined
+      }
+    ]);
+  });
+
+  it('returns no links when no release has any', async () => {
+    stubKanaFetch(() => ({ body: { results: [releaseStoreLinkResponse.results[2]], more: false } }));
+
+    await expect(fetchVisualNovelStoreLinksById('v17')).resolves.toEqual([]);
+  });
+});
+
+describe('fetchAuthenticatedUserVisualNovelListEntry', () => {
+  it('reads labels from the filtered lookup and normalizes identifiers', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ body: userListFilteredEntryResponse }));
+
+    const listEntry = await fetchAuthenticatedUserVisualNovelListEntry('mock-token', '1001', 'V17');
+
+    expect(listEntry).toEqual({
+      isInList: true,
+      labels: [2, 7, 10],
+      vote: 85,
+      notes: 'Reread the final route.',
+      started: '2023-10-02',
+      finished: '2023-11-20'
+    });
+    expect(recordedRequests).toHaveLength(1);
+    expect(recordedRequests[0].payload).toMatchObject({
+      user: 'u1001',
+      filters: ['id', '=', 'v17'],
+      results: 1
+    });
+  });
+
+  it('reports entries missing from the list', async () => {
+    stubKanaFetch(() => ({ body: userListEmptyResponse }));
+
+    await expect(fetchAuthenticatedUserVisualNovelListEntry('mock-token', 'u1001', 'v4')).resolves.toEqual({
+      isInList: false,
+      labels: [],
+      vote: null,
+      notes: '',
+      started: null,
+      finished: null
+    });
+  });
+
+  it('scans list pages when the filtered lookup is rejected', async () => {
+    const recordedRequests = stubKanaFetch(({ payload }) => {
+      if (payload.filters) {
+        return { status: 400, body: 'Unknown filter' };
+      }
+      return { body: userListLabelPageResponses[Number(payload.page) - 1] };
+    });
+
+    const listEntry = await fetchAuthenticatedUserVisualNovelListEntry('mock-token', 'u1001', 'v7');
+
+    expect(listEntry).toMatchObject({ isInList: true, labels: [4, 7], vote: 72 });
+    expect(recordedRequests.map((request) => request.payload.page)).toEqual([undefined, 1, 2]);
+  });
+
+  it('falls back to an identifier-only check when label fields are rejected', async () => {
+    stubKanaFetch(({ payload }) => (
+      payload.fields === 'id'
+        ? { body: userListIdentifierResponse }
+        : { status: 400, body: 'Unknown field' }
+    ));
+
+    await expect(fetchAuthenticatedUserVisualNovelListEntry('mock-token', 'u1001', 'v17')).resolves.toEqual({
+      isInList: true,
+      labels: [],
+      vote: null,
+      notes: '',
+      started: null,
+      finished: null
+    });
+  });
+});
+
+describe('updateAuthenticatedUserVisualNovelListEntryDetails', () => {
+  it('patches only the changed fields', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ status: 204, body: null }));
+
+    await updateAuthenticatedUserVisualNovelListEntryDetails('mock-token', '17', { vote: 90, started: null });
+
+    expect(recordedRequests).toEqual([{ endpointPath: '/ulist/v17', payload: { vote: 90, started: null } }]);
+  });
+
+  it('rejects votes outside 10 to 100 without sending a request', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ status: 204, body: null }));
+
+    await expect(updateAuthenticatedUserVisualNovelListEntryDetails('mock-token', 'v17', { vote: 5 })).rejects.toThrow(/10 to 100/);
+    await expect(updateAuthenticatedUserVisualNovelListEntryDetails('mock-token', 'v17', { vote: 85.5 })).rejects.toThrow(/10 to 100/);
+    expect(recordedRequests).toHaveLength(0);
+  });
+});
+
+describe('user list labels', () => {
+  it('loads label definitions with counts for the normalized user', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ body: userListLabelsResponse }));
+
+    const labelDefinitions = await fetchAuthenticatedUserListLabels('mock-token', '1001');
+
+    expect(labelDefinitions.map((labelDefinition) => labelDefinition.id)).toEqual([1, 7, 10, 11]);
+    expect(labelDefinitions[3]).toEqual({ id: 11, label: 'Re-read', private: true, count: 2 });
+    expect(recordedRequests[0].endpointPath).toBe('/ulist_labels?user=u1001&fields=count');
+  });
+
+  it('sets and unsets labels without touching the others', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ status: 204, body: null }));
+
+    await updateAuthenticatedUserVisualNovelLabels('mock-token', 'v17', { labelsToSet: [10], labelsToUnset: [11] });
+
+    expect(recordedRequests).toEqual([{ endpointPath: '/ulist/v17', payload: { labels_set: [10], labels_unset: [11] } }]);
+  });
+
+  it('refuses to set the Voted label directly', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ status: 204, body: null }));
+
+    await expect(updateAuthenticatedUserVisualNovelLabels('mock-token', 'v17', { labelsToSet: [7], labelsToUnset: [] }))
+      .rejects.toThrow(/Voted/);
+    expect(recordedRequests).toHaveLength(0);
+  });
+});
+
+describe('fetchPublicUserVisualNovelList', () => {
+  it('sends the page query filters and sort with the page request', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ body: { results: [], more: false } }));
+
+    await fetchPublicUserVisualNovelList('1002', 2, 50, undefined, {
+      queryFilters: userListFilters.where('label', '=', 5),
+      sortField: 'added',
+      reverseSort: true
+    });
+
+    expect(recordedRequests[0].endpointPath).toBe('/ulist');
+    expect(recordedRequests[0].payload).toMatchObject({
+      user: 'u1002',
+      filters: ['label', '=', 5],
+      sort: 'added',
+      reverse: true,
+      page: 2,
+      results: 50
+    });
+  });
+});
+
+describe('fetchVndbUserByName', () => {
+  it('reads the match keyed by the trimmed query, or null when nobody matches', async () => {
+    const recordedRequests = stubKanaFetch(({ endpointPath }) => ({
+      body: endpointPath.includes('nobody') ? { nobody: null } : { 'Mock Reader': { id: '1001', username: 'mockreader' } }
+    }));
+
+    await expect(fetchVndbUserByName(' Mock Reader ')).resolves.toEqual({ id: 'u1001', username: 'mockreader' });
+    await expect(fetchVndbUserByName('nobody')).resolves.toBeNull();
+    expect(recordedRequests[0].endpointPath).toBe('/user?q=Mock%20Reader');
+  });
+});
+
+describe('patchAuthenticatedUserVisualNovelListEntry', () => {
+  it('sends labels and details in one request', async () => {
+    const recordedRequests = stubKanaFetch(() => ({ status: 204, body: null }));
+
+    await patchAuthenticatedUserVisualNovelListEntry('mock-token', '4', {
+      labelsToSet: [2, 10],
+      labelsToUnset: [],
+      detailChanges: { vote: 88, finished: '2024-03-01' }
+    });
+
+    expect(recordedRequests).toEqual([
+      { endpointPath: '/ulist/v4', payload: { vote: 88, finished: '2024-03-01', labels_set: [2, 10] } }
+    ]);
+  });
+});
+
+describe('offline list writes', () => {
+  it('queues writes while offline, overlays them on reads and replays them once online', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    const offlineRequests = stubKanaFetch(() => ({ status: 204, body: null }));
+
+    await expect(submitUserListMutation('mock-token', '1001', '17', { kind: 'status', statusLabelIdentifier: 1 }))
+      .resolves.toEqual({ wasQueued: true });
+    expect(offlineRequests).toHaveLength(0);
+
+    vi.unstubAllGlobals();
+    const recordedRequests = stubKanaFetch(({ payload }) => {
+      if (payload.fields === 'lastmod') {
+        return { body: { results: [{ id: 'v17', lastmod: 1_600_000_000 }], more: false } };
+      }
+      return payload.user ? { body: userListFilteredEntryResponse } : { status: 204, body: null };
+    });
+
+    await expect(fetchAuthenticatedUserVisualNovelListEntry('mock-token', 'u1001', 'v17'))
+      .resolves.toMatchObject({ isInList: true, labels: [7, 10, 1] });
+
+    const replaySummary = await replayQueuedUserListMutations('mock-token', 'u1001');
+
+    expect(replaySummary).toEqual({ appliedCount: 1, heldCount: 0, interruptingError: null });
+    expect(recordedRequests.slice(1)).toEqual([
+      {
+        endpointPath: '/ulist',
+        payload: { user: 'u1001', fields: 'lastmod', filters: ['id', '=', 'v17'], results: 1 }
+      },
+      { endpointPath: '/ulist/v17', payload: { labels_unset: [2, 3, 4, 5, 6], labels_set: [1] } }
+    ]);
+    expect(await readQueuedUserListMutations()).toEqual([]);
+  });
+
+  it('validates writes before queuing them', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+
+    await expect(submitUserListMutation('mock-token', 'u1001', 'v17', { kind: 'details', detailChanges: { vote: 5 } }))
+      .rejects.toThrow(/10 to 100/);
+    expect(await readQueuedUserListMutations()).toEqual([]);
+  });
+});
@@ -1,31 +1,235 @@
 import type {
   CharacterQueryResponse,
+  CharacterTraitMetadataEntry,
   CharacterTraitQueryResponse,
+  ProducerCatalogEntry,
+  ProducerQueryResponse,
   QueryParameters,
+  StaffCreditedVisualNovelEntry,
+  StaffQueryResponse,
+  UserListLabelDefinition,
+  UserListPageQuery,
+  UserListStatisticsEntry,
+  UserVisualNovelListEntry,
+  UserVisualNovelListEntryDetails,
+  UserVisualNovelListEntryState,
   UserVisualNovelListResponse,
   VisualNovelAuthInfoResponse,
+  VisualNovelDetailedEntry,
+  VisualNovelDetailedFragment,
+  VisualNovelDetailedFragmentQueryResponse,
   VisualNovelDetailedQueryResponse,
   VisualNovelExternalLinkEntry,
-  VisualNovelTagQueryResponse
+  VisualNovelQueryResponse,
+  VisualNovelReleaseEntry,
+  VisualNovelTagMetadataEntry,
+  VisualNovelTagQueryResponse,
+  VndbUserLookupEntry
 } from '../types/apiTypes';
-
-const VNDB_DIRECT_BASE_URL = 'https://api.vndb.org/kana';
-const VNDB_PROXY_BASE_PATH = '/api/vndb';
-// During local development we route through Vite proxy to avoid browser CORS issues on write endpoints.
-const VNDB_API_BASE_URL = import.meta.env.DEV ? VNDB_PROXY_BASE_PATH : VNDB_DIRECT_BASE_URL;
-const CACHE_TIME_TO_LIVE_MILLISECONDS = 5 * 60 * 1000;
-const listQueryCache = new Map<string, { expiresAt: number; payload: unknown }>();
-const detailQueryCache = new Map<string, { expiresAt: number; payload: unknown }>();
-const releaseQueryCache = new Map<string, { expiresAt: number; payload: unknown }>();
-const tagQueryCache = new Map<string, { expiresAt: number; payload: unknown }>();
-const characterQueryCache = new Map<string, { expiresAt: number; payload: unknown }>();
-const traitQueryCache = new Map<string, { expiresAt: number; payload: unknown }>();
-const userListQueryCache = new Map<string, { expiresAt: number; payload: unknown }>();
-const statsQueryCache = new Map<string, { expiresAt: number; payload: unknown }>();
-
-function buildVndbApiUrl(endpointPath: string) {
-  return `${VNDB_API_BASE_URL}${endpointPath}`;
-}
+import type { VisualNovelFilter } from '../types/filterTypes';
+import { USER_LIST_STATUS_LABEL_IDENTIFIERS, VOTED_USER_LIST_LABEL_IDENTIFIER } from '../utils/userListLabels';
+import {
+  characterFilters,
+  producerFilters,
+  releaseFilters,
+  serializeVndbFilter,
+  staffFilters,
+  tagFilters,
+  traitFilters,
+  visualNovelFilters
+} from './vndbFilterBuilder';
+import { clearAllQueryCaches, createQueryCache, readThroughQueryCache } from './persistentQueryCache';
+import { createVndbBatchLoader, type VndbBatchLoader } from './vndbBatchLoader';
+import { collectVndbPages, paginateVndbQuery, type CollectedVndbPages } from './vndbPaginator';
+import { executeVndbJsonRequest, executeVndbRequest } from './vndbRequestExecutor';
+import { isBrowserOffline, VndbAuthenticationError, VndbOfflineError } from './vndbErrors';
+import {
+  applyQueuedUserListMutations,
+  enqueueUserListMutation,
+  hasQueuedUserListMutationsFor,
+  readQueuedUserListMutations,
+  replayUserListMutationQueue,
+  type UserListMutation,
+  type UserListMutationReplaySummary,
+  type UserListServerEntrySnapshot
+} from './userListMutationQueue';
+import type { Decoder } from './schemaDecoder';
+import {
+  decodeAuthInfoResponse,
+  decodeCharacterDetailedEntry,
+  decodeCharacterTraitMetadataEntry,
+  decodeDatabaseStatisticsResponse,
+  decodeProducerCatalogEntry,
+  decodeProducerDetailedEntry,
+  decodeReleaseEntry,
+  decodeStaffDetailedEntry,
+  decodeTagMetadataEntry,
+  decodeUserListLabelsResponse,
+  decodeUserListStatisticsEntry,
+  decodeUserLookupResponse,
+  decodeUserVisualNovelListEntry,
+  decodeVisualNovelCharacterCollection,
+  decodeVisualNovelDatabaseEntry,
+  decodeVisualNovelDetailedEntry,
+  decodeVisualNovelDetailedFragment,
+  decodeVisualNovelIdentifierEntry,
+  decodeVndbCount,
+  decodeVndbPage,
+  type DecodedVndbPage
+} from './vndbResponseDecoders';
+
+// Views import the error hierarchy from here alongside the fetchers that throw it.
+export {
+  VndbAuthenticationError,
+  VndbClientError,
+  VndbNotFoundError,
+  VndbOfflineError,
+  VndbPermissionError,
+  VndbRateLimitError,
+  VndbRequestError,
+  VndbServerError,
+  type VndbErrorKind
+} from './vndbErrors';
+export { VndbDecodeError } from './schemaDecoder';
+
+const MINUTE_MILLISECONDS = 60 * 1000;
+const HOUR_MILLISECONDS = 60 * MINUTE_MILLISECONDS;
+const DAY_MILLISECONDS = 24 * HOUR_MILLISECONDS;
+
+// Per-endpoint freshness: catalog metadata changes rarely, searches and stats drift faster.
+// User list reads are token-scoped and mutated locally, so they never touch disk and have no stale window.
+const listQueryCache = createQueryCache('vn_list', {
+  timeToLiveMilliseconds: 10 * MINUTE_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: DAY_MILLISECONDS,
+  maximumEntries: 300,
+  persistToDisk: true
+});
+const detailQueryCache = createQueryCache('vn_detail', {
+  timeToLiveMilliseconds: 6 * HOUR_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: 7 * DAY_MILLISECONDS,
+  maximumEntries: 500,
+  persistToDisk: true
+});
+const releaseQueryCache = createQueryCache('release', {
+  timeToLiveMilliseconds: 6 * HOUR_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: 7 * DAY_MILLISECONDS,
+  maximumEntries: 300,
+  persistToDisk: true
+});
+const tagQueryCache = createQueryCache('tag', {
+  timeToLiveMilliseconds: DAY_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: 30 * DAY_MILLISECONDS,
+  maximumEntries: 2000,
+  persistToDisk: true
+});
+const characterQueryCache = createQueryCache('character', {
+  timeToLiveMilliseconds: 6 * HOUR_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: 7 * DAY_MILLISECONDS,
+  maximumEntries: 500,
+  persistToDisk: true
+});
+const traitQueryCache = createQueryCache('trait', {
+  timeToLiveMilliseconds: DAY_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: 30 * DAY_MILLISECONDS,
+  maximumEntries: 2000,
+  persistToDisk: true
+});
+const producerQueryCache = createQueryCache('producer', {
+  timeToLiveMilliseconds: DAY_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: 30 * DAY_MILLISECONDS,
+  maximumEntries: 300,
+  persistToDisk: true
+});
+const staffQueryCache = createQueryCache('staff', {
+  timeToLiveMilliseconds: DAY_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: 30 * DAY_MILLISECONDS,
+  maximumEntries: 300,
+  persistToDisk: true
+});
+const userListQueryCache = createQueryCache('user_list', {
+  timeToLiveMilliseconds: 5 * MINUTE_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: 0,
+  maximumEntries: 100,
+  persistToDisk: false
+});
+const statsQueryCache = createQueryCache('stats', {
+  timeToLiveMilliseconds: HOUR_MILLISECONDS,
+  staleWhileRevalidateMilliseconds: DAY_MILLISECONDS,
+  maximumEntries: 1,
+  persistToDisk: true
+});
+
+const CORE_DETAIL_FIELD_SELECTION = "id, title, rating, image.url, image.thumbnail, image.sexual, description, released";
+const SUPPLEMENTAL_DETAIL_FIELD_SELECTION =
+  "id, screenshots.url, screenshots.thumbnail, tags.id, tags.name, tags.category, tags.spoiler, tags.rating, relations.id, relations.title, relations.relation, developers.id, developers.name, developers.original";
+const CHARACTER_DETAIL_FIELD_SELECTION =
+  "id, name, original, description, image.url, image.thumbnail, image.sexual, traits.id, traits.name, traits.spoiler, vns.id, vns.title, vns.role";
+const STAFF_CREDIT_FIELD_SELECTION =
+  "id, staff.id, staff.aid, staff.name, staff.original, staff.role, staff.note, va.note, va.staff.id, va.staff.name, va.staff.original, va.character.id, va.character.name, va.character.original";
+const STAFF_DETAIL_FIELD_SELECTION =
+  "id, name, original, lang, gender, description, aliases.aid, aliases.name, aliases.latin, aliases.ismain";
+const PRODUCER_DETAIL_FIELD_SELECTION =
+  "id, name, original, aliases, lang, type, description, extlinks.url, extlinks.label, extlinks.name, relations.relation, relations.id, relations.name, relations.original";
+
+const USER_LIST_DETAIL_FIELD_SELECTION = "vote, notes, started, finished";
+
+// Single-ID lookups are batched per endpoint and field selection; see `createVndbBatchLoader`.
+const coreDetailBatchLoader = createVndbBatchLoader<VisualNovelDetailedEntry>({
+  endpointPath: '/vn',
+  fields: CORE_DETAIL_FIELD_SELECTION,
+  decodeEntry: decodeVisualNovelDetailedEntry,
+  buildIdentifierFilter: (identifiers) => serializeVndbFilter(visualNovelFilters.anyOf('id', identifiers)),
+  failureDescription: 'Unable to retrieve visual novel details'
+});
+const supplementalDetailBatchLoader = createVndbBatchLoader<VisualNovelDetailedFragment>({
+  endpointPath: '/vn',
+  fields: SUPPLEMENTAL_DETAIL_FIELD_SELECTION,
+  decodeEntry: decodeVisualNovelDetailedFragment,
+  buildIdentifierFilter: (identifiers) => serializeVndbFilter(visualNovelFilters.anyOf('id', identifiers)),
+  failureDescription: 'Unable to retrieve visual novel details'
+});
+const characterDetailBatchLoader = createVndbBatchLoader({
+  endpointPath: '/character',
+  fields: CHARACTER_DETAIL_FIELD_SELECTION,
+  decodeEntry: decodeCharacterDetailedEntry,
+  buildIdentifierFilter: (identifiers) => serializeVndbFilter(characterFilters.anyOf('id', identifiers)),
+  failureDescription: 'Unable to retrieve character details'
+});
+const staffCreditBatchLoader = createVndbBatchLoader<VisualNovelDetailedFragment>({
+  endpointPath: '/vn',
+  fields: STAFF_CREDIT_FIELD_SELECTION,
+  decodeEntry: decodeVisualNovelDetailedFragment,
+  buildIdentifierFilter: (identifiers) => serializeVndbFilter(visualNovelFilters.anyOf('id', identifiers)),
+  failureDescription: 'Unable to retrieve visual novel staff credits'
+});
+const staffDetailBatchLoader = createVndbBatchLoader({
+  endpointPath: '/staff',
+  fields: STAFF_DETAIL_FIELD_SELECTION,
+  decodeEntry: decodeStaffDetailedEntry,
+  buildIdentifierFilter: (identifiers) => serializeVndbFilter(staffFilters.anyOf('id', identifiers)),
+  failureDescription: 'Unable to retrieve staff details'
+});
+const producerDetailBatchLoader = createVndbBatchLoader({
+  endpointPath: '/producer',
+  fields: PRODUCER_DETAIL_FIELD_SELECTION,
+  decodeEntry: decodeProducerDetailedEntry,
+  buildIdentifierFilter: (identifiers) => serializeVndbFilter(producerFilters.anyOf('id', identifiers)),
+  failureDescription: 'Unable to retrieve producer details'
+});
+const tagMetadataBatchLoader = createVndbBatchLoader({
+  endpointPath: '/tag',
+  fields: "id, name, category",
+  decodeEntry: decodeTagMetadataEntry,
+  buildIdentifierFilter: (identifiers) => serializeVndbFilter(tagFilters.anyOf('id', identifiers)),
+  failureDescription: 'Unable to retrieve tag metadata'
+});
+const traitMetadataBatchLoader = createVndbBatchLoader({
+  endpointPath: '/trait',
+  fields: "id, name, group_name",
+  decodeEntry: decodeCharacterTraitMetadataEntry,
+  buildIdentifierFilter: (identifiers) => serializeVndbFilter(traitFilters.anyOf('id', identifiers)),
+  failureDescription: 'Unable to retrieve trait metadata'
+});
 
 // Normalize all VN identifiers to canonical `v<number>` form for consistent cache keys and API writes.
 function normalizeVisualNovelIdentifier(visualNovelIdentifier: string) {
@@ -35,183 +239,185 @@ function normalizeVisualNovelIdentifier(visualNovelIdentifier: string) {
     : `v${normalizedRawIdentifier}`;
 }
 
-function readFromCache(cacheStore: Map<string, { expiresAt: number; payload: unknown }>, cacheKey: string) {
-  const cachedEntry = cacheStore.get(cacheKey);
-  if (!cachedEntry) {
-    return null;
-  }
-
-  if (Date.now() > cachedEntry.expiresAt) {
-    cacheStore.delete(cacheKey);
-    return null;
-  }
-
-  return cachedEntry.payload;
+function normalizeUserIdentifier(userIdentifier: string) {
+  const normalizedRawIdentifier = userIdentifier.trim().toLowerCase();
+  return normalizedRawIdentifier.startsWith('u')
+    ? normalizedRawIdentifier
+    : `u${normalizedRawIdentifier}`;
 }
 
-function writeToCache(cacheStore: Map<string, { expiresAt: number; payload: unknown }>, cacheKey: string, payload: unknown) {
-  cacheStore.set(cacheKey, {
-    expiresAt: Date.now() + CACHE_TIME_TO_LIVE_MILLISECONDS,
-    payload
-  });
+// Drops every cached VNDB response from memory and IndexedDB so the next reads hit the network.
+export async function clearCachedVisualNovelDatabaseResponses() {
+  await clearAllQueryCaches();
 }
 
 // The VNDB API operates via custom JSON queries over POST rather than standard REST routes.
 // This function isolates the network layer so the UI components never interact with raw fetch logic.
-export async function fetchVisualNovelEntries(parameters: QueryParameters) {
-  const targetApiEndpoint = buildVndbApiUrl('/vn');
-  
+export async function fetchVisualNovelEntries(
+  parameters: QueryParameters,
+  requestSignal?: AbortSignal
+): Promise<VisualNovelQueryResponse> {
   // Keep request payload shape aligned with VNDB's POST /vn format.
   const requestPayload = {
-    filters: parameters.queryFilters,
+    filters: serializeVndbFilter(parameters.queryFilters),
     fields: parameters.requestedFields,
     results: parameters.maxResults,
     page: parameters.pageNumber,
     sort: parameters.sortField,
     reverse: parameters.reverseSort
   };
-  const cacheKey = JSON.stringify(requestPayload);
-  const cachedPayload = readFromCache(listQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload;
-  }
+  return readThroughQueryCache(listQueryCache, JSON.stringify(requestPayload), (loadSignal) => (
+    executeVndbJsonRequest('/vn', {
+      payload: requestPayload,
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to retrieve visual novel entries'
+    }, decodeVndbPage(decodeVisualNovelDatabaseEntry))
+  ), requestSignal);
+}
 
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
+// Total number of VNs matching the filter, without loading any of them. Not cached: callers want the current count.
+export async function fetchVisualNovelMatchCount(queryFilters: VisualNovelFilter, requestSignal?: AbortSignal): Promise<number> {
+  const countResponse = await executeVndbJsonRequest('/vn', {
+    payload: {
+      filters: serializeVndbFilter(queryFilters),
+      fields: 'id',
+      results: 0,
+      count: true
     },
-    body: JSON.stringify(requestPayload)
-  });
-
-  if (!networkResponse.ok) {
-    throw new Error('Network boundary failure: Unable to retrieve visual novel entries.');
-  }
-
-  const responsePayload = await networkResponse.json();
-  writeToCache(listQueryCache, cacheKey, responsePayload);
-  return responsePayload;
+    requestSignal,
+    failureDescription: 'Unable to count visual novel entries'
+  }, decodeVndbCount);
+  return countResponse.count;
 }
 
-export async function fetchAuthenticationInfoByToken(authenticationToken: string): Promise<VisualNovelAuthInfoResponse> {
-  const targetApiEndpoint = buildVndbApiUrl('/authinfo');
+// The most recently added VN. IDs only grow, so anything above it later is new to the database.
+export async function fetchLatestVisualNovelIdentifier(requestSignal?: AbortSignal): Promise<string | null> {
+  const responsePayload = await executeVndbJsonRequest('/vn', {
+    payload: {
+      filters: serializeVndbFilter(visualNovelFilters.where('id', '>=', 'v1')),
+      fields: 'id',
+      results: 1,
+      sort: 'id',
+      reverse: true
+    },
+    requestSignal,
+    failureDescription: 'Unable to retrieve the latest visual novel'
+  }, decodeVndbPage(decodeVisualNovelIdentifierEntry));
+  return responsePayload.results[0]?.id ?? null;
+}
 
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'GET',
-    headers: {
-      Authorization: `Token ${authenticationToken}`
-    }
+export async function fetchAuthenticationInfoByToken(
+  authenticationToken: string,
+  requestSignal?: AbortSignal
+): Promise<VisualNovelAuthInfoResponse> {
+  const networkResponse = await executeVndbRequest('/authinfo', {
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to validate authentication token',
+    tolerateStatusCodes: [400, 401, 403]
   });
 
   if (!networkResponse.ok) {
-    throw new Error('Authentication failure: Invalid token or unauthorized request.');
+    throw new VndbAuthenticationError('That VNDB token is invalid or has expired.', networkResponse.status);
   }
 
-  return networkResponse.json();
+  return decodeAuthInfoResponse(await networkResponse.json(), '/authinfo');
 }
 
-export async function fetchDatabaseStatistics() {
-  const targetApiEndpoint = buildVndbApiUrl('/stats');
-  const cacheKey = 'global_database_stats';
-  const cachedPayload = readFromCache(statsQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as {
-      visualNovels: number;
-      tags: number;
-      releases: number;
-      producers: number;
-      staff: number;
-      characters: number;
-      traits: number;
-    };
-  }
-
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'GET'
-  });
+// Resolves a username (matched case-insensitively) or `u123` identifier to the account's public identity;
+// null when no account matches.
+export async function fetchVndbUserByName(userQuery: string, requestSignal?: AbortSignal): Promise<VndbUserLookupEntry | null> {
+  const normalizedUserQuery = userQuery.trim();
+  const endpointPath = `/user?q=${encodeURIComponent(normalizedUserQuery)}`;
+
+  return readThroughQueryCache(userListQueryCache, endpointPath, async (loadSignal) => {
+    const responsePayload = await executeVndbJsonRequest(endpointPath, {
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to look up that VNDB user'
+    }, decodeUserLookupResponse(normalizedUserQuery));
+    return responsePayload[normalizedUserQuery] ?? null;
+  }, requestSignal);
+}
 
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to retrieve VNDB statistics (HTTP ${networkResponse.status}).`);
-  }
+export async function fetchDatabaseStatistics(requestSignal?: AbortSignal) {
+  async function loadDatabaseStatistics(loadSignal?: AbortSignal) {
+    const responsePayload = await executeVndbJsonRequest('/stats', {
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to retrieve VNDB statistics'
+    }, decodeDatabaseStatisticsResponse);
 
-  const responsePayload = await networkResponse.json() as Record<string, unknown>;
-  function readNumericStatValue(...candidateKeys: string[]) {
-    const matchingCandidate = candidateKeys.find((candidateKey) => (
-      typeof responsePayload[candidateKey] === 'number' && Number.isFinite(responsePayload[candidateKey] as number)
-    ));
-    return matchingCandidate ? Number(responsePayload[matchingCandidate]) : 0;
+    return {
+      visualNovels: responsePayload.vn,
+      tags: responsePayload.tags,
+      releases: responsePayload.releases,
+      producers: responsePayload.producers,
+      staff: responsePayload.staff,
+      characters: responsePayload.chars,
+      traits: responsePayload.traits
+    };
   }
 
-  const normalizedStatistics = {
-    visualNovels: readNumericStatValue('vn', 'vns', 'visual_novels', 'visualNovels'),
-    tags: readNumericStatValue('tags', 'tag'),
-    releases: readNumericStatValue('releases', 'release'),
-    producers: readNumericStatValue('producers', 'producer'),
-    staff: readNumericStatValue('staff'),
-    characters: readNumericStatValue('chars', 'characters', 'character'),
-    traits: readNumericStatValue('traits', 'trait')
-  };
-
-  writeToCache(statsQueryCache, cacheKey, normalizedStatistics);
-  return normalizedStatistics;
+  return readThroughQueryCache(statsQueryCache, 'global_database_stats', loadDatabaseStatistics, requestSignal);
 }
 
 // Append this function to src/api/visualNovelClient.ts
 
 // This function isolates the network logic for retrieving a comprehensive single record.
-async function fetchVisualNovelDetailedPayloadByFields(
+async function fetchVisualNovelDetailedPayloadByLoader<TEntry extends VisualNovelDetailedFragment>(
   visualNovelIdentifier: string,
-  fieldSelection: string
-): Promise<VisualNovelDetailedQueryResponse> {
-  const targetApiEndpoint = buildVndbApiUrl('/vn');
+  detailBatchLoader: VndbBatchLoader<TEntry>,
+  fieldSelection: string,
+  requestSignal?: AbortSignal
+): Promise<{ results: TEntry[]; more: boolean }> {
   if (typeof visualNovelIdentifier !== 'string' || visualNovelIdentifier.trim() === '') {
     throw new Error('Detail lookup failure: Missing visual novel identifier.');
   }
 
   const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
-  const requestPayload = {
-    filters: ["id", "=", normalizedVisualNovelIdentifier],
-    fields: fieldSelection,
-    results: 1
-  };
-  const cacheKey = JSON.stringify(requestPayload);
-  const cachedPayload = readFromCache(detailQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as VisualNovelDetailedQueryResponse;
-  }
-
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestPayload)
-  });
-
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to retrieve visual novel details (HTTP ${networkResponse.status}).`);
-  }
+  const cacheKey = JSON.stringify({ id: normalizedVisualNovelIdentifier, fields: fieldSelection });
+  return readThroughQueryCache(detailQueryCache, cacheKey, async (loadSignal) => {
+    const detailedEntry = await detailBatchLoader.load(normalizedVisualNovelIdentifier, loadSignal);
+    return {
+      results: detailedEntry ? [detailedEntry] : [],
+      more: false
+    };
+  }, requestSignal);
+}
 
-  const rawResponsePayload = await networkResponse.json() as { results?: Array<Record<string, unknown>>; more?: boolean };
-  const responsePayload: VisualNovelDetailedQueryResponse = {
-    results: Array.isArray(rawResponsePayload.results)
-      ? (rawResponsePayload.results as unknown as VisualNovelDetailedQueryResponse['results'])
-      : [],
-    more: Boolean(rawResponsePayload.more)
-  };
-  writeToCache(detailQueryCache, cacheKey, responsePayload);
-  return responsePayload;
+export async function fetchVisualNovelCoreDetailsById(
+  visualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<VisualNovelDetailedQueryResponse> {
+  return fetchVisualNovelDetailedPayloadByLoader(
+    visualNovelIdentifier,
+    coreDetailBatchLoader,
+    CORE_DETAIL_FIELD_SELECTION,
+    requestSignal
+  );
 }
 
-export async function fetchVisualNovelCoreDetailsById(visualNovelIdentifier: string) {
-  const coreFieldSelection = "id, title, rating, image.url, image.thumbnail, image.sexual, description, released";
-  return fetchVisualNovelDetailedPayloadByFields(visualNovelIdentifier, coreFieldSelection);
+export async function fetchVisualNovelSupplementalDetailsById(
+  visualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<VisualNovelDetailedFragmentQueryResponse> {
+  return fetchVisualNovelDetailedPayloadByLoader(
+    visualNovelIdentifier,
+    supplementalDetailBatchLoader,
+    SUPPLEMENTAL_DETAIL_FIELD_SELECTION,
+    requestSignal
+  );
 }
 
-export async function fetchVisualNovelSupplementalDetailsById(visualNovelIdentifier: string) {
-  const supplementalFieldSelection =
-    "id, screenshots.url, screenshots.thumbnail, tags.id, tags.name, tags.category, tags.spoiler, tags.rating, relations.id, relations.title, relations.relation, developers.id, developers.name, developers.original";
-  return fetchVisualNovelDetailedPayloadByFields(visualNovelIdentifier, supplementalFieldSelection);
+export async function fetchVisualNovelStaffCreditsById(
+  visualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<VisualNovelDetailedFragmentQueryResponse> {
+  return fetchVisualNovelDetailedPayloadByLoader(
+    visualNovelIdentifier,
+    staffCreditBatchLoader,
+    STAFF_CREDIT_FIELD_SELECTION,
+    requestSignal
+  );
 }
 
 export async function prefetchVisualNovelCoreDetailsById(visualNovelIdentifier: string) {
@@ -222,78 +428,112 @@ export async function prefetchVisualNovelCoreDetailsById(visualNovelIdentifier:
   }
 }
 
-export async function fetchVisualNovelStoreLinksById(visualNovelIdentifier: string): Promise<VisualNovelExternalLinkEntry[]> {
-  const targetApiEndpoint = buildVndbApiUrl('/release');
+// Long-running franchises rarely exceed a few pages of releases.
+const MAXIMUM_RELEASE_PAGES = 10;
+
+const RELEASE_FIELD_SELECTION = [
+  "id, title, released, minage, patch, freeware, official",
+  "languages.lang, languages.mtl, platforms, media.medium, media.qty",
+  "resolution, voiced, animation, vns.id, vns.rtype",
+  "extlinks.url, extlinks.label, extlinks.name, extlinks.id"
+].join(", ");
+
+// Every release of the VN, newest first, up to the page cap; `isTruncated` reports when the cap was hit.
+export async function fetchVisualNovelReleasesById(
+  visualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<CollectedVndbPages<VisualNovelReleaseEntry>> {
   const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
-  const requestPayload = {
-    filters: ["vn", "=", ["id", "=", normalizedVisualNovelIdentifier]],
-    fields: "id, title, released, official, freeware, extlinks.url, extlinks.label, extlinks.name, extlinks.id",
-    results: 100,
-    sort: "released",
-    reverse: true
-  };
-  const cacheKey = JSON.stringify(requestPayload);
-  const cachedPayload = readFromCache(releaseQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as VisualNovelExternalLinkEntry[];
-  }
+  const releaseFilterPayload = serializeVndbFilter(
+    releaseFilters.where('vn', '=', visualNovelFilters.where('id', '=', normalizedVisualNovelIdentifier))
+  );
+  const cacheKey = JSON.stringify({ filters: releaseFilterPayload, fields: RELEASE_FIELD_SELECTION });
+  return readThroughQueryCache(releaseQueryCache, cacheKey, async (loadSignal) => {
+    const collectedReleasePages = await collectVndbPages<VisualNovelReleaseEntry>({
+      maximumPages: MAXIMUM_RELEASE_PAGES,
+      requestSignal: loadSignal,
+      loadPage: (pageNumber, pageSize, pageSignal) => (
+        executeVndbJsonRequest('/release', {
+          payload: {
+            filters: releaseFilterPayload,
+            fields: RELEASE_FIELD_SELECTION,
+            results: pageSize,
+            page: pageNumber,
+            sort: "released",
+            reverse: true
+          },
+          requestSignal: pageSignal,
+          failureDescription: 'Unable to retrieve visual novel releases'
+        }, decodeVndbPage(decodeReleaseEntry))
+      )
+    });
+    return collectedReleasePages;
+  }, requestSignal);
+}
 
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestPayload)
-  });
+// Releases of many VNs at once (release tracker, calendar export). VN IDs go out 100 per filter, so the result
+// is only ordered within each batch. `releasedFrom` (YYYY-MM-DD) skips older releases; releases linked to several
+// requested VNs appear once.
+export async function fetchReleasesForVisualNovels(
+  visualNovelIdentifiers: string[],
+  releasedFrom: string | null,
+  requestSignal?: AbortSignal
+): Promise<VisualNovelReleaseEntry[]> {
+  const normalizedIdentifiers = [...new Set(visualNovelIdentifiers.map(normalizeVisualNovelIdentifier))];
+  const releasesByIdentifier = new Map<string, VisualNovelReleaseEntry>();
+
+  for (let chunkStart = 0; chunkStart < normalizedIdentifiers.length; chunkStart += 100) {
+    const [firstIdentifier, ...remainingIdentifiers] = normalizedIdentifiers.slice(chunkStart, chunkStart + 100);
+    const visualNovelFilter = releaseFilters.where('vn', '=', visualNovelFilters.anyOf('id', [firstIdentifier, ...remainingIdentifiers]));
+    const releaseFilterPayload = serializeVndbFilter(
+      releasedFrom ? releaseFilters.and(visualNovelFilter, releaseFilters.where('released', '>=', releasedFrom)) : visualNovelFilter
+    );
+    const cacheKey = JSON.stringify({ filters: releaseFilterPayload, fields: RELEASE_FIELD_SELECTION, sort: 'released' });
+    const chunkReleases = await readThroughQueryCache(releaseQueryCache, cacheKey, async (loadSignal) => {
+      const collectedReleasePages = await collectVndbPages<VisualNovelReleaseEntry>({
+        requestSignal: loadSignal,
+        loadPage: (pageNumber, pageSize, pageSignal) => (
+          executeVndbJsonRequest('/release', {
+            payload: {
+              filters: releaseFilterPayload,
+              fields: RELEASE_FIELD_SELECTION,
+              results: pageSize,
+              page: pageNumber,
+              sort: "released"
+            },
+            requestSignal: pageSignal,
+            failureDescription: 'Unable to retrieve releases'
+          }, decodeVndbPage(decodeReleaseEntry))
+        )
+      });
+      return collectedReleasePages.entries;
+    }, requestSignal);
 
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to retrieve visual novel store links (HTTP ${networkResponse.status}).`);
+    chunkReleases.forEach((releaseEntry) => releasesByIdentifier.set(releaseEntry.id, releaseEntry));
   }
 
-  const responsePayload = await networkResponse.json() as {
-    results?: Array<Record<string, unknown>>;
-  };
+  return [...releasesByIdentifier.values()];
+}
+
+// Reduces release extlinks to deduplicated links for the storefronts we surface in the detail view.
+function normalizeReleaseStoreLinks(releaseEntries: VisualNovelReleaseEntry[]) {
   const ALLOWED_STORE_NAMES = ['steam', 'jast usa', 'jast', 'gog', 'mangagamer'];
 
   const normalizedStoreLinks: VisualNovelExternalLinkEntry[] = [];
   const dedupeKeySet = new Set<string>();
-  const releaseEntries = Array.isArray(responsePayload.results) ? responsePayload.results : [];
   releaseEntries.forEach((releaseEntry) => {
-    if (!releaseEntry || typeof releaseEntry !== 'object') {
-      return;
-    }
+    const releaseTitle = releaseEntry.title.trim() !== '' ? releaseEntry.title : undefined;
 
-    const releaseIdentifier = typeof releaseEntry.id === 'string'
-      ? releaseEntry.id
-      : typeof releaseEntry.id === 'number'
-        ? `r${releaseEntry.id}`
-        : undefined;
-    const releaseTitle = typeof releaseEntry.title === 'string' && releaseEntry.title.trim() !== ''
-      ? releaseEntry.title
-      : undefined;
-    const externalLinks = Array.isArray((releaseEntry as { extlinks?: unknown }).extlinks)
-      ? (releaseEntry as { extlinks: unknown[] }).extlinks
-      : [];
-
-    externalLinks.forEach((externalLinkEntry) => {
-      if (!externalLinkEntry || typeof externalLinkEntry !== 'object') {
-        return;
-      }
-
-      const rawExternalLink = externalLinkEntry as Record<string, unknown>;
-      const externalUrl = typeof rawExternalLink.url === 'string' ? rawExternalLink.url.trim() : '';
+    (releaseEntry.extlinks ?? []).forEach((externalLinkEntry) => {
+      const externalUrl = externalLinkEntry.url.trim();
       if (externalUrl === '') {
         return;
       }
 
-      const externalLabel = typeof rawExternalLink.label === 'string' && rawExternalLink.label.trim() !== ''
-        ? rawExternalLink.label.trim()
-        : typeof rawExternalLink.name === 'string' && rawExternalLink.name.trim() !== ''
-          ? rawExternalLink.name.trim()
-          : 'External Link';
-      const externalSource = typeof rawExternalLink.name === 'string' && rawExternalLink.name.trim() !== ''
-        ? rawExternalLink.name.trim()
-        : undefined;
+      const externalSource = externalLinkEntry.name.trim() !== '' ? externalLinkEntry.name.trim() : undefined;
+      const externalLabel = externalLinkEntry.label.trim() !== ''
+        ? externalLinkEntry.label.trim()
+        : externalSource ?? 'External Link';
       const normalizedSourceName = (externalSource ?? '').toLowerCase();
       const normalizedLabelName = externalLabel.toLowerCase();
       const isAllowedStoreLink = ALLOWED_STORE_NAMES.some((allowedStoreName) => (
@@ -312,24 +552,30 @@ export async function fetchVisualNovelStoreLinksById(visualNovelIdentifier: stri
         url: externalUrl,
         label: externalLabel,
         source: externalSource,
-        releaseId: releaseIdentifier,
+        releaseId: releaseEntry.id,
         releaseTitle
       });
     });
   });
-
-  writeToCache(releaseQueryCache, cacheKey, normalizedStoreLinks);
   return normalizedStoreLinks;
 }
 
-export async function fetchVisualNovelDetailsById(visualNovelIdentifier: string) {
+export async function fetchVisualNovelStoreLinksById(
+  visualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<VisualNovelExternalLinkEntry[]> {
+  const collectedReleases = await fetchVisualNovelReleasesById(visualNovelIdentifier, requestSignal);
+  return normalizeReleaseStoreLinks(collectedReleases.entries);
+}
+
+export async function fetchVisualNovelDetailsById(visualNovelIdentifier: string, requestSignal?: AbortSignal) {
   // Compatibility path for callers expecting a single heavy detail payload.
   const [corePayload, supplementalPayload] = await Promise.all([
-    fetchVisualNovelCoreDetailsById(visualNovelIdentifier),
-    fetchVisualNovelSupplementalDetailsById(visualNovelIdentifier)
+    fetchVisualNovelCoreDetailsById(visualNovelIdentifier, requestSignal),
+    fetchVisualNovelSupplementalDetailsById(visualNovelIdentifier, requestSignal)
   ]);
-  const coreEntry = Array.isArray(corePayload.results) ? corePayload.results[0] ?? null : null;
-  const supplementalEntry = Array.isArray(supplementalPayload.results) ? supplementalPayload.results[0] ?? null : null;
+  const coreEntry = corePayload.results[0] ?? null;
+  const supplementalEntry = supplementalPayload.results[0] ?? null;
   if (!coreEntry) {
     return {
       results: [],
@@ -348,11 +594,11 @@ export async function fetchVisualNovelDetailsById(visualNovelIdentifier: string)
   };
 }
 
-export async function fetchCharacterEntriesByVisualNovelId(visualNovelIdentifier: string): Promise<CharacterQueryResponse> {
-  const characterApiEndpoint = buildVndbApiUrl('/character');
-  const visualNovelApiEndpoint = buildVndbApiUrl('/vn');
+export async function fetchCharacterEntriesByVisualNovelId(
+  visualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<CharacterQueryResponse> {
   const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
-  const numericVisualNovelIdentifier = Number(normalizedVisualNovelIdentifier.replace(/^v/i, ''));
 
   // Preferred path: fetch characters as a nested VN field, which is usually the most stable association.
   const visualNovelCharacterFieldCandidates = [
@@ -360,528 +606,618 @@ export async function fetchCharacterEntriesByVisualNovelId(visualNovelIdentifier
     "id, chars.id, chars.name, chars.original, chars.image.url, chars.image.thumbnail, chars.image.sexual"
   ];
 
-  function normalizeCharacterCollection(rawCollection: unknown): CharacterQueryResponse {
-    if (!Array.isArray(rawCollection)) {
-      return { results: [], more: false };
-    }
-
-    const normalizedCharacterEntries = rawCollection.reduce<CharacterQueryResponse['results']>((accumulatedEntries, rawCharacterEntry) => {
-      if (!rawCharacterEntry || typeof rawCharacterEntry !== 'object') {
-        return accumulatedEntries;
-      }
-
-      const characterEntry = rawCharacterEntry as {
-        id?: unknown;
-        name?: unknown;
-        original?: unknown;
-        image?: unknown;
-      };
-      const normalizedCharacterIdentifier = typeof characterEntry.id === 'string'
-        ? characterEntry.id
-        : typeof characterEntry.id === 'number'
-          ? `c${characterEntry.id}`
-          : null;
-      const normalizedCharacterName = typeof characterEntry.name === 'string' ? characterEntry.name : null;
-      if (!normalizedCharacterIdentifier || !normalizedCharacterName) {
-        return accumulatedEntries;
-      }
-
-      accumulatedEntries.push({
-        id: normalizedCharacterIdentifier,
-        name: normalizedCharacterName,
-        original: typeof characterEntry.original === 'string' ? characterEntry.original : null,
-        image: characterEntry.image && typeof characterEntry.image === 'object'
-          ? characterEntry.image as { id: string; url: string; thumbnail: string; sexual: number }
-          : null
-      });
-
-      return accumulatedEntries;
-    }, []);
-
-    return {
-      results: normalizedCharacterEntries,
-      more: false
-    };
-  }
-
   for (const fieldCandidate of visualNovelCharacterFieldCandidates) {
     const requestPayload = {
-      filters: ["id", "=", normalizedVisualNovelIdentifier],
+      filters: serializeVndbFilter(visualNovelFilters.where('id', '=', normalizedVisualNovelIdentifier)),
       fields: fieldCandidate,
       results: 1
     };
     const cacheKey = JSON.stringify({ characterSource: 'vn', ...requestPayload });
-    const cachedPayload = readFromCache(characterQueryCache, cacheKey);
-    if (cachedPayload) {
-      return cachedPayload as CharacterQueryResponse;
+    // Field-candidate probing is not a single loader, so stale hits here simply refetch instead of revalidating.
+    const cachedEntry = await characterQueryCache.read(cacheKey);
+    if (cachedEntry && !cachedEntry.isStale) {
+      return cachedEntry.payload as CharacterQueryResponse;
     }
 
-    const networkResponse = await fetch(visualNovelApiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestPayload)
+    const networkResponse = await executeVndbRequest('/vn', {
+      payload: requestPayload,
+      requestSignal,
+      failureDescription: 'Unable to retrieve characters for visual novel',
+      tolerateStatusCodes: [400]
     });
 
-    if (!networkResponse.ok) {
-      if (networkResponse.status === 400) {
-        continue;
-      }
-      throw new Error(`Network boundary failure: Unable to retrieve characters for visual novel (HTTP ${networkResponse.status}).`);
+    if (networkResponse.status === 400) {
+      continue;
     }
 
-    const responsePayload = await networkResponse.json() as {
-      results?: Array<Record<string, unknown>>;
+    const responsePayload = decodeVndbPage(decodeVisualNovelCharacterCollection)(await networkResponse.json(), '/vn');
+    const firstVisualNovelEntry = responsePayload.results[0];
+    const normalizedCharacterPayload: CharacterQueryResponse = {
+      results: (firstVisualNovelEntry?.characters ?? firstVisualNovelEntry?.chars ?? []).map((characterEntry) => ({
+        ...characterEntry,
+        description: null,
+        traits: null,
+        vns: null
+      })),
+      more: false
     };
-    const firstVisualNovelEntry = Array.isArray(responsePayload.results) ? responsePayload.results[0] : null;
-    const normalizedCharacterPayload = normalizeCharacterCollection(
-      firstVisualNovelEntry?.characters ?? firstVisualNovelEntry?.chars
-    );
     if (normalizedCharacterPayload.results.length > 0) {
-      writeToCache(characterQueryCache, cacheKey, normalizedCharacterPayload);
+      characterQueryCache.write(cacheKey, normalizedCharacterPayload);
       return normalizedCharacterPayload;
     }
   }
 
-  // Fallback path: query /character directly with multiple filter syntaxes.
-  const sharedRequestPayload = {
+  // Fallback path: query /character directly through its nested VN filter.
+  const requestPayload = {
+    filters: serializeVndbFilter(
+      characterFilters.where('vn', '=', visualNovelFilters.where('id', '=', normalizedVisualNovelIdentifier))
+    ),
     fields: "id, name, original, image.url, image.thumbnail, image.sexual",
     results: 100,
     sort: "name",
     reverse: false
   };
-  const filterCandidates: unknown[][] = [
-    ["vn", "=", ["id", "=", normalizedVisualNovelIdentifier]],
-    ["vn", "=", normalizedVisualNovelIdentifier],
-    ["vns", "=", ["id", "=", normalizedVisualNovelIdentifier]],
-    ...(Number.isFinite(numericVisualNovelIdentifier) && numericVisualNovelIdentifier > 0
-      ? [
-          ["vn", "=", numericVisualNovelIdentifier],
-          ["vn", "=", ["id", "=", numericVisualNovelIdentifier]],
-          ["vns", "=", ["id", "=", numericVisualNovelIdentifier]]
-        ]
-      : [])
-  ];
-
-  for (const filterCandidate of filterCandidates) {
-    const requestPayload = {
-      ...sharedRequestPayload,
-      filters: filterCandidate
-    };
-    const cacheKey = JSON.stringify(requestPayload);
-    const cachedPayload = readFromCache(characterQueryCache, cacheKey);
-    if (cachedPayload) {
-      return cachedPayload as CharacterQueryResponse;
-    }
-
-    const networkResponse = await fetch(characterApiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestPayload)
-    });
-
-    if (!networkResponse.ok) {
-      // Try alternate filter shapes when VNDB rejects a specific filter syntax.
-      if (networkResponse.status === 400) {
-        continue;
-      }
-
-      throw new Error(`Network boundary failure: Unable to retrieve characters for visual novel (HTTP ${networkResponse.status}).`);
-    }
-
-    const responsePayload: CharacterQueryResponse = await networkResponse.json();
-    writeToCache(characterQueryCache, cacheKey, responsePayload);
-    return responsePayload;
-  }
-
-  return { results: [], more: false };
+  return readThroughQueryCache(characterQueryCache, JSON.stringify(requestPayload), (loadSignal) => (
+    executeVndbJsonRequest('/character', {
+      payload: requestPayload,
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to retrieve characters for visual novel'
+    }, decodeVndbPage(decodeCharacterDetailedEntry))
+  ), requestSignal);
 }
 
-export async function fetchCharacterDetailsById(characterIdentifier: string): Promise<CharacterQueryResponse> {
-  const targetApiEndpoint = buildVndbApiUrl('/character');
+export async function fetchCharacterDetailsById(
+  characterIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<CharacterQueryResponse> {
   const normalizedCharacterIdentifier = characterIdentifier.trim().toLowerCase().startsWith('c')
     ? characterIdentifier.trim().toLowerCase()
     : `c${characterIdentifier.trim().toLowerCase()}`;
-  const requestPayload = {
-    filters: ["id", "=", normalizedCharacterIdentifier],
-    fields: "id, name, original, description, image.url, image.thumbnail, image.sexual, traits.id, traits.name, traits.spoiler, vns.id, vns.title, vns.role",
-    results: 1
-  };
-  const cacheKey = JSON.stringify(requestPayload);
-  const cachedPayload = readFromCache(characterQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as CharacterQueryResponse;
-  }
-
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestPayload)
-  });
-
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to retrieve character details (HTTP ${networkResponse.status}).`);
-  }
-
-  const responsePayload: CharacterQueryResponse = await networkResponse.json();
-  writeToCache(characterQueryCache, cacheKey, responsePayload);
-  return responsePayload;
+  const cacheKey = JSON.stringify({ id: normalizedCharacterIdentifier, fields: CHARACTER_DETAIL_FIELD_SELECTION });
+  return readThroughQueryCache(characterQueryCache, cacheKey, async (loadSignal) => {
+    const characterEntry = await characterDetailBatchLoader.load(normalizedCharacterIdentifier, loadSignal);
+    return {
+      results: characterEntry ? [characterEntry] : [],
+      more: false
+    };
+  }, requestSignal);
 }
 
-export async function fetchCharactersByTraitId(traitIdentifier: string): Promise<CharacterQueryResponse> {
-  const targetApiEndpoint = buildVndbApiUrl('/character');
+export async function fetchCharactersByTraitId(
+  traitIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<CharacterQueryResponse> {
   const normalizedTraitIdentifier = traitIdentifier.trim().toLowerCase().startsWith('i')
     ? traitIdentifier.trim().toLowerCase()
     : `i${traitIdentifier.trim().toLowerCase()}`;
   const requestPayload = {
-    filters: ["trait", "=", normalizedTraitIdentifier],
+    filters: serializeVndbFilter(characterFilters.where('trait', '=', normalizedTraitIdentifier)),
     fields: "id, name, original, image.url, image.thumbnail, image.sexual, vns.id, vns.title",
     results: 100
   };
-  const cacheKey = JSON.stringify(requestPayload);
-  const cachedPayload = readFromCache(characterQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as CharacterQueryResponse;
-  }
+  return readThroughQueryCache(characterQueryCache, JSON.stringify(requestPayload), (loadSignal) => (
+    executeVndbJsonRequest('/character', {
+      payload: requestPayload,
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to retrieve trait character matches'
+    }, decodeVndbPage(decodeCharacterDetailedEntry))
+  ), requestSignal);
+}
 
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestPayload)
-  });
+function normalizeProducerIdentifier(producerIdentifier: string) {
+  const normalizedRawIdentifier = producerIdentifier.trim().toLowerCase();
+  return normalizedRawIdentifier.startsWith('p')
+    ? normalizedRawIdentifier
+    : `p${normalizedRawIdentifier}`;
+}
 
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to retrieve trait character matches (HTTP ${networkResponse.status}).`);
+export async function fetchProducerDetailsById(
+  producerIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<ProducerQueryResponse> {
+  if (typeof producerIdentifier !== 'string' || producerIdentifier.trim() === '') {
+    throw new Error('Producer lookup failure: Missing producer identifier.');
   }
 
-  const responsePayload: CharacterQueryResponse = await networkResponse.json();
-  writeToCache(characterQueryCache, cacheKey, responsePayload);
-  return responsePayload;
+  const normalizedProducerIdentifier = normalizeProducerIdentifier(producerIdentifier);
+  const cacheKey = JSON.stringify({ id: normalizedProducerIdentifier, fields: PRODUCER_DETAIL_FIELD_SELECTION });
+  return readThroughQueryCache(producerQueryCache, cacheKey, async (loadSignal) => {
+    const producerEntry = await producerDetailBatchLoader.load(normalizedProducerIdentifier, loadSignal);
+    return {
+      results: producerEntry ? [producerEntry] : [],
+      more: false
+    };
+  }, requestSignal);
 }
 
-export async function fetchTraitMetadataByIds(traitIdentifiers: string[]): Promise<CharacterTraitQueryResponse> {
-  const normalizedTraitIdentifiers = [...new Set(traitIdentifiers.filter((traitIdentifier) => traitIdentifier.trim() !== ''))].sort();
-  if (normalizedTraitIdentifiers.length === 0) {
-    return { results: [], more: false };
-  }
-
-  const targetApiEndpoint = buildVndbApiUrl('/trait');
-  const identifierFilter =
-    normalizedTraitIdentifiers.length === 1
-      ? ["id", "=", normalizedTraitIdentifiers[0]]
-      : ["or", ...normalizedTraitIdentifiers.map((traitIdentifier) => ["id", "=", traitIdentifier])];
+// Name search for producer pickers, best matches first.
+export async function fetchProducerEntries(
+  searchTerm: string,
+  maximumResults = 10,
+  requestSignal?: AbortSignal
+): Promise<ProducerQueryResponse> {
   const requestPayload = {
-    filters: identifierFilter,
-    fields: "id, name, group_name",
-    results: normalizedTraitIdentifiers.length
+    filters: serializeVndbFilter(producerFilters.where('search', '=', searchTerm.trim())),
+    fields: "id, name, original",
+    results: maximumResults,
+    sort: 'searchrank'
   };
-  const cacheKey = JSON.stringify(requestPayload);
-  const cachedPayload = readFromCache(traitQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as CharacterTraitQueryResponse;
-  }
+  return readThroughQueryCache(producerQueryCache, JSON.stringify(requestPayload), (loadSignal) => (
+    executeVndbJsonRequest('/producer', {
+      payload: requestPayload,
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to retrieve producer entries'
+    }, decodeVndbPage(decodeProducerDetailedEntry))
+  ), requestSignal);
+}
 
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestPayload)
+// Walks every page of a VN query up to the page cap; used for "everything by X" views where the full set is sorted locally.
+async function fetchAllVisualNovelEntryPages<TEntry>(
+  queryFilters: VisualNovelFilter,
+  requestedFields: string,
+  decodeEntry: Decoder<TEntry>,
+  requestSignal?: AbortSignal
+): Promise<CollectedVndbPages<TEntry>> {
+  const MAXIMUM_CATALOG_PAGES = 20;
+  const decodeCatalogPage = decodeVndbPage(decodeEntry);
+  const collectedCatalogPages = await collectVndbPages<TEntry>({
+    maximumPages: MAXIMUM_CATALOG_PAGES,
+    requestSignal,
+    loadPage: (pageNumber, pageSize, pageSignal) => {
+      const requestPayload = {
+        filters: serializeVndbFilter(queryFilters),
+        fields: requestedFields,
+        results: pageSize,
+        page: pageNumber,
+        sort: 'released'
+      };
+      return readThroughQueryCache(listQueryCache, JSON.stringify(requestPayload), (loadSignal) => (
+        executeVndbJsonRequest('/vn', {
+          payload: requestPayload,
+          requestSignal: loadSignal,
+          failureDescription: 'Unable to retrieve visual novel entries'
+        }, decodeCatalogPage)
+      ), pageSignal);
+    }
   });
+  return collectedCatalogPages;
+}
 
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to retrieve trait metadata (HTTP ${networkResponse.status}).`);
-  }
+// Loads every VN credited to the producer as developer, oldest first; callers re-sort locally.
+export async function fetchProducerCatalogById(
+  producerIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<CollectedVndbPages<ProducerCatalogEntry>> {
+  const normalizedProducerIdentifier = normalizeProducerIdentifier(producerIdentifier);
+  return fetchAllVisualNovelEntryPages(
+    visualNovelFilters.where('developer', '=', producerFilters.where('id', '=', normalizedProducerIdentifier)),
+    "id, title, rating, votecount, released, image.url, image.thumbnail, image.sexual",
+    decodeProducerCatalogEntry,
+    requestSignal
+  );
+}
 
-  const responsePayload: CharacterTraitQueryResponse = await networkResponse.json();
-  writeToCache(traitQueryCache, cacheKey, responsePayload);
-  return responsePayload;
+function normalizeStaffIdentifier(staffIdentifier: string) {
+  const normalizedRawIdentifier = staffIdentifier.trim().toLowerCase();
+  return normalizedRawIdentifier.startsWith('s')
+    ? normalizedRawIdentifier
+    : `s${normalizedRawIdentifier}`;
 }
 
-export async function fetchTagMetadataByIds(tagIdentifiers: string[]): Promise<VisualNovelTagQueryResponse> {
-  const normalizedTagIdentifiers = [...new Set(tagIdentifiers.filter((tagIdentifier) => tagIdentifier.trim() !== ''))].sort();
-  if (normalizedTagIdentifiers.length === 0) {
-    return { results: [], more: false };
+export async function fetchStaffDetailsById(
+  staffIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<StaffQueryResponse> {
+  if (typeof staffIdentifier !== 'string' || staffIdentifier.trim() === '') {
+    throw new Error('Staff lookup failure: Missing staff identifier.');
   }
 
-  const targetApiEndpoint = buildVndbApiUrl('/tag');
-  const identifierFilter =
-    normalizedTagIdentifiers.length === 1
-      ? ["id", "=", normalizedTagIdentifiers[0]]
-      : ["or", ...normalizedTagIdentifiers.map((tagIdentifier) => ["id", "=", tagIdentifier])];
+  const normalizedStaffIdentifier = normalizeStaffIdentifier(staffIdentifier);
+  const cacheKey = JSON.stringify({ id: normalizedStaffIdentifier, fields: STAFF_DETAIL_FIELD_SELECTION });
+  return readThroughQueryCache(staffQueryCache, cacheKey, async (loadSignal) => {
+    const staffEntry = await staffDetailBatchLoader.load(normalizedStaffIdentifier, loadSignal);
+    return {
+      results: staffEntry ? [staffEntry] : [],
+      more: false
+    };
+  }, requestSignal);
+}
 
-  const requestPayload = {
-    filters: identifierFilter,
-    fields: "id, name, category",
-    results: normalizedTagIdentifiers.length
-  };
+// Production credits come from the VN `staff` filter, voice credits from characters voiced by this person.
+// Both are merged per VN so a writer who also voiced a role shows a single row with every credit.
+export async function fetchStaffCreditedVisualNovelsById(
+  staffIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<CollectedVndbPages<StaffCreditedVisualNovelEntry>> {
+  const normalizedStaffIdentifier = normalizeStaffIdentifier(staffIdentifier);
+  const staffIdentifierFilter = staffFilters.where('id', '=', normalizedStaffIdentifier);
+  const [productionCreditPages, voiceCreditPages] = await Promise.all([
+    fetchAllVisualNovelEntryPages(
+      visualNovelFilters.where('staff', '=', staffIdentifierFilter),
+      "id, title, released, rating, staff.id, staff.name, staff.role, staff.note",
+      decodeVisualNovelDetailedFragment,
+      requestSignal
+    ),
+    fetchAllVisualNovelEntryPages(
+      visualNovelFilters.where('character', '=', characterFilters.where('seiyuu', '=', staffIdentifierFilter)),
+      "id, title, released, rating, va.note, va.staff.id, va.staff.name, va.character.id, va.character.name",
+      decodeVisualNovelDetailedFragment,
+      requestSignal
+    )
+  ]);
 
-  const cacheKey = JSON.stringify(requestPayload);
-  const cachedPayload = readFromCache(tagQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as VisualNovelTagQueryResponse;
+  const creditedEntriesByIdentifier = new Map<string, StaffCreditedVisualNovelEntry>();
+  function resolveCreditedEntry(visualNovelEntry: VisualNovelDetailedFragment) {
+    const existingEntry = creditedEntriesByIdentifier.get(visualNovelEntry.id);
+    if (existingEntry) {
+      return existingEntry;
+    }
+
+    const createdEntry: StaffCreditedVisualNovelEntry = {
+      id: visualNovelEntry.id,
+      title: visualNovelEntry.title ?? '',
+      released: visualNovelEntry.released ?? null,
+      rating: visualNovelEntry.rating ?? null,
+      credits: []
+    };
+    creditedEntriesByIdentifier.set(visualNovelEntry.id, createdEntry);
+    return createdEntry;
   }
 
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestPayload)
+  productionCreditPages.entries.forEach((visualNovelEntry) => {
+    const creditedEntry = resolveCreditedEntry(visualNovelEntry);
+    (visualNovelEntry.staff ?? [])
+      .filter((staffCredit) => staffCredit.id === normalizedStaffIdentifier)
+      .forEach((staffCredit) => creditedEntry.credits.push({ role: staffCredit.role, note: staffCredit.note ?? null }));
+  });
+  voiceCreditPages.entries.forEach((visualNovelEntry) => {
+    const creditedEntry = resolveCreditedEntry(visualNovelEntry);
+    (visualNovelEntry.va ?? [])
+      .filter((voiceCredit) => voiceCredit.staff.id === normalizedStaffIdentifier)
+      .forEach((voiceCredit) => creditedEntry.credits.push({
+        role: 'va',
+        note: voiceCredit.note ?? null,
+        characterName: voiceCredit.character.name
+      }));
   });
 
-  if (!networkResponse.ok) {
-    throw new Error('Network boundary failure: Unable to retrieve tag metadata.');
-  }
+  return {
+    entries: [...creditedEntriesByIdentifier.values()],
+    isTruncated: productionCreditPages.isTruncated || voiceCreditPages.isTruncated
+  };
+}
 
-  const responsePayload: VisualNovelTagQueryResponse = await networkResponse.json();
-  writeToCache(tagQueryCache, cacheKey, responsePayload);
-  return responsePayload;
+// Metadata is cached per ID, so overlapping ID sets across views reuse entries; misses go through the batch loader.
+export async function fetchTraitMetadataByIds(
+  traitIdentifiers: string[],
+  requestSignal?: AbortSignal
+): Promise<CharacterTraitQueryResponse> {
+  const normalizedTraitIdentifiers = [...new Set(traitIdentifiers.filter((traitIdentifier) => traitIdentifier.trim() !== ''))].sort();
+  const traitEntries = await Promise.all(normalizedTraitIdentifiers.map((traitIdentifier) => (
+    readThroughQueryCache(traitQueryCache, `trait_metadata:${traitIdentifier}`, (loadSignal) => (
+      traitMetadataBatchLoader.load(traitIdentifier, loadSignal)
+    ), requestSignal)
+  )));
+
+  return {
+    results: traitEntries.filter((traitEntry): traitEntry is CharacterTraitMetadataEntry => traitEntry !== null),
+    more: false
+  };
+}
+
+export async function fetchTagMetadataByIds(
+  tagIdentifiers: string[],
+  requestSignal?: AbortSignal
+): Promise<VisualNovelTagQueryResponse> {
+  const normalizedTagIdentifiers = [...new Set(tagIdentifiers.filter((tagIdentifier) => tagIdentifier.trim() !== ''))].sort();
+  const tagEntries = await Promise.all(normalizedTagIdentifiers.map((tagIdentifier) => (
+    readThroughQueryCache(tagQueryCache, `tag_metadata:${tagIdentifier}`, (loadSignal) => (
+      tagMetadataBatchLoader.load(tagIdentifier, loadSignal)
+    ), requestSignal)
+  )));
+
+  return {
+    results: tagEntries.filter((tagEntry): tagEntry is VisualNovelTagMetadataEntry => tagEntry !== null),
+    more: false
+  };
 }
 
-export async function fetchTagEntries(searchTerm: string, pageNumber = 1, maximumResults = 50): Promise<VisualNovelTagQueryResponse> {
+export async function fetchTagEntries(
+  searchTerm: string,
+  pageNumber = 1,
+  maximumResults = 50,
+  requestSignal?: AbortSignal
+): Promise<VisualNovelTagQueryResponse> {
   const normalizedSearchTerm = searchTerm.trim();
-  const targetApiEndpoint = buildVndbApiUrl('/tag');
   const requestPayload = {
-    filters: normalizedSearchTerm !== '' ? ["search", "=", normalizedSearchTerm] : ["id", ">=", "g1"],
+    filters: serializeVndbFilter(
+      normalizedSearchTerm !== '' ? tagFilters.where('search', '=', normalizedSearchTerm) : tagFilters.where('id', '>=', 'g1')
+    ),
     fields: "id, name, category, description, vn_count",
     results: maximumResults,
     page: pageNumber,
     sort: normalizedSearchTerm !== '' ? 'searchrank' : 'vn_count',
     reverse: normalizedSearchTerm === ''
   };
-  const cacheKey = JSON.stringify(requestPayload);
-  const cachedPayload = readFromCache(tagQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as VisualNovelTagQueryResponse;
-  }
-
-  const networkResponse = await fetch(targetApiEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestPayload)
-  });
-
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to retrieve tag entries (HTTP ${networkResponse.status}).`);
-  }
-
-  const responsePayload: VisualNovelTagQueryResponse = await networkResponse.json();
-  writeToCache(tagQueryCache, cacheKey, responsePayload);
-  return responsePayload;
+  return readThroughQueryCache(tagQueryCache, JSON.stringify(requestPayload), (loadSignal) => (
+    executeVndbJsonRequest('/tag', {
+      payload: requestPayload,
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to retrieve tag entries'
+    }, decodeVndbPage(decodeTagMetadataEntry))
+  ), requestSignal);
 }
 
 export async function fetchAuthenticatedUserVisualNovelList(
   authenticationToken: string,
   userIdentifier: string,
   pageNumber = 1,
-  maximumResults = 50
+  maximumResults = 50,
+  requestSignal?: AbortSignal,
+  pageQuery: UserListPageQuery = {}
 ): Promise<UserVisualNovelListResponse> {
-  const targetApiEndpoint = buildVndbApiUrl('/ulist');
-  const normalizedUserIdentifier = userIdentifier.toLowerCase().startsWith('u')
-    ? userIdentifier.toLowerCase()
-    : `u${userIdentifier}`;
+  return fetchUserVisualNovelListPage(authenticationToken, userIdentifier, pageNumber, maximumResults, requestSignal, pageQuery);
+}
+
+// Another user's list as anyone can see it: only entries carrying at least one public label are returned.
+export async function fetchPublicUserVisualNovelList(
+  userIdentifier: string,
+  pageNumber = 1,
+  maximumResults = 50,
+  requestSignal?: AbortSignal,
+  pageQuery: UserListPageQuery = {}
+): Promise<UserVisualNovelListResponse> {
+  return fetchUserVisualNovelListPage(undefined, userIdentifier, pageNumber, maximumResults, requestSignal, pageQuery);
+}
+
+async function fetchUserVisualNovelListPage(
+  authenticationToken: string | undefined,
+  userIdentifier: string,
+  pageNumber: number,
+  maximumResults: number,
+  requestSignal: AbortSignal | undefined,
+  pageQuery: UserListPageQuery
+): Promise<UserVisualNovelListResponse> {
+  const normalizedUserIdentifier = normalizeUserIdentifier(userIdentifier);
+  const queryPayload = {
+    ...(pageQuery.queryFilters ? { filters: serializeVndbFilter(pageQuery.queryFilters) } : {}),
+    ...(pageQuery.sortField ? { sort: pageQuery.sortField, reverse: Boolean(pageQuery.reverseSort) } : {})
+  };
   const labelsEnabledPayload = {
     user: normalizedUserIdentifier,
-    fields: "id, labels.id, labels.label, vn.id, vn.title, vn.rating, vn.image.id, vn.image.url, vn.image.thumbnail, vn.image.sexual",
+    fields: `id, labels.id, labels.label, ${USER_LIST_DETAIL_FIELD_SELECTION}, vn.id, vn.title, vn.rating, vn.image.id, vn.image.url, vn.image.thumbnail, vn.image.sexual`,
+    ...queryPayload,
     results: maximumResults,
     page: pageNumber
   };
   const minimalCompatibilityPayload = {
     user: normalizedUserIdentifier,
-    fields: "id, vn.id, vn.title, vn.rating, vn.image.id, vn.image.url, vn.image.thumbnail, vn.image.sexual",
+    fields: `id, ${USER_LIST_DETAIL_FIELD_SELECTION}, vn.id, vn.title, vn.rating, vn.image.id, vn.image.url, vn.image.thumbnail, vn.image.sexual`,
+    ...queryPayload,
     results: maximumResults,
     page: pageNumber
   };
-  const cacheKey = JSON.stringify({ cacheVersion: 3, token: authenticationToken, ...labelsEnabledPayload });
-  const cachedPayload = readFromCache(userListQueryCache, cacheKey);
-  if (cachedPayload) {
-    return cachedPayload as UserVisualNovelListResponse;
+  const cacheKey = JSON.stringify({ cacheVersion: 4, token: authenticationToken, ...labelsEnabledPayload });
+  const cachedEntry = await userListQueryCache.read(cacheKey);
+  if (cachedEntry) {
+    return cachedEntry.payload as UserVisualNovelListResponse;
   }
 
-  async function executeUlistRequest(requestPayload: Record<string, unknown>) {
-    return fetch(targetApiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Token ${authenticationToken}`
-      },
-      body: JSON.stringify(requestPayload)
-    });
-  }
+  const labelsEnabledResponse = await executeVndbRequest('/ulist', {
+    payload: labelsEnabledPayload,
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to retrieve user visual novel list',
+    tolerateStatusCodes: [400]
+  });
+  const networkResponse = labelsEnabledResponse.status === 400
+    ? await executeVndbRequest('/ulist', {
+        payload: minimalCompatibilityPayload,
+        authenticationToken,
+        requestSignal,
+        failureDescription: 'Unable to retrieve user visual novel list'
+      })
+    : labelsEnabledResponse;
+
+  const responsePayload: UserVisualNovelListResponse = decodeVndbPage(decodeUserVisualNovelListEntry)(
+    await networkResponse.json(),
+    '/ulist'
+  );
+  userListQueryCache.write(cacheKey, responsePayload);
+  return responsePayload;
+}
 
-  let networkResponse = await executeUlistRequest(labelsEnabledPayload);
-  if (!networkResponse.ok && networkResponse.status === 400) {
-    networkResponse = await executeUlistRequest(minimalCompatibilityPayload);
-  }
+// One page of the list with the VN fields the statistics view aggregates. Tag lists make these pages heavy,
+// so they are only loaded when the statistics view is opened.
+export async function fetchAuthenticatedUserListStatisticsPage(
+  authenticationToken: string,
+  userIdentifier: string,
+  pageNumber = 1,
+  maximumResults = 100,
+  requestSignal?: AbortSignal
+): Promise<DecodedVndbPage<UserListStatisticsEntry>> {
+  const requestPayload = {
+    user: normalizeUserIdentifier(userIdentifier),
+    fields: 'id, labels.id, labels.label, vote, started, finished, vn.title, vn.rating, vn.olang, vn.length, vn.length_minutes, '
+      + 'vn.developers.id, vn.developers.name, vn.tags.id, vn.tags.name, vn.tags.rating, vn.tags.spoiler, vn.tags.category',
+    results: maximumResults,
+    page: pageNumber
+  };
+  const cacheKey = JSON.stringify({ token: authenticationToken, ...requestPayload });
+
+  return readThroughQueryCache(userListQueryCache, cacheKey, (loadSignal) => (
+    executeVndbJsonRequest('/ulist', {
+      payload: requestPayload,
+      authenticationToken,
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to retrieve your list statistics'
+    }, decodeVndbPage(decodeUserListStatisticsEntry))
+  ), requestSignal);
+}
 
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to retrieve user visual novel list (HTTP ${networkResponse.status}).`);
-  }
+// Private labels are only returned when the token belongs to the list owner and has `listread`.
+export async function fetchAuthenticatedUserListLabels(
+  authenticationToken: string,
+  userIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<UserListLabelDefinition[]> {
+  return fetchUserListLabelDefinitions(authenticationToken, userIdentifier, requestSignal);
+}
 
-  const responsePayload: UserVisualNovelListResponse = await networkResponse.json();
-  writeToCache(userListQueryCache, cacheKey, responsePayload);
-  return responsePayload;
+// Another user's labels as anyone can see them: public labels only.
+export async function fetchPublicUserListLabels(userIdentifier: string, requestSignal?: AbortSignal): Promise<UserListLabelDefinition[]> {
+  return fetchUserListLabelDefinitions(undefined, userIdentifier, requestSignal);
+}
+
+async function fetchUserListLabelDefinitions(
+  authenticationToken: string | undefined,
+  userIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<UserListLabelDefinition[]> {
+  const endpointPath = `/ulist_labels?user=${encodeURIComponent(normalizeUserIdentifier(userIdentifier))}&fields=count`;
+  const cacheKey = JSON.stringify({ token: authenticationToken, endpointPath });
+
+  return readThroughQueryCache(userListQueryCache, cacheKey, async (loadSignal) => {
+    const responsePayload = await executeVndbJsonRequest(endpointPath, {
+      authenticationToken,
+      requestSignal: loadSignal,
+      failureDescription: 'Unable to retrieve list labels'
+    }, decodeUserListLabelsResponse);
+    return responsePayload.labels;
+  }, requestSignal);
 }
 
 export async function addVisualNovelToAuthenticatedUserList(
   authenticationToken: string,
   visualNovelIdentifier: string,
-  labelIdentifier = 5
+  labelIdentifier = 5,
+  requestSignal?: AbortSignal
 ) {
   if (typeof visualNovelIdentifier !== 'string' || visualNovelIdentifier.trim() === '') {
     throw new Error('Add-to-list failure: Missing visual novel identifier.');
   }
 
   const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
-  const targetApiEndpoint = buildVndbApiUrl(`/ulist/${normalizedVisualNovelIdentifier}`);
-
-  // Isolated write helper so network-layer failures can be reported with clearer context.
-  async function executePatchRequest(requestPayload: Record<string, unknown>) {
-    try {
-      return await fetch(targetApiEndpoint, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Token ${authenticationToken}`
-        },
-        body: JSON.stringify(requestPayload)
-      });
-    } catch (caughtError) {
-      throw new Error(
-        caughtError instanceof Error
-          ? `Add-to-list request failed before reaching VNDB API: ${caughtError.message}`
-          : 'Add-to-list request failed before reaching VNDB API.'
-      );
-    }
-  }
+  const targetEndpointPath = `/ulist/${normalizedVisualNovelIdentifier}`;
 
-  let networkResponse = await executePatchRequest({ labels_set: [labelIdentifier] });
+  const labelsSetResponse = await executeVndbRequest(targetEndpointPath, {
+    method: 'PATCH',
+    payload: { labels_set: [labelIdentifier] },
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to add visual novel to user list',
+    tolerateStatusCodes: [400]
+  });
 
   // Compatibility fallback for deployments expecting `labels` instead of `labels_set`.
-  if (!networkResponse.ok && networkResponse.status === 400) {
-    networkResponse = await executePatchRequest({ labels: [labelIdentifier] });
+  if (labelsSetResponse.status === 400) {
+    await executeVndbRequest(targetEndpointPath, {
+      method: 'PATCH',
+      payload: { labels: [labelIdentifier] },
+      authenticationToken,
+      requestSignal,
+      failureDescription: 'Unable to add visual novel to user list'
+    });
   }
 
-  if (!networkResponse.ok) {
-    let responseBodyText = '';
-    try {
-      responseBodyText = await networkResponse.text();
-    } catch {
-      responseBodyText = '';
-    }
+  // List-management writes should invalidate list reads immediately.
+  await userListQueryCache.clear();
+}
 
-    const normalizedResponseBodyText = responseBodyText.trim();
-    const detailedErrorSuffix = normalizedResponseBodyText ? ` - ${normalizedResponseBodyText}` : '';
-    throw new Error(
-      `Network boundary failure: Unable to add visual novel to user list (HTTP ${networkResponse.status})${detailedErrorSuffix}`
-    );
-  }
+// Entries selected without the personal fields (or without a vote yet) read as empty details.
+export function readUserListEntryDetails(userListEntry: UserVisualNovelListEntry): UserVisualNovelListEntryDetails {
+  return {
+    vote: userListEntry.vote ?? null,
+    notes: userListEntry.notes ?? '',
+    started: userListEntry.started ?? null,
+    finished: userListEntry.finished ?? null
+  };
+}
 
-  // List-management writes should invalidate list reads immediately.
-  userListQueryCache.clear();
+function buildUserListEntryState(userListEntry: UserVisualNovelListEntry): UserVisualNovelListEntryState {
+  return {
+    isInList: true,
+    labels: (userListEntry.labels ?? []).map((labelEntry) => labelEntry.id),
+    ...readUserListEntryDetails(userListEntry)
+  };
+}
+
+function buildAbsentUserListEntryState(): UserVisualNovelListEntryState {
+  return {
+    isInList: false,
+    labels: [],
+    vote: null,
+    notes: '',
+    started: null,
+    finished: null
+  };
 }
 
+// Queued offline changes for the entry are applied on top of VNDB's copy.
 export async function fetchAuthenticatedUserVisualNovelListEntry(
   authenticationToken: string,
   userIdentifier: string,
-  visualNovelIdentifier: string
-): Promise<{ isInList: boolean; labels: number[] }> {
+  visualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<UserVisualNovelListEntryState> {
   const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
-  const targetApiEndpoint = buildVndbApiUrl('/ulist');
-  const normalizedUserIdentifier = userIdentifier.toLowerCase().startsWith('u')
-    ? userIdentifier.toLowerCase()
-    : `u${userIdentifier}`;
-  const MAXIMUM_USER_LIST_PAGES = 40;
-
-  function extractLabelIds(rawLabels: unknown): number[] {
-    if (!Array.isArray(rawLabels)) {
-      return [];
-    }
+  const normalizedUserIdentifier = normalizeUserIdentifier(userIdentifier);
+  const cacheKey = JSON.stringify({ token: authenticationToken, user: normalizedUserIdentifier, entry: normalizedVisualNovelIdentifier });
+  const serverEntryState = await readThroughQueryCache(userListQueryCache, cacheKey, (loadSignal) => (
+    fetchServerUserVisualNovelListEntry(authenticationToken, userIdentifier, normalizedVisualNovelIdentifier, loadSignal)
+  ), requestSignal);
+
+  const entryMutations = (await readQueuedUserListMutations(normalizedUserIdentifier))
+    .filter((queuedMutation) => queuedMutation.visualNovelIdentifier === normalizedVisualNovelIdentifier);
+  if (entryMutations.length === 0) {
+    return serverEntryState;
+  }
 
-    const labelIdentifiers: number[] = [];
-    rawLabels.forEach((rawLabel) => {
-      if (typeof rawLabel === 'number') {
-        labelIdentifiers.push(rawLabel);
-        return;
-      }
+  const serverEntry: UserVisualNovelListEntry = {
+    id: normalizedVisualNovelIdentifier,
+    labels: serverEntryState.labels.map((labelIdentifier) => ({ id: labelIdentifier })),
+    vote: serverEntryState.vote,
+    notes: serverEntryState.notes,
+    started: serverEntryState.started,
+    finished: serverEntryState.finished
+  };
+  const [overlaidEntry] = applyQueuedUserListMutations(serverEntryState.isInList ? [serverEntry] : [], entryMutations);
+  return overlaidEntry ? buildUserListEntryState(overlaidEntry) : buildAbsentUserListEntryState();
+}
 
-      if (typeof rawLabel === 'string') {
-        const numericLabelIdentifier = Number(rawLabel.replace(/[^\d]/g, ''));
-        if (Number.isFinite(numericLabelIdentifier)) {
-          labelIdentifiers.push(numericLabelIdentifier);
-        }
-        return;
-      }
+async function fetchServerUserVisualNovelListEntry(
+  authenticationToken: string,
+  userIdentifier: string,
+  normalizedVisualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<UserVisualNovelListEntryState> {
+  const normalizedUserIdentifier = normalizeUserIdentifier(userIdentifier);
 
-      if (rawLabel && typeof rawLabel === 'object') {
-        const labelIdentifierCandidate = (rawLabel as { id?: unknown }).id;
-        if (typeof labelIdentifierCandidate === 'number') {
-          labelIdentifiers.push(labelIdentifierCandidate);
-          return;
-        }
-
-        if (typeof labelIdentifierCandidate === 'string') {
-          const numericLabelIdentifier = Number(labelIdentifierCandidate.replace(/[^\d]/g, ''));
-          if (Number.isFinite(numericLabelIdentifier)) {
-            labelIdentifiers.push(numericLabelIdentifier);
-          }
-        }
-      }
-    });
-
-    return labelIdentifiers;
-  }
+  const decodeUserListPage = decodeVndbPage(decodeUserVisualNovelListEntry);
 
   async function executeFilteredLookup() {
     const filteredPayload = {
       user: normalizedUserIdentifier,
-      fields: "id, labels.id, labels.label",
-      filters: ["id", "=", normalizedVisualNovelIdentifier],
+      fields: `id, labels.id, labels.label, ${USER_LIST_DETAIL_FIELD_SELECTION}`,
+      filters: serializeVndbFilter(visualNovelFilters.where('id', '=', normalizedVisualNovelIdentifier)),
       results: 1
     };
 
-    const networkResponse = await fetch(targetApiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Token ${authenticationToken}`
-      },
-      body: JSON.stringify(filteredPayload)
+    const networkResponse = await executeVndbRequest('/ulist', {
+      payload: filteredPayload,
+      authenticationToken,
+      requestSignal,
+      failureDescription: 'Unable to read list status for visual novel',
+      tolerateStatusCodes: [400]
     });
 
-    if (!networkResponse.ok) {
-      if (networkResponse.status === 400) {
-        return null;
-      }
-
-      throw new Error(`Network boundary failure: Unable to read list status for visual novel (HTTP ${networkResponse.status}).`);
-    }
-
-    const responsePayload = await networkResponse.json() as {
-      results?: Array<{ id?: unknown; labels?: unknown }>;
-    };
-    const firstEntry = Array.isArray(responsePayload.results) ? responsePayload.results[0] : null;
-    if (!firstEntry) {
-      return {
-        isInList: false,
-        labels: []
-      };
+    if (networkResponse.status === 400) {
+      return null;
     }
 
-    return {
-      isInList: true,
-      labels: extractLabelIds(firstEntry.labels)
-    };
+    const responsePayload = decodeUserListPage(await networkResponse.json(), '/ulist');
+    const firstEntry = responsePayload.results[0];
+    return firstEntry ? buildUserListEntryState(firstEntry) : buildAbsentUserListEntryState();
   }
 
   const directLookupResult = await executeFilteredLookup();
@@ -889,181 +1225,326 @@ export async function fetchAuthenticatedUserVisualNovelListEntry(
     return directLookupResult;
   }
 
-  let activePageNumber = 1;
-  let hasMorePages = true;
-  while (hasMorePages && activePageNumber <= MAXIMUM_USER_LIST_PAGES) {
-    const labelsPayload = {
-      user: normalizedUserIdentifier,
-      fields: "id, labels.id, labels.label",
-      results: 100,
-      page: activePageNumber
-    };
+  // Some deployments reject label fields; the page loader flags that so we can fall back below.
+  let wereLabelFieldsRejected = false;
+  const labelPages = paginateVndbQuery({
+    requestSignal,
+    loadPage: async (pageNumber, pageSize, pageSignal) => {
+      const networkResponse = await executeVndbRequest('/ulist', {
+        payload: {
+          user: normalizedUserIdentifier,
+          fields: `id, labels.id, labels.label, ${USER_LIST_DETAIL_FIELD_SELECTION}`,
+          results: pageSize,
+          page: pageNumber
+        },
+        authenticationToken,
+        requestSignal: pageSignal,
+        failureDescription: 'Unable to read list status for visual novel',
+        tolerateStatusCodes: [400]
+      });
 
-    const networkResponse = await fetch(targetApiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Token ${authenticationToken}`
-      },
-      body: JSON.stringify(labelsPayload)
-    });
+      if (networkResponse.status === 400) {
+        wereLabelFieldsRejected = true;
+        return { results: [], more: false };
+      }
 
-    if (!networkResponse.ok && networkResponse.status === 400) {
-      // Some deployments reject label fields; fall back to identifier-only presence check.
-      const identifierSet = await fetchAuthenticatedUserVisualNovelIdentifierSet(authenticationToken, userIdentifier);
-      return {
-        isInList: identifierSet.has(normalizedVisualNovelIdentifier),
-        labels: []
-      };
+      return decodeUserListPage(await networkResponse.json(), '/ulist');
     }
+  });
 
-    if (!networkResponse.ok) {
-      throw new Error(`Network boundary failure: Unable to read list status for visual novel (HTTP ${networkResponse.status}).`);
+  for await (const labelPage of labelPages) {
+    const matchingEntry = labelPage.entries.find((entry) => entry.id === normalizedVisualNovelIdentifier);
+    if (matchingEntry) {
+      return buildUserListEntryState(matchingEntry);
     }
+  }
 
-    const responsePayload = await networkResponse.json() as {
-      results?: Array<{ id?: unknown; labels?: unknown }>;
-      more?: boolean;
+  if (wereLabelFieldsRejected) {
+    // Fall back to an identifier-only presence check.
+    const identifierSet = await fetchAuthenticatedUserVisualNovelIdentifierSet(authenticationToken, userIdentifier, requestSignal);
+    return {
+      ...buildAbsentUserListEntryState(),
+      isInList: identifierSet.has(normalizedVisualNovelIdentifier)
     };
-    const rawEntries = Array.isArray(responsePayload.results) ? responsePayload.results : [];
-    const matchingEntry = rawEntries.find((entry) => {
-      const rawIdentifier = entry.id;
-      if (typeof rawIdentifier === 'string' && rawIdentifier.trim() !== '') {
-        const normalizedEntryIdentifier = rawIdentifier.toLowerCase().startsWith('v')
-          ? rawIdentifier.toLowerCase()
-          : `v${rawIdentifier.toLowerCase()}`;
-        return normalizedEntryIdentifier === normalizedVisualNovelIdentifier;
-      }
-
-      if (typeof rawIdentifier === 'number' && Number.isFinite(rawIdentifier)) {
-        return `v${rawIdentifier}` === normalizedVisualNovelIdentifier;
-      }
-
-      return false;
-    });
+  }
 
-    if (matchingEntry) {
-      return {
-        isInList: true,
-        labels: extractLabelIds(matchingEntry.labels)
-      };
-    }
+  return buildAbsentUserListEntryState();
+}
 
-    hasMorePages = Boolean(responsePayload.more);
-    activePageNumber += 1;
+function assertAssignableLabelChanges(labelChanges: { labelsToSet: number[]; labelsToUnset: number[] }) {
+  if ([...labelChanges.labelsToSet, ...labelChanges.labelsToUnset].includes(VOTED_USER_LIST_LABEL_IDENTIFIER)) {
+    throw new Error('List update failure: the "Voted" label follows the vote and cannot be set directly.');
   }
+}
 
-  return {
-    isInList: false,
-    labels: []
-  };
+function assertValidVote(vote: number | null | undefined) {
+  if (vote !== undefined && vote !== null && (!Number.isInteger(vote) || vote < 10 || vote > 100)) {
+    throw new Error('List update failure: votes must be whole numbers from 10 to 100.');
+  }
 }
 
 export async function updateAuthenticatedUserVisualNovelStatusLabel(
   authenticationToken: string,
   visualNovelIdentifier: string,
-  statusLabelIdentifier: number
+  statusLabelIdentifier: number,
+  requestSignal?: AbortSignal
 ) {
   const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
-  const targetApiEndpoint = buildVndbApiUrl(`/ulist/${normalizedVisualNovelIdentifier}`);
-  // VNDB default status labels: 1 playing, 2 finished, 3 stalled, 4 dropped, 5 wishlist, 6 blacklist.
-  const STATUS_LABEL_IDENTIFIERS = [1, 2, 3, 4, 5, 6];
+  // Status labels are exclusive among themselves; custom labels are left untouched.
   const requestPayload = {
-    labels_unset: STATUS_LABEL_IDENTIFIERS.filter((labelIdentifier) => labelIdentifier !== statusLabelIdentifier),
+    labels_unset: USER_LIST_STATUS_LABEL_IDENTIFIERS.filter((labelIdentifier) => labelIdentifier !== statusLabelIdentifier),
     labels_set: [statusLabelIdentifier]
   };
 
-  const networkResponse = await fetch(targetApiEndpoint, {
+  await executeVndbRequest(`/ulist/${normalizedVisualNovelIdentifier}`, {
     method: 'PATCH',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Token ${authenticationToken}`
-    },
-    body: JSON.stringify(requestPayload)
+    payload: requestPayload,
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to update VN list status'
   });
 
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to update VN list status (HTTP ${networkResponse.status}).`);
+  await userListQueryCache.clear();
+}
+
+// Sets and unsets individual labels; labels not mentioned keep their current assignment.
+export async function updateAuthenticatedUserVisualNovelLabels(
+  authenticationToken: string,
+  visualNovelIdentifier: string,
+  labelChanges: { labelsToSet: number[]; labelsToUnset: number[] },
+  requestSignal?: AbortSignal
+) {
+  const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
+  assertAssignableLabelChanges(labelChanges);
+  if (labelChanges.labelsToSet.length === 0 && labelChanges.labelsToUnset.length === 0) {
+    return;
   }
 
-  userListQueryCache.clear();
+  await executeVndbRequest(`/ulist/${normalizedVisualNovelIdentifier}`, {
+    method: 'PATCH',
+    payload: { labels_set: labelChanges.labelsToSet, labels_unset: labelChanges.labelsToUnset },
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to update labels on your list entry'
+  });
+
+  await userListQueryCache.clear();
+}
+
+// PATCHes only the given fields; `null` clears a vote or date. VNDB keeps the "Voted" label in sync with the vote.
+export async function updateAuthenticatedUserVisualNovelListEntryDetails(
+  authenticationToken: string,
+  visualNovelIdentifier: string,
+  detailChanges: Partial<UserVisualNovelListEntryDetails>,
+  requestSignal?: AbortSignal
+) {
+  const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
+  assertValidVote(detailChanges.vote);
+
+  await executeVndbRequest(`/ulist/${normalizedVisualNovelIdentifier}`, {
+    method: 'PATCH',
+    payload: detailChanges,
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to update your list entry'
+  });
+
+  await userListQueryCache.clear();
+}
+
+// Sets/unsets labels and edits details in a single PATCH; creates the entry when the VN is not in the list yet.
+export async function patchAuthenticatedUserVisualNovelListEntry(
+  authenticationToken: string,
+  visualNovelIdentifier: string,
+  entryChanges: {
+    labelsToSet: number[];
+    labelsToUnset: number[];
+    detailChanges: Partial<UserVisualNovelListEntryDetails>;
+  },
+  requestSignal?: AbortSignal
+) {
+  const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
+  assertAssignableLabelChanges(entryChanges);
+  assertValidVote(entryChanges.detailChanges.vote);
+
+  await executeVndbRequest(`/ulist/${normalizedVisualNovelIdentifier}`, {
+    method: 'PATCH',
+    payload: {
+      ...entryChanges.detailChanges,
+      ...(entryChanges.labelsToSet.length > 0 ? { labels_set: entryChanges.labelsToSet } : {}),
+      ...(entryChanges.labelsToUnset.length > 0 ? { labels_unset: entryChanges.labelsToUnset } : {})
+    },
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to update your list entry'
+  });
+
+  await userListQueryCache.clear();
 }
 
 export async function removeVisualNovelFromAuthenticatedUserList(
   authenticationToken: string,
-  visualNovelIdentifier: string
+  visualNovelIdentifier: string,
+  requestSignal?: AbortSignal
 ) {
   const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
-  const targetApiEndpoint = buildVndbApiUrl(`/ulist/${normalizedVisualNovelIdentifier}`);
 
-  const networkResponse = await fetch(targetApiEndpoint, {
+  await executeVndbRequest(`/ulist/${normalizedVisualNovelIdentifier}`, {
     method: 'DELETE',
-    headers: {
-      Authorization: `Token ${authenticationToken}`
-    }
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to remove visual novel from your list'
   });
 
-  if (!networkResponse.ok) {
-    throw new Error(`Network boundary failure: Unable to remove visual novel from your list (HTTP ${networkResponse.status}).`);
+  await userListQueryCache.clear();
+}
+
+// `lastmod`-only probe used by the replay to notice entries changed on VNDB after a mutation was queued.
+async function fetchUserListEntrySnapshot(
+  authenticationToken: string,
+  normalizedUserIdentifier: string,
+  normalizedVisualNovelIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<UserListServerEntrySnapshot> {
+  // A failed check throws, so the replay holds the write for review instead of writing over an unchecked entry.
+  const responsePayload = await executeVndbJsonRequest('/ulist', {
+    payload: {
+      user: normalizedUserIdentifier,
+      fields: 'lastmod',
+      filters: serializeVndbFilter(visualNovelFilters.where('id', '=', normalizedVisualNovelIdentifier)),
+      results: 1
+    },
+    authenticationToken,
+    requestSignal,
+    failureDescription: 'Unable to check your list entry before syncing'
+  }, decodeVndbPage(decodeUserVisualNovelListEntry));
+  const firstEntry = responsePayload.results[0];
+  return {
+    isInList: firstEntry !== undefined,
+    lastModifiedAt: typeof firstEntry?.lastmod === 'number' ? firstEntry.lastmod * 1000 : null
+  };
+}
+
+function applyUserListMutation(
+  authenticationToken: string,
+  visualNovelIdentifier: string,
+  mutation: UserListMutation,
+  requestSignal?: AbortSignal
+) {
+  switch (mutation.kind) {
+    case 'add':
+      return addVisualNovelToAuthenticatedUserList(authenticationToken, visualNovelIdentifier, mutation.labelIdentifier, requestSignal);
+    case 'status':
+      return updateAuthenticatedUserVisualNovelStatusLabel(authenticationToken, visualNovelIdentifier, mutation.statusLabelIdentifier, requestSignal);
+    case 'labels':
+      return updateAuthenticatedUserVisualNovelLabels(authenticationToken, visualNovelIdentifier, mutation, requestSignal);
+    case 'details':
+      return updateAuthenticatedUserVisualNovelListEntryDetails(authenticationToken, visualNovelIdentifier, mutation.detailChanges, requestSignal);
+    case 'patch':
+      return patchAuthenticatedUserVisualNovelListEntry(authenticationToken, visualNovelIdentifier, mutation, requestSignal);
+    case 'remove':
+      return removeVisualNovelFromAuthenticatedUserList(authenticationToken, visualNovelIdentifier, requestSignal);
   }
+}
+
+// Sends a list write, or queues it for replay when VNDB is unreachable. Writes to an entry that already
+// has queued changes wait behind them so VNDB receives them in order.
+export async function submitUserListMutation(
+  authenticationToken: string,
+  userIdentifier: string,
+  visualNovelIdentifier: string,
+  mutation: UserListMutation,
+  requestSignal?: AbortSignal
+): Promise<{ wasQueued: boolean }> {
+  if (mutation.kind === 'labels' || mutation.kind === 'patch') {
+    assertAssignableLabelChanges(mutation);
+  }
+  if (mutation.kind === 'details' || mutation.kind === 'patch') {
+    assertValidVote(mutation.detailChanges.vote);
+  }
+
+  const normalizedUserIdentifier = normalizeUserIdentifier(userIdentifier);
+  const normalizedVisualNovelIdentifier = normalizeVisualNovelIdentifier(visualNovelIdentifier);
+  if (isBrowserOffline() || await hasQueuedUserListMutationsFor(normalizedUserIdentifier, normalizedVisualNovelIdentifier)) {
+    await enqueueUserListMutation(normalizedUserIdentifier, normalizedVisualNovelIdentifier, mutation);
+    return { wasQueued: true };
+  }
+
+  try {
+    await applyUserListMutation(authenticationToken, normalizedVisualNovelIdentifier, mutation, requestSignal);
+    return { wasQueued: false };
+  } catch (caughtError) {
+    if (!(caughtError instanceof VndbOfflineError)) {
+      throw caughtError;
+    }
 
-  userListQueryCache.clear();
+    await enqueueUserListMutation(normalizedUserIdentifier, normalizedVisualNovelIdentifier, mutation);
+    return { wasQueued: true };
+  }
+}
+
+export async function replayQueuedUserListMutations(
+  authenticationToken: string,
+  userIdentifier: string,
+  requestSignal?: AbortSignal
+): Promise<UserListMutationReplaySummary> {
+  const normalizedUserIdentifier = normalizeUserIdentifier(userIdentifier);
+  return replayUserListMutationQueue({
+    userIdentifier: normalizedUserIdentifier,
+    readServerEntry: (visualNovelIdentifier, replaySignal) => (
+      fetchUserListEntrySnapshot(authenticationToken, normalizedUserIdentifier, visualNovelIdentifier, replaySignal)
+    ),
+    applyMutation: (queuedMutation, replaySignal) => (
+      applyUserListMutation(authenticationToken, queuedMutation.visualNovelIdentifier, queuedMutation.mutation, replaySignal)
+    ),
+    requestSignal
+  });
+}
+
+// Applies the user's queued offline changes to a fully loaded list (queued additions come back as id-only entries).
+// `includeAdditions` appends entries that only exist in the queue; paged readers pass it for the first page only.
+export async function overlayQueuedUserListMutations(
+  userIdentifier: string,
+  userListEntries: UserVisualNovelListEntry[],
+  includeAdditions = true
+) {
+  const queuedMutations = await readQueuedUserListMutations(normalizeUserIdentifier(userIdentifier));
+  return applyQueuedUserListMutations(userListEntries, queuedMutations, includeAdditions);
 }
 
 export async function fetchAuthenticatedUserVisualNovelIdentifierSet(
   authenticationToken: string,
-  userIdentifier: string
+  userIdentifier: string,
+  requestSignal?: AbortSignal
 ): Promise<Set<string>> {
-  const targetApiEndpoint = buildVndbApiUrl('/ulist');
   const normalizedUserIdentifier = userIdentifier.toLowerCase().startsWith('u')
     ? userIdentifier.toLowerCase()
     : `u${userIdentifier}`;
-  // Defensive cap to prevent accidental unbounded paging loops.
-  const MAXIMUM_USER_LIST_PAGES = 40;
   const visualNovelIdentifierSet = new Set<string>();
-  let activePageNumber = 1;
-  let hasMorePages = true;
-
-  while (hasMorePages && activePageNumber <= MAXIMUM_USER_LIST_PAGES) {
-    const requestPayload = {
-      user: normalizedUserIdentifier,
-      fields: "id",
-      results: 100,
-      page: activePageNumber
-    };
-
-    const networkResponse = await fetch(targetApiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Token ${authenticationToken}`
-      },
-      body: JSON.stringify(requestPayload)
-    });
-
-    if (!networkResponse.ok) {
-      throw new Error(`Network boundary failure: Unable to load user list identifiers (HTTP ${networkResponse.status}).`);
-    }
-
-    const responsePayload = await networkResponse.json() as { results?: Array<{ id?: unknown }>; more?: boolean };
-    const rawEntries = Array.isArray(responsePayload.results) ? responsePayload.results : [];
-
-    // Accept both string and numeric ID variants returned by VNDB representations.
-    for (const rawEntry of rawEntries) {
-      const rawIdentifier = rawEntry?.id;
-      if (typeof rawIdentifier === 'string' && rawIdentifier.trim() !== '') {
-        const normalizedIdentifier = rawIdentifier.toLowerCase().startsWith('v')
-          ? rawIdentifier.toLowerCase()
-          : `v${rawIdentifier.toLowerCase()}`;
-        visualNovelIdentifierSet.add(normalizedIdentifier);
-      } else if (typeof rawIdentifier === 'number' && Number.isFinite(rawIdentifier)) {
-        visualNovelIdentifierSet.add(`v${rawIdentifier}`);
-      }
-    }
+  const identifierPages = paginateVndbQuery({
+    requestSignal,
+    loadPage: (pageNumber, pageSize, pageSignal) => (
+      executeVndbJsonRequest('/ulist', {
+        payload: {
+          user: normalizedUserIdentifier,
+          fields: "id",
+          results: pageSize,
+          page: pageNumber
+        },
+        authenticationToken,
+        requestSignal: pageSignal,
+        failureDescription: 'Unable to load user list identifiers'
+      }, decodeVndbPage(decodeUserVisualNovelListEntry))
+    )
+  });
 
-    hasMorePages = Boolean(responsePayload.more);
-    activePageNumber += 1;
+  for await (const identifierPage of identifierPages) {
+    identifierPage.entries.forEach((userListEntry) => visualNovelIdentifierSet.add(userListEntry.id));
   }
 
-  return visualNovelIdentifierSet;
+  const overlaidEntries = await overlayQueuedUserListMutations(
+    normalizedUserIdentifier,
+    [...visualNovelIdentifierSet].map((visualNovelIdentifier) => ({ id: visualNovelIdentifier }))
+  );
+  return new Set(overlaidEntries.map((userListEntry) => userListEntry.id));
 }
@@ -0,0 +1,154 @@
+import type { SerializedVndbFilter } from '../types/filterTypes';
+import type { Decoder } from './schemaDecoder';
+import { decodeVndbPage } from './vndbResponseDecoders';
+import { createAbortError, executeVndbJsonRequest } from './vndbRequestExecutor';
+
+// Kana caps `results` at 100 per query.
+const MAXIMUM_VNDB_BATCH_SIZE = 100;
+
+export interface VndbBatchLoaderOptions<TEntry> {
+  endpointPath: string;
+  fields: string;
+  decodeEntry: Decoder<TEntry>;
+  // Builds the `["or", ["id", "=", ...], ...]` filter for one chunk of identifiers.
+  buildIdentifierFilter: (identifiers: [string, ...string[]]) => SerializedVndbFilter;
+  failureDescription: string;
+  maximumBatchSize?: number;
+}
+
+export interface VndbBatchLoader<TEntry> {
+  // Resolves to `null` when VNDB has no entry for the identifier.
+  load(identifier: string, requestSignal?: AbortSignal): Promise<TEntry | null>;
+}
+
+interface PendingBatchLookup<TEntry> {
+  identifier: string;
+  isSettled: boolean;
+  resolve: (entry: TEntry | null) => void;
+  reject: (caughtError: unknown) => void;
+  // Set once the lookup joins a dispatched batch so cancelling it can release that batch.
+  detachFromBatch?: () => void;
+}
+
+function normalizeBatchIdentifier(identifier: string) {
+  return identifier.trim().toLowerCase();
+}
+
+// Collects single-ID lookups issued within one tick and resolves them from one query per chunk, so a dense
+// result page with hover prefetch costs a handful of requests instead of one per card.
+export function createVndbBatchLoader<TEntry extends { id: string }>(
+  options: VndbBatchLoaderOptions<TEntry>
+): VndbBatchLoader<TEntry> {
+  const decodeBatchPage = decodeVndbPage(options.decodeEntry);
+  const maximumBatchSize = Math.min(options.maximumBatchSize ?? MAXIMUM_VNDB_BATCH_SIZE, MAXIMUM_VNDB_BATCH_SIZE);
+  let pendingLookups: PendingBatchLookup<TEntry>[] = [];
+  let isFlushScheduled = false;
+
+  function dispatchBatch(batchIdentifiers: [string, ...string[]], batchLookups: PendingBatchLookup<TEntry>[]) {
+    const batchAbortController = new AbortController();
+    let activeLookupCount = batchLookups.length;
+    batchLookups.forEach((batchLookup) => {
+      batchLookup.detachFromBatch = () => {
+        activeLookupCount -= 1;
+        if (activeLookupCount === 0) {
+          batchAbortController.abort();
+        }
+      };
+    });
+
+    executeVndbJsonRequest(options.endpointPath, {
+      payload: {
+        filters: options.buildIdentifierFilter(batchIdentifiers),
+        fields: options.fields,
+        results: batchIdentifiers.length
+      },
+      requestSignal: batchAbortController.signal,
+      failureDescription: options.failureDescription
+    }, decodeBatchPage).then(
+      (responsePayload) => {
+        const entriesByIdentifier = new Map<string, TEntry>();
+        responsePayload.results.forEach((resultEntry) => {
+          entriesByIdentifier.set(normalizeBatchIdentifier(resultEntry.id), resultEntry);
+        });
+        batchLookups.forEach((batchLookup) => {
+          if (!batchLookup.isSettled) {
+            batchLookup.isSettled = true;
+            batchLookup.resolve(entriesByIdentifier.get(batchLookup.identifier) ?? null);
+          }
+        });
+      },
+      (caughtError: unknown) => {
+        batchLookups.forEach((batchLookup) => {
+          if (!batchLookup.isSettled) {
+            batchLookup.isSettled = true;
+            batchLookup.reject(caughtError);
+          }
+        });
+      }
+    );
+  }
+
+  function flushPendingLookups() {
+    isFlushScheduled = false;
+    const activeLookups = pendingLookups.filter((pendingLookup) => !pendingLookup.isSettled);
+    pendingLookups = [];
+
+    const lookupsByIdentifier = new Map<string, PendingBatchLookup<TEntry>[]>();
+    activeLookups.forEach((activeLookup) => {
+      const identifierLookups = lookupsByIdentifier.get(activeLookup.identifier) ?? [];
+      identifierLookups.push(activeLookup);
+      lookupsByIdentifier.set(activeLookup.identifier, identifierLookups);
+    });
+
+    const uniqueIdentifiers = [...lookupsByIdentifier.keys()];
+    for (let chunkStart = 0; chunkStart < uniqueIdentifiers.length; chunkStart += maximumBatchSize) {
+      const [firstIdentifier, ...remainingIdentifiers] = uniqueIdentifiers.slice(chunkStart, chunkStart + maximumBatchSize);
+      const batchIdentifiers: [string, ...string[]] = [firstIdentifier, ...remainingIdentifiers];
+      dispatchBatch(
+        batchIdentifiers,
+        batchIdentifiers.flatMap((batchIdentifier) => lookupsByIdentifier.get(batchIdentifier) ?? [])
+      );
+    }
+  }
+
+  return {
+    load(identifier, requestSignal) {
+      if (requestSignal?.aborted) {
+        return Promise.reject(createAbortError());
+      }
+
+      return new Promise<TEntry | null>((resolve, reject) => {
+        const pendingLookup: PendingBatchLookup<TEntry> = {
+          identifier: normalizeBatchIdentifier(identifier),
+          isSettled: false,
+          resolve: (entry) => {
+            requestSignal?.removeEventListener('abort', handleAbort);
+            resolve(entry);
+          },
+          reject: (caughtError) => {
+            requestSignal?.removeEventListener('abort', handleAbort);
+            reject(caughtError);
+          }
+        };
+
+        function handleAbort() {
+          if (pendingLookup.isSettled) {
+            return;
+          }
+
+          pendingLookup.isSettled = true;
+          pendingLookup.detachFromBatch?.();
+          reject(createAbortError());
+        }
+
+        requestSignal?.addEventListener('abort', handleAbort, { once: true });
+        pendingLookups.push(pendingLookup);
+        if (!isFlushScheduled) {
+          isFlushScheduled = true;
+          // A macrotask (not a microtask) so effects from sibling components mounting together share a batch.
+          window.setTimeout(flushPendingLookups, 0);
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,92 @@
+// Every failure the client surfaces is a `VndbClientError` subclass, so views can branch on the kind of
+// failure (re-login, retry later, offline) instead of parsing message strings.
+export type VndbErrorKind =
+  | 'authentication'
+  | 'permission'
+  | 'rate-limit'
+  | 'not-found'
+  | 'offline'
+  | 'server'
+  | 'request'
+  | 'decode';
+
+export class VndbClientError extends Error {
+  readonly kind: VndbErrorKind;
+  // HTTP status that produced the error, or null when no response was received.
+  readonly statusCode: number | null;
+
+  constructor(kind: VndbErrorKind, message: string, statusCode: number | null = null) {
+    super(message);
+    this.name = 'VndbClientError';
+    this.kind = kind;
+    this.statusCode = statusCode;
+  }
+}
+
+// The token is missing, malformed, revoked or expired (HTTP 401, or no session at all).
+export class VndbAuthenticationError extends VndbClientError {
+  constructor(message = 'Your VNDB token is invalid or has expired.', statusCode: number | null = null) {
+    super('authentication', message, statusCode);
+    this.name = 'VndbAuthenticationError';
+  }
+}
+
+// The token is valid but lacks a permission such as `listwrite` (HTTP 403, or caught before sending).
+export class VndbPermissionError extends VndbClientError {
+  readonly requiredPermission: string | null;
+
+  constructor(message: string, requiredPermission: string | null = null, statusCode: number | null = null) {
+    super('permission', message, statusCode);
+    this.name = 'VndbPermissionError';
+    this.requiredPermission = requiredPermission;
+  }
+}
+
+export class VndbRateLimitError extends VndbClientError {
+  // Server-suggested wait from `Retry-After`, when provided.
+  readonly retryAfterMilliseconds: number | null;
+
+  constructor(message: string, retryAfterMilliseconds: number | null = null) {
+    super('rate-limit', message, 429);
+    this.name = 'VndbRateLimitError';
+    this.retryAfterMilliseconds = retryAfterMilliseconds;
+  }
+}
+
+// HTTP 404, or an identifier lookup that came back with no results.
+export class VndbNotFoundError extends VndbClientError {
+  constructor(message: string, statusCode: number | null = null) {
+    super('not-found', message, statusCode);
+    this.name = 'VndbNotFoundError';
+  }
+}
+
+// No response was received: the browser is offline or VNDB could not be reached at all.
+export class VndbOfflineError extends VndbClientError {
+  readonly isBrowserOffline: boolean;
+
+  constructor(message: string, isBrowserOffline: boolean) {
+    super('offline', message);
+    this.name = 'VndbOfflineError';
+    this.isBrowserOffline = isBrowserOffline;
+  }
+}
+
+export class VndbServerError extends VndbClientError {
+  constructor(message: string, statusCode: number) {
+    super('server', message, statusCode);
+    this.name = 'VndbServerError';
+  }
+}
+
+// Any other rejected request, typically a 400 for an invalid filter or field selection.
+export class VndbRequestError extends VndbClientError {
+  constructor(message: string, statusCode: number) {
+    super('request', message, statusCode);
+    this.name = 'VndbRequestError';
+  }
+}
+
+export function isBrowserOffline() {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { serializeVndbFilter, visualNovelFilters } from './vndbFilterBuilder';
+
+describe('visualNovelFilters.not', () => {
+  it('pushes negation down through groups by inverting each predicate', () => {
+    expect(serializeVndbFilter(visualNovelFilters.not(visualNovelFilters.or(
+      visualNovelFilters.where('platform', '=', 'swi'),
+      visualNovelFilters.where('length', '<=', 2)
+    )))).toEqual(['and', ['platform', '!=', 'swi'], ['length', '>', 2]]);
+  });
+
+  it('inverts ordered predicates without adding the null case back', () => {
+    // Unrated VNs match neither `rating >= 70` nor its negation.
+    expect(serializeVndbFilter(visualNovelFilters.not(visualNovelFilters.where('rating', '>=', 70))))
+      .toEqual(['rating', '<', 70]);
+    expect(serializeVndbFilter(visualNovelFilters.not(visualNovelFilters.where('released', '<=', '2010'))))
+      .toEqual(['released', '>', '2010']);
+  });
+});
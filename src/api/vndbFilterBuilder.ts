@@ -0,0 +1,121 @@
+import type {
+  CharacterFilterSchema,
+  FilterDefinition,
+  OrderingOperator,
+  ProducerFilterSchema,
+  ReleaseFilterSchema,
+  SerializedVndbFilter,
+  StaffFilterSchema,
+  TagFilterSchema,
+  TraitFilterSchema,
+  UserListFilterSchema,
+  VisualNovelFilterSchema,
+  VndbFilter,
+  VndbFilterNode
+} from '../types/filterTypes';
+
+type FilterOperatorOf<TSchema, TName extends keyof TSchema> =
+  TSchema[TName] extends FilterDefinition<infer TOperator, unknown> ? TOperator : never;
+type FilterValueOf<TSchema, TName extends keyof TSchema> =
+  TSchema[TName] extends FilterDefinition<OrderingOperator, infer TValue> ? TValue : never;
+
+export interface VndbFilterBuilder<TSchema> {
+  where<TName extends keyof TSchema & string>(
+    filterName: TName,
+    operator: FilterOperatorOf<TSchema, TName>,
+    value: FilterValueOf<TSchema, TName>
+  ): VndbFilter<TSchema>;
+  // Shorthand for `or(where(name, '=', a), where(name, '=', b), ...)`; a single value collapses to one predicate.
+  anyOf<TName extends keyof TSchema & string>(
+    filterName: TName,
+    values: [FilterValueOf<TSchema, TName>, ...FilterValueOf<TSchema, TName>[]]
+  ): VndbFilter<TSchema>;
+  and(firstFilter: VndbFilter<TSchema>, ...remainingFilters: VndbFilter<TSchema>[]): VndbFilter<TSchema>;
+  or(firstFilter: VndbFilter<TSchema>, ...remainingFilters: VndbFilter<TSchema>[]): VndbFilter<TSchema>;
+  // Not a true complement: Kana has no "not" combinator, so predicates are inverted in place (`>=` becomes `<`).
+  // An ordered predicate never matches a null value either way, so `not(where('rating', '>=', 70))` still leaves
+  // out unrated VNs; the same goes for `released`, `minage` and `length`.
+  not(filter: VndbFilter<TSchema>): VndbFilter<TSchema>;
+}
+
+const INVERTED_OPERATORS: Record<OrderingOperator, OrderingOperator> = {
+  '=': '!=',
+  '!=': '=',
+  '>': '<=',
+  '>=': '<',
+  '<': '>=',
+  '<=': '>'
+};
+
+function isVndbFilter(candidateValue: unknown): candidateValue is VndbFilter<unknown> {
+  return Boolean(
+    candidateValue &&
+    typeof candidateValue === 'object' &&
+    !Array.isArray(candidateValue) &&
+    'node' in candidateValue
+  );
+}
+
+// Merge nested groups of the same kind and collapse single-child groups so payloads stay minimal.
+function combineFilterNodes(groupKind: 'and' | 'or', filterNodes: VndbFilterNode[]): VndbFilterNode {
+  const flattenedChildren = filterNodes.flatMap((filterNode) => (
+    filterNode.kind === groupKind ? filterNode.children : [filterNode]
+  ));
+  return flattenedChildren.length === 1 ? flattenedChildren[0] : { kind: groupKind, children: flattenedChildren };
+}
+
+// Kana has no "not" combinator, so negation is pushed down via De Morgan and inverted operators.
+function negateFilterNode(filterNode: VndbFilterNode): VndbFilterNode {
+  if (filterNode.kind === 'predicate') {
+    return { ...filterNode, operator: INVERTED_OPERATORS[filterNode.operator] };
+  }
+
+  return {
+    kind: filterNode.kind === 'and' ? 'or' : 'and',
+    children: filterNode.children.map(negateFilterNode)
+  };
+}
+
+function serializeFilterNode(filterNode: VndbFilterNode): SerializedVndbFilter {
+  if (filterNode.kind === 'predicate') {
+    const serializedValue = isVndbFilter(filterNode.value) ? serializeFilterNode(filterNode.value.node) : filterNode.value;
+    return [filterNode.name, filterNode.operator, serializedValue];
+  }
+
+  return [filterNode.kind, ...filterNode.children.map(serializeFilterNode)];
+}
+
+export function serializeVndbFilter<TSchema>(filter: VndbFilter<TSchema>): SerializedVndbFilter {
+  return serializeFilterNode(filter.node);
+}
+
+function createVndbFilterBuilder<TSchema>(): VndbFilterBuilder<TSchema> {
+  return {
+    where(filterName, operator, value) {
+      return { node: { kind: 'predicate', name: filterName, operator, value } };
+    },
+    anyOf(filterName, values) {
+      return {
+        node: combineFilterNodes('or', values.map((value) => ({ kind: 'predicate', name: filterName, operator: '=', value })))
+      };
+    },
+    and(firstFilter, ...remainingFilters) {
+      return { node: combineFilterNodes('and', [firstFilter, ...remainingFilters].map((filter) => filter.node)) };
+    },
+    or(firstFilter, ...remainingFilters) {
+      return { node: combineFilterNodes('or', [firstFilter, ...remainingFilters].map((filter) => filter.node)) };
+    },
+    not(filter) {
+      return { node: negateFilterNode(filter.node) };
+    }
+  };
+}
+
+export const visualNovelFilters = createVndbFilterBuilder<VisualNovelFilterSchema>();
+export const userListFilters = createVndbFilterBuilder<UserListFilterSchema>();
+export const releaseFilters = createVndbFilterBuilder<ReleaseFilterSchema>();
+export const characterFilters = createVndbFilterBuilder<CharacterFilterSchema>();
+export const producerFilters = createVndbFilterBuilder<ProducerFilterSchema>();
+export const staffFilters = createVndbFilterBuilder<StaffFilterSchema>();
+export const tagFilters = createVndbFilterBuilder<TagFilterSchema>();
+export const traitFilters = createVndbFilterBuilder<TraitFilterSchema>();
@@ -0,0 +1,94 @@
+import { createAbortError } from './vndbRequestExecutor';
+
+// Kana caps `results` at 100 per query.
+const MAXIMUM_VNDB_PAGE_SIZE = 100;
+// Defensive cap against runaway paging; 500 pages of 100 covers the largest real-world lists.
+const DEFAULT_MAXIMUM_PAGES = 500;
+
+export interface VndbPageResponse<TEntry> {
+  results?: TEntry[];
+  more?: boolean;
+}
+
+export interface VndbPaginationProgress {
+  pageNumber: number;
+  loadedEntryCount: number;
+  hasMorePages: boolean;
+}
+
+export interface VndbPaginatorOptions<TEntry> {
+  // Issues one query for the given 1-based page; any endpoint with `results`/`page`/`more` paging fits.
+  loadPage: (pageNumber: number, pageSize: number, requestSignal?: AbortSignal) => Promise<VndbPageResponse<TEntry>>;
+  pageSize?: number;
+  maximumPages?: number;
+  startPageNumber?: number;
+  onProgress?: (progress: VndbPaginationProgress) => void;
+  requestSignal?: AbortSignal;
+}
+
+export interface VndbPaginatedPage<TEntry> {
+  entries: TEntry[];
+  pageNumber: number;
+  hasMorePages: boolean;
+  // True on the final page when the hard cap stopped paging before the server ran out of results.
+  isTruncated: boolean;
+}
+
+export interface CollectedVndbPages<TEntry> {
+  entries: TEntry[];
+  isTruncated: boolean;
+}
+
+// Yields one page at a time until the server reports no more results, the page cap is hit, or the signal
+// aborts. Breaking out of a `for await` loop stops paging without issuing further requests.
+export async function* paginateVndbQuery<TEntry>(
+  options: VndbPaginatorOptions<TEntry>
+): AsyncGenerator<VndbPaginatedPage<TEntry>, void, undefined> {
+  const pageSize = Math.max(1, Math.min(options.pageSize ?? MAXIMUM_VNDB_PAGE_SIZE, MAXIMUM_VNDB_PAGE_SIZE));
+  const startPageNumber = Math.max(1, options.startPageNumber ?? 1);
+  const lastPageNumber = startPageNumber + Math.max(1, options.maximumPages ?? DEFAULT_MAXIMUM_PAGES) - 1;
+  let loadedEntryCount = 0;
+
+  for (let activePageNumber = startPageNumber; activePageNumber <= lastPageNumber; activePageNumber += 1) {
+    if (options.requestSignal?.aborted) {
+      throw createAbortError();
+    }
+
+    const responsePage = await options.loadPage(activePageNumber, pageSize, options.requestSignal);
+    if (options.requestSignal?.aborted) {
+      throw createAbortError();
+    }
+
+    const pageEntries = Array.isArray(responsePage.results) ? responsePage.results : [];
+    const hasMorePages = Boolean(responsePage.more);
+    loadedEntryCount += pageEntries.length;
+    options.onProgress?.({ pageNumber: activePageNumber, loadedEntryCount, hasMorePages });
+
+    yield {
+      entries: pageEntries,
+      pageNumber: activePageNumber,
+      hasMorePages,
+      isTruncated: hasMorePages && activePageNumber === lastPageNumber
+    };
+
+    if (!hasMorePages) {
+      return;
+    }
+  }
+}
+
+export async function collectVndbPages<TEntry>(
+  options: VndbPaginatorOptions<TEntry>
+): Promise<CollectedVndbPages<TEntry>> {
+  const collectedEntries: TEntry[] = [];
+  let isTruncated = false;
+  for await (const paginatedPage of paginateVndbQuery(options)) {
+    collectedEntries.push(...paginatedPage.entries);
+    isTruncated = paginatedPage.isTruncated;
+  }
+
+  return {
+    entries: collectedEntries,
+    isTruncated
+  };
+}
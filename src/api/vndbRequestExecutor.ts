@@ -0,0 +1,268 @@
+import { VndbDecodeError, type Decoder } from './schemaDecoder';
+import {
+  VndbAuthenticationError,
+  VndbNotFoundError,
+  VndbOfflineError,
+  VndbPermissionError,
+  VndbRateLimitError,
+  VndbRequestError,
+  VndbServerError,
+  isBrowserOffline
+} from './vndbErrors';
+
+const VNDB_DIRECT_BASE_URL = 'https://api.vndb.org/kana';
+const VNDB_PROXY_BASE_PATH = '/api/vndb';
+// During local development we route through Vite proxy to avoid browser CORS issues on write endpoints.
+const VNDB_API_BASE_URL = import.meta.env.DEV ? VNDB_PROXY_BASE_PATH : VNDB_DIRECT_BASE_URL;
+// Kana throttles aggressive clients; infinite scroll plus hover prefetch must share a small request budget.
+const MAXIMUM_CONCURRENT_VNDB_REQUESTS = 4;
+const MAXIMUM_REQUEST_ATTEMPTS = 4;
+const INITIAL_RETRY_DELAY_MILLISECONDS = 500;
+const MAXIMUM_RETRY_DELAY_MILLISECONDS = 10_000;
+const MAXIMUM_ERROR_BODY_LENGTH = 200;
+
+export type VndbRequestMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface VndbRequestOptions {
+  method?: VndbRequestMethod;
+  payload?: unknown;
+  authenticationToken?: string;
+  requestSignal?: AbortSignal;
+  // Human-readable description (no trailing period) used in thrown errors, e.g. "Unable to retrieve tag metadata".
+  failureDescription: string;
+  // Non-ok statuses the caller handles itself (e.g. 400 for filter-syntax fallbacks).
+  tolerateStatusCodes?: number[];
+}
+
+let activeRequestCount = 0;
+const pendingSlotWaiters: Array<() => void> = [];
+
+export function buildVndbApiUrl(endpointPath: string) {
+  return `${VNDB_API_BASE_URL}${endpointPath}`;
+}
+
+export function createAbortError() {
+  return new DOMException('VNDB request was cancelled.', 'AbortError');
+}
+
+export function isAbortError(caughtError: unknown) {
+  return caughtError instanceof DOMException && caughtError.name === 'AbortError';
+}
+
+// Concurrency gate shared by every endpoint so bursts queue locally instead of tripping Kana throttling.
+function acquireRequestSlot(requestSignal?: AbortSignal): Promise<void> {
+  if (requestSignal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  if (activeRequestCount < MAXIMUM_CONCURRENT_VNDB_REQUESTS) {
+    activeRequestCount += 1;
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    function handleSlotGranted() {
+      requestSignal?.removeEventListener('abort', handleAbort);
+      activeRequestCount += 1;
+      resolve();
+    }
+
+    function handleAbort() {
+      const waiterIndex = pendingSlotWaiters.indexOf(handleSlotGranted);
+      if (waiterIndex >= 0) {
+        pendingSlotWaiters.splice(waiterIndex, 1);
+      }
+      reject(createAbortError());
+    }
+
+    pendingSlotWaiters.push(handleSlotGranted);
+    requestSignal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+function releaseRequestSlot() {
+  activeRequestCount = Math.max(0, activeRequestCount - 1);
+  const nextWaiter = pendingSlotWaiters.shift();
+  nextWaiter?.();
+}
+
+function waitForRetryDelay(delayMilliseconds: number, requestSignal?: AbortSignal): Promise<void> {
+  if (requestSignal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const timeoutIdentifier = window.setTimeout(() => {
+      requestSignal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, delayMilliseconds);
+
+    function handleAbort() {
+      window.clearTimeout(timeoutIdentifier);
+      reject(createAbortError());
+    }
+
+    requestSignal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+// Retry-After may be delta-seconds or an HTTP date.
+function parseRetryAfterMilliseconds(networkResponse: Response) {
+  const retryAfterHeader = networkResponse.headers.get('Retry-After')?.trim();
+  if (!retryAfterHeader) {
+    return null;
+  }
+
+  const retryAfterSeconds = Number(retryAfterHeader);
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return retryAfterSeconds * 1000;
+  }
+
+  const retryAfterTimestamp = Date.parse(retryAfterHeader);
+  return Number.isFinite(retryAfterTimestamp) ? Math.max(retryAfterTimestamp - Date.now(), 0) : null;
+}
+
+// Honor Retry-After when present; otherwise fall back to exponential backoff with jitter.
+function resolveRetryDelayMilliseconds(networkResponse: Response | null, attemptIndex: number) {
+  const retryAfterMilliseconds = networkResponse ? parseRetryAfterMilliseconds(networkResponse) : null;
+  if (retryAfterMilliseconds !== null) {
+    return Math.min(retryAfterMilliseconds, MAXIMUM_RETRY_DELAY_MILLISECONDS);
+  }
+
+  const exponentialDelay = INITIAL_RETRY_DELAY_MILLISECONDS * 2 ** attemptIndex;
+  const jitterMilliseconds = Math.random() * INITIAL_RETRY_DELAY_MILLISECONDS;
+  return Math.min(exponentialDelay + jitterMilliseconds, MAXIMUM_RETRY_DELAY_MILLISECONDS);
+}
+
+function isRetryableStatus(statusCode: number) {
+  return statusCode === 429 || statusCode >= 500;
+}
+
+async function readResponseBodySnippet(networkResponse: Response) {
+  try {
+    const responseBodyText = (await networkResponse.text()).trim();
+    return responseBodyText.length > MAXIMUM_ERROR_BODY_LENGTH
+      ? `${responseBodyText.slice(0, MAXIMUM_ERROR_BODY_LENGTH)}...`
+      : responseBodyText;
+  } catch {
+    return '';
+  }
+}
+
+// Maps a failed response onto the typed error hierarchy in `vndbErrors.ts`.
+async function buildFailureError(networkResponse: Response, failureDescription: string) {
+  const statusCode = networkResponse.status;
+  if (statusCode === 429) {
+    return new VndbRateLimitError(
+      `VNDB rate limit reached: ${failureDescription}. Please wait a moment and try again.`,
+      parseRetryAfterMilliseconds(networkResponse)
+    );
+  }
+
+  if (statusCode >= 500) {
+    return new VndbServerError(`VNDB is unavailable: ${failureDescription} (HTTP ${statusCode}).`, statusCode);
+  }
+
+  // Kana reports filter/field mistakes as short plain-text bodies; surface them for 4xx responses only.
+  const responseBodySnippet = await readResponseBodySnippet(networkResponse);
+  const detailedErrorSuffix = responseBodySnippet ? ` - ${responseBodySnippet}` : '.';
+  const failureMessage = `${failureDescription} (HTTP ${statusCode})${detailedErrorSuffix}`;
+  if (statusCode === 401) {
+    return new VndbAuthenticationError(`Your VNDB token was rejected: ${failureMessage}`, statusCode);
+  }
+  if (statusCode === 403) {
+    return new VndbPermissionError(`Your VNDB token lacks permission: ${failureMessage}`, null, statusCode);
+  }
+  if (statusCode === 404) {
+    return new VndbNotFoundError(`Not found: ${failureMessage}`, statusCode);
+  }
+  return new VndbRequestError(`Request rejected: ${failureMessage}`, statusCode);
+}
+
+// Single network pipeline for every Kana endpoint: auth headers, concurrency limit, retry/backoff and cancellation.
+export async function executeVndbRequest(endpointPath: string, options: VndbRequestOptions): Promise<Response> {
+  const requestMethod = options.method ?? (options.payload === undefined ? 'GET' : 'POST');
+  const requestHeaders: Record<string, string> = {};
+  if (options.payload !== undefined) {
+    requestHeaders['Content-Type'] = 'application/json';
+  }
+  if (options.authenticationToken) {
+    requestHeaders.Authorization = `Token ${options.authenticationToken}`;
+  }
+
+  const serializedPayload = options.payload === undefined ? undefined : JSON.stringify(options.payload);
+  // Retrying cannot help while the browser reports no connection.
+  if (isBrowserOffline()) {
+    throw new VndbOfflineError(`You're offline: ${options.failureDescription}.`, true);
+  }
+  const tolerateStatusCodes = options.tolerateStatusCodes ?? [];
+
+  for (let attemptIndex = 0; attemptIndex < MAXIMUM_REQUEST_ATTEMPTS; attemptIndex += 1) {
+    const isFinalAttempt = attemptIndex === MAXIMUM_REQUEST_ATTEMPTS - 1;
+    let networkResponse: Response | null = null;
+    let transportError: unknown = null;
+
+    await acquireRequestSlot(options.requestSignal);
+    try {
+      networkResponse = await fetch(buildVndbApiUrl(endpointPath), {
+        method: requestMethod,
+        headers: requestHeaders,
+        body: serializedPayload,
+        signal: options.requestSignal
+      });
+    } catch (caughtError) {
+      transportError = caughtError;
+    } finally {
+      releaseRequestSlot();
+    }
+
+    if (!networkResponse) {
+      if (isAbortError(transportError) || options.requestSignal?.aborted) {
+        throw createAbortError();
+      }
+
+      if (isFinalAttempt || isBrowserOffline()) {
+        const isOfflineNow = isBrowserOffline();
+        const transportDetail = transportError instanceof Error ? ` (${transportError.message})` : '';
+        throw new VndbOfflineError(
+          isOfflineNow
+            ? `You're offline: ${options.failureDescription}.`
+            : `VNDB could not be reached: ${options.failureDescription}${transportDetail}.`,
+          isOfflineNow
+        );
+      }
+
+      await waitForRetryDelay(resolveRetryDelayMilliseconds(null, attemptIndex), options.requestSignal);
+      continue;
+    }
+
+    if (networkResponse.ok || tolerateStatusCodes.includes(networkResponse.status)) {
+      return networkResponse;
+    }
+
+    if (!isRetryableStatus(networkResponse.status) || isFinalAttempt) {
+      throw await buildFailureError(networkResponse, options.failureDescription);
+    }
+
+    await waitForRetryDelay(resolveRetryDelayMilliseconds(networkResponse, attemptIndex), options.requestSignal);
+  }
+
+  // The loop always returns or throws; this guards against future edits to the attempt bounds.
+  throw new VndbOfflineError(`VNDB could not be reached: ${options.failureDescription}.`, isBrowserOffline());
+}
+
+// Responses are decoded at the boundary so API drift surfaces as a `VndbDecodeError` naming the field.
+export async function executeVndbJsonRequest<TResponsePayload>(
+  endpointPath: string,
+  options: VndbRequestOptions,
+  decodeResponse: Decoder<TResponsePayload>
+): Promise<TResponsePayload> {
+  const networkResponse = await executeVndbRequest(endpointPath, options);
+  let responseBody: unknown;
+  try {
+    responseBody = await networkResponse.json();
+  } catch {
+    throw new VndbDecodeError(endpointPath, 'a JSON response body', undefined);
+  }
+  return decodeResponse(responseBody, endpointPath);
+}
@@ -0,0 +1,390 @@
+import type {
+  CharacterDetailedEntry,
+  CharacterTraitEntry,
+  CharacterTraitMetadataEntry,
+  CharacterVisualNovelLinkEntry,
+  DatabaseStatisticsResponse,
+  ProducerCatalogEntry,
+  ProducerDetailedEntry,
+  ProducerExternalLinkEntry,
+  ProducerRelationEntry,
+  StaffAliasEntry,
+  StaffDetailedEntry,
+  UserListLabelDefinition,
+  UserListLabelsResponse,
+  UserListStatisticsEntry,
+  UserListStatisticsVisualNovel,
+  UserVisualNovelListEntry,
+  UserVisualNovelListLabelEntry,
+  VisualNovelAuthInfoResponse,
+  VisualNovelCharacterEntry,
+  VisualNovelContributorEntry,
+  VisualNovelCoverImage,
+  VisualNovelDatabaseEntry,
+  VisualNovelDetailedEntry,
+  VisualNovelRelationEntry,
+  VisualNovelReleaseEntry,
+  VisualNovelReleaseExternalLinkEntry,
+  VisualNovelReleaseLanguageEntry,
+  VisualNovelReleaseMediaEntry,
+  VisualNovelScreenshotEntry,
+  VisualNovelStaffCreditEntry,
+  VisualNovelTagEntry,
+  VisualNovelTagMetadataEntry,
+  VisualNovelVoiceActorEntry,
+  VndbUserLookupEntry
+} from '../types/apiTypes';
+import {
+  decodeArray,
+  decodeBoolean,
+  decodeEither,
+  decodeLiteral,
+  decodeNullable,
+  decodeNumber,
+  decodeNumericValue,
+  decodeObject,
+  decodeOptional,
+  decodePartialObject,
+  decodeString,
+  decodeVndbIdentifier,
+  VndbDecodeError,
+  type Decoder,
+  type DecoderShape
+} from './schemaDecoder';
+
+export interface DecodedVndbPage<TEntry> {
+  results: TEntry[];
+  more: boolean;
+}
+
+// Every paged Kana response shares the `{ results, more }` envelope.
+export function decodeVndbPage<TEntry>(decodeEntry: Decoder<TEntry>): Decoder<DecodedVndbPage<TEntry>> {
+  const decodeResults = decodeArray(decodeEntry);
+  return (rawValue, fieldPath) => {
+    const pageEnvelope = decodePartialObject<{ results: unknown; more: boolean }, 'results'>({
+      results: (rawResults) => rawResults,
+      more: decodeBoolean
+    }, ['results'])(rawValue, fieldPath);
+    return {
+      results: decodeResults(pageEnvelope.results, `${fieldPath}.results`),
+      more: pageEnvelope.more ?? false
+    };
+  };
+}
+
+const decodeVisualNovelIdentifier = decodeVndbIdentifier('v');
+const decodeCharacterIdentifier = decodeVndbIdentifier('c');
+const decodeProducerIdentifier = decodeVndbIdentifier('p');
+const decodeStaffIdentifier = decodeVndbIdentifier('s');
+const decodeTagIdentifier = decodeVndbIdentifier('g');
+const decodeTraitIdentifier = decodeVndbIdentifier('i');
+const decodeReleaseIdentifier = decodeVndbIdentifier('r');
+const decodeUserIdentifier = decodeVndbIdentifier('u');
+const decodeNullableString = decodeNullable(decodeString);
+
+const decodeCoverImage = decodeObject<VisualNovelCoverImage>({
+  id: decodeOptional(decodeString),
+  url: decodeOptional(decodeString),
+  thumbnail: decodeOptional(decodeString),
+  sexual: decodeNumber
+});
+
+const decodeScreenshotEntry = decodeObject<VisualNovelScreenshotEntry>({
+  url: decodeString,
+  thumbnail: decodeString
+});
+
+const decodeRelationEntry = decodeObject<VisualNovelRelationEntry>({
+  id: decodeVisualNovelIdentifier,
+  title: decodeString,
+  relation: decodeString
+});
+
+const decodeTagEntry = decodeObject<VisualNovelTagEntry>({
+  id: decodeTagIdentifier,
+  name: decodeString,
+  spoiler: decodeOptional(decodeNumber),
+  rating: decodeOptional(decodeNumber),
+  category: decodeOptional(decodeString)
+});
+
+const decodeContributorEntry = decodeObject<VisualNovelContributorEntry>({
+  id: decodeProducerIdentifier,
+  name: decodeString,
+  original: decodeNullableString
+});
+
+const decodeVisualNovelCharacterEntry = decodeObject<VisualNovelCharacterEntry>({
+  id: decodeCharacterIdentifier,
+  name: decodeString,
+  original: decodeNullableString,
+  image: decodeNullable(decodeCoverImage)
+});
+
+const decodeStaffCreditEntry = decodeObject<VisualNovelStaffCreditEntry>({
+  id: decodeStaffIdentifier,
+  aid: decodeOptional(decodeNumber),
+  name: decodeString,
+  original: decodeNullableString,
+  role: decodeString,
+  note: decodeNullableString
+});
+
+const decodeVoiceActorEntry = decodeObject<VisualNovelVoiceActorEntry>({
+  note: decodeNullableString,
+  staff: decodeObject<VisualNovelVoiceActorEntry['staff']>({
+    id: decodeStaffIdentifier,
+    name: decodeString,
+    original: decodeNullableString
+  }),
+  character: decodeObject<VisualNovelVoiceActorEntry['character']>({
+    id: decodeCharacterIdentifier,
+    name: decodeString,
+    original: decodeNullableString
+  })
+});
+
+const visualNovelDatabaseEntryShape: DecoderShape<VisualNovelDatabaseEntry> = {
+  id: decodeVisualNovelIdentifier,
+  title: decodeString,
+  rating: decodeNullable(decodeNumber),
+  image: decodeNullable(decodeCoverImage)
+};
+
+const visualNovelDetailedEntryShape: DecoderShape<VisualNovelDetailedEntry> = {
+  ...visualNovelDatabaseEntryShape,
+  description: decodeNullableString,
+  released: decodeNullableString,
+  tags: decodeNullable(decodeArray(decodeTagEntry)),
+  screenshots: decodeNullable(decodeArray(decodeScreenshotEntry)),
+  relations: decodeNullable(decodeArray(decodeRelationEntry)),
+  developers: decodeNullable(decodeArray(decodeContributorEntry)),
+  characters: decodeNullable(decodeArray(decodeVisualNovelCharacterEntry)),
+  staff: decodeNullable(decodeArray(decodeStaffCreditEntry)),
+  va: decodeNullable(decodeArray(decodeVoiceActorEntry))
+};
+
+export const decodeVisualNovelDatabaseEntry = decodeObject<VisualNovelDatabaseEntry>(visualNovelDatabaseEntryShape);
+
+export const decodeVisualNovelDetailedEntry = decodeObject<VisualNovelDetailedEntry>(visualNovelDetailedEntryShape);
+
+export const decodeVisualNovelDetailedFragment = decodePartialObject<VisualNovelDetailedEntry, 'id'>(
+  visualNovelDetailedEntryShape,
+  ['id']
+);
+
+export const decodeProducerCatalogEntry = decodeObject<ProducerCatalogEntry>({
+  ...visualNovelDatabaseEntryShape,
+  released: decodeNullableString,
+  votecount: decodeOptional(decodeNumber)
+});
+
+// Character probing via `/vn` selects the nested list under either `characters` or `chars`.
+export const decodeVisualNovelCharacterCollection = decodePartialObject<{
+  id: string;
+  characters: VisualNovelCharacterEntry[] | null;
+  chars: VisualNovelCharacterEntry[] | null;
+}, 'id'>({
+  id: decodeVisualNovelIdentifier,
+  characters: decodeNullable(decodeArray(decodeVisualNovelCharacterEntry)),
+  chars: decodeNullable(decodeArray(decodeVisualNovelCharacterEntry))
+}, ['id']);
+
+export const decodeCharacterDetailedEntry = decodeObject<CharacterDetailedEntry>({
+  id: decodeCharacterIdentifier,
+  name: decodeString,
+  original: decodeNullableString,
+  description: decodeNullableString,
+  image: decodeNullable(decodeCoverImage),
+  traits: decodeNullable(decodeArray(decodeObject<CharacterTraitEntry>({
+    id: decodeTraitIdentifier,
+    spoiler: decodeOptional(decodeNumber),
+    name: decodeOptional(decodeString)
+  }))),
+  vns: decodeNullable(decodeArray(decodeObject<CharacterVisualNovelLinkEntry>({
+    id: decodeVisualNovelIdentifier,
+    title: decodeString,
+    role: decodeOptional(decodeString)
+  })))
+});
+
+export const decodeCharacterTraitMetadataEntry = decodeObject<CharacterTraitMetadataEntry>({
+  id: decodeTraitIdentifier,
+  name: decodeString,
+  group_name: decodeNullableString
+});
+
+export const decodeTagMetadataEntry = decodeObject<VisualNovelTagMetadataEntry>({
+  id: decodeTagIdentifier,
+  name: decodeString,
+  category: decodeString,
+  description: decodeNullableString,
+  vn_count: decodeOptional(decodeNumber)
+});
+
+export const decodeProducerDetailedEntry = decodeObject<ProducerDetailedEntry>({
+  id: decodeProducerIdentifier,
+  name: decodeString,
+  original: decodeNullableString,
+  aliases: decodeNullable(decodeArray(decodeString)),
+  lang: decodeNullableString,
+  type: decodeNullable(decodeLiteral('co', 'in', 'ng')),
+  description: decodeNullableString,
+  extlinks: decodeNullable(decodeArray(decodeObject<ProducerExternalLinkEntry>({
+    url: decodeString,
+    label: decodeString,
+    name: decodeString
+  }))),
+  relations: decodeNullable(decodeArray(decodeObject<ProducerRelationEntry>({
+    id: decodeProducerIdentifier,
+    name: decodeString,
+    original: decodeNullableString,
+    relation: decodeString
+  })))
+});
+
+export const decodeStaffDetailedEntry = decodeObject<StaffDetailedEntry>({
+  id: decodeStaffIdentifier,
+  name: decodeString,
+  original: decodeNullableString,
+  lang: decodeNullableString,
+  gender: decodeNullable(decodeLiteral('m', 'f')),
+  description: decodeNullableString,
+  aliases: decodeNullable(decodeArray(decodeObject<StaffAliasEntry>({
+    aid: decodeNumber,
+    name: decodeString,
+    latin: decodeNullableString,
+    ismain: decodeBoolean
+  })))
+});
+
+const decodeReleaseResolution = decodeNullable(decodeEither<[number, number], 'non-standard'>(
+  (rawValue, fieldPath) => {
+    const [resolutionWidth, resolutionHeight, ...extraValues] = decodeArray(decodeNumber)(rawValue, fieldPath);
+    if (resolutionHeight === undefined || extraValues.length > 0) {
+      throw new VndbDecodeError(fieldPath, 'a [width, height] pair', rawValue);
+    }
+    return [resolutionWidth, resolutionHeight];
+  },
+  decodeLiteral('non-standard'),
+  'a [width, height] pair or "non-standard"'
+));
+
+const decodeReleaseAnimation: Decoder<VisualNovelReleaseEntry['animation']> = decodeNullable((rawValue, fieldPath) => {
+  const animationValues = decodeArray(decodeNullable(decodeNumber))(rawValue, fieldPath);
+  if (animationValues.length !== 4) {
+    throw new VndbDecodeError(fieldPath, 'four animation values', rawValue);
+  }
+  return [animationValues[0], animationValues[1], animationValues[2], animationValues[3]];
+});
+
+export const decodeReleaseEntry = decodeObject<VisualNovelReleaseEntry>({
+  id: decodeReleaseIdentifier,
+  title: decodeString,
+  languages: decodeArray(decodeObject<VisualNovelReleaseLanguageEntry>({
+    lang: decodeString,
+    mtl: decodeOptional(decodeBoolean)
+  })),
+  platforms: decodeArray(decodeString),
+  media: decodeArray(decodeObject<VisualNovelReleaseMediaEntry>({
+    medium: decodeString,
+    qty: decodeNumber
+  })),
+  released: decodeNullableString,
+  minage: decodeNullable(decodeNumber),
+  patch: decodeBoolean,
+  freeware: decodeBoolean,
+  official: decodeBoolean,
+  resolution: decodeReleaseResolution,
+  voiced: decodeNullable(decodeLiteral(1, 2, 3, 4)),
+  animation: decodeReleaseAnimation,
+  vns: decodeNullable(decodeArray(decodeObject<NonNullable<VisualNovelReleaseEntry['vns']>[number]>({
+    id: decodeVisualNovelIdentifier,
+    rtype: decodeLiteral('trial', 'partial', 'complete')
+  }))),
+  extlinks: decodeNullable(decodeArray(decodeObject<VisualNovelReleaseExternalLinkEntry>({
+    url: decodeString,
+    label: decodeString,
+    name: decodeString
+  })))
+});
+
+// Label and identifier scans select only `id`/`labels`, so `vn` is optional here.
+export const decodeUserVisualNovelListEntry = decodeObject<UserVisualNovelListEntry>({
+  id: decodeVisualNovelIdentifier,
+  labels: decodeOptional(decodeArray(decodeObject<UserVisualNovelListLabelEntry>({
+    id: decodeNumericValue,
+    label: decodeOptional(decodeString)
+  }))),
+  vn: decodeOptional(decodeVisualNovelDatabaseEntry),
+  vote: decodeOptional(decodeNullable(decodeNumber)),
+  notes: decodeOptional(decodeNullableString),
+  started: decodeOptional(decodeNullableString),
+  finished: decodeOptional(decodeNullableString),
+  lastmod: decodeOptional(decodeNullable(decodeNumber))
+});
+
+export const decodeUserListStatisticsEntry = decodeObject<UserListStatisticsEntry>({
+  id: decodeVisualNovelIdentifier,
+  labels: decodeOptional(decodeArray(decodeObject<UserVisualNovelListLabelEntry>({
+    id: decodeNumericValue,
+    label: decodeOptional(decodeString)
+  }))),
+  vote: decodeOptional(decodeNullable(decodeNumber)),
+  started: decodeOptional(decodeNullableString),
+  finished: decodeOptional(decodeNullableString),
+  vn: decodeOptional(decodeObject<UserListStatisticsVisualNovel>({
+    id: decodeVisualNovelIdentifier,
+    title: decodeString,
+    rating: decodeNullable(decodeNumber),
+    olang: decodeNullableString,
+    length: decodeNullable(decodeNumber),
+    length_minutes: decodeNullable(decodeNumber),
+    developers: decodeNullable(decodeArray(decodeContributorEntry)),
+    tags: decodeNullable(decodeArray(decodeTagEntry))
+  }))
+});
+
+export const decodeUserListLabelsResponse = decodeObject<UserListLabelsResponse>({
+  labels: decodeArray(decodeObject<UserListLabelDefinition>({
+    id: decodeNumericValue,
+    label: decodeString,
+    private: decodeBoolean,
+    count: decodeOptional(decodeNumber)
+  }))
+});
+
+// Queries sent with `count: true` and no results; only the total is read.
+export const decodeVndbCount = decodeObject<{ count: number }>({
+  count: decodeNumber
+});
+
+export const decodeVisualNovelIdentifierEntry = decodeObject<{ id: string }>({
+  id: decodeVisualNovelIdentifier
+});
+
+export const decodeAuthInfoResponse = decodeObject<VisualNovelAuthInfoResponse>({
+  id: decodeUserIdentifier,
+  username: decodeString,
+  permissions: decodeArray(decodeString)
+});
+
+// `/user` keys its response by the query string and maps unmatched queries to null.
+export function decodeUserLookupResponse(userQuery: string) {
+  return decodeObject<Record<string, VndbUserLookupEntry | null>>({
+    [userQuery]: decodeNullable(decodeObject<VndbUserLookupEntry>({
+      id: decodeUserIdentifier,
+      username: decodeString
+    }))
+  });
+}
+
+export const decodeDatabaseStatisticsResponse = decodeObject<DatabaseStatisticsResponse>({
+  chars: decodeNumber,
+  producers: decodeNumber,
+  releases: decodeNumber,
+  staff: decodeNumber,
+  tags: decodeNumber,
+  traits: decodeNumber,
+  vn: decodeNumber
+});
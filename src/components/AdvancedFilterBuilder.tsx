@@ -0,0 +1,423 @@
+import React, { useState } from 'react';
+import { fetchProducerEntries, fetchTagEntries } from '../api/visualNovelClient';
+import {
+  ADVANCED_FILTER_CONDITION_LABELS,
+  appendAdvancedFilterNode,
+  createAdvancedFilterCondition,
+  createAdvancedFilterGroup,
+  DEVELOPMENT_STATUS_LABELS,
+  removeAdvancedFilterNode,
+  updateAdvancedFilterNode,
+  VISUAL_NOVEL_LENGTH_LABELS,
+  type AdvancedFilterComparison,
+  type AdvancedFilterCondition,
+  type AdvancedFilterConditionKind,
+  type AdvancedFilterGroup,
+  type AdvancedFilterNode
+} from '../utils/advancedVisualNovelFilter';
+import { formatReleasePlatformLabel, RELEASE_PLATFORM_CODES } from '../utils/releaseLabels';
+import { describeVndbError } from '../utils/vndbErrorPresentation';
+import styles from './VisualNovelList.module.css';
+
+interface AdvancedFilterBuilderProperties {
+  filterGroup: AdvancedFilterGroup | null;
+  onFilterGroupChange: (filterGroup: AdvancedFilterGroup | null) => void;
+}
+
+interface AdvancedFilterTreeActions {
+  changeNode: (nodeIdentifier: string, transformNode: (filterNode: AdvancedFilterNode) => AdvancedFilterNode) => void;
+  removeNode: (nodeIdentifier: string) => void;
+  appendNode: (groupIdentifier: string, childNode: AdvancedFilterNode) => void;
+}
+
+interface LookupEntity {
+  id: string;
+  name: string;
+}
+
+const CONDITION_KIND_OPTIONS = Object.entries(ADVANCED_FILTER_CONDITION_LABELS) as [AdvancedFilterConditionKind, string][];
+const COMPARISON_OPTIONS: { value: AdvancedFilterComparison; label: string }[] = [
+  { value: '>=', label: 'at least' },
+  { value: '<=', label: 'at most' },
+  { value: '=', label: 'exactly' }
+];
+// VNDB tag scores run from 0 to 3; 0 also matches VNs where voters disagree about the tag.
+const TAG_SCORE_OPTIONS = [0, 1, 1.5, 2, 2.5];
+const SPOILER_LEVEL_OPTIONS: { value: 0 | 1 | 2; label: string }[] = [
+  { value: 0, label: 'No spoilers' },
+  { value: 1, label: 'Minor spoilers' },
+  { value: 2, label: 'Major spoilers' }
+];
+
+// Name search for tag and developer conditions; picking a match stores its ID.
+function AdvancedFilterEntityLookup({
+  placeholder,
+  searchEntities,
+  onEntitySelection
+}: {
+  placeholder: string;
+  searchEntities: (searchTerm: string) => Promise<LookupEntity[]>;
+  onEntitySelection: (entity: LookupEntity) => void;
+}) {
+  const [lookupQuery, setLookupQuery] = useState<string>('');
+  const [lookupMatches, setLookupMatches] = useState<LookupEntity[]>([]);
+  const [lookupMessage, setLookupMessage] = useState<string | null>(null);
+  const [isLookupInFlight, setIsLookupInFlight] = useState<boolean>(false);
+
+  async function handleLookupSubmission(formEvent: React.FormEvent<HTMLFormElement>) {
+    formEvent.preventDefault();
+    const searchTerm = lookupQuery.trim();
+    if (searchTerm === '') {
+      return;
+    }
+
+    setIsLookupInFlight(true);
+    setLookupMessage(null);
+    try {
+      const matchedEntities = await searchEntities(searchTerm);
+      setLookupMatches(matchedEntities);
+      if (matchedEntities.length === 0) {
+        setLookupMessage(`Nothing matches "${searchTerm}".`);
+      }
+    } catch (caughtError) {
+      setLookupMessage(describeVndbError(caughtError, 'Lookup failed.').message);
+    } finally {
+      setIsLookupInFlight(false);
+    }
+  }
+
+  return (
+    <form className={styles.userLookupForm} onSubmit={handleLookupSubmission}>
+      <input
+        type="text"
+        value={lookupQuery}
+        onChange={(inputEvent) => setLookupQuery(inputEvent.target.value)}
+        placeholder={placeholder}
+        className={styles.userLookupInputField}
+        aria-label={placeholder}
+      />
+      <button type="submit" className={styles.filterSecondaryButton} disabled={isLookupInFlight}>
+        {isLookupInFlight ? 'Finding...' : 'Find'}
+      </button>
+      {lookupMatches.map((lookupEntity) => (
+        <button key={lookupEntity.id} type="button" className={styles.recentSearchChip} onClick={() => onEntitySelection(lookupEntity)}>
+          {lookupEntity.name}
+        </button>
+      ))}
+      {lookupMessage && <span className={styles.advancedFilterMessage}>{lookupMessage}</span>}
+    </form>
+  );
+}
+
+function ComparisonSelect({
+  comparison,
+  onComparisonChange,
+  ariaLabel
+}: {
+  comparison: AdvancedFilterComparison;
+  onComparisonChange: (comparison: AdvancedFilterComparison) => void;
+  ariaLabel: string;
+}) {
+  return (
+    <select
+      className={styles.advancedFilterSelect}
+      value={comparison}
+      aria-label={ariaLabel}
+      onChange={(changeEvent) => onComparisonChange(changeEvent.target.value as AdvancedFilterComparison)}
+    >
+      {COMPARISON_OPTIONS.map((comparisonOption) => (
+        <option key={comparisonOption.value} value={comparisonOption.value}>{comparisonOption.label}</option>
+      ))}
+    </select>
+  );
+}
+
+function AdvancedFilterConditionEditor({ condition, treeActions }: { condition: AdvancedFilterCondition; treeActions: AdvancedFilterTreeActions }) {
+  const conditionLabel = ADVANCED_FILTER_CONDITION_LABELS[condition.kind];
+
+  function changeCondition(conditionChanges: Partial<AdvancedFilterCondition>) {
+    treeActions.changeNode(condition.nodeIdentifier, (filterNode) => ({ ...filterNode, ...conditionChanges }) as AdvancedFilterNode);
+  }
+
+  function renderNumberInput(value: number, minimumValue: number, maximumValue: number) {
+    return (
+      <input
+        type="number"
+        className={styles.userListYearInputField}
+        value={value}
+        min={minimumValue}
+        max={maximumValue}
+        aria-label={`${conditionLabel} value`}
+        onChange={(inputEvent) => {
+          if (inputEvent.target.value !== '') {
+            changeCondition({ value: Math.min(maximumValue, Math.max(minimumValue, Number(inputEvent.target.value))) });
+          }
+        }}
+      />
+    );
+  }
+
+  function renderConditionControls() {
+    switch (condition.kind) {
+      case 'tag':
+        if (!condition.tagIdentifier) {
+          return (
+            <AdvancedFilterEntityLookup
+              placeholder="Tag name"
+              searchEntities={async (searchTerm) => (await fetchTagEntries(searchTerm, 1, 5)).results}
+              onEntitySelection={(tagEntity) => changeCondition({ tagIdentifier: tagEntity.id, tagName: tagEntity.name })}
+            />
+          );
+        }
+
+        return (
+          <>
+            <button
+              type="button"
+              className={styles.recentSearchChip}
+              aria-label={`Pick another tag instead of ${condition.tagName}`}
+              onClick={() => changeCondition({ tagIdentifier: '', tagName: '' })}
+            >
+              {condition.tagName} ×
+            </button>
+            <select
+              className={styles.advancedFilterSelect}
+              value={condition.minimumScore}
+              aria-label="Minimum tag score"
+              onChange={(changeEvent) => changeCondition({ minimumScore: Number(changeEvent.target.value) })}
+            >
+              {TAG_SCORE_OPTIONS.map((tagScore) => (
+                <option key={tagScore} value={tagScore}>{tagScore === 0 ? 'Any score' : `Score ≥ ${tagScore}`}</option>
+              ))}
+            </select>
+            <select
+              className={styles.advancedFilterSelect}
+              value={condition.maximumSpoilerLevel}
+              aria-label="Spoiler level"
+              onChange={(changeEvent) => changeCondition({ maximumSpoilerLevel: Number(changeEvent.target.value) as 0 | 1 | 2 })}
+            >
+              {SPOILER_LEVEL_OPTIONS.map((spoilerLevelOption) => (
+                <option key={spoilerLevelOption.value} value={spoilerLevelOption.value}>{spoilerLevelOption.label}</option>
+              ))}
+            </select>
+          </>
+        );
+      case 'developer':
+        return condition.producerIdentifier ? (
+          <button
+            type="button"
+            className={styles.recentSearchChip}
+            aria-label={`Pick another developer instead of ${condition.producerName}`}
+            onClick={() => changeCondition({ producerIdentifier: '', producerName: '' })}
+          >
+            {condition.producerName} ×
+          </button>
+        ) : (
+          <AdvancedFilterEntityLookup
+            placeholder="Developer name"
+            searchEntities={async (searchTerm) => (await fetchProducerEntries(searchTerm, 5)).results}
+            onEntitySelection={(producerEntity) => changeCondition({ producerIdentifier: producerEntity.id, producerName: producerEntity.name })}
+          />
+        );
+      case 'platform':
+        return (
+          <select
+            className={styles.advancedFilterSelect}
+            value={condition.platform}
+            aria-label="Platform"
+            onChange={(changeEvent) => changeCondition({ platform: changeEvent.target.value })}
+          >
+            {RELEASE_PLATFORM_CODES.map((platformCode) => (
+              <option key={platformCode} value={platformCode}>{formatReleasePlatformLabel(platformCode)}</option>
+            ))}
+          </select>
+        );
+      case 'devstatus':
+        return (
+          <select
+            className={styles.advancedFilterSelect}
+            value={condition.devstatus}
+            aria-label="Development status"
+            onChange={(changeEvent) => changeCondition({ devstatus: Number(changeEvent.target.value) as 0 | 1 | 2 })}
+          >
+            {Object.entries(DEVELOPMENT_STATUS_LABELS).map(([developmentStatus, statusLabel]) => (
+              <option key={developmentStatus} value={developmentStatus}>{statusLabel}</option>
+            ))}
+          </select>
+        );
+      case 'length':
+        return (
+          <>
+            <ComparisonSelect
+              comparison={condition.comparison}
+              ariaLabel="Length comparison"
+              onComparisonChange={(comparison) => changeCondition({ comparison })}
+            />
+            <select
+              className={styles.advancedFilterSelect}
+              value={condition.value}
+              aria-label="Length"
+              onChange={(changeEvent) => changeCondition({ value: Number(changeEvent.target.value) })}
+            >
+              {Object.entries(VISUAL_NOVEL_LENGTH_LABELS).map(([lengthValue, lengthLabel]) => (
+                <option key={lengthValue} value={lengthValue}>{lengthLabel}</option>
+              ))}
+            </select>
+          </>
+        );
+      case 'rating':
+      case 'votecount':
+      case 'minage':
+        return (
+          <>
+            <ComparisonSelect
+              comparison={condition.comparison}
+              ariaLabel={`${conditionLabel} comparison`}
+              onComparisonChange={(comparison) => changeCondition({ comparison })}
+            />
+            {condition.kind === 'rating' && renderNumberInput(condition.value, 10, 100)}
+            {condition.kind === 'votecount' && renderNumberInput(condition.value, 0, 1000000)}
+            {condition.kind === 'minage' && renderNumberInput(condition.value, 0, 18)}
+          </>
+        );
+      case 'released':
+        return (
+          <>
+            <ComparisonSelect
+              comparison={condition.comparison}
+              ariaLabel="Release date comparison"
+              onComparisonChange={(comparison) => changeCondition({ comparison })}
+            />
+            <input
+              type="text"
+              className={styles.userLookupInputField}
+              value={condition.value}
+              placeholder="YYYY, YYYY-MM or YYYY-MM-DD"
+              aria-label="Release date"
+              onChange={(inputEvent) => changeCondition({ value: inputEvent.target.value })}
+            />
+          </>
+        );
+    }
+  }
+
+  return (
+    <li className={styles.advancedFilterConditionRow}>
+      <span className={styles.filterSectionTitle}>{conditionLabel}</span>
+      <label className={styles.filterCheckboxLabel}>
+        <input type="checkbox" checked={condition.isNegated} onChange={(changeEvent) => changeCondition({ isNegated: changeEvent.target.checked })} />
+        Not
+      </label>
+      {renderConditionControls()}
+      <button
+        type="button"
+        className={styles.recentSearchClearButton}
+        aria-label={`Remove ${conditionLabel.toLowerCase()} condition`}
+        onClick={() => treeActions.removeNode(condition.nodeIdentifier)}
+      >
+        Remove
+      </button>
+    </li>
+  );
+}
+
+function AdvancedFilterGroupEditor({
+  filterGroup,
+  treeActions,
+  isRootGroup
+}: {
+  filterGroup: AdvancedFilterGroup;
+  treeActions: AdvancedFilterTreeActions;
+  isRootGroup: boolean;
+}) {
+  return (
+    <div className={isRootGroup ? styles.advancedFilterRootGroup : styles.advancedFilterGroup}>
+      <div className={styles.filterControlRow}>
+        <select
+          className={styles.advancedFilterSelect}
+          value={filterGroup.combinator}
+          aria-label="Combine conditions"
+          onChange={(changeEvent) => treeActions.changeNode(filterGroup.nodeIdentifier, (filterNode) => ({
+            ...filterNode,
+            combinator: changeEvent.target.value as AdvancedFilterGroup['combinator']
+          }) as AdvancedFilterNode)}
+        >
+          <option value="and">Match all of</option>
+          <option value="or">Match any of</option>
+        </select>
+        <label className={styles.filterCheckboxLabel}>
+          <input
+            type="checkbox"
+            checked={filterGroup.isNegated}
+            onChange={(changeEvent) => treeActions.changeNode(filterGroup.nodeIdentifier, (filterNode) => ({
+              ...filterNode,
+              isNegated: changeEvent.target.checked
+            }))}
+          />
+          Exclude matches
+        </label>
+        <select
+          className={styles.advancedFilterSelect}
+          value=""
+          aria-label="Add condition"
+          onChange={(changeEvent) => {
+            if (changeEvent.target.value !== '') {
+              treeActions.appendNode(filterGroup.nodeIdentifier, createAdvancedFilterCondition(changeEvent.target.value as AdvancedFilterConditionKind));
+            }
+          }}
+        >
+          <option value="">Add condition...</option>
+          {CONDITION_KIND_OPTIONS.map(([conditionKind, conditionLabel]) => (
+            <option key={conditionKind} value={conditionKind}>{conditionLabel}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className={styles.recentSearchChip}
+          onClick={() => treeActions.appendNode(filterGroup.nodeIdentifier, createAdvancedFilterGroup(filterGroup.combinator === 'and' ? 'or' : 'and'))}
+        >
+          Add group
+        </button>
+        {!isRootGroup && (
+          <button
+            type="button"
+            className={styles.recentSearchClearButton}
+            aria-label="Remove group"
+            onClick={() => treeActions.removeNode(filterGroup.nodeIdentifier)}
+          >
+            Remove group
+          </button>
+        )}
+      </div>
+      {filterGroup.children.length > 0 && (
+        <ul className={styles.advancedFilterChildList}>
+          {filterGroup.children.map((childNode) => (childNode.kind === 'group' ? (
+            <li key={childNode.nodeIdentifier}>
+              <AdvancedFilterGroupEditor filterGroup={childNode} treeActions={treeActions} isRootGroup={false} />
+            </li>
+          ) : (
+            <AdvancedFilterConditionEditor key={childNode.nodeIdentifier} condition={childNode} treeActions={treeActions} />
+          )))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Edits the nested AND/OR/NOT conditions of a search. Changes go to the draft filters; the panel's Apply runs them.
+export function AdvancedFilterBuilder({ filterGroup, onFilterGroupChange }: AdvancedFilterBuilderProperties) {
+  const [emptyRootGroup] = useState<AdvancedFilterGroup>(() => createAdvancedFilterGroup());
+  const rootGroup = filterGroup ?? emptyRootGroup;
+
+  function commitRootGroup(updatedRootGroup: AdvancedFilterGroup) {
+    onFilterGroupChange(updatedRootGroup.children.length > 0 ? updatedRootGroup : null);
+  }
+
+  const treeActions: AdvancedFilterTreeActions = {
+    changeNode: (nodeIdentifier, transformNode) => commitRootGroup(updateAdvancedFilterNode(rootGroup, nodeIdentifier, transformNode)),
+    removeNode: (nodeIdentifier) => commitRootGroup(removeAdvancedFilterNode(rootGroup, nodeIdentifier)),
+    appendNode: (groupIdentifier, childNode) => commitRootGroup(appendAdvancedFilterNode(rootGroup, groupIdentifier, childNode))
+  };
+
+  return <AdvancedFilterGroupEditor filterGroup={rootGroup} treeActions={treeActions} isRootGroup />;
+}
@@ -3,10 +3,15 @@ import {
   fetchCharacterDetailsById,
   fetchCharactersByTraitId,
   fetchTraitMetadataByIds,
-  fetchVisualNovelEntries
+  fetchVisualNovelEntries,
+  VndbNotFoundError
 } from '../api/visualNovelClient';
+import { visualNovelFilters } from '../api/vndbFilterBuilder';
+import { isAbortError } from '../api/vndbRequestExecutor';
 import { type CharacterDetailedEntry, type CharacterQueryResponse, type VisualNovelDatabaseEntry } from '../types/apiTypes';
 import { renderVndbDescription } from '../utils/renderVndbDescription';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import { VndbErrorNotice } from './VndbErrorNotice';
 import styles from './VisualNovelList.module.css';
 
 interface CharacterDetailViewProperties {
@@ -24,7 +29,8 @@ export function CharacterDetailView({
 }: CharacterDetailViewProperties) {
   const [characterData, setCharacterData] = useState<CharacterDetailedEntry | null>(null);
   const [isDataLoading, setIsDataLoading] = useState<boolean>(true);
-  const [networkErrorMessage, setNetworkErrorMessage] = useState<string | null>(null);
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  const [characterReloadRequestToken, setCharacterReloadRequestToken] = useState<number>(0);
   const [traitGroupByIdentifier, setTraitGroupByIdentifier] = useState<Record<string, string>>({});
   const [selectedTraitId, setSelectedTraitId] = useState<string | null>(null);
   const [isTraitLookupLoading, setIsTraitLookupLoading] = useState<boolean>(false);
@@ -33,8 +39,9 @@ export function CharacterDetailView({
 
   useEffect(() => {
     let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
     setIsDataLoading(true);
-    setNetworkErrorMessage(null);
+    setNetworkError(null);
     setCharacterData(null);
     setTraitGroupByIdentifier({});
     setSelectedTraitId(null);
@@ -43,11 +50,11 @@ export function CharacterDetailView({
 
     async function executeCharacterFetch() {
       try {
-        const characterResponse: CharacterQueryResponse = await fetchCharacterDetailsById(characterIdentifier);
+        const characterResponse: CharacterQueryResponse = await fetchCharacterDetailsById(characterIdentifier, lifecycleAbortController.signal);
         const firstCharacterEntry = characterResponse.results[0];
         if (!firstCharacterEntry) {
           if (!hasLifecycleBeenCancelled) {
-            setNetworkErrorMessage('No character found with that identifier.');
+            setNetworkError(describeVndbError(new VndbNotFoundError('No character found with that identifier.'), ''));
           }
           return;
         }
@@ -56,22 +63,20 @@ export function CharacterDetailView({
           setCharacterData(firstCharacterEntry);
         }
 
-        const traitIdentifiers = (firstCharacterEntry.traits ?? [])
-          .map((traitEntry) => traitEntry.id)
-          .filter((traitIdentifier): traitIdentifier is string => typeof traitIdentifier === 'string' && traitIdentifier.trim() !== '');
+        const traitIdentifiers = (firstCharacterEntry.traits ?? []).map((traitEntry) => traitEntry.id);
         if (traitIdentifiers.length === 0) {
           return;
         }
 
-        const traitMetadataResponse = await fetchTraitMetadataByIds(traitIdentifiers);
+        const traitMetadataResponse = await fetchTraitMetadataByIds(traitIdentifiers, lifecycleAbortController.signal);
         if (!hasLifecycleBeenCancelled) {
           setTraitGroupByIdentifier(
             Object.fromEntries(traitMetadataResponse.results.map((traitMetadataEntry) => [traitMetadataEntry.id, traitMetadataEntry.group_name ?? 'Other']))
           );
         }
       } catch (caughtError) {
-        if (!hasLifecycleBeenCancelled) {
-          setNetworkErrorMessage(caughtError instanceof Error ? caughtError.message : 'Unknown character lookup error.');
+        if (!hasLifecycleBeenCancelled && !isAbortError(caughtError)) {
+          setNetworkError(describeVndbError(caughtError, 'Unknown character lookup error.'));
         }
       } finally {
         if (!hasLifecycleBeenCancelled) {
@@ -83,8 +88,9 @@ export function CharacterDetailView({
     executeCharacterFetch();
     return () => {
       hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
     };
-  }, [characterIdentifier]);
+  }, [characterIdentifier, characterReloadRequestToken]);
 
   function normalizeTraitGroupLabel(rawGroupLabel: string) {
     const normalizedGroupLabel = rawGroupLabel.toLowerCase();
@@ -113,7 +119,8 @@ export function CharacterDetailView({
     };
 
     (characterData?.traits ?? []).forEach((traitEntry) => {
-      if (!traitEntry || typeof traitEntry.id !== 'string' || typeof traitEntry.name !== 'string') {
+      // Trait names are only present when the query selected `traits.name`.
+      if (!traitEntry.name) {
         return;
       }
 
@@ -136,17 +143,12 @@ export function CharacterDetailView({
 
     try {
       const traitCharacterResponse = await fetchCharactersByTraitId(traitId);
-      const normalizedCharacters = traitCharacterResponse.results.filter(
-        (characterEntry) => characterEntry && characterEntry.id && characterEntry.name
-      );
-      setTraitMatchedCharacters(normalizedCharacters);
+      setTraitMatchedCharacters(traitCharacterResponse.results);
 
       const visualNovelIdentifiers = [...new Set(
-        normalizedCharacters
+        traitCharacterResponse.results
           .flatMap((characterEntry) => characterEntry.vns ?? [])
           .map((visualNovelEntry) => visualNovelEntry.id)
-          .filter((visualNovelIdentifier): visualNovelIdentifier is string => typeof visualNovelIdentifier === 'string' && visualNovelIdentifier.trim() !== '')
-          .map((visualNovelIdentifier) => visualNovelIdentifier.toLowerCase().startsWith('v') ? visualNovelIdentifier : `v${visualNovelIdentifier}`)
       )];
 
       if (visualNovelIdentifiers.length === 0) {
@@ -154,12 +156,9 @@ export function CharacterDetailView({
         return;
       }
 
-      const identifierFilter =
-        visualNovelIdentifiers.length === 1
-          ? ["id", "=", visualNovelIdentifiers[0]]
-          : ["or", ...visualNovelIdentifiers.slice(0, 100).map((visualNovelIdentifier) => ["id", "=", visualNovelIdentifier])];
+      const [firstVisualNovelIdentifier, ...remainingVisualNovelIdentifiers] = visualNovelIdentifiers.slice(0, 100);
       const visualNovelLookupResponse = await fetchVisualNovelEntries({
-        queryFilters: identifierFilter,
+        queryFilters: visualNovelFilters.anyOf('id', [firstVisualNovelIdentifier, ...remainingVisualNovelIdentifiers]),
         requestedFields: "id, title, rating, image.thumbnail, image.sexual",
         maxResults: Math.min(100, visualNovelIdentifiers.length)
       });
@@ -176,11 +175,14 @@ export function CharacterDetailView({
     return <div className={styles.systemStatusMessage}>Loading character details...</div>;
   }
 
-  if (networkErrorMessage || !characterData) {
+  if (networkError || !characterData) {
     return (
       <div className={styles.interfaceContainerBoundary}>
         <button onClick={onNavigateBack} className={styles.searchExecutionButton}>&larr; Return</button>
-        <div className={styles.systemErrorMessage}>System Error: {networkErrorMessage}</div>
+        <VndbErrorNotice
+          errorPresentation={networkError ?? describeVndbError(null, 'Unable to load character details.')}
+          onRetry={() => setCharacterReloadRequestToken((currentToken) => currentToken + 1)}
+        />
       </div>
     );
   }
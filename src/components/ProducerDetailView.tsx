@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useState } from 'react';
+import { fetchProducerCatalogById, fetchProducerDetailsById, VndbNotFoundError } from '../api/visualNovelClient';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import { type ProducerCatalogEntry, type ProducerDetailedEntry } from '../types/apiTypes';
+import { renderVndbDescription } from '../utils/renderVndbDescription';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import { VndbErrorNotice } from './VndbErrorNotice';
+import styles from './VisualNovelList.module.css';
+
+interface ProducerDetailViewProperties {
+  producerIdentifier: string;
+  onNavigateBack: () => void;
+  onProducerSelection: (producerIdentifier: string) => void;
+  onVisualNovelSelection: (visualNovelIdentifier: string) => void;
+  onVisualNovelPrefetch?: (visualNovelIdentifier: string) => void;
+}
+
+type CatalogSortField = 'released' | 'rating';
+type CatalogSortDirection = 'asc' | 'desc';
+
+const PRODUCER_TYPE_LABELS: Record<string, string> = {
+  co: 'Company',
+  in: 'Individual',
+  ng: 'Amateur group'
+};
+
+const PRODUCER_RELATION_LABELS: Record<string, string> = {
+  old: 'Formerly',
+  new: 'Succeeded by',
+  spa: 'Spawned',
+  ori: 'Originated from',
+  sub: 'Subsidiary',
+  par: 'Parent producer',
+  imp: 'Imprint',
+  ipa: 'Parent brand'
+};
+
+// Unknown/TBA release dates sort after every dated release regardless of direction.
+function compareCatalogEntries(
+  firstEntry: ProducerCatalogEntry,
+  secondEntry: ProducerCatalogEntry,
+  sortField: CatalogSortField,
+  sortDirection: CatalogSortDirection
+) {
+  const directionMultiplier = sortDirection === 'asc' ? 1 : -1;
+  if (sortField === 'rating') {
+    if (firstEntry.rating === null || secondEntry.rating === null) {
+      return firstEntry.rating === secondEntry.rating ? 0 : firstEntry.rating === null ? 1 : -1;
+    }
+    return (firstEntry.rating - secondEntry.rating) * directionMultiplier;
+  }
+
+  const firstReleaseDate = firstEntry.released && /^\d{4}/.test(firstEntry.released) ? firstEntry.released : null;
+  const secondReleaseDate = secondEntry.released && /^\d{4}/.test(secondEntry.released) ? secondEntry.released : null;
+  if (firstReleaseDate === null || secondReleaseDate === null) {
+    return firstReleaseDate === secondReleaseDate ? 0 : firstReleaseDate === null ? 1 : -1;
+  }
+  return firstReleaseDate.localeCompare(secondReleaseDate) * directionMultiplier;
+}
+
+export function ProducerDetailView({
+  producerIdentifier,
+  onNavigateBack,
+  onProducerSelection,
+  onVisualNovelSelection,
+  onVisualNovelPrefetch
+}: ProducerDetailViewProperties) {
+  const [producerData, setProducerData] = useState<ProducerDetailedEntry | null>(null);
+  const [isDataLoading, setIsDataLoading] = useState<boolean>(true);
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  const [producerReloadRequestToken, setProducerReloadRequestToken] = useState<number>(0);
+  const [catalogEntries, setCatalogEntries] = useState<ProducerCatalogEntry[]>([]);
+  const [isCatalogTruncated, setIsCatalogTruncated] = useState<boolean>(false);
+  const [isCatalogLoading, setIsCatalogLoading] = useState<boolean>(true);
+  const [catalogErrorMessage, setCatalogErrorMessage] = useState<string | null>(null);
+  const [catalogSortField, setCatalogSortField] = useState<CatalogSortField>('released');
+  const [catalogSortDirection, setCatalogSortDirection] = useState<CatalogSortDirection>('desc');
+
+  useEffect(() => {
+    let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
+    setIsDataLoading(true);
+    setNetworkError(null);
+    setProducerData(null);
+    setIsCatalogLoading(true);
+    setCatalogErrorMessage(null);
+    setCatalogEntries([]);
+    setIsCatalogTruncated(false);
+
+    async function executeProducerFetch() {
+      try {
+        const producerResponse = await fetchProducerDetailsById(producerIdentifier, lifecycleAbortController.signal);
+        const firstProducerEntry = producerResponse.results[0];
+        if (!hasLifecycleBeenCancelled) {
+          if (firstProducerEntry) {
+            setProducerData(firstProducerEntry);
+          } else {
+            setNetworkError(describeVndbError(new VndbNotFoundError('No producer found with that identifier.'), ''));
+          }
+        }
+      } catch (caughtError) {
+        if (!hasLifecycleBeenCancelled && !isAbortError(caughtError)) {
+          setNetworkError(describeVndbError(caughtError, 'Unknown producer lookup error.'));
+        }
+      } finally {
+        if (!hasLifecycleBeenCancelled) {
+          setIsDataLoading(false);
+        }
+      }
+    }
+
+    // The catalog can span several pages, so it loads independently of the profile.
+    async function executeCatalogFetch() {
+      try {
+        const producerCatalog = await fetchProducerCatalogById(producerIdentifier, lifecycleAbortController.signal);
+        if (!hasLifecycleBeenCancelled) {
+          setCatalogEntries(producerCatalog.entries);
+          setIsCatalogTruncated(producerCatalog.isTruncated);
+        }
+      } catch (caughtError) {
+        if (!hasLifecycleBeenCancelled && !isAbortError(caughtError)) {
+          setCatalogErrorMessage(describeVndbError(caughtError, 'Unable to load producer catalog.').message);
+        }
+      } finally {
+        if (!hasLifecycleBeenCancelled) {
+          setIsCatalogLoading(false);
+        }
+      }
+    }
+
+    executeProducerFetch();
+    executeCatalogFetch();
+    return () => {
+      hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
+    };
+  }, [producerIdentifier, producerReloadRequestToken]);
+
+  const sortedCatalogEntries = useMemo(() => (
+    [...catalogEntries].sort((firstEntry, secondEntry) => (
+      compareCatalogEntries(firstEntry, secondEntry, catalogSortField, catalogSortDirection)
+    ))
+  ), [catalogEntries, catalogSortField, catalogSortDirection]);
+
+  if (isDataLoading) {
+    return <div className={styles.systemStatusMessage}>Loading producer details...</div>;
+  }
+
+  if (networkError || !producerData) {
+    return (
+      <div className={styles.interfaceContainerBoundary}>
+        <button onClick={onNavigateBack} className={styles.searchExecutionButton}>&larr; Return</button>
+        <VndbErrorNotice
+          errorPresentation={networkError ?? describeVndbError(null, 'Unable to load producer details.')}
+          onRetry={() => setProducerReloadRequestToken((currentToken) => currentToken + 1)}
+        />
+      </div>
+    );
+  }
+
+  const producerAliases = (producerData.aliases ?? []).filter((alias) => alias.trim() !== '');
+  const producerRelations = producerData.relations ?? [];
+  const producerExternalLinks = (producerData.extlinks ?? []).filter((externalLink) => externalLink.url.trim() !== '');
+
+  return (
+    <div className={`${styles.interfaceContainerBoundary} ${styles.detailContentCentered}`}>
+      <button
+        onClick={onNavigateBack}
+        className={styles.floatingBackButton}
+        aria-label="Go back"
+      >
+        &larr;
+      </button>
+      <button onClick={onNavigateBack} className={`${styles.searchExecutionButton} ${styles.backToSearchButton}`}>
+        &larr; Return
+      </button>
+
+      <h2 className={styles.detailTitleText}>{producerData.name}</h2>
+      <p className={styles.listSubheadingText}>{producerData.original || ''}</p>
+
+      <div className={styles.detailMetaRow}>
+        <div className={styles.detailMetaChip}>
+          <span className={styles.detailMetaLabel}>Type</span>
+          <span>{(producerData.type && PRODUCER_TYPE_LABELS[producerData.type]) || 'Unknown'}</span>
+        </div>
+        <div className={styles.detailMetaChip}>
+          <span className={styles.detailMetaLabel}>Language</span>
+          <span>{producerData.lang ? producerData.lang.toUpperCase() : 'Unknown'}</span>
+        </div>
+        <div className={styles.detailMetaChip}>
+          <span className={styles.detailMetaLabel}>Titles</span>
+          <span>{isCatalogLoading ? '...' : `${catalogEntries.length}${isCatalogTruncated ? '+' : ''}`}</span>
+        </div>
+      </div>
+
+      {producerAliases.length > 0 && (
+        <p className={styles.detailActionMessage}>Also known as: {producerAliases.join(', ')}</p>
+      )}
+
+      <div className={styles.detailDescriptionSection}>
+        <h3 className={styles.sectionHeadingText}>Description</h3>
+        {producerData.description ? (
+          <div className={styles.detailDescriptionText}>{renderVndbDescription(producerData.description)}</div>
+        ) : (
+          <p>No producer description provided.</p>
+        )}
+      </div>
+
+      {producerRelations.length > 0 && (
+        <div className={styles.detailRelatedSection}>
+          <h3 className={styles.sectionHeadingText}>Related Producers</h3>
+          <ul className={styles.relatedVisualNovelList}>
+            {producerRelations.map((relationEntry) => (
+              <li key={`${relationEntry.id}-${relationEntry.relation}`} className={styles.relatedVisualNovelListItem}>
+                <button
+                  type="button"
+                  className={styles.relatedVisualNovelButton}
+                  onClick={() => onProducerSelection(relationEntry.id)}
+                >
+                  <span className={styles.relatedVisualNovelRelationBadge}>
+                    {PRODUCER_RELATION_LABELS[relationEntry.relation] ?? relationEntry.relation}
+                  </span>
+                  <span className={styles.relatedVisualNovelTitleText}>{relationEntry.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {producerExternalLinks.length > 0 && (
+        <div className={styles.detailStoreLinkSection}>
+          <h3 className={styles.sectionHeadingText}>Links</h3>
+          <ul className={styles.detailStoreLinkList}>
+            {producerExternalLinks.map((externalLink) => (
+              <li key={externalLink.url} className={styles.detailStoreLinkListItem}>
+                <a
+                  href={externalLink.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={styles.detailStoreLinkButton}
+                >
+                  <span className={styles.detailStoreLinkLabel}>{externalLink.label}</span>
+                  <span className={styles.detailStoreLinkMeta}>{externalLink.name}</span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className={styles.detailRelatedSection}>
+        <h3 className={styles.sectionHeadingText}>Catalog</h3>
+        <div className={styles.filterControlRow}>
+          <label className={styles.sortControlGroup}>
+            <span className={styles.sortLabelText}>Sort</span>
+            <select
+              className={styles.sortSelectField}
+              value={catalogSortField}
+              onChange={(changeEvent) => setCatalogSortField(changeEvent.target.value as CatalogSortField)}
+            >
+              <option value="released">Release Date</option>
+              <option value="rating">Rating</option>
+            </select>
+          </label>
+          <button
+            type="button"
+            className={styles.sortDirectionButton}
+            onClick={() => setCatalogSortDirection((currentDirection) => currentDirection === 'asc' ? 'desc' : 'asc')}
+          >
+            {catalogSortDirection === 'asc' ? 'Ascending' : 'Descending'}
+          </button>
+        </div>
+        {isCatalogLoading && <p className={styles.detailActionMessage}>Loading catalog...</p>}
+        {catalogErrorMessage && <p className={styles.systemErrorMessage}>{catalogErrorMessage}</p>}
+        {!isCatalogLoading && !catalogErrorMessage && sortedCatalogEntries.length === 0 && (
+          <p>No visual novels credited to this producer.</p>
+        )}
+        {isCatalogTruncated && (
+          <p className={styles.detailActionMessage}>
+            Showing the first {catalogEntries.length} titles; the catalog is larger than the paging limit.
+          </p>
+        )}
+        {sortedCatalogEntries.length > 0 && (
+          <ul className={styles.relatedVisualNovelList}>
+            {sortedCatalogEntries.map((catalogEntry) => (
+              <li key={catalogEntry.id} className={styles.relatedVisualNovelListItem}>
+                <button
+                  type="button"
+                  className={styles.relatedVisualNovelButton}
+                  onClick={() => onVisualNovelSelection(catalogEntry.id)}
+                  onMouseEnter={() => onVisualNovelPrefetch?.(catalogEntry.id)}
+                >
+                  <span className={styles.relatedVisualNovelRelationBadge}>{catalogEntry.released || 'TBA'}</span>
+                  <span className={styles.relatedVisualNovelTitleText}>
+                    {catalogEntry.title}
+                    {catalogEntry.rating !== null ? ` · Rating: ${catalogEntry.rating}` : ''}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
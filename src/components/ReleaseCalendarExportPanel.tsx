@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchAuthenticatedUserVisualNovelList, fetchReleasesForVisualNovels } from '../api/visualNovelClient';
+import { userListFilters } from '../api/vndbFilterBuilder';
+import { collectVndbPages } from '../api/vndbPaginator';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import { type UserListLabelDefinition, type UserVisualNovelListEntry } from '../types/apiTypes';
+import { downloadTextFile } from '../utils/fileDownload';
+import { buildReleaseCalendarFile } from '../utils/releaseCalendarExport';
+import {
+  buildTrackedReleases,
+  formatLocalDate,
+  TRACKED_USER_LIST_LABEL_IDENTIFIERS,
+  type ReleaseTrackerPreferences
+} from '../utils/releaseTracker';
+import { describeVndbError } from '../utils/vndbErrorPresentation';
+import styles from './ReleaseTrackerView.module.css';
+
+interface ReleaseCalendarExportPanelProperties {
+  authenticatedSession: { token: string; userId: string };
+  userListLabelDefinitions: UserListLabelDefinition[];
+  // The tracker's language and platform choices apply to the export as well.
+  preferences: ReleaseTrackerPreferences;
+}
+
+// Downloads upcoming releases of the VNs under the chosen labels as an .ics file for regular calendar apps.
+export function ReleaseCalendarExportPanel({ authenticatedSession, userListLabelDefinitions, preferences }: ReleaseCalendarExportPanelProperties) {
+  const [selectedLabelIdentifiers, setSelectedLabelIdentifiers] = useState<number[]>(TRACKED_USER_LIST_LABEL_IDENTIFIERS);
+  const [isExportInFlight, setIsExportInFlight] = useState<boolean>(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const exportAbortControllerReference = useRef<AbortController | null>(null);
+
+  useEffect(() => () => exportAbortControllerReference.current?.abort(), []);
+
+  function handleLabelToggle(labelIdentifier: number) {
+    setSelectedLabelIdentifiers((currentIdentifiers) => (
+      currentIdentifiers.includes(labelIdentifier)
+        ? currentIdentifiers.filter((currentIdentifier) => currentIdentifier !== labelIdentifier)
+        : [...currentIdentifiers, labelIdentifier]
+    ));
+  }
+
+  async function handleExport() {
+    const exportAbortController = new AbortController();
+    exportAbortControllerReference.current = exportAbortController;
+    setIsExportInFlight(true);
+    setStatusMessage(null);
+    const [firstLabelIdentifier, ...remainingLabelIdentifiers] = selectedLabelIdentifiers;
+    const today = formatLocalDate(new Date());
+
+    try {
+      // No label chosen exports releases for the whole list.
+      const collectedPages = await collectVndbPages<UserVisualNovelListEntry>({
+        requestSignal: exportAbortController.signal,
+        loadPage: (pageNumber, pageSize, pageSignal) => fetchAuthenticatedUserVisualNovelList(
+          authenticatedSession.token,
+          authenticatedSession.userId,
+          pageNumber,
+          pageSize,
+          pageSignal,
+          firstLabelIdentifier === undefined
+            ? {}
+            : { queryFilters: userListFilters.anyOf('label', [firstLabelIdentifier, ...remainingLabelIdentifiers]) }
+        )
+      });
+      const releaseEntries = await fetchReleasesForVisualNovels(
+        collectedPages.entries.map((userListEntry) => userListEntry.id),
+        today,
+        exportAbortController.signal
+      );
+      const calendarFile = buildReleaseCalendarFile(
+        buildTrackedReleases(releaseEntries, collectedPages.entries, preferences, today, null),
+        new URL(import.meta.env.BASE_URL, window.location.origin).href,
+        new Date()
+      );
+      if (calendarFile.eventCount === 0) {
+        setStatusMessage('No upcoming releases with an exact date match these labels, languages and platforms.');
+        return;
+      }
+
+      downloadTextFile(`vn-releases-${today}.ics`, calendarFile.calendarText, 'text/calendar');
+      setStatusMessage(`Exported ${calendarFile.eventCount} release${calendarFile.eventCount === 1 ? '' : 's'}`
+        + (calendarFile.skippedReleaseCount > 0 ? `; ${calendarFile.skippedReleaseCount} without an exact date were left out.` : '.'));
+    } catch (caughtError) {
+      if (!isAbortError(caughtError)) {
+        setStatusMessage(describeVndbError(caughtError, 'Calendar export failed.').message);
+      }
+    } finally {
+      if (exportAbortControllerReference.current === exportAbortController) {
+        exportAbortControllerReference.current = null;
+      }
+      setIsExportInFlight(false);
+    }
+  }
+
+  return (
+    <section className={styles.exportPanel} aria-label="Export release dates as a calendar">
+      <div className={styles.preferenceRow}>
+        <span className={styles.preferenceLabel}>Calendar:</span>
+        {userListLabelDefinitions.map((labelDefinition) => (
+          <button
+            key={labelDefinition.id}
+            type="button"
+            aria-pressed={selectedLabelIdentifiers.includes(labelDefinition.id)}
+            className={`${styles.preferenceChip} ${selectedLabelIdentifiers.includes(labelDefinition.id) ? styles.preferenceChipSelected : ''}`}
+            onClick={() => handleLabelToggle(labelDefinition.id)}
+          >
+            {labelDefinition.label}
+          </button>
+        ))}
+        <button type="button" className={styles.backButton} onClick={handleExport} disabled={isExportInFlight}>
+          {isExportInFlight ? 'Exporting...' : 'Download .ics'}
+        </button>
+        {isExportInFlight && (
+          <button type="button" className={styles.monthNavigationButton} onClick={() => exportAbortControllerReference.current?.abort()}>
+            Cancel
+          </button>
+        )}
+      </div>
+      <p className={styles.statusText} role="status">
+        {statusMessage ?? 'Upcoming releases of VNs under the selected labels (all labels when none is selected), in the languages and platforms above.'}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,330 @@
+import { useEffect, useState } from 'react';
+import { fetchAuthenticatedUserVisualNovelList, fetchReleasesForVisualNovels } from '../api/visualNovelClient';
+import { userListFilters } from '../api/vndbFilterBuilder';
+import { collectVndbPages } from '../api/vndbPaginator';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import { type UserListLabelDefinition, type UserVisualNovelListEntry, type VisualNovelReleaseEntry } from '../types/apiTypes';
+import { formatReleaseLanguageLabel, formatReleasePlatformLabel } from '../utils/releaseLabels';
+import {
+  buildReleaseCalendarMonth,
+  buildTrackedReleases,
+  formatLocalDate,
+  shiftCalendarMonth,
+  TRACKED_USER_LIST_LABEL_IDENTIFIERS,
+  type ReleaseTrackerPreferences,
+  type TrackedRelease
+} from '../utils/releaseTracker';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import { ReleaseCalendarExportPanel } from './ReleaseCalendarExportPanel';
+import { VndbErrorNotice } from './VndbErrorNotice';
+import styles from './ReleaseTrackerView.module.css';
+
+interface ReleaseTrackerViewProperties {
+  authenticatedSession: { token: string; userId: string; username: string };
+  userListLabelDefinitions: UserListLabelDefinition[];
+  onBackToSearch: () => void;
+  onVisualNovelSelection: (visualNovelIdentifier: string) => void;
+}
+
+interface ReleaseTrackerStorage extends ReleaseTrackerPreferences {
+  lastVisitByUser: Record<string, string>;
+}
+
+const RELEASE_TRACKER_STORAGE_KEY = 'vndb_client_release_tracker_v1';
+// How far back "recently released" reaches.
+const RECENT_RELEASE_WINDOW_DAYS = 60;
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+function readReleaseTrackerStorage(): ReleaseTrackerStorage {
+  try {
+    const parsedStorage = JSON.parse(window.localStorage.getItem(RELEASE_TRACKER_STORAGE_KEY) ?? '{}') as Partial<ReleaseTrackerStorage>;
+    return {
+      languages: Array.isArray(parsedStorage.languages) ? parsedStorage.languages.filter((language) => typeof language === 'string') : [],
+      platforms: Array.isArray(parsedStorage.platforms) ? parsedStorage.platforms.filter((platform) => typeof platform === 'string') : [],
+      lastVisitByUser: parsedStorage.lastVisitByUser && typeof parsedStorage.lastVisitByUser === 'object' ? parsedStorage.lastVisitByUser : {}
+    };
+  } catch {
+    return { languages: [], platforms: [], lastVisitByUser: {} };
+  }
+}
+
+function writeReleaseTrackerStorage(storageChanges: Partial<ReleaseTrackerStorage>) {
+  window.localStorage.setItem(RELEASE_TRACKER_STORAGE_KEY, JSON.stringify({ ...readReleaseTrackerStorage(), ...storageChanges }));
+}
+
+function formatCalendarMonthLabel(calendarMonth: string) {
+  const [year, month] = calendarMonth.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+}
+
+function toggleCode(codes: string[], code: string) {
+  return codes.includes(code) ? codes.filter((currentCode) => currentCode !== code) : [...codes, code];
+}
+
+// Upcoming and recent releases of the signed-in user's wishlisted and playing VNs, as a month calendar and a
+// timeline. Language/platform preferences and the last visit are remembered per browser.
+export function ReleaseTrackerView({
+  authenticatedSession,
+  userListLabelDefinitions,
+  onBackToSearch,
+  onVisualNovelSelection
+}: ReleaseTrackerViewProperties) {
+  const [today] = useState<string>(() => formatLocalDate(new Date()));
+  // Read once per visit so the highlighting survives this visit being recorded.
+  const [lastVisitDate] = useState<string | null>(() => readReleaseTrackerStorage().lastVisitByUser[authenticatedSession.userId] ?? null);
+  const [trackedEntries, setTrackedEntries] = useState<UserVisualNovelListEntry[]>([]);
+  const [releaseEntries, setReleaseEntries] = useState<VisualNovelReleaseEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  const [reloadRequestToken, setReloadRequestToken] = useState<number>(0);
+  const [preferences, setPreferences] = useState<ReleaseTrackerPreferences>(() => {
+    const { languages, platforms } = readReleaseTrackerStorage();
+    return { languages, platforms };
+  });
+  // Reaches back to the last visit when it is older than the recent window, so every release since then shows up as new.
+  const [releasedFrom] = useState<string>(() => {
+    const windowStart = new Date();
+    windowStart.setDate(windowStart.getDate() - RECENT_RELEASE_WINDOW_DAYS);
+    const windowStartDate = formatLocalDate(windowStart);
+    return lastVisitDate !== null && lastVisitDate < windowStartDate ? lastVisitDate : windowStartDate;
+  });
+  const [calendarMonth, setCalendarMonth] = useState<string>(today.slice(0, 7));
+
+  useEffect(() => {
+    let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
+    const [firstLabelIdentifier, ...remainingLabelIdentifiers] = TRACKED_USER_LIST_LABEL_IDENTIFIERS;
+
+    collectVndbPages<UserVisualNovelListEntry>({
+      requestSignal: lifecycleAbortController.signal,
+      loadPage: (pageNumber, pageSize, pageSignal) => fetchAuthenticatedUserVisualNovelList(
+        authenticatedSession.token,
+        authenticatedSession.userId,
+        pageNumber,
+        pageSize,
+        pageSignal,
+        { queryFilters: userListFilters.anyOf('label', [firstLabelIdentifier, ...remainingLabelIdentifiers]) }
+      )
+    })
+      .then(async (collectedPages) => {
+        const loadedReleases = await fetchReleasesForVisualNovels(
+          collectedPages.entries.map((trackedEntry) => trackedEntry.id),
+          releasedFrom,
+          lifecycleAbortController.signal
+        );
+        if (hasLifecycleBeenCancelled) {
+          return;
+        }
+        setTrackedEntries(collectedPages.entries);
+        setReleaseEntries(loadedReleases);
+        writeReleaseTrackerStorage({
+          lastVisitByUser: { ...readReleaseTrackerStorage().lastVisitByUser, [authenticatedSession.userId]: formatLocalDate(new Date()) }
+        });
+      })
+      .catch((caughtError) => {
+        if (hasLifecycleBeenCancelled || isAbortError(caughtError)) {
+          return;
+        }
+        setNetworkError(describeVndbError(caughtError, 'Unable to load upcoming releases.'));
+      })
+      .finally(() => {
+        if (!hasLifecycleBeenCancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
+    };
+  }, [authenticatedSession.token, authenticatedSession.userId, releasedFrom, reloadRequestToken]);
+
+  function handleReloadRequest() {
+    setIsLoading(true);
+    setNetworkError(null);
+    setReloadRequestToken((currentToken) => currentToken + 1);
+  }
+
+  function handlePreferenceToggle(preferenceKey: keyof ReleaseTrackerPreferences, code: string) {
+    const updatedPreferences = { ...preferences, [preferenceKey]: toggleCode(preferences[preferenceKey], code) };
+    setPreferences(updatedPreferences);
+    writeReleaseTrackerStorage(updatedPreferences);
+  }
+
+  function renderReleaseButton(trackedRelease: TrackedRelease) {
+    return (
+      <button
+        type="button"
+        className={`${styles.releaseTitleButton} ${trackedRelease.isNewSinceLastVisit ? styles.newReleaseText : ''}`}
+        title={trackedRelease.releaseTitle}
+        onClick={() => onVisualNovelSelection(trackedRelease.visualNovelIdentifier)}
+      >
+        {trackedRelease.visualNovelTitle}
+      </button>
+    );
+  }
+
+  function renderTimelineItem(trackedRelease: TrackedRelease) {
+    return (
+      <li
+        key={`${trackedRelease.releaseIdentifier}-${trackedRelease.visualNovelIdentifier}`}
+        className={`${styles.timelineItem} ${trackedRelease.isNewSinceLastVisit ? styles.timelineItemNew : ''}`}
+      >
+        <span className={styles.timelineDateText}>{trackedRelease.released}</span>
+        <span className={styles.timelineBody}>
+          {renderReleaseButton(trackedRelease)}
+          {trackedRelease.isNewSinceLastVisit && <span className={styles.newBadge}>New</span>}
+          {trackedRelease.releaseTitle !== trackedRelease.visualNovelTitle && (
+            <span className={styles.timelineDetailText}>{trackedRelease.releaseTitle}</span>
+          )}
+          <span className={styles.timelineDetailText}>
+            {trackedRelease.languages.map(formatReleaseLanguageLabel).join(', ')}
+            {' · '}
+            {trackedRelease.platforms.map(formatReleasePlatformLabel).join(', ') || 'Unknown platform'}
+          </span>
+        </span>
+      </li>
+    );
+  }
+
+  const trackedReleases = buildTrackedReleases(releaseEntries, trackedEntries, preferences, today, lastVisitDate);
+  const releasedTrackedReleases = trackedReleases.filter((trackedRelease) => trackedRelease.isReleased);
+  const upcomingTrackedReleases = trackedReleases.filter((trackedRelease) => !trackedRelease.isReleased);
+  const newReleaseCount = trackedReleases.filter((trackedRelease) => trackedRelease.isNewSinceLastVisit).length;
+  const releaseCalendar = buildReleaseCalendarMonth(trackedReleases, calendarMonth);
+  // Offer the languages and platforms that actually occur, plus any preference kept from earlier visits.
+  const languageOptions = [...new Set([
+    ...preferences.languages,
+    ...releaseEntries.flatMap((releaseEntry) => releaseEntry.languages.map((languageEntry) => languageEntry.lang))
+  ])].sort();
+  const platformOptions = [...new Set([
+    ...preferences.platforms,
+    ...releaseEntries.flatMap((releaseEntry) => releaseEntry.platforms)
+  ])].sort();
+
+  return (
+    <section className={styles.containerBoundary}>
+      <div className={styles.headerRow}>
+        <button type="button" className={styles.backButton} onClick={onBackToSearch}>
+          ← Return to Search
+        </button>
+        <h2 className={styles.headingText}>Release Tracker</h2>
+      </div>
+
+      {isLoading && <p className={styles.statusText}>Loading your wishlist and its releases...</p>}
+      {networkError && (
+        <VndbErrorNotice
+          errorPresentation={networkError}
+          onRetry={handleReloadRequest}
+        />
+      )}
+
+      {!isLoading && !networkError && (
+        <>
+          <p className={styles.subheadingText}>
+            Releases of {trackedEntries.length.toLocaleString()} wishlisted or playing VNs released from {releasedFrom} on.
+            {lastVisitDate !== null
+              ? ` ${newReleaseCount} new since your last visit (${lastVisitDate}).`
+              : ''}
+          </p>
+
+          <div className={styles.preferenceRow}>
+            <span className={styles.preferenceLabel}>Languages:</span>
+            {languageOptions.map((language) => (
+              <button
+                key={language}
+                type="button"
+                aria-pressed={preferences.languages.includes(language)}
+                className={`${styles.preferenceChip} ${preferences.languages.includes(language) ? styles.preferenceChipSelected : ''}`}
+                onClick={() => handlePreferenceToggle('languages', language)}
+              >
+                {formatReleaseLanguageLabel(language)}
+              </button>
+            ))}
+          </div>
+          <div className={styles.preferenceRow}>
+            <span className={styles.preferenceLabel}>Platforms:</span>
+            {platformOptions.map((platform) => (
+              <button
+                key={platform}
+                type="button"
+                aria-pressed={preferences.platforms.includes(platform)}
+                className={`${styles.preferenceChip} ${preferences.platforms.includes(platform) ? styles.preferenceChipSelected : ''}`}
+                onClick={() => handlePreferenceToggle('platforms', platform)}
+              >
+                {formatReleasePlatformLabel(platform)}
+              </button>
+            ))}
+          </div>
+
+          <ReleaseCalendarExportPanel
+            authenticatedSession={authenticatedSession}
+            userListLabelDefinitions={userListLabelDefinitions}
+            preferences={preferences}
+          />
+
+          <div className={styles.panelGrid}>
+            <section className={styles.trackerPanel}>
+              <div className={styles.panelHeaderRow}>
+                <button
+                  type="button"
+                  className={styles.monthNavigationButton}
+                  aria-label="Previous month"
+                  onClick={() => setCalendarMonth((currentMonth) => shiftCalendarMonth(currentMonth, -1))}
+                >
+                  ‹
+                </button>
+                <h3 className={styles.panelTitle}>{formatCalendarMonthLabel(calendarMonth)}</h3>
+                <button
+                  type="button"
+                  className={styles.monthNavigationButton}
+                  aria-label="Next month"
+                  onClick={() => setCalendarMonth((currentMonth) => shiftCalendarMonth(currentMonth, 1))}
+                >
+                  ›
+                </button>
+              </div>
+              <div className={styles.calendarGrid} role="grid" aria-label={`Releases in ${formatCalendarMonthLabel(calendarMonth)}`}>
+                {WEEKDAY_LABELS.map((weekdayLabel) => (
+                  <span key={weekdayLabel} className={styles.calendarWeekdayText} role="columnheader">{weekdayLabel}</span>
+                ))}
+                {releaseCalendar.weeks.flat().map((calendarDay, dayIndex) => (
+                  <div
+                    key={calendarDay.date ?? `padding-${dayIndex}`}
+                    role="gridcell"
+                    className={`${styles.calendarDay} ${calendarDay.date === null ? styles.calendarDayPadding : ''} ${calendarDay.date === today ? styles.calendarDayToday : ''}`}
+                  >
+                    {calendarDay.date !== null && <span className={styles.calendarDayNumber}>{Number(calendarDay.date.slice(8))}</span>}
+                    {calendarDay.releases.map((trackedRelease) => (
+                      <span key={`${trackedRelease.releaseIdentifier}-${trackedRelease.visualNovelIdentifier}`} className={styles.calendarReleaseItem}>
+                        {renderReleaseButton(trackedRelease)}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+              {releaseCalendar.monthOnlyReleases.length > 0 && (
+                <>
+                  <p className={styles.statusText}>Sometime this month:</p>
+                  <ul className={styles.timelineList}>{releaseCalendar.monthOnlyReleases.map(renderTimelineItem)}</ul>
+                </>
+              )}
+            </section>
+
+            <section className={styles.trackerPanel}>
+              <h3 className={styles.panelTitle}>Upcoming ({upcomingTrackedReleases.length})</h3>
+              {upcomingTrackedReleases.length === 0
+                ? <p className={styles.statusText}>No announced releases match your languages and platforms.</p>
+                : <ul className={styles.timelineList}>{upcomingTrackedReleases.map(renderTimelineItem)}</ul>}
+
+              <h3 className={`${styles.panelTitle} ${styles.panelTitleSpaced}`}>Recently Released ({releasedTrackedReleases.length})</h3>
+              {releasedTrackedReleases.length === 0
+                ? <p className={styles.statusText}>Nothing released since {releasedFrom}.</p>
+                : <ul className={styles.timelineList}>{[...releasedTrackedReleases].reverse().map(renderTimelineItem)}</ul>}
+            </section>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import {
+  describeSavedSearchQuery,
+  moveSavedSearch,
+  updateSavedSearch,
+  type SavedSearch
+} from '../utils/savedSearches';
+import { type ListQueryDescriptor } from '../utils/visualNovelListQuery';
+import styles from './VisualNovelList.module.css';
+
+interface SavedSearchPanelProperties {
+  savedSearches: SavedSearch[];
+  // VNs added since each search last ran, keyed by saved search ID; missing until the counts have loaded.
+  newResultCounts: Record<string, number>;
+  // Null while the user list is on screen; only searches can be saved.
+  currentQueryDescriptor: ListQueryDescriptor | null;
+  onSaveSearch: (searchName: string, queryDescriptor: ListQueryDescriptor) => void;
+  onRunSavedSearch: (savedSearchIdentifier: string) => void;
+  onSavedSearchesChange: (savedSearches: SavedSearch[]) => void;
+  onClose: () => void;
+}
+
+// Saves the search on screen under a name and manages the saved ones. Pinned searches also appear in the menu.
+export function SavedSearchPanel({
+  savedSearches,
+  newResultCounts,
+  currentQueryDescriptor,
+  onSaveSearch,
+  onRunSavedSearch,
+  onSavedSearchesChange,
+  onClose
+}: SavedSearchPanelProperties) {
+  const [newSearchName, setNewSearchName] = useState<string>('');
+  const [renamingSearchIdentifier, setRenamingSearchIdentifier] = useState<string | null>(null);
+  const [renamedSearchName, setRenamedSearchName] = useState<string>('');
+
+  function handleSaveSubmission(formEvent: React.FormEvent<HTMLFormElement>) {
+    formEvent.preventDefault();
+    if (!currentQueryDescriptor || newSearchName.trim() === '') {
+      return;
+    }
+
+    onSaveSearch(newSearchName, currentQueryDescriptor);
+    setNewSearchName('');
+  }
+
+  function handleRenameSubmission(formEvent: React.FormEvent<HTMLFormElement>, savedSearchIdentifier: string) {
+    formEvent.preventDefault();
+    if (renamedSearchName.trim() !== '') {
+      onSavedSearchesChange(updateSavedSearch(savedSearches, savedSearchIdentifier, { name: renamedSearchName.trim() }));
+    }
+    setRenamingSearchIdentifier(null);
+  }
+
+  return (
+    <div className={styles.savedSearchPanel} role="region" aria-label="Saved searches">
+      <div className={styles.savedSearchRow}>
+        <span className={styles.savedSearchTitle}>Saved Searches</span>
+        <form className={styles.savedSearchForm} onSubmit={handleSaveSubmission}>
+          <input
+            type="text"
+            value={newSearchName}
+            onChange={(inputEvent) => setNewSearchName(inputEvent.target.value)}
+            placeholder="Name this search"
+            className={styles.savedSearchInputField}
+            aria-label="Name for the current search"
+            disabled={!currentQueryDescriptor}
+          />
+          <button
+            type="submit"
+            className={styles.userListToggleButton}
+            disabled={!currentQueryDescriptor || newSearchName.trim() === ''}
+          >
+            Save Current Search
+          </button>
+        </form>
+        <button type="button" className={styles.filterSecondaryButton} onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {currentQueryDescriptor
+        ? <p className={styles.savedSearchSummaryText}>Current: {describeSavedSearchQuery(currentQueryDescriptor)}</p>
+        : <p className={styles.savedSearchSummaryText}>Switch back to search to save the list on screen.</p>}
+
+      {savedSearches.length === 0
+        ? <p className={styles.savedSearchSummaryText}>No saved searches yet.</p>
+        : (
+          <ul className={styles.savedSearchList}>
+            {savedSearches.map((savedSearch, searchIndex) => (
+              <li key={savedSearch.id} className={styles.savedSearchItem}>
+                <div className={styles.savedSearchHeading}>
+                  {renamingSearchIdentifier === savedSearch.id ? (
+                    <form className={styles.savedSearchForm} onSubmit={(formEvent) => handleRenameSubmission(formEvent, savedSearch.id)}>
+                      <input
+                        type="text"
+                        value={renamedSearchName}
+                        onChange={(inputEvent) => setRenamedSearchName(inputEvent.target.value)}
+                        className={styles.savedSearchInputField}
+                        aria-label={`New name for ${savedSearch.name}`}
+                        autoFocus
+                      />
+                      <button type="submit" className={styles.filterSecondaryButton}>Rename</button>
+                      <button type="button" className={styles.filterSecondaryButton} onClick={() => setRenamingSearchIdentifier(null)}>
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <button type="button" className={styles.savedSearchNameButton} onClick={() => onRunSavedSearch(savedSearch.id)}>
+                      {savedSearch.name}
+                    </button>
+                  )}
+                  {(newResultCounts[savedSearch.id] ?? 0) > 0 && (
+                    <span className={styles.savedSearchNewResultBadge}>{newResultCounts[savedSearch.id]} new</span>
+                  )}
+                </div>
+                <p className={styles.savedSearchSummaryText}>
+                  {describeSavedSearchQuery(savedSearch.queryDescriptor)}
+                  {savedSearch.lastRunAt ? ` • last run ${new Date(savedSearch.lastRunAt).toLocaleDateString()}` : ''}
+                </p>
+                <div className={styles.savedSearchRow}>
+                  <button type="button" className={styles.filterSecondaryButton} onClick={() => onRunSavedSearch(savedSearch.id)}>
+                    Run
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.filterSecondaryButton}
+                    aria-pressed={savedSearch.isPinned}
+                    onClick={() => onSavedSearchesChange(updateSavedSearch(savedSearches, savedSearch.id, { isPinned: !savedSearch.isPinned }))}
+                  >
+                    {savedSearch.isPinned ? 'Unpin' : 'Pin to Menu'}
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.filterSecondaryButton}
+                    disabled={searchIndex === 0}
+                    aria-label={`Move ${savedSearch.name} up`}
+                    onClick={() => onSavedSearchesChange(moveSavedSearch(savedSearches, savedSearch.id, -1))}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.filterSecondaryButton}
+                    disabled={searchIndex === savedSearches.length - 1}
+                    aria-label={`Move ${savedSearch.name} down`}
+                    onClick={() => onSavedSearchesChange(moveSavedSearch(savedSearches, savedSearch.id, 1))}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.filterSecondaryButton}
+                    onClick={() => {
+                      setRenamingSearchIdentifier(savedSearch.id);
+                      setRenamedSearchName(savedSearch.name);
+                    }}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.filterSecondaryButton}
+                    onClick={() => onSavedSearchesChange(savedSearches.filter((existingSearch) => existingSearch.id !== savedSearch.id))}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from 'react';
+import { fetchStaffCreditedVisualNovelsById, fetchStaffDetailsById, VndbNotFoundError } from '../api/visualNovelClient';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import {
+  type StaffCreditedVisualNovelEntry,
+  type StaffDetailedEntry,
+  type StaffVisualNovelCreditEntry
+} from '../types/apiTypes';
+import { renderVndbDescription } from '../utils/renderVndbDescription';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import { formatStaffRoleLabel } from '../utils/staffRoleLabels';
+import { VndbErrorNotice } from './VndbErrorNotice';
+import styles from './VisualNovelList.module.css';
+
+interface StaffDetailViewProperties {
+  staffIdentifier: string;
+  onNavigateBack: () => void;
+  onVisualNovelSelection: (visualNovelIdentifier: string) => void;
+  onVisualNovelPrefetch?: (visualNovelIdentifier: string) => void;
+}
+
+function formatStaffCredit(staffCredit: StaffVisualNovelCreditEntry) {
+  const roleLabel = staffCredit.role === 'va' && staffCredit.characterName
+    ? `Voice of ${staffCredit.characterName}`
+    : formatStaffRoleLabel(staffCredit.role);
+  return staffCredit.note ? `${roleLabel} (${staffCredit.note})` : roleLabel;
+}
+
+export function StaffDetailView({
+  staffIdentifier,
+  onNavigateBack,
+  onVisualNovelSelection,
+  onVisualNovelPrefetch
+}: StaffDetailViewProperties) {
+  const [staffData, setStaffData] = useState<StaffDetailedEntry | null>(null);
+  const [isDataLoading, setIsDataLoading] = useState<boolean>(true);
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  const [staffReloadRequestToken, setStaffReloadRequestToken] = useState<number>(0);
+  const [creditedVisualNovels, setCreditedVisualNovels] = useState<StaffCreditedVisualNovelEntry[]>([]);
+  const [areCreditsTruncated, setAreCreditsTruncated] = useState<boolean>(false);
+  const [areCreditsLoading, setAreCreditsLoading] = useState<boolean>(true);
+  const [creditsErrorMessage, setCreditsErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
+    setIsDataLoading(true);
+    setNetworkError(null);
+    setStaffData(null);
+    setAreCreditsLoading(true);
+    setCreditsErrorMessage(null);
+    setCreditedVisualNovels([]);
+    setAreCreditsTruncated(false);
+
+    async function executeStaffFetch() {
+      try {
+        const staffResponse = await fetchStaffDetailsById(staffIdentifier, lifecycleAbortController.signal);
+        const firstStaffEntry = staffResponse.results[0];
+        if (!hasLifecycleBeenCancelled) {
+          if (firstStaffEntry) {
+            setStaffData(firstStaffEntry);
+          } else {
+            setNetworkError(describeVndbError(new VndbNotFoundError('No staff member found with that identifier.'), ''));
+          }
+        }
+      } catch (caughtError) {
+        if (!hasLifecycleBeenCancelled && !isAbortError(caughtError)) {
+          setNetworkError(describeVndbError(caughtError, 'Unknown staff lookup error.'));
+        }
+      } finally {
+        if (!hasLifecycleBeenCancelled) {
+          setIsDataLoading(false);
+        }
+      }
+    }
+
+    async function executeCreditsFetch() {
+      try {
+        const staffCreditedVisualNovels = await fetchStaffCreditedVisualNovelsById(staffIdentifier, lifecycleAbortController.signal);
+        if (!hasLifecycleBeenCancelled) {
+          setCreditedVisualNovels(staffCreditedVisualNovels.entries);
+          setAreCreditsTruncated(staffCreditedVisualNovels.isTruncated);
+        }
+      } catch (caughtError) {
+        if (!hasLifecycleBeenCancelled && !isAbortError(caughtError)) {
+          setCreditsErrorMessage(describeVndbError(caughtError, 'Unable to load staff credits.').message);
+        }
+      } finally {
+        if (!hasLifecycleBeenCancelled) {
+          setAreCreditsLoading(false);
+        }
+      }
+    }
+
+    executeStaffFetch();
+    executeCreditsFetch();
+    return () => {
+      hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
+    };
+  }, [staffIdentifier, staffReloadRequestToken]);
+
+  // Newest first; undated (TBA) entries go last.
+  const sortedCreditedVisualNovels = useMemo(() => (
+    [...creditedVisualNovels].sort((firstEntry, secondEntry) => {
+      const firstReleaseDate = firstEntry.released ?? '';
+      const secondReleaseDate = secondEntry.released ?? '';
+      if (firstReleaseDate === '' || secondReleaseDate === '') {
+        return firstReleaseDate === secondReleaseDate ? 0 : firstReleaseDate === '' ? 1 : -1;
+      }
+      return secondReleaseDate.localeCompare(firstReleaseDate);
+    })
+  ), [creditedVisualNovels]);
+
+  if (isDataLoading) {
+    return <div className={styles.systemStatusMessage}>Loading staff details...</div>;
+  }
+
+  if (networkError || !staffData) {
+    return (
+      <div className={styles.interfaceContainerBoundary}>
+        <button onClick={onNavigateBack} className={styles.searchExecutionButton}>&larr; Return</button>
+        <VndbErrorNotice
+          errorPresentation={networkError ?? describeVndbError(null, 'Unable to load staff details.')}
+          onRetry={() => setStaffReloadRequestToken((currentToken) => currentToken + 1)}
+        />
+      </div>
+    );
+  }
+
+  const staffAliases = (staffData.aliases ?? []).filter((aliasEntry) => !aliasEntry.ismain);
+
+  return (
+    <div className={`${styles.interfaceContainerBoundary} ${styles.detailContentCentered}`}>
+      <button
+        onClick={onNavigateBack}
+        className={styles.floatingBackButton}
+        aria-label="Go back"
+      >
+        &larr;
+      </button>
+      <button onClick={onNavigateBack} className={`${styles.searchExecutionButton} ${styles.backToSearchButton}`}>
+        &larr; Return
+      </button>
+
+      <h2 className={styles.detailTitleText}>{staffData.name}</h2>
+      <p className={styles.listSubheadingText}>{staffData.original || ''}</p>
+
+      <div className={styles.detailMetaRow}>
+        <div className={styles.detailMetaChip}>
+          <span className={styles.detailMetaLabel}>Language</span>
+          <span>{staffData.lang ? staffData.lang.toUpperCase() : 'Unknown'}</span>
+        </div>
+        <div className={styles.detailMetaChip}>
+          <span className={styles.detailMetaLabel}>Credits</span>
+          <span>{areCreditsLoading ? '...' : `${creditedVisualNovels.length}${areCreditsTruncated ? '+' : ''}`}</span>
+        </div>
+      </div>
+
+      {staffAliases.length > 0 && (
+        <div className={styles.detailTagSection}>
+          <h3 className={styles.sectionHeadingText}>Aliases</h3>
+          <div className={styles.contributorChipRow}>
+            {staffAliases.map((aliasEntry) => (
+              <span key={aliasEntry.aid} className={styles.contributorChipButton}>
+                {aliasEntry.latin ? `${aliasEntry.latin} (${aliasEntry.name})` : aliasEntry.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className={styles.detailDescriptionSection}>
+        <h3 className={styles.sectionHeadingText}>Description</h3>
+        {staffData.description ? (
+          <div className={styles.detailDescriptionText}>{renderVndbDescription(staffData.description)}</div>
+        ) : (
+          <p>No staff description provided.</p>
+        )}
+      </div>
+
+      <div className={styles.detailRelatedSection}>
+        <h3 className={styles.sectionHeadingText}>Credited Visual Novels</h3>
+        {areCreditsLoading && <p className={styles.detailActionMessage}>Loading credits...</p>}
+        {creditsErrorMessage && <p className={styles.systemErrorMessage}>{creditsErrorMessage}</p>}
+        {!areCreditsLoading && !creditsErrorMessage && sortedCreditedVisualNovels.length === 0 && (
+          <p>No credited visual novels found.</p>
+        )}
+        {areCreditsTruncated && (
+          <p className={styles.detailActionMessage}>
+            Showing the first {creditedVisualNovels.length} credited titles; this person has more credits than the paging limit.
+          </p>
+        )}
+        {sortedCreditedVisualNovels.length > 0 && (
+          <ul className={styles.relatedVisualNovelList}>
+            {sortedCreditedVisualNovels.map((creditedEntry) => (
+              <li key={creditedEntry.id} className={styles.relatedVisualNovelListItem}>
+                <button
+                  type="button"
+                  className={styles.relatedVisualNovelButton}
+                  onClick={() => onVisualNovelSelection(creditedEntry.id)}
+                  onMouseEnter={() => onVisualNovelPrefetch?.(creditedEntry.id)}
+                >
+                  <span className={styles.relatedVisualNovelRelationBadge}>
+                    {creditedEntry.credits.map(formatStaffCredit).join(', ') || 'Credited'}
+                  </span>
+                  <span className={styles.relatedVisualNovelTitleText}>
+                    {creditedEntry.title}
+                    {creditedEntry.released ? ` · ${creditedEntry.released}` : ''}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { fetchTagEntries } from '../api/visualNovelClient';
+import { paginateVndbQuery, type VndbPaginatedPage } from '../api/vndbPaginator';
+import { isAbortError } from '../api/vndbRequestExecutor';
 import { type VisualNovelTagMetadataEntry } from '../types/apiTypes';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import { VndbErrorNotice } from './VndbErrorNotice';
 import styles from './TagExplorer.module.css';
 
 interface TagExplorerProperties {
@@ -12,16 +16,16 @@ export function TagExplorer({ onBackToSearch, onTagSelection }: TagExplorerPrope
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [appliedSearchTerm, setAppliedSearchTerm] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [networkErrorMessage, setNetworkErrorMessage] = useState<string | null>(null);
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  const [tagReloadRequestToken, setTagReloadRequestToken] = useState<number>(0);
   const [tagEntries, setTagEntries] = useState<VisualNovelTagMetadataEntry[]>([]);
-  const [currentPageNumber, setCurrentPageNumber] = useState<number>(1);
+  const tagPageIteratorReference = useRef<AsyncGenerator<VndbPaginatedPage<VisualNovelTagMetadataEntry>> | null>(null);
   const [hasAdditionalResults, setHasAdditionalResults] = useState<boolean>(false);
   const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
 
   useEffect(() => {
     const debounceTimeout = window.setTimeout(() => {
       setAppliedSearchTerm(searchTerm.trim());
-      setCurrentPageNumber(1);
     }, 280);
 
     return () => window.clearTimeout(debounceTimeout);
@@ -29,22 +33,32 @@ export function TagExplorer({ onBackToSearch, onTagSelection }: TagExplorerPrope
 
   useEffect(() => {
     let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
     setIsLoading(true);
-    setNetworkErrorMessage(null);
-
-    fetchTagEntries(appliedSearchTerm, 1, 50)
-      .then((responsePayload) => {
+    setIsLoadingMore(false);
+    setNetworkError(null);
+
+    // Load-more pulls further pages from the same iterator; aborting the lifecycle cancels it too.
+    const tagPageIterator = paginateVndbQuery<VisualNovelTagMetadataEntry>({
+      pageSize: 50,
+      requestSignal: lifecycleAbortController.signal,
+      loadPage: (pageNumber, pageSize, pageSignal) => fetchTagEntries(appliedSearchTerm, pageNumber, pageSize, pageSignal)
+    });
+    tagPageIteratorReference.current = tagPageIterator;
+
+    tagPageIterator.next()
+      .then((iteratorResult) => {
         if (hasLifecycleBeenCancelled) {
           return;
         }
-        setTagEntries(responsePayload.results ?? []);
-        setHasAdditionalResults(Boolean(responsePayload.more));
+        setTagEntries(iteratorResult.done ? [] : iteratorResult.value.entries);
+        setHasAdditionalResults(!iteratorResult.done && iteratorResult.value.hasMorePages);
       })
       .catch((caughtError) => {
-        if (hasLifecycleBeenCancelled) {
+        if (hasLifecycleBeenCancelled || isAbortError(caughtError)) {
           return;
         }
-        setNetworkErrorMessage(caughtError instanceof Error ? caughtError.message : 'Unable to load tags.');
+        setNetworkError(describeVndbError(caughtError, 'Unable to load tags.'));
       })
       .finally(() => {
         if (!hasLifecycleBeenCancelled) {
@@ -54,27 +68,39 @@ export function TagExplorer({ onBackToSearch, onTagSelection }: TagExplorerPrope
 
     return () => {
       hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
     };
-  }, [appliedSearchTerm]);
+  }, [appliedSearchTerm, tagReloadRequestToken]);
 
   async function handleLoadMore() {
-    if (isLoadingMore || !hasAdditionalResults) {
+    const tagPageIterator = tagPageIteratorReference.current;
+    if (isLoadingMore || !hasAdditionalResults || !tagPageIterator) {
       return;
     }
 
     setIsLoadingMore(true);
-    setNetworkErrorMessage(null);
-    const nextPageNumber = currentPageNumber + 1;
+    setNetworkError(null);
 
     try {
-      const responsePayload = await fetchTagEntries(appliedSearchTerm, nextPageNumber, 50);
-      setTagEntries((currentEntries) => [...currentEntries, ...(responsePayload.results ?? [])]);
-      setCurrentPageNumber(nextPageNumber);
-      setHasAdditionalResults(Boolean(responsePayload.more));
+      const iteratorResult = await tagPageIterator.next();
+      if (tagPageIteratorReference.current !== tagPageIterator) {
+        return;
+      }
+      if (!iteratorResult.done) {
+        setTagEntries((currentEntries) => [...currentEntries, ...iteratorResult.value.entries]);
+      }
+      setHasAdditionalResults(!iteratorResult.done && iteratorResult.value.hasMorePages);
     } catch (caughtError) {
-      setNetworkErrorMessage(caughtError instanceof Error ? caughtError.message : 'Unable to load additional tags.');
+      if (isAbortError(caughtError) || tagPageIteratorReference.current !== tagPageIterator) {
+        return;
+      }
+      setNetworkError(describeVndbError(caughtError, 'Unable to load additional tags.'));
+      // A generator that threw is finished, so further pages cannot be requested from it.
+      setHasAdditionalResults(false);
     } finally {
-      setIsLoadingMore(false);
+      if (tagPageIteratorReference.current === tagPageIterator) {
+        setIsLoadingMore(false);
+      }
     }
   }
 
@@ -109,9 +135,14 @@ export function TagExplorer({ onBackToSearch, onTagSelection }: TagExplorerPrope
       />
 
       {isLoading && <p className={styles.statusText}>Loading tags...</p>}
-      {networkErrorMessage && <p className={styles.errorText}>System Error: {networkErrorMessage}</p>}
+      {networkError && (
+        <VndbErrorNotice
+          errorPresentation={networkError}
+          onRetry={() => setTagReloadRequestToken((currentToken) => currentToken + 1)}
+        />
+      )}
 
-      {!isLoading && !networkErrorMessage && (
+      {!isLoading && !networkError && (
         <>
           <p className={styles.resultSummaryText}>
             {tagEntries.length} tag{tagEntries.length === 1 ? '' : 's'} loaded
@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchAuthenticatedUserVisualNovelList,
+  fetchPublicUserVisualNovelList,
+  overlayQueuedUserListMutations
+} from '../api/visualNovelClient';
+import { collectVndbPages } from '../api/vndbPaginator';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import { type UserVisualNovelListEntry, type VndbUserLookupEntry } from '../types/apiTypes';
+import { compareUserLists, type UserListComparisonTitle } from '../utils/userListComparison';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import { VndbErrorNotice } from './VndbErrorNotice';
+import styles from './VisualNovelList.module.css';
+
+interface UserListComparisonPanelProperties {
+  authenticatedSession: { token: string; userId: string };
+  listOwner: VndbUserLookupEntry;
+  onVisualNovelSelection: (visualNovelIdentifier: string) => void;
+  onClose: () => void;
+}
+
+function formatVote(vote: number | null) {
+  return vote === null ? '–' : (vote / 10).toFixed(1);
+}
+
+// Compares someone else's list with the signed-in user's. Both lists are loaded whole when the panel opens
+// since the list view itself only holds the pages scrolled through so far. Titles open the detail view so recommendations can be added from there.
+export function UserListComparisonPanel({
+  authenticatedSession,
+  listOwner,
+  onVisualNovelSelection,
+  onClose
+}: UserListComparisonPanelProperties) {
+  const [ourEntries, setOurEntries] = useState<UserVisualNovelListEntry[]>([]);
+  const [theirEntries, setTheirEntries] = useState<UserVisualNovelListEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  const [reloadRequestToken, setReloadRequestToken] = useState<number>(0);
+
+  useEffect(() => {
+    let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
+
+    Promise.all([
+      collectVndbPages<UserVisualNovelListEntry>({
+        requestSignal: lifecycleAbortController.signal,
+        loadPage: (pageNumber, pageSize, pageSignal) => fetchAuthenticatedUserVisualNovelList(
+          authenticatedSession.token,
+          authenticatedSession.userId,
+          pageNumber,
+          pageSize,
+          pageSignal
+        )
+      }).then((collectedPages) => overlayQueuedUserListMutations(authenticatedSession.userId, collectedPages.entries)),
+      collectVndbPages<UserVisualNovelListEntry>({
+        requestSignal: lifecycleAbortController.signal,
+        loadPage: (pageNumber, pageSize, pageSignal) => fetchPublicUserVisualNovelList(listOwner.id, pageNumber, pageSize, pageSignal)
+      })
+    ])
+      .then(([accumulatedEntries, collectedTheirPages]) => {
+        if (!hasLifecycleBeenCancelled) {
+          setOurEntries(accumulatedEntries);
+          setTheirEntries(collectedTheirPages.entries);
+        }
+      })
+      .catch((caughtError) => {
+        if (hasLifecycleBeenCancelled || isAbortError(caughtError)) {
+          return;
+        }
+        setNetworkError(describeVndbError(caughtError, 'Unable to load the lists for the comparison.'));
+      })
+      .finally(() => {
+        if (!hasLifecycleBeenCancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
+    };
+  }, [authenticatedSession.token, authenticatedSession.userId, listOwner.id, reloadRequestToken]);
+
+  function handleReloadRequest() {
+    setIsLoading(true);
+    setNetworkError(null);
+    setReloadRequestToken((currentToken) => currentToken + 1);
+  }
+
+  function renderTitleList(comparisonTitles: UserListComparisonTitle[], describeTitle: (comparisonTitle: UserListComparisonTitle) => string) {
+    return (
+      <ul className={styles.batchResultList}>
+        {comparisonTitles.map((comparisonTitle) => (
+          <li key={comparisonTitle.visualNovelIdentifier} className={styles.batchResultItem}>
+            <button
+              type="button"
+              className={styles.comparisonTitleButton}
+              onClick={() => onVisualNovelSelection(comparisonTitle.visualNovelIdentifier)}
+            >
+              {comparisonTitle.title}
+            </button>
+            {' '}{describeTitle(comparisonTitle)}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  const comparison = compareUserLists(ourEntries, theirEntries);
+
+  return (
+    <div className={styles.batchToolbarBoundary} role="region" aria-label={`Compare ${listOwner.username}'s list with yours`}>
+      <div className={styles.batchToolbarRow}>
+        <span className={styles.batchSelectionCountText}>{listOwner.username} vs you</span>
+        <button type="button" className={styles.filterSecondaryButton} onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {isLoading && <p className={styles.userListInfoText} role="status">Loading both lists...</p>}
+      {networkError && <VndbErrorNotice errorPresentation={networkError} onRetry={handleReloadRequest} />}
+
+      {!isLoading && !networkError && (
+        <div className={styles.batchProgressBoundary}>
+          <span className={styles.batchSelectionCountText}>
+            {comparison.sharedTitles.length} shared {comparison.sharedTitles.length === 1 ? 'title' : 'titles'}
+            {comparison.averageVoteDifference !== null
+              ? ` · votes differ by ${formatVote(comparison.averageVoteDifference)} on average over ${comparison.commonVoteCount} both voted on`
+              : ''}
+          </span>
+
+          <details open>
+            <summary className={styles.batchResultSummaryText}>
+              Finished by {listOwner.username}, on your wishlist ({comparison.finishedByThemWishlistedByUs.length})
+            </summary>
+            {comparison.finishedByThemWishlistedByUs.length === 0
+              ? <p className={styles.userListInfoText}>Nothing on your wishlist that {listOwner.username} has finished.</p>
+              : renderTitleList(comparison.finishedByThemWishlistedByUs, (comparisonTitle) => (
+                  comparisonTitle.theirVote === null ? '' : `(their vote ${formatVote(comparisonTitle.theirVote)})`
+                ))}
+          </details>
+
+          <details open>
+            <summary className={styles.batchResultSummaryText}>
+              Biggest vote disagreements ({comparison.voteDisagreements.length})
+            </summary>
+            {comparison.voteDisagreements.length === 0
+              ? <p className={styles.userListInfoText}>No shared title where your votes differ.</p>
+              : renderTitleList(comparison.voteDisagreements, (comparisonTitle) => (
+                  `(you ${formatVote(comparisonTitle.ourVote)}, ${listOwner.username} ${formatVote(comparisonTitle.theirVote)})`
+                ))}
+          </details>
+
+          <details open={comparison.sharedTitles.length <= 20}>
+            <summary className={styles.batchResultSummaryText}>Shared titles ({comparison.sharedTitles.length})</summary>
+            {renderTitleList(comparison.sharedTitles, (comparisonTitle) => (
+              `(you ${formatVote(comparisonTitle.ourVote)}, ${listOwner.username} ${formatVote(comparisonTitle.theirVote)})`
+            ))}
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
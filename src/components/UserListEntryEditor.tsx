@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { type UserVisualNovelListEntryDetails } from '../types/apiTypes';
+import {
+  createUserListEntryDetailsDraft,
+  diffUserListEntryDetails,
+  parseUserListEntryDetailsDraft,
+  USER_LIST_VOTE_MAXIMUM,
+  USER_LIST_VOTE_MINIMUM,
+  type UserListEntryDetailsDraft
+} from '../utils/userListEntryDetails';
+import { describeVndbError } from '../utils/vndbErrorPresentation';
+import styles from './VisualNovelList.module.css';
+
+interface UserListEntryEditorProperties {
+  entryDetails: UserVisualNovelListEntryDetails;
+  onSave: (detailChanges: Partial<UserVisualNovelListEntryDetails>) => Promise<void>;
+  onClose?: () => void;
+  isDisabled?: boolean;
+  // `overlay` fits the editor over a list card; `panel` sits inline in the detail view.
+  variant: 'panel' | 'overlay';
+}
+
+// Shared vote/notes/dates form for the detail view and list cards. Only changed fields are saved.
+export function UserListEntryEditor({ entryDetails, onSave, onClose, isDisabled = false, variant }: UserListEntryEditorProperties) {
+  const [draft, setDraft] = useState<UserListEntryDetailsDraft>(() => createUserListEntryDetailsDraft(entryDetails));
+  const [isSaveInFlight, setIsSaveInFlight] = useState<boolean>(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(createUserListEntryDetailsDraft(entryDetails));
+    setStatusMessage(null);
+  }, [entryDetails]);
+
+  function updateDraftField(fieldName: keyof UserListEntryDetailsDraft, fieldValue: string) {
+    setDraft((currentDraft) => ({ ...currentDraft, [fieldName]: fieldValue }));
+    setStatusMessage(null);
+  }
+
+  async function handleSaveClick() {
+    const parsedDraft = parseUserListEntryDetailsDraft(draft);
+    if (!parsedDraft.details) {
+      setStatusMessage(parsedDraft.errorMessage);
+      return;
+    }
+
+    const detailChanges = diffUserListEntryDetails(entryDetails, parsedDraft.details);
+    if (Object.keys(detailChanges).length === 0) {
+      setStatusMessage('No changes to save.');
+      return;
+    }
+
+    setIsSaveInFlight(true);
+    setStatusMessage(null);
+    try {
+      await onSave(detailChanges);
+      setStatusMessage('Saved.');
+    } catch (caughtError) {
+      setStatusMessage(describeVndbError(caughtError, 'Unable to save your list entry.').message);
+    } finally {
+      setIsSaveInFlight(false);
+    }
+  }
+
+  const areControlsDisabled = isDisabled || isSaveInFlight;
+
+  return (
+    // List cards open the detail view on click/Enter, so keep editor interaction from reaching the card.
+    <div
+      className={`${styles.userListEditorBoundary} ${variant === 'overlay' ? styles.userListEditorOverlay : ''}`}
+      onClick={(clickEvent) => clickEvent.stopPropagation()}
+      onKeyDown={(keyboardEvent) => keyboardEvent.stopPropagation()}
+    >
+      <div className={styles.userListEditorGrid}>
+        <label className={styles.userListEditorField}>
+          <span className={styles.userListEditorLabel}>Vote ({USER_LIST_VOTE_MINIMUM}–{USER_LIST_VOTE_MAXIMUM})</span>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={USER_LIST_VOTE_MINIMUM}
+            max={USER_LIST_VOTE_MAXIMUM}
+            step={1}
+            className={styles.userListEditorInput}
+            value={draft.voteText}
+            placeholder="No vote"
+            onChange={(changeEvent) => updateDraftField('voteText', changeEvent.target.value)}
+            disabled={areControlsDisabled}
+          />
+        </label>
+        <label className={styles.userListEditorField}>
+          <span className={styles.userListEditorLabel}>Started</span>
+          <input
+            type="date"
+            className={styles.userListEditorInput}
+            value={draft.started}
+            onChange={(changeEvent) => updateDraftField('started', changeEvent.target.value)}
+            disabled={areControlsDisabled}
+          />
+        </label>
+        <label className={styles.userListEditorField}>
+          <span className={styles.userListEditorLabel}>Finished</span>
+          <input
+            type="date"
+            className={styles.userListEditorInput}
+            value={draft.finished}
+            onChange={(changeEvent) => updateDraftField('finished', changeEvent.target.value)}
+            disabled={areControlsDisabled}
+          />
+        </label>
+      </div>
+      <label className={styles.userListEditorField}>
+        <span className={styles.userListEditorLabel}>Notes</span>
+        <textarea
+          className={`${styles.userListEditorInput} ${styles.userListEditorNotes}`}
+          value={draft.notes}
+          rows={variant === 'overlay' ? 2 : 3}
+          onChange={(changeEvent) => updateDraftField('notes', changeEvent.target.value)}
+          disabled={areControlsDisabled}
+        />
+      </label>
+      <div className={styles.userListEditorActionRow}>
+        {onClose && (
+          <button type="button" className={styles.filterSecondaryButton} onClick={onClose} disabled={isSaveInFlight}>
+            Close
+          </button>
+        )}
+        <button type="button" className={styles.filterSecondaryButton} onClick={handleSaveClick} disabled={areControlsDisabled}>
+          {isSaveInFlight ? 'Saving...' : 'Save Details'}
+        </button>
+        {statusMessage && <span className={styles.userListEditorMessage} role="status">{statusMessage}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { type UserListLabelDefinition } from '../types/apiTypes';
+import { diffUserListLabelAssignment, selectAssignableUserListLabels } from '../utils/userListLabels';
+import { describeVndbError } from '../utils/vndbErrorPresentation';
+import styles from './VisualNovelList.module.css';
+
+interface UserListLabelPickerProperties {
+  labelDefinitions: UserListLabelDefinition[];
+  assignedLabelIdentifiers: number[];
+  onChange: (labelChanges: { labelsToSet: number[]; labelsToUnset: number[] }) => Promise<void>;
+  onClose?: () => void;
+  isDisabled?: boolean;
+  variant: 'panel' | 'overlay';
+}
+
+// Toggles custom labels one chip at a time. Status and "Voted" are managed elsewhere, so they are never offered here.
+export function UserListLabelPicker({
+  labelDefinitions,
+  assignedLabelIdentifiers,
+  onChange,
+  onClose,
+  isDisabled = false,
+  variant
+}: UserListLabelPickerProperties) {
+  const [pendingLabelIdentifier, setPendingLabelIdentifier] = useState<number | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const assignableLabels = selectAssignableUserListLabels(labelDefinitions);
+
+  async function handleLabelToggle(labelIdentifier: number) {
+    const nextLabelIdentifiers = assignedLabelIdentifiers.includes(labelIdentifier)
+      ? assignedLabelIdentifiers.filter((assignedLabelIdentifier) => assignedLabelIdentifier !== labelIdentifier)
+      : [...assignedLabelIdentifiers, labelIdentifier];
+
+    setPendingLabelIdentifier(labelIdentifier);
+    setStatusMessage(null);
+    try {
+      await onChange(diffUserListLabelAssignment(assignedLabelIdentifiers, nextLabelIdentifiers));
+    } catch (caughtError) {
+      setStatusMessage(describeVndbError(caughtError, 'Unable to update labels.').message);
+    } finally {
+      setPendingLabelIdentifier(null);
+    }
+  }
+
+  return (
+    <div
+      className={`${styles.userListEditorBoundary} ${variant === 'overlay' ? styles.userListEditorOverlay : ''}`}
+      onClick={(clickEvent) => clickEvent.stopPropagation()}
+      onKeyDown={(keyboardEvent) => keyboardEvent.stopPropagation()}
+    >
+      <span className={styles.userListEditorLabel}>Labels</span>
+      {assignableLabels.length === 0 ? (
+        <p className={styles.userListEditorMessage}>No custom labels yet. Labels created on vndb.org show up here.</p>
+      ) : (
+        <div className={styles.filterChipRow}>
+          {assignableLabels.map((labelDefinition) => {
+            const isAssigned = assignedLabelIdentifiers.includes(labelDefinition.id);
+            return (
+              <button
+                key={labelDefinition.id}
+                type="button"
+                className={`${styles.filterChipButton} ${isAssigned ? styles.filterChipButtonSelected : ''}`}
+                aria-pressed={isAssigned}
+                title={labelDefinition.private ? 'Private label' : undefined}
+                onClick={() => handleLabelToggle(labelDefinition.id)}
+                disabled={isDisabled || pendingLabelIdentifier !== null}
+              >
+                {labelDefinition.label}
+                {labelDefinition.private ? ' (private)' : ''}
+                {pendingLabelIdentifier === labelDefinition.id ? '…' : ''}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {(onClose || statusMessage) && (
+        <div className={styles.userListEditorActionRow}>
+          {onClose && (
+            <button type="button" className={styles.filterSecondaryButton} onClick={onClose} disabled={pendingLabelIdentifier !== null}>
+              Close
+            </button>
+          )}
+          {statusMessage && <span className={styles.userListEditorMessage} role="status">{statusMessage}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { fetchAuthenticatedUserListStatisticsPage } from '../api/visualNovelClient';
+import { collectVndbPages } from '../api/vndbPaginator';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import { type UserListLabelDefinition, type UserListStatisticsEntry } from '../types/apiTypes';
+import { formatReleaseLanguageLabel } from '../utils/releaseLabels';
+import {
+  buildUserListStatistics,
+  type UserListStatisticsCount,
+  type UserListStatisticsScope
+} from '../utils/userListStatistics';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import { VndbErrorNotice } from './VndbErrorNotice';
+import styles from './UserListStatisticsView.module.css';
+
+interface UserListStatisticsViewProperties {
+  authenticatedSession: { token: string; userId: string; username: string };
+  userListLabelDefinitions: UserListLabelDefinition[];
+  onBackToSearch: () => void;
+  onProducerSelection: (producerIdentifier: string) => void;
+  onTagSelection: (tagName: string, tagIdentifier: string) => void;
+}
+
+function formatAverage(averageValue: number | null) {
+  return averageValue === null ? '–' : (averageValue / 10).toFixed(2);
+}
+
+// Horizontal bars scaled to the largest count in the group; `onSelect` turns each row into a link.
+function StatisticsBarList({
+  counts,
+  emptyText,
+  onSelect
+}: {
+  counts: UserListStatisticsCount[];
+  emptyText: string;
+  onSelect?: (count: UserListStatisticsCount) => void;
+}) {
+  if (counts.every((count) => count.count === 0)) {
+    return <p className={styles.statusText}>{emptyText}</p>;
+  }
+
+  const largestCount = Math.max(...counts.map((count) => count.count));
+  return (
+    <ul className={styles.barList}>
+      {counts.map((count) => (
+        <li key={count.key} className={styles.barRow}>
+          {onSelect ? (
+            <button type="button" className={styles.barLabelButton} onClick={() => onSelect(count)}>{count.label}</button>
+          ) : (
+            <span className={styles.barLabelText}>{count.label}</span>
+          )}
+          <span className={styles.barTrack} aria-hidden="true">
+            <span className={styles.barFill} style={{ width: `${(count.count / largestCount) * 100}%` }} />
+          </span>
+          <span className={styles.barCountText}>{count.count.toLocaleString()}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Reading habits computed from the signed-in user's whole list. The list is loaded once per visit with the
+// VN fields the figures need; switching the scope or period only re-aggregates it.
+export function UserListStatisticsView({
+  authenticatedSession,
+  userListLabelDefinitions,
+  onBackToSearch,
+  onProducerSelection,
+  onTagSelection
+}: UserListStatisticsViewProperties) {
+  const [statisticsEntries, setStatisticsEntries] = useState<UserListStatisticsEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [loadedEntryCount, setLoadedEntryCount] = useState<number>(0);
+  const [isListTruncated, setIsListTruncated] = useState<boolean>(false);
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  const [reloadRequestToken, setReloadRequestToken] = useState<number>(0);
+  const [statisticsScope, setStatisticsScope] = useState<UserListStatisticsScope>('finished');
+  const [finishPeriod, setFinishPeriod] = useState<'year' | 'month'>('year');
+
+  useEffect(() => {
+    let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
+
+    collectVndbPages<UserListStatisticsEntry>({
+      requestSignal: lifecycleAbortController.signal,
+      onProgress: (paginationProgress) => {
+        if (!hasLifecycleBeenCancelled) {
+          setLoadedEntryCount(paginationProgress.loadedEntryCount);
+        }
+      },
+      loadPage: (pageNumber, pageSize, pageSignal) => fetchAuthenticatedUserListStatisticsPage(
+        authenticatedSession.token,
+        authenticatedSession.userId,
+        pageNumber,
+        pageSize,
+        pageSignal
+      )
+    })
+      .then((collectedPages) => {
+        if (hasLifecycleBeenCancelled) {
+          return;
+        }
+        setStatisticsEntries(collectedPages.entries);
+        setIsListTruncated(collectedPages.isTruncated);
+      })
+      .catch((caughtError) => {
+        if (hasLifecycleBeenCancelled || isAbortError(caughtError)) {
+          return;
+        }
+        setNetworkError(describeVndbError(caughtError, 'Unable to load your list statistics.'));
+      })
+      .finally(() => {
+        if (!hasLifecycleBeenCancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
+    };
+  }, [authenticatedSession.token, authenticatedSession.userId, reloadRequestToken]);
+
+  function handleReloadRequest() {
+    setIsLoading(true);
+    setLoadedEntryCount(0);
+    setNetworkError(null);
+    setReloadRequestToken((currentToken) => currentToken + 1);
+  }
+
+  const statistics = buildUserListStatistics(statisticsEntries, userListLabelDefinitions, statisticsScope, formatReleaseLanguageLabel);
+  const scopeDescription = statisticsScope === 'finished' ? 'finished VNs' : 'all list entries';
+  const estimatedReadingHours = Math.round(statistics.estimatedReadingMinutes / 60);
+
+  return (
+    <section className={styles.containerBoundary}>
+      <div className={styles.headerRow}>
+        <button type="button" className={styles.backButton} onClick={onBackToSearch}>
+          ← Return to Search
+        </button>
+        <h2 className={styles.headingText}>{authenticatedSession.username}'s Reading Stats</h2>
+      </div>
+
+      {isLoading && (
+        <p className={styles.statusText}>Loading your list... {loadedEntryCount > 0 ? `${loadedEntryCount} entries` : ''}</p>
+      )}
+      {networkError && (
+        <VndbErrorNotice
+          errorPresentation={networkError}
+          onRetry={handleReloadRequest}
+        />
+      )}
+
+      {!isLoading && !networkError && (
+        <>
+          <div className={styles.controlRow}>
+            <p className={styles.subheadingText}>
+              {statistics.entryCount.toLocaleString()} list entries
+              {isListTruncated ? ' (the list is larger than the paging limit; later entries are not counted)' : ''}
+            </p>
+            <label className={styles.controlLabel}>
+              Developers, tags, languages and reading time from
+              <select
+                className={styles.controlSelect}
+                value={statisticsScope}
+                onChange={(changeEvent) => setStatisticsScope(changeEvent.target.value as UserListStatisticsScope)}
+              >
+                <option value="finished">Finished VNs</option>
+                <option value="all">Whole list</option>
+              </select>
+            </label>
+          </div>
+
+          <div className={styles.summaryGrid}>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryValue}>~{estimatedReadingHours.toLocaleString()} h</span>
+              <span className={styles.summaryLabel}>
+                Estimated reading time ({statistics.scopedEntryCount.toLocaleString()} {scopeDescription}
+                {statistics.entriesWithoutLength > 0 ? `, ${statistics.entriesWithoutLength} without a length estimate` : ''})
+              </span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryValue}>{formatAverage(statistics.averageVote)}</span>
+              <span className={styles.summaryLabel}>Average vote ({statistics.votedCount.toLocaleString()} voted)</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryValue}>
+                {formatAverage(statistics.averageComparedVote)} vs {formatAverage(statistics.averageComparedRating)}
+              </span>
+              <span className={styles.summaryLabel}>
+                Your vote vs VNDB rating on the {statistics.comparedVoteCount.toLocaleString()} rated VNs you voted on
+              </span>
+            </div>
+          </div>
+
+          <div className={styles.panelGrid}>
+            <section className={styles.statisticsPanel}>
+              <h3 className={styles.panelTitle}>Statuses and Labels</h3>
+              <StatisticsBarList counts={statistics.labelCounts} emptyText="Your list is empty." />
+            </section>
+
+            <section className={styles.statisticsPanel}>
+              <h3 className={styles.panelTitle}>Vote Distribution</h3>
+              <StatisticsBarList counts={statistics.voteHistogram} emptyText="No votes yet." />
+            </section>
+
+            <section className={styles.statisticsPanel}>
+              <div className={styles.panelHeaderRow}>
+                <h3 className={styles.panelTitle}>Finished per {finishPeriod === 'year' ? 'Year' : 'Month'}</h3>
+                <select
+                  className={styles.controlSelect}
+                  aria-label="Finish period"
+                  value={finishPeriod}
+                  onChange={(changeEvent) => setFinishPeriod(changeEvent.target.value as 'year' | 'month')}
+                >
+                  <option value="year">Per year</option>
+                  <option value="month">Per month</option>
+                </select>
+              </div>
+              <StatisticsBarList
+                counts={finishPeriod === 'year' ? statistics.finishesByYear : statistics.finishesByMonth}
+                emptyText="No finish dates recorded."
+              />
+            </section>
+
+            <section className={styles.statisticsPanel}>
+              <h3 className={styles.panelTitle}>Original Languages</h3>
+              <StatisticsBarList counts={statistics.originalLanguages} emptyText={`No ${scopeDescription}.`} />
+            </section>
+
+            <section className={styles.statisticsPanel}>
+              <h3 className={styles.panelTitle}>Most-Read Developers</h3>
+              <StatisticsBarList
+                counts={statistics.topDevelopers}
+                emptyText={`No developers credited on ${scopeDescription}.`}
+                onSelect={(developerCount) => onProducerSelection(developerCount.key)}
+              />
+            </section>
+
+            <section className={styles.statisticsPanel}>
+              <h3 className={styles.panelTitle}>Most-Read Tags</h3>
+              <StatisticsBarList
+                counts={statistics.topTags}
+                emptyText={`No tags on ${scopeDescription}.`}
+                onSelect={(tagCount) => onTagSelection(tagCount.label, tagCount.key)}
+              />
+            </section>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
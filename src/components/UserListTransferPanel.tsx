@@ -0,0 +1,387 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchAuthenticatedUserVisualNovelList, overlayQueuedUserListMutations } from '../api/visualNovelClient';
+import { collectVndbPages } from '../api/vndbPaginator';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import {
+  type UserListLabelDefinition,
+  type UserVisualNovelListEntry,
+  type UserVisualNovelListEntryDetails
+} from '../types/apiTypes';
+import { countBatchOutcomes, runBatchOperation, type BatchItemResult } from '../utils/batchOperations';
+import { downloadTextFile } from '../utils/fileDownload';
+import {
+  buildUserListTransferRecords,
+  detectUserListTransferFormat,
+  parseUserListTransferFile,
+  planUserListImport,
+  serializeUserListAsCsv,
+  serializeUserListAsJson,
+  type UserListImportConflictStrategy,
+  type UserListTransferFormat,
+  type UserListTransferRecord
+} from '../utils/userListTransfer';
+import { describeVndbError } from '../utils/vndbErrorPresentation';
+import styles from './VisualNovelList.module.css';
+
+export type UserListEntryPatchHandler = (
+  visualNovelIdentifier: string,
+  entryChanges: {
+    labelsToSet: number[];
+    labelsToUnset: number[];
+    detailChanges: Partial<UserVisualNovelListEntryDetails>;
+  },
+  requestSignal: AbortSignal
+) => Promise<void>;
+
+interface UserListTransferPanelProperties {
+  authenticatedSession: { token: string; userId: string };
+  canWriteUserList: boolean;
+  userListLabelDefinitions: UserListLabelDefinition[];
+  onPatchUserListEntry: UserListEntryPatchHandler;
+  onImportApplied: () => void;
+  onClose: () => void;
+}
+
+interface ImportPreviewState {
+  fileName: string;
+  format: UserListTransferFormat;
+  records: UserListTransferRecord[];
+  invalidRowMessages: string[];
+  currentEntries: UserVisualNovelListEntry[];
+}
+
+interface ActiveImportState {
+  totalItemCount: number;
+  titlesByIdentifier: Record<string, string>;
+  itemResults: BatchItemResult[];
+  isRunning: boolean;
+}
+
+const TRANSFER_FORMAT_LABELS: Record<UserListTransferFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  'vndb-xml': 'VNDB XML export'
+};
+
+const BATCH_OUTCOME_LABELS: Record<BatchItemResult['outcome'], string> = {
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+// Full-list backup and restore. Exports always read the whole list (not just what is on screen), and imports
+// are planned against a fresh copy of it so the preview shows exactly what the PATCH requests will change.
+export function UserListTransferPanel({
+  authenticatedSession,
+  canWriteUserList,
+  userListLabelDefinitions,
+  onPatchUserListEntry,
+  onImportApplied,
+  onClose
+}: UserListTransferPanelProperties) {
+  const [busyDescription, setBusyDescription] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreviewState | null>(null);
+  const [conflictStrategy, setConflictStrategy] = useState<UserListImportConflictStrategy>('keep-current');
+  const [activeImport, setActiveImport] = useState<ActiveImportState | null>(null);
+  const operationAbortControllerReference = useRef<AbortController | null>(null);
+  const isImportRunning = activeImport?.isRunning ?? false;
+  const isBusy = busyDescription !== null || isImportRunning;
+
+  // Closing the panel mid-import cancels the remaining entries.
+  useEffect(() => () => operationAbortControllerReference.current?.abort(), []);
+
+  async function loadCompleteUserList(requestSignal: AbortSignal) {
+    const collectedUserListPages = await collectVndbPages<UserVisualNovelListEntry>({
+      requestSignal,
+      loadPage: (pageNumber, pageSize, pageSignal) => fetchAuthenticatedUserVisualNovelList(
+        authenticatedSession.token,
+        authenticatedSession.userId,
+        pageNumber,
+        pageSize,
+        pageSignal
+      )
+    });
+    return {
+      entries: await overlayQueuedUserListMutations(authenticatedSession.userId, collectedUserListPages.entries),
+      isTruncated: collectedUserListPages.isTruncated
+    };
+  }
+
+  async function runListOperation(description: string, operation: (requestSignal: AbortSignal) => Promise<void>) {
+    const operationAbortController = new AbortController();
+    operationAbortControllerReference.current = operationAbortController;
+    setBusyDescription(description);
+    setStatusMessage(null);
+    try {
+      await operation(operationAbortController.signal);
+    } catch (caughtError) {
+      if (!isAbortError(caughtError)) {
+        setStatusMessage(describeVndbError(caughtError, `${description} failed.`).message);
+      }
+    } finally {
+      if (operationAbortControllerReference.current === operationAbortController) {
+        operationAbortControllerReference.current = null;
+      }
+      setBusyDescription(null);
+    }
+  }
+
+  function handleExport(format: 'json' | 'csv') {
+    return runListOperation('Export', async (requestSignal) => {
+      const completeUserList = await loadCompleteUserList(requestSignal);
+      const transferRecords = buildUserListTransferRecords(completeUserList.entries, userListLabelDefinitions);
+      const exportDate = new Date();
+      downloadTextFile(
+        `vndb-list-${exportDate.toISOString().slice(0, 10)}.${format}`,
+        format === 'json' ? serializeUserListAsJson(transferRecords, exportDate) : serializeUserListAsCsv(transferRecords),
+        format === 'json' ? 'application/json' : 'text/csv'
+      );
+      setStatusMessage(completeUserList.isTruncated
+        ? `Exported the first ${transferRecords.length} entries; the rest of the list is past the paging limit.`
+        : `Exported ${transferRecords.length} entries.`);
+    });
+  }
+
+  function handleImportFileSelection(changeEvent: React.ChangeEvent<HTMLInputElement>) {
+    const selectedFile = changeEvent.target.files?.[0];
+    // Clearing the input lets the same file be chosen again after fixing it.
+    changeEvent.target.value = '';
+    if (!selectedFile) {
+      return;
+    }
+
+    setImportPreview(null);
+    setActiveImport(null);
+    return runListOperation('Import preview', async (requestSignal) => {
+      const fileContents = await selectedFile.text();
+      const format = detectUserListTransferFormat(selectedFile.name, fileContents);
+      let parsedFile;
+      try {
+        parsedFile = parseUserListTransferFile(fileContents, format);
+      } catch (parseError) {
+        setStatusMessage(parseError instanceof Error ? parseError.message : 'The file could not be read.');
+        return;
+      }
+
+      const completeUserList = await loadCompleteUserList(requestSignal);
+      setImportPreview({
+        fileName: selectedFile.name,
+        format,
+        records: parsedFile.records,
+        invalidRowMessages: parsedFile.invalidRowMessages,
+        currentEntries: completeUserList.entries
+      });
+    });
+  }
+
+  const importPlan = importPreview
+    ? planUserListImport(importPreview.records, importPreview.currentEntries, userListLabelDefinitions, conflictStrategy)
+    : [];
+  const pendingPlanItems = importPlan.filter((planItem) => planItem.action !== 'unchanged');
+  const addedItemCount = importPlan.filter((planItem) => planItem.action === 'add').length;
+  const conflictingItemCount = importPlan.filter((planItem) => planItem.conflicts.length > 0).length;
+  const warningItemCount = importPlan.filter((planItem) => planItem.warnings.length > 0).length;
+
+  async function handleImportApply() {
+    const importAbortController = new AbortController();
+    operationAbortControllerReference.current = importAbortController;
+    const planItemsByIdentifier = new Map(pendingPlanItems.map((planItem) => [planItem.visualNovelIdentifier, planItem]));
+    setActiveImport({
+      totalItemCount: pendingPlanItems.length,
+      titlesByIdentifier: Object.fromEntries(pendingPlanItems.map((planItem) => [planItem.visualNovelIdentifier, planItem.title])),
+      itemResults: [],
+      isRunning: true
+    });
+
+    await runBatchOperation({
+      itemIdentifiers: [...planItemsByIdentifier.keys()],
+      runItem: async (visualNovelIdentifier, requestSignal) => {
+        const planItem = planItemsByIdentifier.get(visualNovelIdentifier);
+        if (planItem) {
+          await onPatchUserListEntry(visualNovelIdentifier, {
+            labelsToSet: planItem.labelsToSet,
+            labelsToUnset: planItem.labelsToUnset,
+            detailChanges: planItem.detailChanges
+          }, requestSignal);
+        }
+      },
+      requestSignal: importAbortController.signal,
+      onItemSettled: (itemResult) => setActiveImport((currentImport) => currentImport && {
+        ...currentImport,
+        itemResults: [...currentImport.itemResults, itemResult]
+      })
+    });
+
+    if (operationAbortControllerReference.current === importAbortController) {
+      operationAbortControllerReference.current = null;
+    }
+    setActiveImport((currentImport) => currentImport && { ...currentImport, isRunning: false });
+    setImportPreview(null);
+    onImportApplied();
+  }
+
+  const outcomeCounts = activeImport ? countBatchOutcomes(activeImport.itemResults) : null;
+
+  return (
+    <div className={styles.batchToolbarBoundary} role="region" aria-label="Import and export your list">
+      <div className={styles.batchToolbarRow}>
+        <span className={styles.batchSelectionCountText}>Export</span>
+        <button type="button" className={styles.filterSecondaryButton} onClick={() => handleExport('json')} disabled={isBusy}>
+          JSON
+        </button>
+        <button type="button" className={styles.filterSecondaryButton} onClick={() => handleExport('csv')} disabled={isBusy}>
+          CSV
+        </button>
+        {canWriteUserList && (
+          <label className={styles.transferFileLabel}>
+            <span className={styles.batchSelectionCountText}>Import</span>
+            <input
+              type="file"
+              accept=".json,.csv,.xml,application/json,text/csv,text/xml"
+              onChange={handleImportFileSelection}
+              disabled={isBusy}
+            />
+          </label>
+        )}
+        <button type="button" className={styles.filterSecondaryButton} onClick={onClose} disabled={isImportRunning}>
+          Close
+        </button>
+      </div>
+
+      {!canWriteUserList && (
+        <p className={styles.userListInfoText}>Importing needs a token with `listwrite`.</p>
+      )}
+      {busyDescription && (
+        <div className={styles.batchToolbarRow} role="status">
+          <span className={styles.batchSelectionCountText}>{busyDescription}: loading your list...</span>
+          <button
+            type="button"
+            className={styles.filterSecondaryButton}
+            onClick={() => operationAbortControllerReference.current?.abort()}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      {statusMessage && <p className={styles.userListInfoText} role="status">{statusMessage}</p>}
+
+      {importPreview && (
+        <div className={styles.batchProgressBoundary}>
+          <span className={styles.batchSelectionCountText}>
+            {importPreview.fileName} ({TRANSFER_FORMAT_LABELS[importPreview.format]}): {addedItemCount} to add
+            {` · ${pendingPlanItems.length - addedItemCount} to update`}
+            {` · ${importPlan.length - pendingPlanItems.length} unchanged`}
+            {conflictingItemCount > 0 ? ` · ${conflictingItemCount} with conflicts` : ''}
+            {warningItemCount > 0 ? ` · ${warningItemCount} with warnings` : ''}
+          </span>
+          {importPreview.invalidRowMessages.length > 0 && (
+            <details open>
+              <summary className={styles.batchResultSummaryText}>
+                {importPreview.invalidRowMessages.length} unreadable {importPreview.invalidRowMessages.length === 1 ? 'row' : 'rows'} (skipped)
+              </summary>
+              <ul className={styles.batchResultList}>
+                {importPreview.invalidRowMessages.map((invalidRowMessage) => (
+                  <li key={invalidRowMessage} className={styles.batchResultItemFailed}>{invalidRowMessage}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {conflictingItemCount > 0 && (
+            <div className={styles.sortControlGroup}>
+              <label className={styles.batchSelectionCountText} htmlFor="user-list-import-conflict-strategy">
+                On conflict
+              </label>
+              <select
+                id="user-list-import-conflict-strategy"
+                className={styles.sortSelectField}
+                value={conflictStrategy}
+                onChange={(changeEvent) => setConflictStrategy(changeEvent.target.value as UserListImportConflictStrategy)}
+                disabled={isImportRunning}
+              >
+                <option value="keep-current">Keep what is on VNDB</option>
+                <option value="overwrite">Use the file</option>
+              </select>
+            </div>
+          )}
+          {pendingPlanItems.length > 0 && (
+            <details open={pendingPlanItems.length <= 20}>
+              <summary className={styles.batchResultSummaryText}>Changes to apply</summary>
+              <ul className={styles.batchResultList}>
+                {importPlan
+                  .filter((planItem) => planItem.action !== 'unchanged' || planItem.conflicts.length > 0 || planItem.warnings.length > 0)
+                  .map((planItem) => (
+                    <li key={planItem.visualNovelIdentifier} className={styles.batchResultItem}>
+                      {planItem.title} ({planItem.visualNovelIdentifier}): {planItem.action === 'add' ? 'add' : planItem.action === 'update' ? 'update' : 'no change'}
+                      {planItem.conflicts.map((conflictText) => (
+                        <span key={conflictText} className={styles.transferConflictText}>{conflictText}</span>
+                      ))}
+                      {planItem.warnings.map((warningText) => (
+                        <span key={warningText} className={styles.transferWarningText}>{warningText}</span>
+                      ))}
+                    </li>
+                  ))}
+              </ul>
+            </details>
+          )}
+          <div className={styles.batchToolbarRow}>
+            <button
+              type="button"
+              className={styles.filterSecondaryButton}
+              onClick={handleImportApply}
+              disabled={isBusy || pendingPlanItems.length === 0}
+            >
+              Apply {pendingPlanItems.length} {pendingPlanItems.length === 1 ? 'Change' : 'Changes'}
+            </button>
+            <button type="button" className={styles.filterSecondaryButton} onClick={() => setImportPreview(null)} disabled={isBusy}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {activeImport && outcomeCounts && (
+        <div className={styles.batchProgressBoundary} role="status">
+          <div className={styles.batchToolbarRow}>
+            <span className={styles.batchSelectionCountText}>
+              Import: {activeImport.itemResults.length}/{activeImport.totalItemCount}
+              {` · ${outcomeCounts.succeeded} done`}
+              {outcomeCounts.failed > 0 ? ` · ${outcomeCounts.failed} failed` : ''}
+              {outcomeCounts.cancelled > 0 ? ` · ${outcomeCounts.cancelled} cancelled` : ''}
+            </span>
+            {activeImport.isRunning ? (
+              <button
+                type="button"
+                className={styles.filterSecondaryButton}
+                onClick={() => operationAbortControllerReference.current?.abort()}
+              >
+                Cancel
+              </button>
+            ) : (
+              <button type="button" className={styles.filterSecondaryButton} onClick={() => setActiveImport(null)}>
+                Dismiss
+              </button>
+            )}
+          </div>
+          <progress className={styles.batchProgressBar} max={activeImport.totalItemCount} value={activeImport.itemResults.length} />
+          {activeImport.itemResults.length > 0 && (
+            <details open={outcomeCounts.failed > 0}>
+              <summary className={styles.batchResultSummaryText}>Per-item results</summary>
+              <ul className={styles.batchResultList}>
+                {activeImport.itemResults.map((itemResult) => (
+                  <li
+                    key={itemResult.itemIdentifier}
+                    className={itemResult.outcome === 'failed' ? styles.batchResultItemFailed : styles.batchResultItem}
+                  >
+                    {activeImport.titlesByIdentifier[itemResult.itemIdentifier]}: {BATCH_OUTCOME_LABELS[itemResult.outcome]}
+                    {itemResult.errorMessage ? ` (${itemResult.errorMessage})` : ''}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useEffect, useRef, useState } from 'react';
+import { type UserListLabelDefinition, type VisualNovelDatabaseEntry } from '../types/apiTypes';
+import {
+  countBatchOutcomes,
+  runBatchOperation,
+  type BatchItemResult
+} from '../utils/batchOperations';
+import {
+  DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER,
+  selectAssignableUserListLabels,
+  USER_LIST_STATUS_OPTIONS
+} from '../utils/userListLabels';
+import styles from './VisualNovelList.module.css';
+
+export interface VisualNovelBatchActionHandlers {
+  addToUserList: (visualNovelIdentifier: string, labelIdentifier: number, requestSignal: AbortSignal) => Promise<void>;
+  updateStatus: (visualNovelIdentifier: string, statusLabelIdentifier: number, requestSignal: AbortSignal) => Promise<void>;
+  updateLabels: (
+    visualNovelIdentifier: string,
+    labelChanges: { labelsToSet: number[]; labelsToUnset: number[] },
+    requestSignal: AbortSignal
+  ) => Promise<void>;
+  removeFromUserList: (visualNovelIdentifier: string, requestSignal: AbortSignal) => Promise<void>;
+}
+
+interface VisualNovelBatchToolbarProperties {
+  selectedEntries: VisualNovelDatabaseEntry[];
+  visibleEntryCount: number;
+  canWriteUserList: boolean;
+  userListLabelDefinitions: UserListLabelDefinition[];
+  batchActionHandlers: VisualNovelBatchActionHandlers;
+  onSelectAllVisible: () => void;
+  onClearSelection: () => void;
+  onExitSelectionMode: () => void;
+  onExportSelection: () => void;
+}
+
+interface ActiveBatchState {
+  actionDescription: string;
+  totalItemCount: number;
+  titlesByIdentifier: Record<string, string>;
+  itemResults: BatchItemResult[];
+  isRunning: boolean;
+}
+
+const BATCH_OUTCOME_LABELS: Record<BatchItemResult['outcome'], string> = {
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+// Selection-mode controls for the VN list. Each batch runs item by item so progress, per-item failures and
+// cancellation stay visible; the parent's handlers keep list state in sync as items succeed.
+export function VisualNovelBatchToolbar({
+  selectedEntries,
+  visibleEntryCount,
+  canWriteUserList,
+  userListLabelDefinitions,
+  batchActionHandlers,
+  onSelectAllVisible,
+  onClearSelection,
+  onExitSelectionMode,
+  onExportSelection
+}: VisualNovelBatchToolbarProperties) {
+  const assignableLabels = selectAssignableUserListLabels(userListLabelDefinitions);
+  const [addLabelIdentifier, setAddLabelIdentifier] = useState<number>(DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER);
+  const [statusLabelIdentifier, setStatusLabelIdentifier] = useState<number>(DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER);
+  const [customLabelIdentifier, setCustomLabelIdentifier] = useState<number | null>(null);
+  const [isRemoveConfirmationVisible, setIsRemoveConfirmationVisible] = useState<boolean>(false);
+  const [activeBatch, setActiveBatch] = useState<ActiveBatchState | null>(null);
+  const batchAbortControllerReference = useRef<AbortController | null>(null);
+  const selectedCustomLabelIdentifier = customLabelIdentifier ?? assignableLabels[0]?.id ?? null;
+  const isBatchRunning = activeBatch?.isRunning ?? false;
+  const areBatchActionsDisabled = !canWriteUserList || isBatchRunning || selectedEntries.length === 0;
+
+  // Leaving selection mode (or the view) mid-batch cancels the remaining items.
+  useEffect(() => () => batchAbortControllerReference.current?.abort(), []);
+
+  async function startBatch(actionDescription: string, runItem: (visualNovelIdentifier: string, requestSignal: AbortSignal) => Promise<void>) {
+    const batchAbortController = new AbortController();
+    batchAbortControllerReference.current = batchAbortController;
+    const batchEntries = [...selectedEntries];
+    setIsRemoveConfirmationVisible(false);
+    setActiveBatch({
+      actionDescription,
+      totalItemCount: batchEntries.length,
+      titlesByIdentifier: Object.fromEntries(batchEntries.map((batchEntry) => [batchEntry.id, batchEntry.title || batchEntry.id])),
+      itemResults: [],
+      isRunning: true
+    });
+
+    await runBatchOperation({
+      itemIdentifiers: batchEntries.map((batchEntry) => batchEntry.id),
+      runItem,
+      requestSignal: batchAbortController.signal,
+      onItemSettled: (itemResult) => setActiveBatch((currentBatch) => currentBatch && {
+        ...currentBatch,
+        itemResults: [...currentBatch.itemResults, itemResult]
+      })
+    });
+
+    if (batchAbortControllerReference.current === batchAbortController) {
+      batchAbortControllerReference.current = null;
+    }
+    setActiveBatch((currentBatch) => currentBatch && { ...currentBatch, isRunning: false });
+  }
+
+  function describeLabel(labelIdentifier: number) {
+    return USER_LIST_STATUS_OPTIONS.find((statusOption) => statusOption.id === labelIdentifier)?.label
+      ?? userListLabelDefinitions.find((labelDefinition) => labelDefinition.id === labelIdentifier)?.label
+      ?? `label ${labelIdentifier}`;
+  }
+
+  const outcomeCounts = activeBatch ? countBatchOutcomes(activeBatch.itemResults) : null;
+
+  return (
+    <div className={styles.batchToolbarBoundary} role="region" aria-label="Batch actions">
+      <div className={styles.batchToolbarRow}>
+        <span className={styles.batchSelectionCountText}>
+          {selectedEntries.length} of {visibleEntryCount} selected
+        </span>
+        <button type="button" className={styles.filterSecondaryButton} onClick={onSelectAllVisible} disabled={isBatchRunning}>
+          Select All Visible
+        </button>
+        <button
+          type="button"
+          className={styles.filterSecondaryButton}
+          onClick={onClearSelection}
+          disabled={isBatchRunning || selectedEntries.length === 0}
+        >
+          Clear
+        </button>
+        <button
+          type="button"
+          className={styles.filterSecondaryButton}
+          onClick={onExportSelection}
+          disabled={selectedEntries.length === 0}
+        >
+          Export Selection
+        </button>
+        <button type="button" className={styles.filterSecondaryButton} onClick={onExitSelectionMode}>
+          Done
+        </button>
+      </div>
+
+      {canWriteUserList && (
+        <div className={styles.batchToolbarRow}>
+          <div className={styles.sortControlGroup}>
+            <select
+              className={styles.sortSelectField}
+              aria-label="Label for added entries"
+              value={addLabelIdentifier}
+              onChange={(changeEvent) => setAddLabelIdentifier(Number(changeEvent.target.value))}
+              disabled={isBatchRunning}
+            >
+              {[...USER_LIST_STATUS_OPTIONS, ...assignableLabels].map((labelOption) => (
+                <option key={labelOption.id} value={labelOption.id}>{labelOption.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={styles.filterSecondaryButton}
+              disabled={areBatchActionsDisabled}
+              onClick={() => startBatch(
+                `Add to list (${describeLabel(addLabelIdentifier)})`,
+                (visualNovelIdentifier, requestSignal) => batchActionHandlers.addToUserList(visualNovelIdentifier, addLabelIdentifier, requestSignal)
+              )}
+            >
+              Add to List
+            </button>
+          </div>
+
+          <div className={styles.sortControlGroup}>
+            <select
+              className={styles.sortSelectField}
+              aria-label="New status"
+              value={statusLabelIdentifier}
+              onChange={(changeEvent) => setStatusLabelIdentifier(Number(changeEvent.target.value))}
+              disabled={isBatchRunning}
+            >
+              {USER_LIST_STATUS_OPTIONS.map((statusOption) => (
+                <option key={statusOption.id} value={statusOption.id}>{statusOption.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={styles.filterSecondaryButton}
+              disabled={areBatchActionsDisabled}
+              onClick={() => startBatch(
+                `Change status to ${describeLabel(statusLabelIdentifier)}`,
+                (visualNovelIdentifier, requestSignal) => batchActionHandlers.updateStatus(visualNovelIdentifier, statusLabelIdentifier, requestSignal)
+              )}
+            >
+              Set Status
+            </button>
+          </div>
+
+          {selectedCustomLabelIdentifier !== null && (
+            <div className={styles.sortControlGroup}>
+              <select
+                className={styles.sortSelectField}
+                aria-label="Custom label"
+                value={selectedCustomLabelIdentifier}
+                onChange={(changeEvent) => setCustomLabelIdentifier(Number(changeEvent.target.value))}
+                disabled={isBatchRunning}
+              >
+                {assignableLabels.map((labelDefinition) => (
+                  <option key={labelDefinition.id} value={labelDefinition.id}>{labelDefinition.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className={styles.filterSecondaryButton}
+                disabled={areBatchActionsDisabled}
+                onClick={() => startBatch(
+                  `Add label ${describeLabel(selectedCustomLabelIdentifier)}`,
+                  (visualNovelIdentifier, requestSignal) => batchActionHandlers.updateLabels(
+                    visualNovelIdentifier,
+                    { labelsToSet: [selectedCustomLabelIdentifier], labelsToUnset: [] },
+                    requestSignal
+                  )
+                )}
+              >
+                Add Label
+              </button>
+              <button
+                type="button"
+                className={styles.filterSecondaryButton}
+                disabled={areBatchActionsDisabled}
+                onClick={() => startBatch(
+                  `Remove label ${describeLabel(selectedCustomLabelIdentifier)}`,
+                  (visualNovelIdentifier, requestSignal) => batchActionHandlers.updateLabels(
+                    visualNovelIdentifier,
+                    { labelsToSet: [], labelsToUnset: [selectedCustomLabelIdentifier] },
+                    requestSignal
+                  )
+                )}
+              >
+                Remove Label
+              </button>
+            </div>
+          )}
+
+          {isRemoveConfirmationVisible ? (
+            <div className={styles.sortControlGroup}>
+              <span className={styles.batchSelectionCountText}>Remove {selectedEntries.length} from your list?</span>
+              <button
+                type="button"
+                className={styles.filterSecondaryButton}
+                disabled={areBatchActionsDisabled}
+                onClick={() => startBatch('Remove from list', batchActionHandlers.removeFromUserList)}
+              >
+                Confirm Remove
+              </button>
+              <button type="button" className={styles.filterSecondaryButton} onClick={() => setIsRemoveConfirmationVisible(false)}>
+                Keep
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              className={styles.filterSecondaryButton}
+              disabled={areBatchActionsDisabled}
+              onClick={() => setIsRemoveConfirmationVisible(true)}
+            >
+              Remove from List
+            </button>
+          )}
+        </div>
+      )}
+
+      {activeBatch && outcomeCounts && (
+        <div className={styles.batchProgressBoundary} role="status">
+          <div className={styles.batchToolbarRow}>
+            <span className={styles.batchSelectionCountText}>
+              {activeBatch.actionDescription}: {activeBatch.itemResults.length}/{activeBatch.totalItemCount}
+              {` · ${outcomeCounts.succeeded} done`}
+              {outcomeCounts.failed > 0 ? ` · ${outcomeCounts.failed} failed` : ''}
+              {outcomeCounts.cancelled > 0 ? ` · ${outcomeCounts.cancelled} cancelled` : ''}
+            </span>
+            {activeBatch.isRunning ? (
+              <button
+                type="button"
+                className={styles.filterSecondaryButton}
+                onClick={() => batchAbortControllerReference.current?.abort()}
+              >
+                Cancel
+              </button>
+            ) : (
+              <button type="button" className={styles.filterSecondaryButton} onClick={() => setActiveBatch(null)}>
+                Dismiss
+              </button>
+            )}
+          </div>
+          <progress
+            className={styles.batchProgressBar}
+            max={activeBatch.totalItemCount}
+            value={activeBatch.itemResults.length}
+          />
+          {activeBatch.itemResults.length > 0 && (
+            <details open={outcomeCounts.failed > 0}>
+              <summary className={styles.batchResultSummaryText}>Per-item results</summary>
+              <ul className={styles.batchResultList}>
+                {activeBatch.itemResults.map((itemResult) => (
+                  <li
+                    key={itemResult.itemIdentifier}
+                    className={itemResult.outcome === 'failed' ? styles.batchResultItemFailed : styles.batchResultItem}
+                  >
+                    {activeBatch.titlesByIdentifier[itemResult.itemIdentifier]}: {BATCH_OUTCOME_LABELS[itemResult.outcome]}
+                    {itemResult.errorMessage ? ` (${itemResult.errorMessage})` : ''}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,45 @@ import { useState, useEffect, useRef } from 'react';
 import {
   fetchAuthenticatedUserVisualNovelListEntry,
   fetchVisualNovelCoreDetailsById,
+  fetchVisualNovelStaffCreditsById,
+  fetchVisualNovelReleasesById,
   fetchVisualNovelStoreLinksById,
   fetchVisualNovelSupplementalDetailsById,
   fetchTagMetadataByIds,
-  removeVisualNovelFromAuthenticatedUserList,
-  updateAuthenticatedUserVisualNovelStatusLabel
+  VndbAuthenticationError,
+  VndbNotFoundError
 } from '../api/visualNovelClient';
-import { type VisualNovelDetailedEntry, type VisualNovelExternalLinkEntry } from '../types/apiTypes';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import {
+  type UserListLabelDefinition,
+  type UserVisualNovelListEntryDetails,
+  type VisualNovelDetailedEntry,
+  type VisualNovelExternalLinkEntry,
+  type VisualNovelReleaseEntry
+} from '../types/apiTypes';
+import {
+  formatReleaseAgeRating,
+  formatReleaseAnimationLabel,
+  formatReleaseLanguageLabel,
+  formatReleaseMediaLabel,
+  formatReleasePlatformLabel,
+  formatReleaseResolution,
+  formatReleaseTypeLabel,
+  formatReleaseVoicedLabel
+} from '../utils/releaseLabels';
 import { renderVndbDescription } from '../utils/renderVndbDescription';
+import { formatStaffRoleLabel, STAFF_ROLE_DISPLAY_ORDER } from '../utils/staffRoleLabels';
+import { EMPTY_USER_LIST_ENTRY_DETAILS } from '../utils/userListEntryDetails';
+import {
+  DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER,
+  findStatusLabelIdentifier,
+  isStatusUserListLabel,
+  USER_LIST_STATUS_OPTIONS
+} from '../utils/userListLabels';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import { UserListEntryEditor } from './UserListEntryEditor';
+import { UserListLabelPicker } from './UserListLabelPicker';
+import { VndbErrorNotice } from './VndbErrorNotice';
 import styles from './VisualNovelList.module.css'; // Reusing our structural styles for consistency
 
 interface VisualNovelDetailViewProperties {
@@ -19,6 +50,7 @@ interface VisualNovelDetailViewProperties {
   onTagSelection: (tagName: string, tagIdentifier?: string) => void;
   onRelatedVisualNovelSelection: (visualNovelIdentifier: string) => void;
   onDeveloperSelection: (developerName: string, developerIdentifier?: string) => void;
+  onStaffSelection: (staffIdentifier: string) => void;
   authenticatedSession: {
     token: string;
     userId: string;
@@ -26,7 +58,19 @@ interface VisualNovelDetailViewProperties {
     permissions: string[];
   } | null;
   onAddVisualNovelToUserList: (visualNovelIdentifier: string, labelIdentifier?: number) => Promise<void>;
+  onUpdateVisualNovelUserListStatus: (visualNovelIdentifier: string, statusLabelIdentifier: number) => Promise<void>;
+  onUpdateVisualNovelUserListEntryDetails: (
+    visualNovelIdentifier: string,
+    detailChanges: Partial<UserVisualNovelListEntryDetails>
+  ) => Promise<void>;
+  onRemoveVisualNovelFromUserList: (visualNovelIdentifier: string) => Promise<void>;
+  onUpdateVisualNovelUserListLabels: (
+    visualNovelIdentifier: string,
+    labelChanges: { labelsToSet: number[]; labelsToUnset: number[] }
+  ) => Promise<void>;
+  userListLabelDefinitions: UserListLabelDefinition[];
   onUserListRefreshRequested: () => void;
+  onReauthenticationRequested: () => void;
   defaultTagSpoilerLevel: 0 | 1 | 2;
 }
 
@@ -38,9 +82,16 @@ export function VisualNovelDetailView({
   onTagSelection,
   onRelatedVisualNovelSelection,
   onDeveloperSelection,
+  onStaffSelection,
   authenticatedSession,
   onAddVisualNovelToUserList,
+  onUpdateVisualNovelUserListStatus,
+  onUpdateVisualNovelUserListEntryDetails,
+  onRemoveVisualNovelFromUserList,
+  onUpdateVisualNovelUserListLabels,
+  userListLabelDefinitions,
   onUserListRefreshRequested,
+  onReauthenticationRequested,
   defaultTagSpoilerLevel
 }: VisualNovelDetailViewProperties) {
   type TagCategoryFilter = 'all' | 'cont' | 'ero' | 'tech';
@@ -59,63 +110,74 @@ export function VisualNovelDetailView({
   const [isDataLoading, setIsDataLoading] = useState<boolean>(true);
   const [isSupplementalDataLoading, setIsSupplementalDataLoading] = useState<boolean>(true);
   const [storeLinkEntries, setStoreLinkEntries] = useState<VisualNovelExternalLinkEntry[]>([]);
-  const [networkErrorMessage, setNetworkErrorMessage] = useState<string | null>(null);
+  const [releaseEntries, setReleaseEntries] = useState<VisualNovelReleaseEntry[]>([]);
+  const [areReleasesTruncated, setAreReleasesTruncated] = useState<boolean>(false);
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  const [detailReloadRequestToken, setDetailReloadRequestToken] = useState<number>(0);
   const [areTagsVisible, setAreTagsVisible] = useState<boolean>(false);
   const [areScreenshotsVisible, setAreScreenshotsVisible] = useState<boolean>(false);
   const [areStoreLinksVisible, setAreStoreLinksVisible] = useState<boolean>(false);
   const [areDevelopersVisible, setAreDevelopersVisible] = useState<boolean>(true);
   const [areRelatedTitlesVisible, setAreRelatedTitlesVisible] = useState<boolean>(true);
+  const [areStaffCreditsVisible, setAreStaffCreditsVisible] = useState<boolean>(false);
+  const [areReleasesVisible, setAreReleasesVisible] = useState<boolean>(false);
+  const [activeReleaseLanguageFilter, setActiveReleaseLanguageFilter] = useState<string>('all');
+  const [activeReleasePlatformFilter, setActiveReleasePlatformFilter] = useState<string>('all');
   const [maxVisibleTagSpoilerLevel, setMaxVisibleTagSpoilerLevel] = useState<0 | 1 | 2>(defaultTagSpoilerLevel);
   const [activeTagCategoryFilter, setActiveTagCategoryFilter] = useState<TagCategoryFilter>('all');
   const [tagCategoryByIdentifier, setTagCategoryByIdentifier] = useState<Record<string, string>>({});
   const [isAddOperationInFlight, setIsAddOperationInFlight] = useState<boolean>(false);
   const [addOperationMessage, setAddOperationMessage] = useState<string | null>(null);
+  const [listMutationError, setListMutationError] = useState<VndbErrorPresentation | null>(null);
   const hasListWritePermission = authenticatedSession?.permissions.includes('listwrite') ?? false;
   const hasListReadPermission = authenticatedSession?.permissions.includes('listread') ?? false;
   const [isUserListStateLoading, setIsUserListStateLoading] = useState<boolean>(false);
   const [isCurrentVisualNovelInUserList, setIsCurrentVisualNovelInUserList] = useState<boolean>(false);
-  const [selectedStatusLabelIdentifier, setSelectedStatusLabelIdentifier] = useState<number>(5);
+  const [selectedStatusLabelIdentifier, setSelectedStatusLabelIdentifier] = useState<number>(DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER);
+  const [userListEntryDetails, setUserListEntryDetails] = useState<UserVisualNovelListEntryDetails>(EMPTY_USER_LIST_ENTRY_DETAILS);
+  const [assignedUserListLabelIdentifiers, setAssignedUserListLabelIdentifiers] = useState<number[]>([]);
   const [activeScreenshotIndex, setActiveScreenshotIndex] = useState<number | null>(null);
   const screenshotTouchStartXRef = useRef<number | null>(null);
   const screenshotTouchCurrentXRef = useRef<number | null>(null);
 
-  const USER_LIST_STATUS_OPTIONS = [
-    { id: 1, label: 'Playing' },
-    { id: 2, label: 'Finished' },
-    { id: 3, label: 'Stalled' },
-    { id: 4, label: 'Dropped' },
-    { id: 5, label: 'Wishlist' },
-    { id: 6, label: 'Blacklist' }
-  ];
-
   // Reload full detail record whenever selected VN changes.
   useEffect(() => {
     let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
     setIsDataLoading(true);
     setIsSupplementalDataLoading(true);
     setStoreLinkEntries([]);
-    setNetworkErrorMessage(null);
+    setReleaseEntries([]);
+    setAreReleasesTruncated(false);
+    setNetworkError(null);
     setDetailedVisualNovelData(null);
     setAreTagsVisible(false);
     setAreScreenshotsVisible(false);
     setAreStoreLinksVisible(false);
     setAreDevelopersVisible(true);
     setAreRelatedTitlesVisible(true);
+    setAreStaffCreditsVisible(false);
+    setAreReleasesVisible(false);
+    setActiveReleaseLanguageFilter('all');
+    setActiveReleasePlatformFilter('all');
     setMaxVisibleTagSpoilerLevel(defaultTagSpoilerLevel);
     setActiveTagCategoryFilter('all');
     setTagCategoryByIdentifier({});
     setAddOperationMessage(null);
+    setListMutationError(null);
     setIsAddOperationInFlight(false);
     setIsCurrentVisualNovelInUserList(false);
-    setSelectedStatusLabelIdentifier(5);
+    setSelectedStatusLabelIdentifier(DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER);
+    setUserListEntryDetails(EMPTY_USER_LIST_ENTRY_DETAILS);
+    setAssignedUserListLabelIdentifiers([]);
     setActiveScreenshotIndex(null);
 
     async function executeDetailedDataFetch() {
       try {
-        const coreResponsePayload = await fetchVisualNovelCoreDetailsById(visualNovelIdentifier);
+        const coreResponsePayload = await fetchVisualNovelCoreDetailsById(visualNovelIdentifier, lifecycleAbortController.signal);
         if (coreResponsePayload.results.length === 0) {
           if (!hasLifecycleBeenCancelled) {
-            setNetworkErrorMessage('System Error: No visual novel found with that identifier.');
+            setNetworkError(describeVndbError(new VndbNotFoundError('No visual novel found with that identifier.'), ''));
             setIsDataLoading(false);
             setIsSupplementalDataLoading(false);
           }
@@ -129,13 +191,23 @@ export function VisualNovelDetailView({
         }
 
         try {
-          const [supplementalResponsePayload, storeLinksResponsePayload] = await Promise.all([
-            fetchVisualNovelSupplementalDetailsById(visualNovelIdentifier),
-            fetchVisualNovelStoreLinksById(visualNovelIdentifier).catch(() => [])
+          const [
+            supplementalResponsePayload,
+            storeLinksResponsePayload,
+            releasesResponsePayload,
+            staffCreditsResponsePayload
+          ] = await Promise.all([
+            fetchVisualNovelSupplementalDetailsById(visualNovelIdentifier, lifecycleAbortController.signal),
+            fetchVisualNovelStoreLinksById(visualNovelIdentifier, lifecycleAbortController.signal).catch(() => []),
+            // Shares one cached /release query with the store links above.
+            fetchVisualNovelReleasesById(visualNovelIdentifier, lifecycleAbortController.signal)
+              .catch(() => ({ entries: [], isTruncated: false })),
+            fetchVisualNovelStaffCreditsById(visualNovelIdentifier, lifecycleAbortController.signal).catch(() => null)
           ]);
           const supplementalEntry = supplementalResponsePayload.results[0] as Partial<VisualNovelDetailedEntry> | undefined;
+          const staffCreditsEntry = staffCreditsResponsePayload?.results[0];
 
-          if (!hasLifecycleBeenCancelled && supplementalEntry) {
+          if (!hasLifecycleBeenCancelled && (supplementalEntry || staffCreditsEntry)) {
             setDetailedVisualNovelData((currentData) => {
               if (!currentData) {
                 return currentData;
@@ -143,21 +215,23 @@ export function VisualNovelDetailView({
 
               return {
                 ...currentData,
-                ...supplementalEntry
+                ...(supplementalEntry ?? {}),
+                staff: staffCreditsEntry?.staff ?? currentData.staff,
+                va: staffCreditsEntry?.va ?? currentData.va
               };
             });
           }
 
           if (!hasLifecycleBeenCancelled) {
             setStoreLinkEntries(storeLinksResponsePayload);
+            setReleaseEntries(releasesResponsePayload.entries);
+            setAreReleasesTruncated(releasesResponsePayload.isTruncated);
           }
 
-          const tagIdentifiers = (supplementalEntry?.tags ?? [])
-            .map((tagEntry) => tagEntry.id)
-            .filter((tagIdentifier): tagIdentifier is string => typeof tagIdentifier === 'string' && tagIdentifier.trim() !== '');
+          const tagIdentifiers = (supplementalEntry?.tags ?? []).map((tagEntry) => tagEntry.id);
           if (tagIdentifiers.length > 0) {
             try {
-              const tagMetadataResponse = await fetchTagMetadataByIds(tagIdentifiers);
+              const tagMetadataResponse = await fetchTagMetadataByIds(tagIdentifiers, lifecycleAbortController.signal);
               if (!hasLifecycleBeenCancelled) {
                 setTagCategoryByIdentifier(
                   Object.fromEntries(
@@ -177,10 +251,8 @@ export function VisualNovelDetailView({
           }
         }
       } catch (caughtError) {
-        if (!hasLifecycleBeenCancelled) {
-          setNetworkErrorMessage(
-            caughtError instanceof Error ? caughtError.message : 'An unknown system error occurred.'
-          );
+        if (!hasLifecycleBeenCancelled && !isAbortError(caughtError)) {
+          setNetworkError(describeVndbError(caughtError, 'An unknown system error occurred.'));
           setIsSupplementalDataLoading(false);
         }
       } finally {
@@ -194,8 +266,9 @@ export function VisualNovelDetailView({
 
     return () => {
       hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
     };
-  }, [visualNovelIdentifier]);
+  }, [visualNovelIdentifier, detailReloadRequestToken]);
 
   useEffect(() => {
     setMaxVisibleTagSpoilerLevel(defaultTagSpoilerLevel);
@@ -204,6 +277,7 @@ export function VisualNovelDetailView({
   // Lightweight membership probe used to switch "Add" vs "Already in My List" state on detail screen.
   useEffect(() => {
     let hasLifecycleBeenCancelled = false;
+    const lifecycleAbortController = new AbortController();
 
     async function executeUserListMembershipLookup() {
       if (!authenticatedSession || !hasListReadPermission) {
@@ -217,18 +291,25 @@ export function VisualNovelDetailView({
         const userListEntry = await fetchAuthenticatedUserVisualNovelListEntry(
           authenticatedSession.token,
           authenticatedSession.userId,
-          visualNovelIdentifier
+          visualNovelIdentifier,
+          lifecycleAbortController.signal
         );
         if (hasLifecycleBeenCancelled) {
           return;
         }
 
         setIsCurrentVisualNovelInUserList(userListEntry.isInList);
+        setAssignedUserListLabelIdentifiers(userListEntry.labels);
+        setUserListEntryDetails({
+          vote: userListEntry.vote,
+          notes: userListEntry.notes,
+          started: userListEntry.started,
+          finished: userListEntry.finished
+        });
         if (userListEntry.isInList) {
-          const activeStatusLabel = USER_LIST_STATUS_OPTIONS.find((statusOption) => userListEntry.labels.includes(statusOption.id));
-          setSelectedStatusLabelIdentifier(activeStatusLabel?.id ?? 5);
+          setSelectedStatusLabelIdentifier(findStatusLabelIdentifier(userListEntry.labels) ?? DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER);
         } else {
-          setSelectedStatusLabelIdentifier(5);
+          setSelectedStatusLabelIdentifier(DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER);
         }
       } catch (caughtError) {
         if (hasLifecycleBeenCancelled) {
@@ -248,6 +329,7 @@ export function VisualNovelDetailView({
 
     return () => {
       hasLifecycleBeenCancelled = true;
+      lifecycleAbortController.abort();
     };
   }, [authenticatedSession, hasListReadPermission, visualNovelIdentifier]);
 
@@ -268,81 +350,25 @@ export function VisualNovelDetailView({
 
     return 'unknown';
   }
-  const rawTagEntries = Array.isArray(detailedVisualNovelData?.tags) ? detailedVisualNovelData.tags : [];
-  const normalizedTagEntries = rawTagEntries.reduce<Array<{
-    id: string | undefined;
-    name: string;
-    spoiler: number;
-    rating: number | null;
-    category: 'cont' | 'ero' | 'tech' | 'unknown';
-  }>>((accumulatedTagEntries, rawTagEntry) => {
-    if (!rawTagEntry || typeof rawTagEntry !== 'object') {
-      return accumulatedTagEntries;
-    }
-
-    const tagEntry = rawTagEntry as {
-      id?: unknown;
-      name?: unknown;
-      spoiler?: unknown;
-      rating?: unknown;
-      category?: unknown;
-    };
-    const normalizedTagName = typeof tagEntry.name === 'string' ? tagEntry.name.trim() : '';
-    if (normalizedTagName === '') {
-      return accumulatedTagEntries;
-    }
-
-    const normalizedTagIdentifier = typeof tagEntry.id === 'string' ? tagEntry.id : undefined;
-    accumulatedTagEntries.push({
-      id: normalizedTagIdentifier,
-      name: normalizedTagName,
-      spoiler: typeof tagEntry.spoiler === 'number' && Number.isFinite(tagEntry.spoiler) ? Number(tagEntry.spoiler) : 0,
-      rating: typeof tagEntry.rating === 'number' && Number.isFinite(tagEntry.rating) ? Number(tagEntry.rating) : null,
-      category: normalizeTagCategory(
-        (typeof tagEntry.category === 'string' ? tagEntry.category : undefined) ||
-          (normalizedTagIdentifier ? tagCategoryByIdentifier[normalizedTagIdentifier] : undefined)
-      )
-    });
-    return accumulatedTagEntries;
-  }, []);
+  const normalizedTagEntries = (detailedVisualNovelData?.tags ?? [])
+    .filter((tagEntry) => tagEntry.name.trim() !== '')
+    .map((tagEntry) => ({
+      id: tagEntry.id,
+      name: tagEntry.name.trim(),
+      spoiler: tagEntry.spoiler ?? 0,
+      rating: tagEntry.rating ?? null,
+      category: normalizeTagCategory(tagEntry.category || tagCategoryByIdentifier[tagEntry.id])
+    }));
   // Respect spoiler and category toggles before rendering tag chips.
   const filteredTagEntries = normalizedTagEntries
     .filter((tagEntry) => tagEntry.spoiler <= maxVisibleTagSpoilerLevel)
     .filter((tagEntry) => activeTagCategoryFilter === 'all' || tagEntry.category === activeTagCategoryFilter)
     .sort((firstTagEntry, secondTagEntry) => (secondTagEntry.rating ?? 0) - (firstTagEntry.rating ?? 0));
-  const screenshotEntries = Array.isArray(detailedVisualNovelData?.screenshots) ? detailedVisualNovelData.screenshots : [];
-  const normalizedScreenshotEntries = screenshotEntries
-    .map((rawScreenshotEntry, screenshotIndex) => {
-      if (!rawScreenshotEntry || typeof rawScreenshotEntry !== 'object') {
-        return null;
-      }
-
-      const screenshotEntry = rawScreenshotEntry as { id?: unknown; thumbnail?: unknown; url?: unknown };
-      const previewUrl = typeof screenshotEntry.thumbnail === 'string'
-        ? screenshotEntry.thumbnail
-        : typeof screenshotEntry.url === 'string'
-          ? screenshotEntry.url
-          : '';
-      const fullSizeUrl = typeof screenshotEntry.url === 'string'
-        ? screenshotEntry.url
-        : typeof screenshotEntry.thumbnail === 'string'
-          ? screenshotEntry.thumbnail
-          : '';
-      if (!previewUrl || !fullSizeUrl) {
-        return null;
-      }
-
-      const normalizedScreenshotIdentifier = typeof screenshotEntry.id === 'string' && screenshotEntry.id.trim() !== ''
-        ? screenshotEntry.id
-        : `screenshot-${screenshotIndex}`;
-
-      return {
-        id: normalizedScreenshotIdentifier,
-        previewUrl,
-        fullSizeUrl
-      };
-    })
-    .filter((screenshotEntry): screenshotEntry is { id: string; previewUrl: string; fullSizeUrl: string } => Boolean(screenshotEntry));
+  const normalizedScreenshotEntries = (detailedVisualNovelData?.screenshots ?? []).map((screenshotEntry, screenshotIndex) => ({
+    id: `screenshot-${screenshotIndex}`,
+    previewUrl: screenshotEntry.thumbnail || screenshotEntry.url,
+    fullSizeUrl: screenshotEntry.url
+  }));
   const relationLabelByCode: Record<string, string> = {
     preq: 'Prequel',
     seq: 'Sequel',
@@ -354,67 +380,49 @@ export function VisualNovelDetailView({
     char: 'Character',
     summary: 'Summary'
   };
-  const rawRelationEntries = Array.isArray(detailedVisualNovelData?.relations) ? detailedVisualNovelData.relations : [];
-  const relatedVisualNovelEntries = rawRelationEntries
-    .map((rawRelationEntry) => {
-      if (!rawRelationEntry || typeof rawRelationEntry !== 'object') {
-        return null;
-      }
-
-      const relationEntry = rawRelationEntry as { id?: unknown; title?: unknown; relation?: unknown };
-      const normalizedRelationIdentifier = typeof relationEntry.id === 'string' ? relationEntry.id : '';
-      const normalizedRelationTitle = typeof relationEntry.title === 'string' ? relationEntry.title : '';
-      if (!normalizedRelationIdentifier || !normalizedRelationTitle) {
-        return null;
-      }
-
-      const relationCode = typeof relationEntry.relation === 'string' ? relationEntry.relation.toLowerCase() : '';
-      return {
-        id: normalizedRelationIdentifier,
-        title: normalizedRelationTitle,
-        relation: relationCode,
-        relationLabel: relationLabelByCode[relationCode] || 'Related'
-      };
-    })
-    .filter((relationEntry): relationEntry is { id: string; title: string; relation: string; relationLabel: string } => Boolean(relationEntry));
-
-  interface NormalizedContributorEntry {
-    id?: string;
-    name: string;
-    role: string;
-  }
-
-  function normalizeContributorEntries(rawContributorEntries: unknown[]): NormalizedContributorEntry[] {
-    const normalizedEntries: NormalizedContributorEntry[] = [];
-
-    for (const rawContributorEntry of rawContributorEntries) {
-      if (!rawContributorEntry || typeof rawContributorEntry !== 'object') {
-        continue;
-      }
-
-      const contributorEntry = rawContributorEntry as Record<string, unknown>;
-        const nestedContributor = contributorEntry.developer && typeof contributorEntry.developer === 'object'
-          ? contributorEntry.developer as Record<string, unknown>
-          : null;
-        const idValue = nestedContributor?.id ?? contributorEntry.id;
-        const nameValue = nestedContributor?.name ?? contributorEntry.name;
-        const roleValue = contributorEntry.role;
-
-      if (typeof nameValue !== 'string' || nameValue.trim() === '') {
-        continue;
-      }
-
-      normalizedEntries.push({
-        id: typeof idValue === 'string' ? idValue : undefined,
-        name: nameValue,
-        role: typeof roleValue === 'string' ? roleValue : ''
+  const relatedVisualNovelEntries = (detailedVisualNovelData?.relations ?? []).map((relationEntry) => {
+    const relationCode = relationEntry.relation.toLowerCase();
+    return {
+      id: relationEntry.id,
+      title: relationEntry.title,
+      relation: relationCode,
+      relationLabel: relationLabelByCode[relationCode] || 'Related'
+    };
+  });
+
+  const developerEntries = detailedVisualNovelData?.developers ?? [];
+
+  // One person can hold several roles (or be credited twice under aliases); group per role and dedupe per person.
+  const staffCreditGroups = STAFF_ROLE_DISPLAY_ORDER
+    .map((roleCode) => {
+      const seenStaffIdentifiers = new Set<string>();
+      const roleEntries = (detailedVisualNovelData?.staff ?? []).filter((staffCredit) => {
+        const normalizedRoleCode = (STAFF_ROLE_DISPLAY_ORDER as readonly string[]).includes(staffCredit.role) ? staffCredit.role : 'staff';
+        if (normalizedRoleCode !== roleCode || seenStaffIdentifiers.has(staffCredit.id)) {
+          return false;
+        }
+        seenStaffIdentifiers.add(staffCredit.id);
+        return true;
       });
-    }
-
-    return normalizedEntries;
-  }
-
-  const developerEntries = normalizeContributorEntries((detailedVisualNovelData?.developers ?? []) as unknown[]);
+      return { roleCode, roleLabel: formatStaffRoleLabel(roleCode), roleEntries };
+    })
+    .filter((staffCreditGroup) => staffCreditGroup.roleEntries.length > 0);
+  const staffCreditCount = staffCreditGroups.reduce((totalCount, staffCreditGroup) => totalCount + staffCreditGroup.roleEntries.length, 0);
+  const voiceCastEntries = (detailedVisualNovelData?.va ?? []).filter((voiceCredit) => voiceCredit.staff && voiceCredit.character);
+  const releaseLanguageOptions = [...new Set(
+    releaseEntries.flatMap((releaseEntry) => (releaseEntry.languages ?? []).map((languageEntry) => languageEntry.lang))
+  )].sort((firstLanguage, secondLanguage) => (
+    formatReleaseLanguageLabel(firstLanguage).localeCompare(formatReleaseLanguageLabel(secondLanguage))
+  ));
+  const releasePlatformOptions = [...new Set(releaseEntries.flatMap((releaseEntry) => releaseEntry.platforms ?? []))]
+    .sort((firstPlatform, secondPlatform) => (
+      formatReleasePlatformLabel(firstPlatform).localeCompare(formatReleasePlatformLabel(secondPlatform))
+    ));
+  const filteredReleaseEntries = releaseEntries.filter((releaseEntry) => (
+    (activeReleaseLanguageFilter === 'all'
+      || (releaseEntry.languages ?? []).some((languageEntry) => languageEntry.lang === activeReleaseLanguageFilter))
+    && (activeReleasePlatformFilter === 'all' || (releaseEntry.platforms ?? []).includes(activeReleasePlatformFilter))
+  ));
 
   function formatReleaseDateForDisplay(rawReleaseDate: string | null | undefined) {
     if (!rawReleaseDate || rawReleaseDate.trim() === '') {
@@ -463,16 +471,18 @@ export function VisualNovelDetailView({
     }
 
     setAddOperationMessage(null);
+    setListMutationError(null);
     setIsAddOperationInFlight(true);
 
     try {
       await onAddVisualNovelToUserList(visualNovelIdForMutation, selectedStatusLabelIdentifier);
       setIsCurrentVisualNovelInUserList(true);
+      setAssignedUserListLabelIdentifiers([selectedStatusLabelIdentifier]);
       const selectedStatusLabel = USER_LIST_STATUS_OPTIONS.find((statusOption) => statusOption.id === selectedStatusLabelIdentifier)?.label ?? 'Wishlist';
       setAddOperationMessage(`Added to your list (${selectedStatusLabel}).`);
       onUserListRefreshRequested();
     } catch (caughtError) {
-      setAddOperationMessage(caughtError instanceof Error ? caughtError.message : 'Unable to add visual novel.');
+      setListMutationError(describeVndbError(caughtError, 'Unable to add visual novel.'));
     } finally {
       setIsAddOperationInFlight(false);
     }
@@ -480,7 +490,7 @@ export function VisualNovelDetailView({
 
   async function handleStatusUpdateClick() {
     if (!authenticatedSession) {
-      setAddOperationMessage('Authentication required.');
+      setListMutationError(describeVndbError(new VndbAuthenticationError(), ''));
       return;
     }
     const visualNovelIdForMutation = detailedVisualNovelData?.id;
@@ -490,18 +500,19 @@ export function VisualNovelDetailView({
     }
 
     setAddOperationMessage(null);
+    setListMutationError(null);
     setIsAddOperationInFlight(true);
     try {
-      await updateAuthenticatedUserVisualNovelStatusLabel(
-        authenticatedSession.token,
-        visualNovelIdForMutation,
-        selectedStatusLabelIdentifier
-      );
+      await onUpdateVisualNovelUserListStatus(visualNovelIdForMutation, selectedStatusLabelIdentifier);
       const selectedStatusLabel = USER_LIST_STATUS_OPTIONS.find((statusOption) => statusOption.id === selectedStatusLabelIdentifier)?.label ?? 'Updated';
       setAddOperationMessage(`Status updated to ${selectedStatusLabel}.`);
+      setAssignedUserListLabelIdentifiers((currentLabelIdentifiers) => [
+        ...currentLabelIdentifiers.filter((labelIdentifier) => !isStatusUserListLabel(labelIdentifier)),
+        selectedStatusLabelIdentifier
+      ]);
       onUserListRefreshRequested();
     } catch (caughtError) {
-      setAddOperationMessage(caughtError instanceof Error ? caughtError.message : 'Unable to update list status.');
+      setListMutationError(describeVndbError(caughtError, 'Unable to update list status.'));
     } finally {
       setIsAddOperationInFlight(false);
     }
@@ -509,7 +520,7 @@ export function VisualNovelDetailView({
 
   async function handleRemoveFromListClick() {
     if (!authenticatedSession) {
-      setAddOperationMessage('Authentication required.');
+      setListMutationError(describeVndbError(new VndbAuthenticationError(), ''));
       return;
     }
     const visualNovelIdForMutation = detailedVisualNovelData?.id;
@@ -519,20 +530,39 @@ export function VisualNovelDetailView({
     }
 
     setAddOperationMessage(null);
+    setListMutationError(null);
     setIsAddOperationInFlight(true);
     try {
-      await removeVisualNovelFromAuthenticatedUserList(authenticatedSession.token, visualNovelIdForMutation);
+      await onRemoveVisualNovelFromUserList(visualNovelIdForMutation);
       setIsCurrentVisualNovelInUserList(false);
-      setSelectedStatusLabelIdentifier(5);
+      setSelectedStatusLabelIdentifier(DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER);
+      setUserListEntryDetails(EMPTY_USER_LIST_ENTRY_DETAILS);
+      setAssignedUserListLabelIdentifiers([]);
       setAddOperationMessage('Removed from your list.');
       onUserListRefreshRequested();
     } catch (caughtError) {
-      setAddOperationMessage(caughtError instanceof Error ? caughtError.message : 'Unable to remove visual novel.');
+      setListMutationError(describeVndbError(caughtError, 'Unable to remove visual novel.'));
     } finally {
       setIsAddOperationInFlight(false);
     }
   }
 
+  // Errors propagate to the editor, which shows them next to the form.
+  async function handleUserListEntryDetailsSave(detailChanges: Partial<UserVisualNovelListEntryDetails>) {
+    await onUpdateVisualNovelUserListEntryDetails(visualNovelIdentifier, detailChanges);
+    setUserListEntryDetails((currentDetails) => ({ ...currentDetails, ...detailChanges }));
+    onUserListRefreshRequested();
+  }
+
+  async function handleUserListLabelChange(labelChanges: { labelsToSet: number[]; labelsToUnset: number[] }) {
+    await onUpdateVisualNovelUserListLabels(visualNovelIdentifier, labelChanges);
+    setAssignedUserListLabelIdentifiers((currentLabelIdentifiers) => [
+      ...currentLabelIdentifiers.filter((labelIdentifier) => !labelChanges.labelsToUnset.includes(labelIdentifier)),
+      ...labelChanges.labelsToSet
+    ]);
+    onUserListRefreshRequested();
+  }
+
   function navigateToPreviousScreenshot() {
     if (activeScreenshotIndex === null || normalizedScreenshotEntries.length === 0) {
       return;
@@ -618,11 +648,14 @@ export function VisualNovelDetailView({
     );
   }
 
-  if (networkErrorMessage || !detailedVisualNovelData) {
+  if (networkError || !detailedVisualNovelData) {
     return (
       <div className={styles.interfaceContainerBoundary}>
         <button onClick={onNavigateHome} className={styles.searchExecutionButton} style={themedPrimaryButtonStyle}>&larr; Return to Home</button>
-        <div className={styles.systemErrorMessage}>{networkErrorMessage ?? 'Unable to load visual novel details.'}</div>
+        <VndbErrorNotice
+          errorPresentation={networkError ?? describeVndbError(null, 'Unable to load visual novel details.')}
+          onRetry={() => setDetailReloadRequestToken((currentToken) => currentToken + 1)}
+        />
       </div>
     );
   }
@@ -734,6 +767,9 @@ export function VisualNovelDetailView({
               )}
               {isUserListStateLoading && <p className={styles.detailActionMessage}>Checking list status...</p>}
               {addOperationMessage && <p className={styles.detailActionMessage}>{addOperationMessage}</p>}
+              {listMutationError && (
+                <VndbErrorNotice errorPresentation={listMutationError} onReauthenticationRequested={onReauthenticationRequested} />
+              )}
               {!hasListWritePermission && (
                 <p className={styles.detailActionMessage}>Token missing `listwrite` permission.</p>
               )}
@@ -742,6 +778,23 @@ export function VisualNovelDetailView({
               )}
             </div>
           )}
+          {authenticatedSession && isCurrentVisualNovelInUserList && (
+            <UserListEntryEditor
+              variant="panel"
+              entryDetails={userListEntryDetails}
+              onSave={handleUserListEntryDetailsSave}
+              isDisabled={!hasListWritePermission || isAddOperationInFlight}
+            />
+          )}
+          {authenticatedSession && isCurrentVisualNovelInUserList && (
+            <UserListLabelPicker
+              variant="panel"
+              labelDefinitions={userListLabelDefinitions}
+              assignedLabelIdentifiers={assignedUserListLabelIdentifiers}
+              onChange={handleUserListLabelChange}
+              isDisabled={!hasListWritePermission || isAddOperationInFlight}
+            />
+          )}
         </div>
       </div>
 
@@ -809,7 +862,7 @@ export function VisualNovelDetailView({
           <div className={styles.contributorChipRow}>
             {developerEntries.map((developerEntry) => (
               <button
-                key={`${developerEntry.id ?? developerEntry.name}-developer`}
+                key={`${developerEntry.id}-developer`}
                 type="button"
                 className={styles.contributorChipButton}
                 onClick={() => onDeveloperSelection(developerEntry.name, developerEntry.id)}
@@ -823,6 +876,65 @@ export function VisualNovelDetailView({
         ) : null}
       </div>
 
+      <div className={`${styles.detailContributorSection} ${styles.detailSectionFull}`}>
+        <button
+          type="button"
+          className={styles.detailTagToggleButton}
+          style={themedSecondaryButtonStyle}
+          onClick={() => setAreStaffCreditsVisible((currentState) => !currentState)}
+          aria-expanded={areStaffCreditsVisible}
+        >
+          {areStaffCreditsVisible ? 'Hide Staff' : `Show Staff (${staffCreditCount + voiceCastEntries.length})`}
+        </button>
+        {!areStaffCreditsVisible && (
+          <p className={styles.detailActionMessage}>Writers, artists, composers, and voice cast.</p>
+        )}
+        {areStaffCreditsVisible && isSupplementalDataLoading && <p className={styles.detailActionMessage}>Loading staff...</p>}
+        {areStaffCreditsVisible && !isSupplementalDataLoading && staffCreditCount === 0 && voiceCastEntries.length === 0 && (
+          <p>No staff data available.</p>
+        )}
+        {areStaffCreditsVisible && staffCreditGroups.map((staffCreditGroup) => (
+          <div key={staffCreditGroup.roleCode} className={styles.contributorGroupBoundary}>
+            <h4 className={styles.contributorGroupTitle}>{staffCreditGroup.roleLabel}</h4>
+            <div className={styles.contributorChipRow}>
+              {staffCreditGroup.roleEntries.map((staffCredit) => (
+                <button
+                  key={`${staffCredit.id}-${staffCreditGroup.roleCode}`}
+                  type="button"
+                  className={styles.contributorChipButton}
+                  onClick={() => onStaffSelection(staffCredit.id)}
+                  title={staffCredit.note || undefined}
+                >
+                  {staffCredit.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        {areStaffCreditsVisible && voiceCastEntries.length > 0 && (
+          <div className={styles.contributorGroupBoundary}>
+            <h4 className={styles.contributorGroupTitle}>Voice Cast</h4>
+            <ul className={styles.relatedVisualNovelList}>
+              {voiceCastEntries.map((voiceCredit) => (
+                <li key={`${voiceCredit.staff.id}-${voiceCredit.character.id}`} className={styles.relatedVisualNovelListItem}>
+                  <button
+                    type="button"
+                    className={styles.relatedVisualNovelButton}
+                    onClick={() => onStaffSelection(voiceCredit.staff.id)}
+                  >
+                    <span className={styles.relatedVisualNovelRelationBadge}>{voiceCredit.character.name}</span>
+                    <span className={styles.relatedVisualNovelTitleText}>
+                      {voiceCredit.staff.name}
+                      {voiceCredit.note ? ` (${voiceCredit.note})` : ''}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
       <div className={styles.detailTagSection}>
         <button
           type="button"
@@ -885,7 +997,7 @@ export function VisualNovelDetailView({
             {filteredTagEntries.length > 0 ? (
               <ul className={styles.detailTagList}>
                 {filteredTagEntries.map((tagEntry) => (
-                  <li key={tagEntry.id ?? tagEntry.name}>
+                  <li key={tagEntry.id}>
                     <button
                       type="button"
                       className={`${styles.detailTagPillButton} ${
@@ -988,6 +1100,102 @@ export function VisualNovelDetailView({
           </ul>
         )}
       </div>
+
+      <div className={`${styles.detailStoreLinkSection} ${styles.detailSectionFull}`}>
+        <button
+          type="button"
+          className={styles.detailTagToggleButton}
+          style={themedSecondaryButtonStyle}
+          onClick={() => setAreReleasesVisible((currentState) => !currentState)}
+          aria-expanded={areReleasesVisible}
+        >
+          {areReleasesVisible ? 'Hide Releases' : `Show Releases (${releaseEntries.length})`}
+        </button>
+        {!areReleasesVisible && (
+          <p className={styles.detailActionMessage}>Editions by language, platform, and format.</p>
+        )}
+        {areReleasesVisible && releaseEntries.length > 0 && (
+          <div className={styles.tagVisibilityControlRow}>
+            <label className={styles.tagControlLabel} htmlFor="release-language-filter">Language</label>
+            <select
+              id="release-language-filter"
+              className={styles.tagSpoilerSelectField}
+              value={activeReleaseLanguageFilter}
+              onChange={(changeEvent) => setActiveReleaseLanguageFilter(changeEvent.target.value)}
+            >
+              <option value="all">All languages</option>
+              {releaseLanguageOptions.map((languageCode) => (
+                <option key={languageCode} value={languageCode}>{formatReleaseLanguageLabel(languageCode)}</option>
+              ))}
+            </select>
+            <label className={styles.tagControlLabel} htmlFor="release-platform-filter">Platform</label>
+            <select
+              id="release-platform-filter"
+              className={styles.tagSpoilerSelectField}
+              value={activeReleasePlatformFilter}
+              onChange={(changeEvent) => setActiveReleasePlatformFilter(changeEvent.target.value)}
+            >
+              <option value="all">All platforms</option>
+              {releasePlatformOptions.map((platformCode) => (
+                <option key={platformCode} value={platformCode}>{formatReleasePlatformLabel(platformCode)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {areReleasesVisible && isSupplementalDataLoading && <p className={styles.detailActionMessage}>Loading releases...</p>}
+        {areReleasesVisible && !isSupplementalDataLoading && releaseEntries.length === 0 && (
+          <p>No release data available.</p>
+        )}
+        {areReleasesVisible && releaseEntries.length > 0 && filteredReleaseEntries.length === 0 && (
+          <p>No releases match the selected language and platform.</p>
+        )}
+        {areReleasesVisible && areReleasesTruncated && (
+          <p className={styles.detailActionMessage}>
+            Showing the newest {releaseEntries.length} releases; older ones are past the paging limit.
+          </p>
+        )}
+        {areReleasesVisible && filteredReleaseEntries.length > 0 && (
+          <ul className={styles.releaseEntryList}>
+            {filteredReleaseEntries.map((releaseEntry) => {
+              const releaseTypeLabel = formatReleaseTypeLabel(releaseEntry, detailedVisualNovelData.id);
+              const releaseDetailLines = [
+                ['Languages', (releaseEntry.languages ?? [])
+                  .map((languageEntry) => `${formatReleaseLanguageLabel(languageEntry.lang)}${languageEntry.mtl ? ' (MTL)' : ''}`)
+                  .join(', ')],
+                ['Platforms', (releaseEntry.platforms ?? []).map(formatReleasePlatformLabel).join(', ')],
+                ['Media', formatReleaseMediaLabel(releaseEntry)],
+                ['Age Rating', formatReleaseAgeRating(releaseEntry.minage)],
+                ['Voiced', formatReleaseVoicedLabel(releaseEntry.voiced)],
+                ['Animation', formatReleaseAnimationLabel(releaseEntry.animation)],
+                ['Resolution', formatReleaseResolution(releaseEntry.resolution)]
+              ].filter((detailLine): detailLine is [string, string] => Boolean(detailLine[1]));
+
+              return (
+                <li key={releaseEntry.id} className={styles.releaseEntryCard}>
+                  <div className={styles.releaseEntryHeader}>
+                    <span className={styles.releaseEntryTitle}>{releaseEntry.title}</span>
+                    <span className={styles.detailStoreLinkMeta}>{formatReleaseDateForDisplay(releaseEntry.released)}</span>
+                  </div>
+                  <div className={styles.releaseEntryFlagRow}>
+                    <span className={styles.releaseEntryFlag}>{releaseEntry.official ? 'Official' : 'Unofficial'}</span>
+                    {releaseTypeLabel && <span className={styles.releaseEntryFlag}>{releaseTypeLabel}</span>}
+                    {releaseEntry.freeware && <span className={styles.releaseEntryFlag}>Freeware</span>}
+                    {releaseEntry.patch && <span className={styles.releaseEntryFlag}>Patch</span>}
+                  </div>
+                  <dl className={styles.releaseEntryDetailList}>
+                    {releaseDetailLines.map(([detailLabel, detailValue]) => (
+                      <div key={detailLabel} className={styles.releaseEntryDetailRow}>
+                        <dt>{detailLabel}</dt>
+                        <dd>{detailValue}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
       </div>
       {activeScreenshotIndex !== null && normalizedScreenshotEntries[activeScreenshotIndex] && (
         <div
@@ -2,18 +2,77 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import {
   fetchAuthenticatedUserVisualNovelIdentifierSet,
   fetchAuthenticatedUserVisualNovelList,
-  fetchVisualNovelEntries
+  fetchPublicUserListLabels,
+  fetchPublicUserVisualNovelList,
+  fetchTagEntries,
+  fetchVisualNovelEntries,
+  fetchVndbUserByName,
+  overlayQueuedUserListMutations,
+  readUserListEntryDetails,
+  VndbAuthenticationError
 } from '../api/visualNovelClient';
-import { type QueryParameters, type VisualNovelDatabaseEntry, type VisualNovelQueryResponse } from '../types/apiTypes';
+import { visualNovelFilters } from '../api/vndbFilterBuilder';
+import { isAbortError } from '../api/vndbRequestExecutor';
+import {
+  type QueryParameters,
+  type UserListLabelDefinition,
+  type UserListPageQuery,
+  type UserVisualNovelListEntryDetails,
+  type VisualNovelDatabaseEntry,
+  type VisualNovelQueryResponse,
+  type VndbUserLookupEntry
+} from '../types/apiTypes';
+import { countAdvancedFilterConditions, describeAdvancedFilter, parseAdvancedFilter } from '../utils/advancedVisualNovelFilter';
+import { expandSelectionRange } from '../utils/batchOperations';
+import { downloadTextFile } from '../utils/fileDownload';
+import { type SavedSearch } from '../utils/savedSearches';
+import { findStatusLabelIdentifier, isStatusUserListLabel } from '../utils/userListLabels';
+import { describeVndbError, type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import {
+  buildFiltersFromQueryDescriptor,
+  buildUserListFiltersFromQueryDescriptor,
+  buildUserListSortParameters,
+  DEFAULT_USER_LIST_DETAIL_FILTER_STATE,
+  filterUserListEntries,
+  hasLocalUserListDetailFilter,
+  isUserListSortField,
+  type ListFilterState,
+  type ListQueryDescriptor,
+  type ListSortState,
+  type UserListDetailFilterState,
+  type UserListQueryDescriptor
+} from '../utils/visualNovelListQuery';
+import { AdvancedFilterBuilder } from './AdvancedFilterBuilder';
+import { SavedSearchPanel } from './SavedSearchPanel';
+import { VisualNovelBatchToolbar, type VisualNovelBatchActionHandlers } from './VisualNovelBatchToolbar';
+import { UserListComparisonPanel } from './UserListComparisonPanel';
+import { UserListTransferPanel, type UserListEntryPatchHandler } from './UserListTransferPanel';
 import { VisualNovelListItem } from './VisualNovelListItem'; // Importing the new child boundary
+import { VndbErrorNotice } from './VndbErrorNotice';
 import styles from './VisualNovelList.module.css';
 
 interface VisualNovelListProperties {
   onVisualNovelSelection: (visualNovelIdentifier: string) => void;
   onVisualNovelPrefetch?: (visualNovelIdentifier: string) => void;
   homeNavigationRequestToken: number;
-  onAddVisualNovelToUserList: (visualNovelIdentifier: string, labelIdentifier?: number) => Promise<void>;
-  onUpdateVisualNovelUserListStatus: (visualNovelIdentifier: string, statusLabelIdentifier: number) => Promise<void>;
+  onAddVisualNovelToUserList: (visualNovelIdentifier: string, labelIdentifier?: number, requestSignal?: AbortSignal) => Promise<void>;
+  onUpdateVisualNovelUserListStatus: (
+    visualNovelIdentifier: string,
+    statusLabelIdentifier: number,
+    requestSignal?: AbortSignal
+  ) => Promise<void>;
+  onUpdateVisualNovelUserListEntryDetails: (
+    visualNovelIdentifier: string,
+    detailChanges: Partial<UserVisualNovelListEntryDetails>
+  ) => Promise<void>;
+  onUpdateVisualNovelUserListLabels: (
+    visualNovelIdentifier: string,
+    labelChanges: { labelsToSet: number[]; labelsToUnset: number[] },
+    requestSignal?: AbortSignal
+  ) => Promise<void>;
+  onRemoveVisualNovelFromUserList: (visualNovelIdentifier: string, requestSignal?: AbortSignal) => Promise<void>;
+  onPatchVisualNovelUserListEntry: UserListEntryPatchHandler;
+  userListLabelDefinitions: UserListLabelDefinition[];
   userListRefreshToken: number;
   tagSearchRequest: {
     requestId: number;
@@ -32,33 +91,28 @@ interface VisualNovelListProperties {
     permissions: string[];
   } | null;
   onOpenTagExplorer: () => void;
+  onReauthenticationRequested: () => void;
   nsfwCoverBlurMode: 'auto' | 'always' | 'never';
   rememberListSettings: boolean;
   defaultListSortField: 'default' | 'title' | 'released' | 'rating' | 'votecount' | 'id';
   defaultListSortDirection: 'asc' | 'desc';
   defaultListOnlyWithScreenshots: boolean;
   defaultListOnlyWithDescription: boolean;
-}
-
-interface ListQueryDescriptor {
-  kind: 'text' | 'tag' | 'developer';
-  term: string;
-  tagIdentifier?: string;
-  developerIdentifier?: string;
-  filters: ListFilterState;
-  sort: ListSortState;
-}
-
-interface ListFilterState {
-  languages: string[];
-  originalLanguage: string;
-  onlyWithScreenshots: boolean;
-  onlyWithDescription: boolean;
-}
-
-interface ListSortState {
-  field: 'default' | 'title' | 'released' | 'rating' | 'votecount' | 'id';
-  direction: 'asc' | 'desc';
+  // A search opened from the address bar; it replaces the remembered filters and sort for the first load.
+  initialQueryDescriptor: ListQueryDescriptor | null;
+  // Reports each search that loaded its first page so the address bar can follow it.
+  onQueryDescriptorChange: (queryDescriptor: ListQueryDescriptor) => void;
+  savedSearches: SavedSearch[];
+  savedSearchNewResultCounts: Record<string, number>;
+  // A saved search to load in place of the current one, from this list's panel or the menu.
+  savedSearchRunRequest: {
+    requestId: number;
+    queryDescriptor: ListQueryDescriptor;
+  } | null;
+  onSaveSearch: (searchName: string, queryDescriptor: ListQueryDescriptor) => void;
+  onRunSavedSearch: (savedSearchIdentifier: string) => void;
+  onSavedSearchesChange: (savedSearches: SavedSearch[]) => void;
+  onSavedSearchPanelOpen: () => void;
 }
 
 export function VisualNovelList({
@@ -67,17 +121,32 @@ export function VisualNovelList({
   homeNavigationRequestToken,
   onAddVisualNovelToUserList,
   onUpdateVisualNovelUserListStatus,
+  onUpdateVisualNovelUserListEntryDetails,
+  onUpdateVisualNovelUserListLabels,
+  onRemoveVisualNovelFromUserList,
+  onPatchVisualNovelUserListEntry,
+  userListLabelDefinitions,
   userListRefreshToken,
   tagSearchRequest,
   developerSearchRequest,
   authenticatedSession,
   onOpenTagExplorer,
+  onReauthenticationRequested,
   nsfwCoverBlurMode,
   rememberListSettings,
   defaultListSortField,
   defaultListSortDirection,
   defaultListOnlyWithScreenshots,
-  defaultListOnlyWithDescription
+  defaultListOnlyWithDescription,
+  initialQueryDescriptor,
+  onQueryDescriptorChange,
+  savedSearches,
+  savedSearchNewResultCounts,
+  savedSearchRunRequest,
+  onSaveSearch,
+  onRunSavedSearch,
+  onSavedSearchesChange,
+  onSavedSearchPanelOpen
 }: VisualNovelListProperties) {
   const searchInputReference = useRef<HTMLInputElement | null>(null);
   const themedPrimaryButtonStyle = {
@@ -102,11 +171,13 @@ export function VisualNovelList({
       languages: [],
       originalLanguage: '',
       onlyWithScreenshots: defaultListOnlyWithScreenshots,
-      onlyWithDescription: defaultListOnlyWithDescription
+      onlyWithDescription: defaultListOnlyWithDescription,
+      advancedFilter: null
     };
   }
 
   const RESULTS_PER_PAGE = 20;
+  const USER_LIST_RESULTS_PER_PAGE = 50;
   const DEFAULT_SORT_STATE: ListSortState = {
     field: defaultListSortField,
     direction: defaultListSortDirection
@@ -119,11 +190,37 @@ export function VisualNovelList({
     { value: 'votecount', label: 'Vote Count' },
     { value: 'id', label: 'ID' }
   ];
+  const USER_LIST_VOTE_FILTER_OPTIONS = [
+    { value: 'any', label: 'Any' },
+    { value: 'voted', label: 'Voted' },
+    { value: 'unvoted', label: 'Not voted' },
+    { value: '90', label: '90+' },
+    { value: '80', label: '80+' },
+    { value: '70', label: '70+' },
+    { value: '50', label: '50+' }
+  ];
+  const USER_LIST_MAXIMUM_VOTE_OPTIONS = [
+    { value: '', label: 'Any' },
+    { value: '90', label: '≤ 90' },
+    { value: '70', label: '≤ 70' },
+    { value: '50', label: '≤ 50' },
+    { value: '30', label: '≤ 30' }
+  ];
+  // Only offered while viewing the user list; search requests never send these to /vn.
+  const USER_LIST_SORT_FIELD_OPTIONS: Array<{ value: ListSortState['field']; label: string }> = [
+    { value: 'vote', label: 'My Vote' },
+    { value: 'started', label: 'Date Started' },
+    { value: 'finished', label: 'Date Finished' },
+    { value: 'added', label: 'Date Added' },
+    { value: 'lastmod', label: 'Last Modified' }
+  ];
   const [visualNovelDatabaseEntries, setVisualNovelDatabaseEntries] = useState<VisualNovelDatabaseEntry[]>([]);
   const [isDataLoading, setIsDataLoading] = useState<boolean>(true);
   const [isLoadingAdditionalPage, setIsLoadingAdditionalPage] = useState<boolean>(false);
-  const [networkErrorMessage, setNetworkErrorMessage] = useState<string | null>(null);
-  const [activeSearchTerm, setActiveSearchTerm] = useState<string>('');
+  const [networkError, setNetworkError] = useState<VndbErrorPresentation | null>(null);
+  // Re-runs whichever search or list load failed last.
+  const retryFailedRequestReference = useRef<(() => void) | null>(null);
+  const [activeSearchTerm, setActiveSearchTerm] = useState<string>(initialQueryDescriptor?.term ?? '');
   function createInitialFilterState(): ListFilterState {
     const configuredDefaultFilterState = createDefaultFilterState();
     try {
@@ -141,7 +238,8 @@ export function VisualNovelList({
         languages: Array.isArray(parsedFilterState.languages) ? parsedFilterState.languages.filter((languageCode) => typeof languageCode === 'string') : [],
         originalLanguage: typeof parsedFilterState.originalLanguage === 'string' ? parsedFilterState.originalLanguage : '',
         onlyWithScreenshots: Boolean(parsedFilterState.onlyWithScreenshots),
-        onlyWithDescription: Boolean(parsedFilterState.onlyWithDescription)
+        onlyWithDescription: Boolean(parsedFilterState.onlyWithDescription),
+        advancedFilter: parseAdvancedFilter(parsedFilterState.advancedFilter)
       };
     } catch {
       return configuredDefaultFilterState;
@@ -180,10 +278,10 @@ export function VisualNovelList({
     }
   }
 
-  const initialFilterState = createInitialFilterState();
-  const initialSortState = createInitialSortState();
+  const initialFilterState = initialQueryDescriptor?.filters ?? createInitialFilterState();
+  const initialSortState = initialQueryDescriptor?.sort ?? createInitialSortState();
 
-  const [activeQueryDescriptor, setActiveQueryDescriptor] = useState<ListQueryDescriptor>({
+  const [activeQueryDescriptor, setActiveQueryDescriptor] = useState<ListQueryDescriptor>(initialQueryDescriptor ?? {
     kind: 'text',
     term: '',
     filters: initialFilterState,
@@ -197,12 +295,47 @@ export function VisualNovelList({
   const [currentResultPage, setCurrentResultPage] = useState<number>(1);
   const [hasAdditionalResults, setHasAdditionalResults] = useState<boolean>(false);
   const paginationTriggerReference = useRef<HTMLDivElement | null>(null);
+  const activeSearchAbortControllerReference = useRef<AbortController | null>(null);
   const hasListReadPermission = authenticatedSession?.permissions.includes('listread') ?? false;
   const hasListWritePermission = authenticatedSession?.permissions.includes('listwrite') ?? false;
   const [userListIdentifierSet, setUserListIdentifierSet] = useState<Set<string>>(new Set());
   const [userListStatusByIdentifier, setUserListStatusByIdentifier] = useState<Record<string, number>>({});
+  const [userListDetailsByIdentifier, setUserListDetailsByIdentifier] = useState<Record<string, UserVisualNovelListEntryDetails>>({});
+  const [userListDetailFilter, setUserListDetailFilter] = useState<UserListDetailFilterState>(DEFAULT_USER_LIST_DETAIL_FILTER_STATE);
+  // How many entries should pass the vote, progress and notes filters before list paging waits for the next scroll.
+  const [userListMatchTarget, setUserListMatchTarget] = useState<number>(USER_LIST_RESULTS_PER_PAGE);
+  // The query behind the pages on screen; loading the next page reuses it.
+  const [activeUserListQuery, setActiveUserListQuery] = useState<UserListQueryDescriptor>({
+    filters: initialFilterState,
+    detailFilter: DEFAULT_USER_LIST_DETAIL_FILTER_STATE,
+    sort: initialSortState
+  });
+  const [userListTagQuery, setUserListTagQuery] = useState<string>('');
+  const [userListReleasedFromYear, setUserListReleasedFromYear] = useState<string>('');
+  const [userListReleasedToYear, setUserListReleasedToYear] = useState<string>('');
+  const [userListFilterMessage, setUserListFilterMessage] = useState<string | null>(null);
+  const [isUserListTagLookupInFlight, setIsUserListTagLookupInFlight] = useState<boolean>(false);
+  const [userListLabelsByIdentifier, setUserListLabelsByIdentifier] = useState<Record<string, number[]>>({});
+  const [isSelectionModeActive, setIsSelectionModeActive] = useState<boolean>(false);
+  const [isUserListTransferPanelVisible, setIsUserListTransferPanelVisible] = useState<boolean>(false);
+  // Whose list the user-list view shows: null for the signed-in user's own list.
+  const [viewedListOwner, setViewedListOwner] = useState<VndbUserLookupEntry | null>(null);
+  const [loadingUserListDescription, setLoadingUserListDescription] = useState<string | null>(null);
+  const [foreignUserListLabelDefinitions, setForeignUserListLabelDefinitions] = useState<UserListLabelDefinition[]>([]);
+  const [isUserListComparisonVisible, setIsUserListComparisonVisible] = useState<boolean>(false);
+  const [userLookupQuery, setUserLookupQuery] = useState<string>('');
+  const [userLookupMessage, setUserLookupMessage] = useState<string | null>(null);
+  const [isUserLookupInFlight, setIsUserLookupInFlight] = useState<boolean>(false);
+  const isViewingForeignUserList = isViewingUserList && viewedListOwner !== null;
+  // Chips and the label filter follow the list on screen; writes (batch actions) always use our own labels.
+  const displayedUserListLabelDefinitions = isViewingForeignUserList ? foreignUserListLabelDefinitions : userListLabelDefinitions;
+  const [selectedVisualNovelIdentifiers, setSelectedVisualNovelIdentifiers] = useState<Set<string>>(new Set());
+  const selectionAnchorIdentifierReference = useRef<string | null>(null);
   const previousHomeNavigationRequestTokenReference = useRef<number>(homeNavigationRequestToken);
   const hasLiveSearchEffectInitializedReference = useRef<boolean>(false);
+  // The term, filters and sort a saved search just set; the live search leaves them alone until one of them changes.
+  const savedSearchQueryStateReference = useRef<Pick<ListQueryDescriptor, 'term' | 'filters' | 'sort'> | null>(null);
+  const [isSavedSearchPanelVisible, setIsSavedSearchPanelVisible] = useState<boolean>(false);
   const [recentSearchTerms, setRecentSearchTerms] = useState<string[]>(() => {
     try {
       const storedRecentSearchTerms = window.localStorage.getItem(RECENT_SEARCHES_STORAGE_KEY);
@@ -223,100 +356,6 @@ export function VisualNovelList({
     }
   });
 
-  function normalizeEntryIdentifier(rawIdentifier: unknown): string | null {
-    if (typeof rawIdentifier === 'string' && rawIdentifier.trim() !== '') {
-      return rawIdentifier.trim();
-    }
-
-    if (typeof rawIdentifier === 'number' && Number.isFinite(rawIdentifier)) {
-      return String(rawIdentifier);
-    }
-
-    return null;
-  }
-
-  function normalizeVisualNovelIdentifier(rawIdentifier: unknown): string | null {
-    const normalizedIdentifier = normalizeEntryIdentifier(rawIdentifier);
-    if (!normalizedIdentifier) {
-      return null;
-    }
-
-    return normalizedIdentifier.toLowerCase().startsWith('v')
-      ? normalizedIdentifier.toLowerCase()
-      : `v${normalizedIdentifier.toLowerCase()}`;
-  }
-
-  function deriveStatusLabelFromUnknownLabels(rawLabels: unknown): number | null {
-    const STATUS_LABEL_IDENTIFIERS = [1, 2, 3, 4, 5, 6];
-    if (!Array.isArray(rawLabels)) {
-      return null;
-    }
-
-    const normalizedLabels = rawLabels
-      .map((rawLabel) => {
-        if (typeof rawLabel === 'number') {
-          return rawLabel;
-        }
-
-        if (typeof rawLabel === 'string') {
-          const numericLabelIdentifier = Number(rawLabel.replace(/[^\d]/g, ''));
-          return Number.isFinite(numericLabelIdentifier) ? numericLabelIdentifier : null;
-        }
-
-        if (rawLabel && typeof rawLabel === 'object') {
-          const labelIdentifierCandidate = (rawLabel as { id?: unknown }).id;
-          if (typeof labelIdentifierCandidate === 'number') {
-            return labelIdentifierCandidate;
-          }
-          if (typeof labelIdentifierCandidate === 'string') {
-            const numericLabelIdentifier = Number(labelIdentifierCandidate.replace(/[^\d]/g, ''));
-            return Number.isFinite(numericLabelIdentifier) ? numericLabelIdentifier : null;
-          }
-        }
-
-        return null;
-      })
-      .filter((labelIdentifier): labelIdentifier is number => labelIdentifier !== null);
-    const matchingStatusLabel = STATUS_LABEL_IDENTIFIERS.find((statusLabelIdentifier) => normalizedLabels.includes(statusLabelIdentifier));
-    return matchingStatusLabel ?? null;
-  }
-
-  function sortVisualNovelEntries(entriesToSort: VisualNovelDatabaseEntry[], sortConfiguration: ListSortState) {
-    if (sortConfiguration.field === 'default') {
-      return entriesToSort;
-    }
-
-    const sortedEntries = [...entriesToSort].sort((firstEntry, secondEntry) => {
-      if (sortConfiguration.field === 'title') {
-        const normalizedFirstTitle = firstEntry.title.trim();
-        const normalizedSecondTitle = secondEntry.title.trim();
-        const firstTitleStartsWithDigit = /^\d/.test(normalizedFirstTitle);
-        const secondTitleStartsWithDigit = /^\d/.test(normalizedSecondTitle);
-
-        if (firstTitleStartsWithDigit !== secondTitleStartsWithDigit) {
-          return firstTitleStartsWithDigit ? -1 : 1;
-        }
-
-        return normalizedFirstTitle.localeCompare(normalizedSecondTitle, undefined, {
-          numeric: true,
-          sensitivity: 'base'
-        });
-      }
-
-      if (sortConfiguration.field === 'rating') {
-        return (firstEntry.rating ?? -1) - (secondEntry.rating ?? -1);
-      }
-
-      if (sortConfiguration.field === 'id') {
-        return firstEntry.id.localeCompare(secondEntry.id);
-      }
-
-      return 0;
-    });
-
-    return sortConfiguration.direction === 'desc' ? sortedEntries.reverse() : sortedEntries;
-  }
-
   function chunkArray<TValue>(items: TValue[], chunkSize: number): TValue[][] {
     if (chunkSize <= 0) {
       return [items];
@@ -330,45 +369,6 @@ export function VisualNovelList({
     return chunks;
   }
 
-  function buildFiltersFromQueryDescriptor(queryDescriptor: ListQueryDescriptor) {
-    // Build VNDB filter AST from active search mode + optional UI filters.
-    const filterClauses: any[] = [];
-
-    if (queryDescriptor.kind === 'tag' && queryDescriptor.tagIdentifier) {
-      filterClauses.push(["tag", "=", queryDescriptor.tagIdentifier]);
-    } else if (queryDescriptor.kind === 'developer' && queryDescriptor.developerIdentifier) {
-      filterClauses.push(["developer", "=", ["id", "=", queryDescriptor.developerIdentifier]]);
-    } else if (queryDescriptor.term.trim() !== '') {
-      filterClauses.push(["search", "=", queryDescriptor.term]);
-    } else {
-      filterClauses.push(["id", ">=", "v1"]);
-    }
-
-    if (queryDescriptor.filters.languages.length === 1) {
-      filterClauses.push(["lang", "=", queryDescriptor.filters.languages[0]]);
-    } else if (queryDescriptor.filters.languages.length > 1) {
-      filterClauses.push(["or", ...queryDescriptor.filters.languages.map((languageCode) => ["lang", "=", languageCode])]);
-    }
-
-    if (queryDescriptor.filters.originalLanguage.trim() !== '') {
-      filterClauses.push(["olang", "=", queryDescriptor.filters.originalLanguage]);
-    }
-
-    if (queryDescriptor.filters.onlyWithScreenshots) {
-      filterClauses.push(["has_screenshot", "=", true]);
-    }
-
-    if (queryDescriptor.filters.onlyWithDescription) {
-      filterClauses.push(["has_description", "=", true]);
-    }
-
-    if (filterClauses.length === 1) {
-      return filterClauses[0];
-    }
-
-    return ["and", ...filterClauses];
-  }
-
   function handleLanguageFilterToggle(languageCode: string) {
     setDraftFilters((currentFilters) => {
       const isLanguageAlreadySelected = currentFilters.languages.includes(languageCode);
@@ -413,7 +413,11 @@ export function VisualNovelList({
 
   function handleFilterApplication() {
     setAppliedFilters(draftFilters);
-    executeSearchWithCurrentQuery({ filters: draftFilters });
+    if (isViewingUserList) {
+      executeUserListFetch(viewedListOwner, { ...activeUserListQuery, filters: draftFilters }, 1, false);
+    } else {
+      executeSearchWithCurrentQuery({ filters: draftFilters });
+    }
     setIsFilterPanelVisible(false);
   }
 
@@ -423,6 +427,10 @@ export function VisualNovelList({
     setDraftFilters(resetFilterState);
     setAppliedFilters(resetFilterState);
     setAppliedSort(resetSortState);
+    if (isViewingUserList) {
+      executeUserListFetch(viewedListOwner, { ...activeUserListQuery, filters: resetFilterState, sort: resetSortState }, 1, false);
+      return;
+    }
     executeSearchWithCurrentQuery({ filters: resetFilterState, sort: resetSortState });
   }
 
@@ -435,7 +443,7 @@ export function VisualNovelList({
 
     setAppliedSort(updatedSortState);
     if (isViewingUserList) {
-      setVisualNovelDatabaseEntries((currentEntries) => sortVisualNovelEntries(currentEntries, updatedSortState));
+      executeUserListFetch(viewedListOwner, { ...activeUserListQuery, sort: updatedSortState }, 1, false);
       return;
     }
 
@@ -450,7 +458,7 @@ export function VisualNovelList({
 
     setAppliedSort(updatedSortState);
     if (isViewingUserList) {
-      setVisualNovelDatabaseEntries((currentEntries) => sortVisualNovelEntries(currentEntries, updatedSortState));
+      executeUserListFetch(viewedListOwner, { ...activeUserListQuery, sort: updatedSortState }, 1, false);
       return;
     }
 
@@ -461,7 +469,8 @@ export function VisualNovelList({
     appliedFilters.languages.length +
     (appliedFilters.originalLanguage ? 1 : 0) +
     (appliedFilters.onlyWithScreenshots ? 1 : 0) +
-    (appliedFilters.onlyWithDescription ? 1 : 0);
+    (appliedFilters.onlyWithDescription ? 1 : 0) +
+    (isViewingUserList ? 0 : countAdvancedFilterConditions(appliedFilters.advancedFilter));
 
   const originalLanguageOptions = [
     { value: '', label: 'Any Original Language' },
@@ -481,7 +490,8 @@ export function VisualNovelList({
       ? `Original: ${LANGUAGE_OPTIONS.find((languageOption) => languageOption.code === appliedFilters.originalLanguage)?.label || appliedFilters.originalLanguage}`
       : '',
     appliedFilters.onlyWithScreenshots ? 'With screenshots' : '',
-    appliedFilters.onlyWithDescription ? 'With descriptions' : ''
+    appliedFilters.onlyWithDescription ? 'With descriptions' : '',
+    isViewingUserList ? '' : describeAdvancedFilter(appliedFilters.advancedFilter)
   ].filter((filterSummarySegment) => filterSummarySegment.length > 0);
 
   const activeFilterSummaryText = activeFilterSummarySegments.length > 0
@@ -573,12 +583,12 @@ export function VisualNovelList({
   ]);
 
   useEffect(() => {
-    // Initial bootstrap search for default list content.
-    if (tagSearchRequest) {
+    // Initial bootstrap search for default list content, or the text search from the address bar.
+    if (tagSearchRequest || developerSearchRequest) {
       return;
     }
 
-    executeDataFetchOperation({ kind: 'text', term: '', filters: initialFilterState, sort: initialSortState }, 1, false);
+    executeDataFetchOperation({ kind: 'text', term: activeSearchTerm, filters: initialFilterState, sort: initialSortState }, 1, false);
   }, []);
 
   useEffect(() => {
@@ -591,6 +601,17 @@ export function VisualNovelList({
       return;
     }
 
+    const savedSearchQueryState = savedSearchQueryStateReference.current;
+    if (
+      savedSearchQueryState &&
+      savedSearchQueryState.term === activeSearchTerm &&
+      savedSearchQueryState.filters === appliedFilters &&
+      savedSearchQueryState.sort === appliedSort
+    ) {
+      return;
+    }
+
+    savedSearchQueryStateReference.current = null;
     const debounceTimeoutIdentifier = window.setTimeout(() => {
       setUserListStatusByIdentifier({});
       executeDataFetchOperation(
@@ -612,177 +633,449 @@ export function VisualNovelList({
       setIsDataLoading(true);
     }
 
-    setNetworkErrorMessage(null);
+    setNetworkError(null);
+    setLoadingUserListDescription(null);
+    // A newer search supersedes any request still in flight (e.g. fast typing in the debounced search box).
+    activeSearchAbortControllerReference.current?.abort();
+    const searchAbortController = new AbortController();
+    activeSearchAbortControllerReference.current = searchAbortController;
 
     try {
       const appliedFilters = buildFiltersFromQueryDescriptor(queryDescriptor);
 
       // Only pass sort settings when user selected explicit sort; default uses VNDB relevance order.
+      const hasExplicitSearchSort = queryDescriptor.sort.field !== 'default' && !isUserListSortField(queryDescriptor.sort.field);
       const queryConfiguration: QueryParameters = {
         queryFilters: appliedFilters,
         requestedFields: "id, title, rating, image.thumbnail, image.sexual",
         maxResults: RESULTS_PER_PAGE,
         pageNumber,
-        sortField: queryDescriptor.sort.field === 'default' ? undefined : queryDescriptor.sort.field,
-        reverseSort: queryDescriptor.sort.field === 'default' ? undefined : queryDescriptor.sort.direction === 'desc'
+        sortField: hasExplicitSearchSort ? queryDescriptor.sort.field : undefined,
+        reverseSort: hasExplicitSearchSort ? queryDescriptor.sort.direction === 'desc' : undefined
       };
       
-      const responsePayload: VisualNovelQueryResponse = await fetchVisualNovelEntries(queryConfiguration);
+      const responsePayload: VisualNovelQueryResponse = await fetchVisualNovelEntries(queryConfiguration, searchAbortController.signal);
       setVisualNovelDatabaseEntries((currentEntries) => (
         shouldAppendResults ? [...currentEntries, ...responsePayload.results] : responsePayload.results
       ));
       setCurrentResultPage(pageNumber);
       setHasAdditionalResults(responsePayload.more);
       setActiveQueryDescriptor(queryDescriptor);
+      if (!shouldAppendResults) {
+        onQueryDescriptorChange(queryDescriptor);
+      }
     } catch (caughtError) {
-      setNetworkErrorMessage(
-        caughtError instanceof Error ? caughtError.message : 'An unknown system error occurred.'
-      );
+      if (isAbortError(caughtError)) {
+        return;
+      }
+
+      retryFailedRequestReference.current = () => executeDataFetchOperation(queryDescriptor, pageNumber, shouldAppendResults);
+      setNetworkError(describeVndbError(caughtError, 'An unknown system error occurred.'));
     } finally {
       if (shouldAppendResults) {
         setIsLoadingAdditionalPage(false);
-      } else {
+      } else if (activeSearchAbortControllerReference.current === searchAbortController) {
         setIsDataLoading(false);
       }
     }
   }
 
-  async function executeAuthenticatedUserListFetch() {
-    if (!authenticatedSession) {
-      setNetworkErrorMessage('Authentication required to load your VN list.');
-      return;
+  // Loads one page of a user list with the query's filters and sort applied by VNDB; the infinite-scroll
+  // trigger appends later pages like it does for searches. Someone else's list is read without the token
+  // (VNDB only shows other users' public labels anyway) and without the offline queue, which only holds our own writes.
+  async function executeUserListFetch(
+    foreignListOwner: VndbUserLookupEntry | null,
+    userListQuery: UserListQueryDescriptor,
+    pageNumber: number,
+    shouldAppendResults: boolean
+  ) {
+    if (shouldAppendResults) {
+      setIsLoadingAdditionalPage(true);
+    } else {
+      setIsDataLoading(true);
+      setUserListMatchTarget(USER_LIST_RESULTS_PER_PAGE);
+      setLoadingUserListDescription(foreignListOwner ? `${foreignListOwner.username}'s VN list` : 'your VN list');
     }
 
-    setIsDataLoading(true);
-    setNetworkErrorMessage(null);
+    setNetworkError(null);
+    // Loading the list supersedes any search still in flight, and a later search cancels list paging.
+    activeSearchAbortControllerReference.current?.abort();
+    const userListAbortController = new AbortController();
+    activeSearchAbortControllerReference.current = userListAbortController;
+    const userListPageQuery: UserListPageQuery = {
+      queryFilters: buildUserListFiltersFromQueryDescriptor(userListQuery),
+      ...buildUserListSortParameters(userListQuery.sort)
+    };
 
-    try {
-      // Pull full user list in pages (VNDB responses are paginated).
-      const MAXIMUM_USER_LIST_PAGES = 40;
-      let activePageNumber = 1;
-      let hasMorePages = true;
-      const accumulatedUserListEntries: unknown[] = [];
-
-      while (hasMorePages && activePageNumber <= MAXIMUM_USER_LIST_PAGES) {
-        const userListResponse = await fetchAuthenticatedUserVisualNovelList(
-          authenticatedSession.token,
-          authenticatedSession.userId,
-          activePageNumber,
-          100
+    function loadUserListPage() {
+      if (foreignListOwner) {
+        return fetchPublicUserVisualNovelList(
+          foreignListOwner.id,
+          pageNumber,
+          USER_LIST_RESULTS_PER_PAGE,
+          userListAbortController.signal,
+          userListPageQuery
         );
-
-        accumulatedUserListEntries.push(...userListResponse.results);
-        hasMorePages = userListResponse.more;
-        activePageNumber += 1;
       }
+      if (!authenticatedSession) {
+        throw new VndbAuthenticationError('Authentication required to load your VN list.');
+      }
+      return fetchAuthenticatedUserVisualNovelList(
+        authenticatedSession.token,
+        authenticatedSession.userId,
+        pageNumber,
+        USER_LIST_RESULTS_PER_PAGE,
+        userListAbortController.signal,
+        userListPageQuery
+      );
+    }
+
+    try {
+      const [userListPage, foreignLabelDefinitions] = await Promise.all([
+        loadUserListPage(),
+        foreignListOwner && !shouldAppendResults ? fetchPublicUserListLabels(foreignListOwner.id, userListAbortController.signal) : null
+      ]);
+      // Changes still queued offline are shown as if VNDB already had them; queued additions go at the top of the first page.
+      const userListEntries = foreignListOwner || !authenticatedSession
+        ? userListPage.results
+        : await overlayQueuedUserListMutations(authenticatedSession.userId, userListPage.results, pageNumber === 1);
 
       const normalizedUserListStatuses: Record<string, number> = {};
-      accumulatedUserListEntries.forEach((userListEntry) => {
-        const rawVisualNovelPayload = (userListEntry as { vn?: unknown }).vn;
-        const identifierFromVn = rawVisualNovelPayload && typeof rawVisualNovelPayload === 'object'
-          ? normalizeVisualNovelIdentifier((rawVisualNovelPayload as { id?: unknown }).id)
-          : null;
-        const identifierFromEntry = normalizeVisualNovelIdentifier((userListEntry as { id?: unknown }).id);
-        const normalizedVisualNovelIdentifier = identifierFromVn ?? identifierFromEntry;
-        const normalizedStatusLabel = deriveStatusLabelFromUnknownLabels((userListEntry as { labels?: unknown }).labels);
-        if (normalizedVisualNovelIdentifier && normalizedStatusLabel !== null) {
-          normalizedUserListStatuses[normalizedVisualNovelIdentifier] = normalizedStatusLabel;
+      const normalizedUserListDetails: Record<string, UserVisualNovelListEntryDetails> = {};
+      const normalizedUserListLabels: Record<string, number[]> = {};
+      userListEntries.forEach((userListEntry) => {
+        const entryLabelIdentifiers = (userListEntry.labels ?? []).map((labelEntry) => labelEntry.id);
+        const normalizedStatusLabel = findStatusLabelIdentifier(entryLabelIdentifiers);
+        // Statuses drive the editable status picker, which only exists on our own list.
+        if (normalizedStatusLabel !== null && !foreignListOwner) {
+          normalizedUserListStatuses[userListEntry.id] = normalizedStatusLabel;
         }
+        normalizedUserListDetails[userListEntry.id] = readUserListEntryDetails(userListEntry);
+        normalizedUserListLabels[userListEntry.id] = entryLabelIdentifiers;
       });
 
-      // Normalize differing ulist response shapes (nested VN object vs id-only entry).
-      const normalizedVisualNovelEntries = accumulatedUserListEntries
-        .map((userListEntry) => {
-          const rawVisualNovelPayload = (userListEntry as { vn?: unknown }).vn;
-          const normalizedIdentifierFromEntry = normalizeEntryIdentifier((userListEntry as { id?: unknown }).id);
-
-          if (rawVisualNovelPayload && typeof rawVisualNovelPayload === 'object') {
-            const normalizedIdentifier = normalizeEntryIdentifier((rawVisualNovelPayload as { id?: unknown }).id) ?? normalizedIdentifierFromEntry;
-            if (!normalizedIdentifier) {
-              return null;
-            }
-
-            return {
-              ...(rawVisualNovelPayload as VisualNovelDatabaseEntry),
-              id: normalizedIdentifier
-            };
-          }
-
-          const normalizedIdentifierFromVn = normalizeEntryIdentifier(rawVisualNovelPayload);
-          if (normalizedIdentifierFromVn) {
-            return {
-              id: normalizedIdentifierFromVn,
-              title: '',
-              rating: null,
-              image: null
-            } as VisualNovelDatabaseEntry;
-          }
-
-          if (normalizedIdentifierFromEntry && normalizedIdentifierFromEntry.toLowerCase().startsWith('v')) {
-            return {
-              id: normalizedIdentifierFromEntry,
-              title: '',
-              rating: null,
-              image: null
-            } as VisualNovelDatabaseEntry;
-          }
-
-          return null;
-        })
-        .filter((userListEntry): userListEntry is VisualNovelDatabaseEntry => Boolean(userListEntry));
+      // Entries without a nested VN object become placeholders that are hydrated below.
+      const normalizedVisualNovelEntries = userListEntries.map((userListEntry): VisualNovelDatabaseEntry => (
+        userListEntry.vn ?? {
+          id: userListEntry.id,
+          title: '',
+          rating: null,
+          image: null
+        }
+      ));
 
       const hasPlaceholderEntries = normalizedVisualNovelEntries.some(
         (userListEntry) => userListEntry.title.trim() === ''
       );
 
       // Hydrate id-only placeholders via /vn batch requests so cards have title/image/rating.
+      let pageVisualNovelEntries = normalizedVisualNovelEntries;
       if (hasPlaceholderEntries) {
-        const distinctVisualNovelIdentifiers = [...new Set(
-          normalizedVisualNovelEntries.map((userListEntry) => (
-            userListEntry.id.toLowerCase().startsWith('v') ? userListEntry.id : `v${userListEntry.id}`
-          ))
-        )];
+        const distinctVisualNovelIdentifiers = [...new Set(normalizedVisualNovelEntries.map((userListEntry) => userListEntry.id))];
         const hydratedEntriesByIdentifier = new Map<string, VisualNovelDatabaseEntry>();
         const identifierChunks = chunkArray(distinctVisualNovelIdentifiers, 100);
 
-        for (const identifierChunk of identifierChunks) {
-          const identifierFilters =
-            identifierChunk.length === 1
-              ? ["id", "=", identifierChunk[0]]
-              : ["or", ...identifierChunk.map((visualNovelIdentifier) => ["id", "=", visualNovelIdentifier])];
-
+        for (const [firstIdentifier, ...remainingIdentifiers] of identifierChunks) {
           const hydratedVisualNovelResponse = await fetchVisualNovelEntries({
-            queryFilters: identifierFilters,
+            queryFilters: visualNovelFilters.anyOf('id', [firstIdentifier, ...remainingIdentifiers]),
             requestedFields: "id, title, rating, image.thumbnail, image.sexual",
-            maxResults: identifierChunk.length
-          });
+            maxResults: remainingIdentifiers.length + 1
+          }, userListAbortController.signal);
 
           for (const hydratedEntry of hydratedVisualNovelResponse.results) {
-            const normalizedHydratedIdentifier = hydratedEntry.id.toLowerCase().startsWith('v') ? hydratedEntry.id : `v${hydratedEntry.id}`;
-            hydratedEntriesByIdentifier.set(normalizedHydratedIdentifier, hydratedEntry);
+            hydratedEntriesByIdentifier.set(hydratedEntry.id, hydratedEntry);
           }
         }
 
-        const hydratedAndFallbackEntries = normalizedVisualNovelEntries.map((userListEntry) => {
-          const normalizedIdentifier = userListEntry.id.toLowerCase().startsWith('v') ? userListEntry.id : `v${userListEntry.id}`;
-          return hydratedEntriesByIdentifier.get(normalizedIdentifier) ?? userListEntry;
-        });
+        pageVisualNovelEntries = normalizedVisualNovelEntries.map((userListEntry) => (
+          hydratedEntriesByIdentifier.get(userListEntry.id) ?? userListEntry
+        ));
+      }
+
+      // A queued addition that VNDB has meanwhile applied can show up again on a later page.
+      setVisualNovelDatabaseEntries((currentEntries) => {
+        if (!shouldAppendResults) {
+          return pageVisualNovelEntries;
+        }
+        const loadedIdentifiers = new Set(currentEntries.map((entry) => entry.id));
+        return [...currentEntries, ...pageVisualNovelEntries.filter((entry) => !loadedIdentifiers.has(entry.id))];
+      });
+      setUserListStatusByIdentifier((currentStatusMap) => (
+        shouldAppendResults ? { ...currentStatusMap, ...normalizedUserListStatuses } : normalizedUserListStatuses
+      ));
+      setUserListDetailsByIdentifier((currentDetailsMap) => (
+        shouldAppendResults ? { ...currentDetailsMap, ...normalizedUserListDetails } : normalizedUserListDetails
+      ));
+      setUserListLabelsByIdentifier((currentLabelsMap) => (
+        shouldAppendResults ? { ...currentLabelsMap, ...normalizedUserListLabels } : normalizedUserListLabels
+      ));
+      setCurrentResultPage(pageNumber);
+      setHasAdditionalResults(userListPage.more);
+      setActiveUserListQuery(userListQuery);
+      if (!shouldAppendResults) {
+        setViewedListOwner(foreignListOwner);
+        setForeignUserListLabelDefinitions(foreignLabelDefinitions ?? []);
+        setIsUserListComparisonVisible(false);
+        setIsViewingUserList(true);
+      }
+    } catch (caughtError) {
+      if (isAbortError(caughtError)) {
+        return;
+      }
+
+      retryFailedRequestReference.current = () => executeUserListFetch(foreignListOwner, userListQuery, pageNumber, shouldAppendResults);
+      setNetworkError(describeVndbError(
+        caughtError,
+        foreignListOwner ? `Unable to load ${foreignListOwner.username}'s VN list.` : 'Unable to load your VN list.'
+      ));
+    } finally {
+      if (shouldAppendResults) {
+        setIsLoadingAdditionalPage(false);
+      } else if (activeSearchAbortControllerReference.current === userListAbortController) {
+        setIsDataLoading(false);
+        setLoadingUserListDescription(null);
+      }
+    }
+  }
+
+  // Opens a list from page 1 with the current filters and sort. Custom label IDs belong to one account, so a
+  // label filter does not carry over to someone else's list.
+  function openUserList(listOwner: VndbUserLookupEntry | null) {
+    const detailFilter = viewedListOwner?.id === listOwner?.id
+      ? userListDetailFilter
+      : { ...userListDetailFilter, labelIdentifier: null };
+    setUserListDetailFilter(detailFilter);
+    executeUserListFetch(listOwner, { filters: appliedFilters, detailFilter, sort: appliedSort }, 1, false);
+  }
+
+  // Detail filter changes that VNDB applies reload the list; the rest re-filter the loaded pages and read more
+  // pages if fewer than a page's worth still match.
+  function handleUserListDetailFilterChange(detailFilterChanges: Partial<UserListDetailFilterState>) {
+    const updatedDetailFilter = { ...userListDetailFilter, ...detailFilterChanges };
+    setUserListDetailFilter(updatedDetailFilter);
+    const updatedUserListQuery = { ...activeUserListQuery, detailFilter: updatedDetailFilter };
+    if (
+      JSON.stringify(buildUserListFiltersFromQueryDescriptor(updatedUserListQuery)) !==
+      JSON.stringify(buildUserListFiltersFromQueryDescriptor(activeUserListQuery))
+    ) {
+      executeUserListFetch(viewedListOwner, updatedUserListQuery, 1, false);
+    } else {
+      setUserListMatchTarget(USER_LIST_RESULTS_PER_PAGE);
+    }
+  }
+
+  // Resolves the typed tag name to the best-matching tag before filtering by it; year fields apply together with it.
+  async function handleUserListRangeFilterSubmission(formEvent: React.FormEvent<HTMLFormElement>) {
+    formEvent.preventDefault();
+    const tagQuery = userListTagQuery.trim();
+    const releasedFromYear = /^\d{4}$/.test(userListReleasedFromYear.trim()) ? Number(userListReleasedFromYear) : null;
+    const releasedToYear = /^\d{4}$/.test(userListReleasedToYear.trim()) ? Number(userListReleasedToYear) : null;
+    setUserListFilterMessage(null);
+
+    let tag = userListDetailFilter.tag;
+    if (tagQuery !== '') {
+      setIsUserListTagLookupInFlight(true);
+      try {
+        const [matchedTag] = (await fetchTagEntries(tagQuery, 1, 1)).results;
+        if (!matchedTag) {
+          setUserListFilterMessage(`No tag matches "${tagQuery}".`);
+          return;
+        }
+        tag = { id: matchedTag.id, name: matchedTag.name };
+        setUserListTagQuery('');
+      } catch (caughtError) {
+        setUserListFilterMessage(describeVndbError(caughtError, 'Unable to look up that tag.').message);
+        return;
+      } finally {
+        setIsUserListTagLookupInFlight(false);
+      }
+    }
+
+    handleUserListDetailFilterChange({ tag, releasedFromYear, releasedToYear });
+  }
+
+  async function handleUserLookupSubmission(formEvent: React.FormEvent<HTMLFormElement>) {
+    formEvent.preventDefault();
+    const userLookupTerm = userLookupQuery.trim();
+    if (userLookupTerm === '') {
+      return;
+    }
 
-        setVisualNovelDatabaseEntries(sortVisualNovelEntries(hydratedAndFallbackEntries, appliedSort));
+    setIsUserLookupInFlight(true);
+    setUserLookupMessage(null);
+    try {
+      const matchedUser = await fetchVndbUserByName(userLookupTerm);
+      if (!matchedUser) {
+        setUserLookupMessage(`No VNDB user named "${userLookupTerm}".`);
       } else {
-        setVisualNovelDatabaseEntries(sortVisualNovelEntries(normalizedVisualNovelEntries, appliedSort));
+        openUserList(matchedUser.id === authenticatedSession?.userId ? null : matchedUser);
       }
-      setUserListStatusByIdentifier(normalizedUserListStatuses);
-      setCurrentResultPage(1);
-      setHasAdditionalResults(false);
-      setIsViewingUserList(true);
     } catch (caughtError) {
-      setNetworkErrorMessage(
-        caughtError instanceof Error ? caughtError.message : 'Unable to load your VN list.'
-      );
+      setUserLookupMessage(describeVndbError(caughtError, 'Unable to look up that VNDB user.').message);
     } finally {
-      setIsDataLoading(false);
+      setIsUserLookupInFlight(false);
+    }
+  }
+
+  async function handleUserListEntryDetailsSave(
+    visualNovelIdentifier: string,
+    detailChanges: Partial<UserVisualNovelListEntryDetails>
+  ) {
+    await onUpdateVisualNovelUserListEntryDetails(visualNovelIdentifier, detailChanges);
+    setUserListDetailsByIdentifier((currentDetailsMap) => ({
+      ...currentDetailsMap,
+      [visualNovelIdentifier]: {
+        ...(currentDetailsMap[visualNovelIdentifier] ?? readUserListEntryDetails({ id: visualNovelIdentifier })),
+        ...detailChanges
+      }
+    }));
+  }
+
+  async function handleUserListLabelChange(
+    visualNovelIdentifier: string,
+    labelChanges: { labelsToSet: number[]; labelsToUnset: number[] },
+    requestSignal?: AbortSignal
+  ) {
+    await onUpdateVisualNovelUserListLabels(visualNovelIdentifier, labelChanges, requestSignal);
+    setUserListLabelsByIdentifier((currentLabelsMap) => ({
+      ...currentLabelsMap,
+      [visualNovelIdentifier]: [
+        ...(currentLabelsMap[visualNovelIdentifier] ?? []).filter(
+          (labelIdentifier) => !labelChanges.labelsToUnset.includes(labelIdentifier)
+        ),
+        ...labelChanges.labelsToSet
+      ]
+    }));
+  }
+
+  function markVisualNovelAsAdded(visualNovelIdentifier: string) {
+    setUserListIdentifierSet((currentSet) => {
+      const normalizedIdentifier = visualNovelIdentifier.toLowerCase().startsWith('v')
+        ? visualNovelIdentifier.toLowerCase()
+        : `v${visualNovelIdentifier.toLowerCase()}`;
+      const updatedSet = new Set(currentSet);
+      updatedSet.add(normalizedIdentifier);
+      return updatedSet;
+    });
+  }
+
+  async function handleUserListStatusUpdate(visualNovelIdentifier: string, statusLabelIdentifier: number, requestSignal?: AbortSignal) {
+    await onUpdateVisualNovelUserListStatus(visualNovelIdentifier, statusLabelIdentifier, requestSignal);
+    setUserListStatusByIdentifier((currentStatusMap) => {
+      const normalizedVisualNovelIdentifier = visualNovelIdentifier.toLowerCase().startsWith('v')
+        ? visualNovelIdentifier.toLowerCase()
+        : `v${visualNovelIdentifier.toLowerCase()}`;
+      return {
+        ...currentStatusMap,
+        [normalizedVisualNovelIdentifier]: statusLabelIdentifier
+      };
+    });
+    setUserListLabelsByIdentifier((currentLabelsMap) => ({
+      ...currentLabelsMap,
+      [visualNovelIdentifier]: [
+        ...(currentLabelsMap[visualNovelIdentifier] ?? []).filter((labelIdentifier) => !isStatusUserListLabel(labelIdentifier)),
+        statusLabelIdentifier
+      ]
+    }));
+  }
+
+  // Batch handlers mirror the per-card handlers so list state stays in sync item by item.
+  const batchActionHandlers: VisualNovelBatchActionHandlers = {
+    addToUserList: async (visualNovelIdentifier, labelIdentifier, requestSignal) => {
+      await onAddVisualNovelToUserList(visualNovelIdentifier, labelIdentifier, requestSignal);
+      markVisualNovelAsAdded(visualNovelIdentifier);
+      // The label maps describe the list on screen, which is not ours while browsing someone else's.
+      if (isViewingForeignUserList) {
+        return;
+      }
+      if (isStatusUserListLabel(labelIdentifier)) {
+        setUserListStatusByIdentifier((currentStatusMap) => ({ ...currentStatusMap, [visualNovelIdentifier]: labelIdentifier }));
+      }
+      setUserListLabelsByIdentifier((currentLabelsMap) => ({
+        ...currentLabelsMap,
+        [visualNovelIdentifier]: [...new Set([...(currentLabelsMap[visualNovelIdentifier] ?? []), labelIdentifier])]
+      }));
+    },
+    updateStatus: isViewingForeignUserList ? onUpdateVisualNovelUserListStatus : handleUserListStatusUpdate,
+    updateLabels: isViewingForeignUserList ? onUpdateVisualNovelUserListLabels : handleUserListLabelChange,
+    removeFromUserList: async (visualNovelIdentifier, requestSignal) => {
+      await onRemoveVisualNovelFromUserList(visualNovelIdentifier, requestSignal);
+      setUserListIdentifierSet((currentSet) => {
+        const updatedSet = new Set(currentSet);
+        updatedSet.delete(visualNovelIdentifier);
+        return updatedSet;
+      });
+      if (isViewingForeignUserList) {
+        return;
+      }
+      setUserListStatusByIdentifier((currentStatusMap) => {
+        const updatedStatusMap = { ...currentStatusMap };
+        delete updatedStatusMap[visualNovelIdentifier];
+        return updatedStatusMap;
+      });
+      setUserListLabelsByIdentifier((currentLabelsMap) => {
+        const updatedLabelsMap = { ...currentLabelsMap };
+        delete updatedLabelsMap[visualNovelIdentifier];
+        return updatedLabelsMap;
+      });
+      if (isViewingUserList) {
+        setVisualNovelDatabaseEntries((currentEntries) => currentEntries.filter((entry) => entry.id !== visualNovelIdentifier));
+        setSelectedVisualNovelIdentifiers((currentSelection) => {
+          const updatedSelection = new Set(currentSelection);
+          updatedSelection.delete(visualNovelIdentifier);
+          return updatedSelection;
+        });
+      }
     }
+  };
+
+  // Shift+click (or Shift+Space) selects the range from the last toggled card, in display order.
+  function handleSelectionToggle(visualNovelIdentifier: string, isRangeGesture: boolean) {
+    const orderedIdentifiers = displayedVisualNovelEntries.map((entry) => entry.id);
+    setSelectedVisualNovelIdentifiers((currentSelection) => {
+      const updatedSelection = new Set(currentSelection);
+      if (isRangeGesture && selectionAnchorIdentifierReference.current !== null) {
+        expandSelectionRange(orderedIdentifiers, selectionAnchorIdentifierReference.current, visualNovelIdentifier)
+          .forEach((rangeIdentifier) => updatedSelection.add(rangeIdentifier));
+      } else if (updatedSelection.has(visualNovelIdentifier)) {
+        updatedSelection.delete(visualNovelIdentifier);
+      } else {
+        updatedSelection.add(visualNovelIdentifier);
+      }
+      return updatedSelection;
+    });
+    selectionAnchorIdentifierReference.current = visualNovelIdentifier;
+  }
+
+  function handleSelectionModeExit() {
+    setIsSelectionModeActive(false);
+    setSelectedVisualNovelIdentifiers(new Set());
+    selectionAnchorIdentifierReference.current = null;
+  }
+
+  function handleSelectionExport() {
+    const exportedEntries = selectedVisualNovelEntries.map((visualNovelEntry) => {
+      const entryDetails = userListDetailsByIdentifier[visualNovelEntry.id];
+      const entryLabelIdentifiers = userListLabelsByIdentifier[visualNovelEntry.id];
+      return {
+        id: visualNovelEntry.id,
+        title: visualNovelEntry.title,
+        rating: visualNovelEntry.rating,
+        ...(isViewingUserList && entryLabelIdentifiers
+          ? {
+              labels: entryLabelIdentifiers.map((labelIdentifier) => (
+                displayedUserListLabelDefinitions.find((labelDefinition) => labelDefinition.id === labelIdentifier)?.label ?? String(labelIdentifier)
+              )),
+              ...entryDetails
+            }
+          : {})
+      };
+    });
+    downloadTextFile(
+      `vndb-selection-${new Date().toISOString().slice(0, 10)}.json`,
+      JSON.stringify(exportedEntries, null, 2),
+      'application/json'
+    );
   }
 
   function handleSearchFormSubmission(formEvent: React.FormEvent<HTMLFormElement>) {
@@ -793,13 +1086,68 @@ export function VisualNovelList({
     executeSearchWithFilters(activeSearchTerm, appliedFilters);
   }
 
+  const displayedVisualNovelEntries = isViewingUserList
+    ? filterUserListEntries(visualNovelDatabaseEntries, userListDetailsByIdentifier, userListDetailFilter, userListLabelsByIdentifier)
+    : visualNovelDatabaseEntries;
+  const isUserListFilteredLocally = isViewingUserList && hasLocalUserListDetailFilter(userListDetailFilter);
+
   const loadNextPage = useCallback(() => {
-    if (isViewingUserList || isDataLoading || isLoadingAdditionalPage || !hasAdditionalResults) {
+    if (isDataLoading || isLoadingAdditionalPage || !hasAdditionalResults) {
+      return;
+    }
+
+    // Scrolling asks for another page's worth of matches; the effect below reads pages until they are in.
+    if (isUserListFilteredLocally) {
+      setUserListMatchTarget(displayedVisualNovelEntries.length + USER_LIST_RESULTS_PER_PAGE);
+      return;
+    }
+
+    if (isViewingUserList) {
+      executeUserListFetch(viewedListOwner, activeUserListQuery, currentResultPage + 1, true);
       return;
     }
 
     executeDataFetchOperation(activeQueryDescriptor, currentResultPage + 1, true);
-  }, [isViewingUserList, isDataLoading, isLoadingAdditionalPage, hasAdditionalResults, activeQueryDescriptor, currentResultPage]);
+  }, [
+    isViewingUserList,
+    viewedListOwner,
+    activeUserListQuery,
+    isDataLoading,
+    isLoadingAdditionalPage,
+    hasAdditionalResults,
+    activeQueryDescriptor,
+    currentResultPage,
+    isUserListFilteredLocally,
+    displayedVisualNovelEntries.length
+  ]);
+
+  // Vote, progress and notes filters can leave a loaded page with few or no matches, so keep reading list pages
+  // until enough entries match or the list runs out.
+  useEffect(() => {
+    if (
+      !isUserListFilteredLocally ||
+      networkError ||
+      isDataLoading ||
+      isLoadingAdditionalPage ||
+      !hasAdditionalResults ||
+      displayedVisualNovelEntries.length >= userListMatchTarget
+    ) {
+      return;
+    }
+
+    executeUserListFetch(viewedListOwner, activeUserListQuery, currentResultPage + 1, true);
+  }, [
+    isUserListFilteredLocally,
+    networkError,
+    isDataLoading,
+    isLoadingAdditionalPage,
+    hasAdditionalResults,
+    displayedVisualNovelEntries.length,
+    userListMatchTarget,
+    viewedListOwner,
+    activeUserListQuery,
+    currentResultPage
+  ]);
 
   useEffect(() => {
     if (homeNavigationRequestToken === previousHomeNavigationRequestTokenReference.current) {
@@ -862,6 +1210,23 @@ export function VisualNovelList({
     );
   }, [developerSearchRequest, appliedFilters, appliedSort]);
 
+  useEffect(() => {
+    // Saved searches restore their own term, filters and sort, including tag and developer searches.
+    if (!savedSearchRunRequest) {
+      return;
+    }
+
+    const { queryDescriptor } = savedSearchRunRequest;
+    savedSearchQueryStateReference.current = queryDescriptor;
+    setIsViewingUserList(false);
+    setUserListStatusByIdentifier({});
+    setActiveSearchTerm(queryDescriptor.term);
+    setDraftFilters(queryDescriptor.filters);
+    setAppliedFilters(queryDescriptor.filters);
+    setAppliedSort(queryDescriptor.sort);
+    executeDataFetchOperation(queryDescriptor, 1, false);
+  }, [savedSearchRunRequest]);
+
   useEffect(() => {
     if (authenticatedSession) {
       return;
@@ -870,8 +1235,19 @@ export function VisualNovelList({
     setIsViewingUserList(false);
     setUserListIdentifierSet(new Set());
     setUserListStatusByIdentifier({});
+    setUserListDetailsByIdentifier({});
+    setUserListLabelsByIdentifier({});
   }, [authenticatedSession]);
 
+  useEffect(() => {
+    // Personal-field sorts have no /vn equivalent, so leaving the user list falls back to the default sort.
+    if (isViewingUserList || !isUserListSortField(appliedSort.field)) {
+      return;
+    }
+
+    setAppliedSort({ field: defaultListSortField, direction: defaultListSortDirection });
+  }, [isViewingUserList, appliedSort.field, defaultListSortField, defaultListSortDirection]);
+
   useEffect(() => {
     // Background fetch of membership IDs to mark "already added" cards in current search results.
     let hasLifecycleBeenCancelled = false;
@@ -905,11 +1281,12 @@ export function VisualNovelList({
   }, [authenticatedSession, hasListReadPermission]);
 
   useEffect(() => {
-    if (!isViewingUserList || !authenticatedSession) {
+    // Our own writes do not change someone else's list.
+    if (!isViewingUserList || viewedListOwner || !authenticatedSession) {
       return;
     }
 
-    executeAuthenticatedUserListFetch();
+    executeUserListFetch(null, activeUserListQuery, 1, false);
   }, [userListRefreshToken]);
 
   useEffect(() => {
@@ -933,6 +1310,9 @@ export function VisualNovelList({
     };
   }, [loadNextPage]);
 
+  // Selections hidden by a later search or filter stay out of batch actions until they are visible again.
+  const selectedVisualNovelEntries = displayedVisualNovelEntries.filter((entry) => selectedVisualNovelIdentifiers.has(entry.id));
+
   return (
     <div className={styles.interfaceContainerBoundary}>
       <div className={styles.listHeaderBlock}>
@@ -960,7 +1340,31 @@ export function VisualNovelList({
         >
           Browse Tags
         </button>
+        <button
+          type="button"
+          className={styles.filterToggleButton}
+          aria-expanded={isSavedSearchPanelVisible}
+          onClick={() => {
+            if (!isSavedSearchPanelVisible) {
+              onSavedSearchPanelOpen();
+            }
+            setIsSavedSearchPanelVisible((isVisible) => !isVisible);
+          }}
+        >
+          Saved Searches {savedSearches.length > 0 ? `(${savedSearches.length})` : ''}
+        </button>
       </div>
+      {isSavedSearchPanelVisible && (
+        <SavedSearchPanel
+          savedSearches={savedSearches}
+          newResultCounts={savedSearchNewResultCounts}
+          currentQueryDescriptor={isViewingUserList ? null : activeQueryDescriptor}
+          onSaveSearch={onSaveSearch}
+          onRunSavedSearch={onRunSavedSearch}
+          onSavedSearchesChange={onSavedSearchesChange}
+          onClose={() => setIsSavedSearchPanelVisible(false)}
+        />
+      )}
       {recentSearchTerms.length > 0 && (
         <div className={styles.recentSearchRow}>
           <span className={styles.recentSearchLabel}>Recent:</span>
@@ -999,13 +1403,30 @@ export function VisualNovelList({
                 setUserListStatusByIdentifier({});
                 executeSearchWithFilters(activeSearchTerm, appliedFilters);
               } else {
-                executeAuthenticatedUserListFetch();
+                openUserList(null);
               }
             }}
           >
             {isViewingUserList ? 'Back to Search' : 'My VN List'}
           </button>
         )}
+        <form className={styles.userLookupForm} onSubmit={handleUserLookupSubmission}>
+          <input
+            type="text"
+            value={userLookupQuery}
+            onChange={(inputEvent) => setUserLookupQuery(inputEvent.target.value)}
+            placeholder="VNDB username"
+            className={styles.userLookupInputField}
+            aria-label="VNDB username whose list to browse"
+          />
+          <button
+            type="submit"
+            className={styles.userListToggleButton}
+            disabled={isUserLookupInFlight || userLookupQuery.trim() === ''}
+          >
+            {isUserLookupInFlight ? 'Looking Up...' : 'Browse List'}
+          </button>
+        </form>
         <button
           type="button"
           className={styles.filterToggleButton}
@@ -1021,7 +1442,7 @@ export function VisualNovelList({
             value={appliedSort.field}
             onChange={(changeEvent) => handleSortFieldChange(changeEvent.target.value as ListSortState['field'])}
           >
-            {SORT_FIELD_OPTIONS.map((sortFieldOption) => (
+            {[...SORT_FIELD_OPTIONS, ...(isViewingUserList ? USER_LIST_SORT_FIELD_OPTIONS : [])].map((sortFieldOption) => (
               <option key={sortFieldOption.value} value={sortFieldOption.value}>
                 {sortFieldOption.label}
               </option>
@@ -1038,6 +1459,7 @@ export function VisualNovelList({
         </div>
         <p className={styles.activeFilterText}>{activeFilterSummaryText}</p>
       </div>
+      {userLookupMessage && <p className={styles.userListInfoText} role="status">{userLookupMessage}</p>}
 
       {isFilterPanelVisible && (
         <div className={styles.filterPanelBoundary}>
@@ -1104,6 +1526,16 @@ export function VisualNovelList({
             </label>
           </div>
 
+          {!isViewingUserList && (
+            <div className={styles.filterSectionBoundary}>
+              <p className={styles.filterSectionTitle}>Advanced Conditions</p>
+              <AdvancedFilterBuilder
+                filterGroup={draftFilters.advancedFilter}
+                onFilterGroupChange={(advancedFilter) => setDraftFilters((currentFilters) => ({ ...currentFilters, advancedFilter }))}
+              />
+            </div>
+          )}
+
           <div className={styles.filterActionRow}>
             <button type="button" className={styles.filterSecondaryButton} onClick={handleFilterReset}>
               Clear
@@ -1117,7 +1549,9 @@ export function VisualNovelList({
 
       {isDataLoading && (
         <>
-          <div className={styles.systemStatusMessage}>Executing network request...</div>
+          <div className={styles.systemStatusMessage}>
+            {loadingUserListDescription !== null ? `Loading ${loadingUserListDescription}...` : 'Executing network request...'}
+          </div>
           <ul className={styles.visualNovelResultsList} aria-hidden>
             {loadingSkeletonIdentifiers.map((skeletonIdentifier) => (
               <li key={skeletonIdentifier} className={styles.visualNovelListItemSkeleton}>
@@ -1127,25 +1561,185 @@ export function VisualNovelList({
           </ul>
         </>
       )}
-      {networkErrorMessage && <div className={styles.systemErrorMessage}>System Error: {networkErrorMessage}</div>}
+      {networkError && (
+        <VndbErrorNotice
+          errorPresentation={networkError}
+          onRetry={() => retryFailedRequestReference.current?.()}
+          onReauthenticationRequested={onReauthenticationRequested}
+        />
+      )}
 
-      {!isDataLoading && !networkErrorMessage && (
+      {!isDataLoading && !networkError && (
         <>
-          <p className={styles.resultSummaryText}>
-            {visualNovelDatabaseEntries.length} result{visualNovelDatabaseEntries.length === 1 ? '' : 's'} loaded
-          </p>
+          {isUserListFilteredLocally ? (
+            <p className={styles.resultSummaryText} role="status">
+              {displayedVisualNovelEntries.length} shown, filtered from {visualNovelDatabaseEntries.length} loaded
+              {visualNovelDatabaseEntries.length === 1 ? 'entry' : 'entries'}
+              {hasAdditionalResults ? '; more of the list is read as you scroll' : ''}
+            </p>
+          ) : (
+            <p className={styles.resultSummaryText}>
+              {visualNovelDatabaseEntries.length} result{visualNovelDatabaseEntries.length === 1 ? '' : 's'} loaded
+              {displayedVisualNovelEntries.length !== visualNovelDatabaseEntries.length
+                ? ` (${displayedVisualNovelEntries.length} shown)`
+                : ''}
+            </p>
+          )}
+          {isViewingUserList && (
+            <div className={styles.filterControlRow}>
+              <div className={styles.sortControlGroup}>
+                <label htmlFor="user-list-vote-filter" className={styles.sortLabelText}>Vote:</label>
+                <select
+                  id="user-list-vote-filter"
+                  className={styles.sortSelectField}
+                  value={userListDetailFilter.minimumVote !== null ? String(userListDetailFilter.minimumVote) : userListDetailFilter.voteStatus}
+                  onChange={(changeEvent) => {
+                    const selectedValue = changeEvent.target.value;
+                    const minimumVote = /^\d+$/.test(selectedValue) ? Number(selectedValue) : null;
+                    handleUserListDetailFilterChange({
+                      voteStatus: minimumVote !== null ? 'voted' : selectedValue as UserListDetailFilterState['voteStatus'],
+                      minimumVote
+                    });
+                  }}
+                >
+                  {USER_LIST_VOTE_FILTER_OPTIONS.map((voteFilterOption) => (
+                    <option key={voteFilterOption.value} value={voteFilterOption.value}>
+                      {voteFilterOption.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className={styles.sortSelectField}
+                  aria-label="Highest vote"
+                  value={userListDetailFilter.maximumVote ?? ''}
+                  onChange={(changeEvent) => handleUserListDetailFilterChange({
+                    maximumVote: changeEvent.target.value === '' ? null : Number(changeEvent.target.value)
+                  })}
+                >
+                  {USER_LIST_MAXIMUM_VOTE_OPTIONS.map((voteFilterOption) => (
+                    <option key={voteFilterOption.value || 'any'} value={voteFilterOption.value}>
+                      {voteFilterOption.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className={styles.sortControlGroup}>
+                <label htmlFor="user-list-progress-filter" className={styles.sortLabelText}>Progress:</label>
+                <select
+                  id="user-list-progress-filter"
+                  className={styles.sortSelectField}
+                  value={userListDetailFilter.progress}
+                  onChange={(changeEvent) => handleUserListDetailFilterChange({
+                    progress: changeEvent.target.value as UserListDetailFilterState['progress']
+                  })}
+                >
+                  <option value="any">Any</option>
+                  <option value="not-started">Not started</option>
+                  <option value="in-progress">Started, not finished</option>
+                  <option value="finished">Finished</option>
+                </select>
+              </div>
+              <div className={styles.sortControlGroup}>
+                <label htmlFor="user-list-label-filter" className={styles.sortLabelText}>Label:</label>
+                <select
+                  id="user-list-label-filter"
+                  className={styles.sortSelectField}
+                  value={userListDetailFilter.labelIdentifier ?? ''}
+                  onChange={(changeEvent) => handleUserListDetailFilterChange({
+                    labelIdentifier: changeEvent.target.value === '' ? null : Number(changeEvent.target.value)
+                  })}
+                >
+                  <option value="">Any</option>
+                  {displayedUserListLabelDefinitions.map((labelDefinition) => (
+                    <option key={labelDefinition.id} value={labelDefinition.id}>
+                      {labelDefinition.label}
+                      {labelDefinition.count !== undefined ? ` (${labelDefinition.count})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label className={styles.filterCheckboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={userListDetailFilter.onlyWithNotes}
+                  onChange={(changeEvent) => handleUserListDetailFilterChange({ onlyWithNotes: changeEvent.target.checked })}
+                />
+                With notes
+              </label>
+            </div>
+          )}
+          {isViewingUserList && (
+            <form className={styles.filterControlRow} onSubmit={handleUserListRangeFilterSubmission}>
+              {userListDetailFilter.tag ? (
+                <button
+                  type="button"
+                  className={styles.recentSearchChip}
+                  aria-label={`Remove tag filter ${userListDetailFilter.tag.name}`}
+                  onClick={() => handleUserListDetailFilterChange({ tag: null })}
+                >
+                  Tag: {userListDetailFilter.tag.name} ×
+                </button>
+              ) : (
+                <input
+                  type="text"
+                  value={userListTagQuery}
+                  onChange={(inputEvent) => setUserListTagQuery(inputEvent.target.value)}
+                  placeholder="Tag name"
+                  className={styles.userLookupInputField}
+                  aria-label="Only entries with this tag"
+                />
+              )}
+              <div className={styles.sortControlGroup}>
+                <label htmlFor="user-list-released-from" className={styles.sortLabelText}>Released:</label>
+                <input
+                  id="user-list-released-from"
+                  type="number"
+                  min={1980}
+                  max={2100}
+                  value={userListReleasedFromYear}
+                  onChange={(inputEvent) => setUserListReleasedFromYear(inputEvent.target.value)}
+                  placeholder="From"
+                  className={styles.userListYearInputField}
+                />
+                <input
+                  type="number"
+                  min={1980}
+                  max={2100}
+                  value={userListReleasedToYear}
+                  onChange={(inputEvent) => setUserListReleasedToYear(inputEvent.target.value)}
+                  placeholder="To"
+                  className={styles.userListYearInputField}
+                  aria-label="Released until year"
+                />
+              </div>
+              <button type="submit" className={styles.filterSecondaryButton} disabled={isUserListTagLookupInFlight}>
+                {isUserListTagLookupInFlight ? 'Finding Tag...' : 'Apply'}
+              </button>
+              {userListFilterMessage && <span className={styles.userListInfoText} role="status">{userListFilterMessage}</span>}
+            </form>
+          )}
+          {isViewingForeignUserList && viewedListOwner && (
+            <p className={styles.userListInfoText}>
+              Browsing {viewedListOwner.username}'s public list (read-only). Entries under private labels are not shown;
+              use + My List on a card to add a title to your own list.
+            </p>
+          )}
           {isViewingUserList && (
             <p className={styles.userListInfoText}>
               Note: VNDB API does not return deleted visual novels from user lists, even if they still appear on the website.
             </p>
           )}
-          {isViewingUserList && authenticatedSession && !hasListReadPermission && (
+          {isViewingUserList && !isViewingForeignUserList && authenticatedSession && !hasListReadPermission && (
             <p className={styles.userListInfoText}>
               Your token does not include `listread`; entries under private labels may be hidden by VNDB API.
             </p>
           )}
           {isViewingUserList && visualNovelDatabaseEntries.length === 0 && (
-            <div className={styles.systemStatusMessage}>Your VN list is currently empty or unavailable.</div>
+            <div className={styles.systemStatusMessage}>
+              {isViewingForeignUserList && viewedListOwner
+                ? `${viewedListOwner.username} has no public entries on their VN list.`
+                : 'Your VN list is currently empty or unavailable.'}
+            </div>
           )}
           {!isViewingUserList && visualNovelDatabaseEntries.length === 0 && (
             <div className={styles.emptyStateBoundary}>
@@ -1162,21 +1756,69 @@ export function VisualNovelList({
               )}
             </div>
           )}
+          {isSelectionModeActive ? (
+            <VisualNovelBatchToolbar
+              selectedEntries={selectedVisualNovelEntries}
+              visibleEntryCount={displayedVisualNovelEntries.length}
+              canWriteUserList={Boolean(authenticatedSession && hasListWritePermission)}
+              userListLabelDefinitions={userListLabelDefinitions}
+              batchActionHandlers={batchActionHandlers}
+              onSelectAllVisible={() => setSelectedVisualNovelIdentifiers(new Set(displayedVisualNovelEntries.map((entry) => entry.id)))}
+              onClearSelection={() => setSelectedVisualNovelIdentifiers(new Set())}
+              onExitSelectionMode={handleSelectionModeExit}
+              onExportSelection={handleSelectionExport}
+            />
+          ) : (displayedVisualNovelEntries.length > 0 || (isViewingUserList && authenticatedSession)) && (
+            <div className={styles.filterControlRow}>
+              {displayedVisualNovelEntries.length > 0 && (
+                <button type="button" className={styles.filterSecondaryButton} onClick={() => setIsSelectionModeActive(true)}>
+                  Select Multiple
+                </button>
+              )}
+              {isViewingUserList && !isViewingForeignUserList && authenticatedSession && (
+                <button
+                  type="button"
+                  className={styles.filterSecondaryButton}
+                  aria-expanded={isUserListTransferPanelVisible}
+                  onClick={() => setIsUserListTransferPanelVisible((isVisible) => !isVisible)}
+                >
+                  Import / Export
+                </button>
+              )}
+              {isViewingForeignUserList && authenticatedSession && (
+                <button
+                  type="button"
+                  className={styles.filterSecondaryButton}
+                  aria-expanded={isUserListComparisonVisible}
+                  onClick={() => setIsUserListComparisonVisible((isVisible) => !isVisible)}
+                >
+                  Compare with My List
+                </button>
+              )}
+            </div>
+          )}
+          {isViewingForeignUserList && viewedListOwner && authenticatedSession && isUserListComparisonVisible && (
+            <UserListComparisonPanel
+              key={viewedListOwner.id}
+              authenticatedSession={authenticatedSession}
+              listOwner={viewedListOwner}
+              onVisualNovelSelection={onVisualNovelSelection}
+              onClose={() => setIsUserListComparisonVisible(false)}
+            />
+          )}
+          {isViewingUserList && !isViewingForeignUserList && authenticatedSession && isUserListTransferPanelVisible && (
+            <UserListTransferPanel
+              authenticatedSession={authenticatedSession}
+              canWriteUserList={hasListWritePermission}
+              userListLabelDefinitions={userListLabelDefinitions}
+              onPatchUserListEntry={onPatchVisualNovelUserListEntry}
+              onImportApplied={() => executeUserListFetch(null, activeUserListQuery, 1, false)}
+              onClose={() => setIsUserListTransferPanelVisible(false)}
+            />
+          )}
           <ul className={styles.visualNovelResultsList}>
             {/* The parent component now strictly maps data to the child interface. */}
-            {visualNovelDatabaseEntries
-              .map((novelEntry) => {
-                const normalizedIdentifier = normalizeEntryIdentifier((novelEntry as { id?: unknown }).id);
-                if (!normalizedIdentifier) {
-                  return null;
-                }
-
-                return {
-                  ...novelEntry,
-                  id: normalizedIdentifier
-                };
-              })
-              .filter((novelEntry): novelEntry is VisualNovelDatabaseEntry => Boolean(novelEntry))
+            {displayedVisualNovelEntries
               .map((novelEntry, itemIndex) => (
                 <VisualNovelListItem 
                     key={novelEntry.id} 
@@ -1193,28 +1835,16 @@ export function VisualNovelList({
                     initialStatusLabelIdentifier={userListStatusByIdentifier[
                       novelEntry.id.toLowerCase().startsWith('v') ? novelEntry.id.toLowerCase() : `v${novelEntry.id.toLowerCase()}`
                     ] ?? 5}
-                    onMarkedAsAdded={(visualNovelIdentifier) => {
-                      setUserListIdentifierSet((currentSet) => {
-                        const normalizedIdentifier = visualNovelIdentifier.toLowerCase().startsWith('v')
-                          ? visualNovelIdentifier.toLowerCase()
-                          : `v${visualNovelIdentifier.toLowerCase()}`;
-                        const updatedSet = new Set(currentSet);
-                        updatedSet.add(normalizedIdentifier);
-                        return updatedSet;
-                      });
-                    }}
-                    onUpdateUserListStatus={async (visualNovelIdentifier, statusLabelIdentifier) => {
-                      await onUpdateVisualNovelUserListStatus(visualNovelIdentifier, statusLabelIdentifier);
-                      setUserListStatusByIdentifier((currentStatusMap) => {
-                        const normalizedVisualNovelIdentifier = visualNovelIdentifier.toLowerCase().startsWith('v')
-                          ? visualNovelIdentifier.toLowerCase()
-                          : `v${visualNovelIdentifier.toLowerCase()}`;
-                        return {
-                          ...currentStatusMap,
-                          [normalizedVisualNovelIdentifier]: statusLabelIdentifier
-                        };
-                      });
-                    }}
+                    onMarkedAsAdded={markVisualNovelAsAdded}
+                    onUpdateUserListStatus={handleUserListStatusUpdate}
+                    userListEntryDetails={isViewingUserList ? userListDetailsByIdentifier[novelEntry.id] : undefined}
+                    onSaveUserListEntryDetails={handleUserListEntryDetailsSave}
+                    userListLabelDefinitions={displayedUserListLabelDefinitions}
+                    assignedUserListLabelIdentifiers={isViewingUserList ? userListLabelsByIdentifier[novelEntry.id] : undefined}
+                    onUpdateUserListLabels={handleUserListLabelChange}
+                    isSelectionModeActive={isSelectionModeActive}
+                    isSelected={selectedVisualNovelIdentifiers.has(novelEntry.id)}
+                    onSelectionToggle={handleSelectionToggle}
                     itemIndex={itemIndex} 
                 />
                 ))}
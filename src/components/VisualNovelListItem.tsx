@@ -1,5 +1,10 @@
 import { useEffect, useState, type CSSProperties, type MouseEvent } from 'react';
-import { type VisualNovelDatabaseEntry } from '../types/apiTypes';
+import { type UserListLabelDefinition, type UserVisualNovelListEntryDetails, type VisualNovelDatabaseEntry } from '../types/apiTypes';
+import { summarizeUserListEntryDetails } from '../utils/userListEntryDetails';
+import { isAssignableUserListLabel, USER_LIST_STATUS_OPTIONS } from '../utils/userListLabels';
+import { describeVndbError } from '../utils/vndbErrorPresentation';
+import { UserListEntryEditor } from './UserListEntryEditor';
+import { UserListLabelPicker } from './UserListLabelPicker';
 import styles from './VisualNovelList.module.css';
 
 // We define a strict interface for the data crossing into this component boundary.
@@ -15,6 +20,20 @@ interface VisualNovelListItemProperties {
   initialStatusLabelIdentifier: number;
   onMarkedAsAdded: (visualNovelIdentifier: string) => void;
   onUpdateUserListStatus: (visualNovelIdentifier: string, statusLabelIdentifier: number) => Promise<void>;
+  // Only provided while viewing the user list.
+  userListEntryDetails?: UserVisualNovelListEntryDetails;
+  onSaveUserListEntryDetails: (visualNovelIdentifier: string, detailChanges: Partial<UserVisualNovelListEntryDetails>) => Promise<void>;
+  userListLabelDefinitions: UserListLabelDefinition[];
+  // Only provided while viewing the user list.
+  assignedUserListLabelIdentifiers?: number[];
+  onUpdateUserListLabels: (
+    visualNovelIdentifier: string,
+    labelChanges: { labelsToSet: number[]; labelsToUnset: number[] }
+  ) => Promise<void>;
+  // In selection mode the whole card toggles selection instead of opening the detail view.
+  isSelectionModeActive: boolean;
+  isSelected: boolean;
+  onSelectionToggle: (visualNovelIdentifier: string, isRangeGesture: boolean) => void;
   itemIndex: number;
 }
 
@@ -32,20 +51,25 @@ export function VisualNovelListItem({
   initialStatusLabelIdentifier,
   onMarkedAsAdded,
   onUpdateUserListStatus,
+  userListEntryDetails,
+  onSaveUserListEntryDetails,
+  userListLabelDefinitions,
+  assignedUserListLabelIdentifiers,
+  onUpdateUserListLabels,
+  isSelectionModeActive,
+  isSelected,
+  onSelectionToggle,
   itemIndex
 }: VisualNovelListItemProperties) {
-  const USER_LIST_STATUS_OPTIONS = [
-    { id: 1, label: 'Playing' },
-    { id: 2, label: 'Finished' },
-    { id: 3, label: 'Stalled' },
-    { id: 4, label: 'Dropped' },
-    { id: 5, label: 'Wishlist' },
-    { id: 6, label: 'Blacklist' }
-  ];
   const [isImageExplicitlyRevealed, setIsImageExplicitlyRevealed] = useState<boolean>(false);
   const [isAddOperationInFlight, setIsAddOperationInFlight] = useState<boolean>(false);
   const [addOperationMessage, setAddOperationMessage] = useState<string | null>(null);
   const [selectedStatusLabelIdentifier, setSelectedStatusLabelIdentifier] = useState<number>(initialStatusLabelIdentifier);
+  const [isDetailEditorOpen, setIsDetailEditorOpen] = useState<boolean>(false);
+  const [isLabelPickerOpen, setIsLabelPickerOpen] = useState<boolean>(false);
+  const assignedCustomLabels = userListLabelDefinitions.filter((labelDefinition) => (
+    isAssignableUserListLabel(labelDefinition.id) && (assignedUserListLabelIdentifiers ?? []).includes(labelDefinition.id)
+  ));
 
   const hasExplicitContentFlag = visualNovelData.image && visualNovelData.image.sexual > 1.0;
   const shouldAllowManualReveal = nsfwCoverBlurMode === 'auto';
@@ -77,7 +101,7 @@ export function VisualNovelListItem({
       setAddOperationMessage(`Added (${selectedStatusLabel})`);
       onMarkedAsAdded(visualNovelData.id);
     } catch (caughtError) {
-      setAddOperationMessage(caughtError instanceof Error ? caughtError.message : 'Add failed');
+      setAddOperationMessage(describeVndbError(caughtError, 'Add failed').message);
     } finally {
       setIsAddOperationInFlight(false);
     }
@@ -93,7 +117,7 @@ export function VisualNovelListItem({
       const selectedStatusLabel = USER_LIST_STATUS_OPTIONS.find((statusOption) => statusOption.id === selectedStatusLabelIdentifier)?.label ?? 'Updated';
       setAddOperationMessage(`Updated (${selectedStatusLabel})`);
     } catch (caughtError) {
-      setAddOperationMessage(caughtError instanceof Error ? caughtError.message : 'Update failed');
+      setAddOperationMessage(describeVndbError(caughtError, 'Update failed').message);
     } finally {
       setIsAddOperationInFlight(false);
     }
@@ -101,22 +125,39 @@ export function VisualNovelListItem({
 
   return (
     <li
-      className={styles.visualNovelListItem}
+      className={`${styles.visualNovelListItem} ${isSelectionModeActive && isSelected ? styles.visualNovelListItemSelected : ''}`}
       style={{ '--stagger-index': itemIndex } as CSSProperties}
-      role="button"
+      role={isSelectionModeActive ? 'checkbox' : 'button'}
+      aria-checked={isSelectionModeActive ? isSelected : undefined}
       tabIndex={0}
       onMouseEnter={() => onVisualNovelPrefetch?.(visualNovelData.id)}
       onFocus={() => onVisualNovelPrefetch?.(visualNovelData.id)}
       onTouchStart={() => onVisualNovelPrefetch?.(visualNovelData.id)}
-      onClick={onVisualNovelSelection}
+      onClick={(clickEvent) => {
+        if (isSelectionModeActive) {
+          onSelectionToggle(visualNovelData.id, clickEvent.shiftKey);
+          return;
+        }
+        onVisualNovelSelection();
+      }}
       onKeyDown={(e) => {
         if (e.key === 'Enter' || e.key === ' ') {
           e.preventDefault();
+          if (isSelectionModeActive) {
+            onSelectionToggle(visualNovelData.id, e.shiftKey);
+            return;
+          }
           onVisualNovelSelection();
         }
       }}
     >
       <div className={styles.imageContainerWrapper}>
+        {isSelectionModeActive && (
+          // Decorative: the card itself is the checkbox for pointer and keyboard users.
+          <span className={styles.selectionCheckboxBoundary} aria-hidden="true">
+            <input type="checkbox" checked={isSelected} readOnly tabIndex={-1} />
+          </span>
+        )}
         <div className={styles.coverImageBoundary}>
           {visualNovelData.image && visualNovelData.image.thumbnail ? (
             <img 
@@ -148,10 +189,20 @@ export function VisualNovelListItem({
         <div className={styles.cardTextOverlay}>
           <p className={styles.novelTitleText}>{visualNovelData.title}</p>
           {visualNovelData.rating && <p className={styles.novelRatingText}>Rating: {visualNovelData.rating}</p>}
+          {userListEntryDetails && summarizeUserListEntryDetails(userListEntryDetails) && (
+            <p className={styles.userListDetailSummaryText}>{summarizeUserListEntryDetails(userListEntryDetails)}</p>
+          )}
+          {assignedCustomLabels.length > 0 && (
+            <div className={styles.userListLabelChipRow}>
+              {assignedCustomLabels.map((labelDefinition) => (
+                <span key={labelDefinition.id} className={styles.userListLabelChip}>{labelDefinition.label}</span>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Quick-add controls are intentionally compact/overlayed to preserve image-first browsing. */}
-        {canAddToUserList && (
+        {canAddToUserList && !isSelectionModeActive && (
           <div className={styles.quickAddRow}>
             {(!isAlreadyInUserList || canEditExistingUserListEntry) && (
               <select
@@ -187,9 +238,52 @@ export function VisualNovelListItem({
                 {isAlreadyInUserList ? 'Already Added' : isAddOperationInFlight ? 'Adding...' : '+ My List'}
               </button>
             )}
+            {isAlreadyInUserList && canEditExistingUserListEntry && userListEntryDetails && (
+              <button
+                type="button"
+                className={styles.quickAddButton}
+                onClick={(clickEvent) => {
+                  clickEvent.stopPropagation();
+                  setIsDetailEditorOpen(true);
+                }}
+              >
+                Edit Details
+              </button>
+            )}
+            {isAlreadyInUserList && canEditExistingUserListEntry && assignedUserListLabelIdentifiers && (
+              <button
+                type="button"
+                className={styles.quickAddButton}
+                onClick={(clickEvent) => {
+                  clickEvent.stopPropagation();
+                  setIsLabelPickerOpen(true);
+                }}
+              >
+                Labels
+              </button>
+            )}
             {addOperationMessage && <span className={styles.quickAddMessage}>{addOperationMessage}</span>}
           </div>
         )}
+
+        {isDetailEditorOpen && userListEntryDetails && (
+          <UserListEntryEditor
+            variant="overlay"
+            entryDetails={userListEntryDetails}
+            onSave={(detailChanges) => onSaveUserListEntryDetails(visualNovelData.id, detailChanges)}
+            onClose={() => setIsDetailEditorOpen(false)}
+          />
+        )}
+
+        {isLabelPickerOpen && assignedUserListLabelIdentifiers && (
+          <UserListLabelPicker
+            variant="overlay"
+            labelDefinitions={userListLabelDefinitions}
+            assignedLabelIdentifiers={assignedUserListLabelIdentifiers}
+            onChange={(labelChanges) => onUpdateUserListLabels(visualNovelData.id, labelChanges)}
+            onClose={() => setIsLabelPickerOpen(false)}
+          />
+        )}
       </div>
     </li>
   );
@@ -0,0 +1,38 @@
+import { type VndbErrorPresentation } from '../utils/vndbErrorPresentation';
+import styles from './VndbErrorNotice.module.css';
+
+interface VndbErrorNoticeProperties {
+  errorPresentation: VndbErrorPresentation;
+  onRetry?: () => void;
+  onReauthenticationRequested?: () => void;
+}
+
+// Shared failure panel: the recovery button shown depends on the error kind, and only when the view supports it.
+export function VndbErrorNotice({ errorPresentation, onRetry, onReauthenticationRequested }: VndbErrorNoticeProperties) {
+  const shouldShowRetryButton = errorPresentation.recoveryAction === 'retry' && onRetry;
+  const shouldShowReauthenticationButton = errorPresentation.recoveryAction === 'reauthenticate' && onReauthenticationRequested;
+
+  return (
+    <div
+      role="alert"
+      className={`${styles.noticeBoundary} ${errorPresentation.isOffline ? styles.noticeBoundaryOffline : ''}`}
+    >
+      <p className={styles.noticeTitle}>{errorPresentation.title}</p>
+      <p className={styles.noticeMessage}>{errorPresentation.message}</p>
+      {(shouldShowRetryButton || shouldShowReauthenticationButton) && (
+        <div className={styles.noticeActionRow}>
+          {shouldShowRetryButton && (
+            <button type="button" className={styles.noticeActionButton} onClick={onRetry}>
+              Try Again
+            </button>
+          )}
+          {shouldShowReauthenticationButton && (
+            <button type="button" className={styles.noticeActionButton} onClick={onReauthenticationRequested}>
+              Log In Again
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
+import type { UserListFilter, VisualNovelFilter } from './filterTypes';
+
 // This interface defines the expected input for our network boundary.
 export interface QueryParameters {
-  queryFilters: any[];
+  queryFilters: VisualNovelFilter;
   requestedFields: string;
   maxResults: number;
   pageNumber?: number;
@@ -8,6 +10,13 @@ export interface QueryParameters {
   reverseSort?: boolean;
 }
 
+// Optional narrowing and ordering for one /ulist page; both are applied by VNDB.
+export interface UserListPageQuery {
+  queryFilters?: UserListFilter;
+  sortField?: string;
+  reverseSort?: boolean;
+}
+
 // This interface enforces a strict structural contract for the data returned by the VNDB API.
 // We explicitly account for nullability, as a visual novel may not have received enough votes for a rating.
 export interface VisualNovelDatabaseEntry {
@@ -29,12 +38,35 @@ export interface VisualNovelAuthInfoResponse {
   permissions: string[];
 }
 
+// One match from `GET /user?q=`; only the public identity is returned.
+export interface VndbUserLookupEntry {
+  id: string;
+  username: string;
+}
+
 // Define the nested image object returned by the API.
+// Only `sexual` is selected by every query; list cards request the thumbnail alone.
 export interface VisualNovelCoverImage {
-  id: string;
+  id?: string;
+  url?: string;
+  thumbnail?: string;
+  sexual: number; // Represents the average image flagging vote for sexual content (0 to 2)
+}
+
+export interface VisualNovelScreenshotEntry {
   url: string;
   thumbnail: string;
-  sexual: number; // Represents the average image flagging vote for sexual content (0 to 2)
+}
+
+// Envelope from GET /stats.
+export interface DatabaseStatisticsResponse {
+  chars: number;
+  producers: number;
+  releases: number;
+  staff: number;
+  tags: number;
+  traits: number;
+  vn: number;
 }
 
 export interface VisualNovelRelationEntry {
@@ -62,7 +94,7 @@ export interface VisualNovelTagMetadataEntry {
 export interface VisualNovelContributorEntry {
   id: string;
   name: string;
-  role?: string;
+  original?: string | null;
 }
 
 export interface VisualNovelExternalLinkEntry {
@@ -73,6 +105,45 @@ export interface VisualNovelExternalLinkEntry {
   releaseTitle?: string;
 }
 
+export interface VisualNovelReleaseLanguageEntry {
+  lang: string;
+  // Machine translation flag.
+  mtl?: boolean;
+}
+
+export interface VisualNovelReleaseMediaEntry {
+  medium: string;
+  qty: number;
+}
+
+export interface VisualNovelReleaseExternalLinkEntry {
+  url: string;
+  label: string;
+  name: string;
+}
+
+export interface VisualNovelReleaseEntry {
+  id: string;
+  title: string;
+  languages: VisualNovelReleaseLanguageEntry[];
+  platforms: string[];
+  media: VisualNovelReleaseMediaEntry[];
+  released: string | null;
+  minage: number | null;
+  patch: boolean;
+  freeware: boolean;
+  official: boolean;
+  // `[width, height]`, the literal "non-standard", or null when unknown.
+  resolution: [number, number] | 'non-standard' | null;
+  // 1 not voiced, 2 ero scenes only, 3 partially voiced, 4 fully voiced.
+  voiced: 1 | 2 | 3 | 4 | null;
+  // Story sprites, story CGs, ero sprites, ero CGs; low bits: 0 none, 1 simple, 2 some fully animated, 3 all.
+  animation: [number | null, number | null, number | null, number | null] | null;
+  // Release type relative to each linked VN.
+  vns?: Array<{ id: string; rtype: 'trial' | 'partial' | 'complete' }> | null;
+  extlinks?: VisualNovelReleaseExternalLinkEntry[] | null;
+}
+
 export interface VisualNovelCharacterEntry {
   id: string;
   name: string;
@@ -110,7 +181,7 @@ export interface CharacterQueryResponse {
 export interface CharacterTraitMetadataEntry {
   id: string;
   name: string;
-  group_name?: string;
+  group_name?: string | null;
 }
 
 export interface CharacterTraitQueryResponse {
@@ -124,10 +195,112 @@ export interface VisualNovelDetailedEntry extends VisualNovelDatabaseEntry {
   description: string | null;
   released: string | null;
   tags: VisualNovelTagEntry[] | null;
-  screenshots: VisualNovelCoverImage[] | null;
+  screenshots: VisualNovelScreenshotEntry[] | null;
   relations: VisualNovelRelationEntry[] | null;
   developers: VisualNovelContributorEntry[] | null;
   characters?: VisualNovelCharacterEntry[] | null;
+  staff?: VisualNovelStaffCreditEntry[] | null;
+  va?: VisualNovelVoiceActorEntry[] | null;
+}
+
+export interface ProducerExternalLinkEntry {
+  url: string;
+  label: string;
+  name: string;
+}
+
+export interface ProducerRelationEntry {
+  id: string;
+  name: string;
+  original?: string | null;
+  // VNDB relation code: old, new, sub, par, imp, ipa, spa, ori.
+  relation: string;
+}
+
+export interface ProducerDetailedEntry {
+  id: string;
+  name: string;
+  original?: string | null;
+  aliases?: string[] | null;
+  lang?: string | null;
+  // `co` company, `in` individual, `ng` amateur group.
+  type?: 'co' | 'in' | 'ng' | null;
+  description?: string | null;
+  extlinks?: ProducerExternalLinkEntry[] | null;
+  relations?: ProducerRelationEntry[] | null;
+}
+
+export interface ProducerQueryResponse {
+  results: ProducerDetailedEntry[];
+  more: boolean;
+}
+
+export interface VisualNovelStaffCreditEntry {
+  id: string;
+  // Alias the person was credited under; one staff ID can appear under several aliases.
+  aid?: number;
+  name: string;
+  original?: string | null;
+  // VNDB role code: scenario, chardesign, art, music, songs, director, translator, editor, qa, staff.
+  role: string;
+  note?: string | null;
+}
+
+export interface VisualNovelVoiceActorEntry {
+  note?: string | null;
+  staff: {
+    id: string;
+    name: string;
+    original?: string | null;
+  };
+  character: {
+    id: string;
+    name: string;
+    original?: string | null;
+  };
+}
+
+export interface StaffAliasEntry {
+  aid: number;
+  name: string;
+  latin?: string | null;
+  ismain: boolean;
+}
+
+export interface StaffDetailedEntry {
+  id: string;
+  name: string;
+  original?: string | null;
+  lang?: string | null;
+  gender?: 'm' | 'f' | null;
+  description?: string | null;
+  aliases?: StaffAliasEntry[] | null;
+}
+
+export interface StaffQueryResponse {
+  results: StaffDetailedEntry[];
+  more: boolean;
+}
+
+// One credit of a staff member on a VN; voice credits use role `va` and name the character voiced.
+export interface StaffVisualNovelCreditEntry {
+  role: string;
+  note?: string | null;
+  characterName?: string;
+}
+
+export interface StaffCreditedVisualNovelEntry {
+  id: string;
+  title: string;
+  released: string | null;
+  rating: number | null;
+  credits: StaffVisualNovelCreditEntry[];
+}
+
+// Catalog rows carry the release date so a producer's works can be ordered chronologically.
+export interface ProducerCatalogEntry extends VisualNovelDatabaseEntry {
+  released: string | null;
+  votecount?: number;
 }
 
 export interface VisualNovelDetailedQueryResponse {
@@ -135,14 +308,84 @@ export interface VisualNovelDetailedQueryResponse {
   more: boolean;
 }
 
+// Queries that select only some detail fields (supplemental sections, staff credits) yield fragments to merge.
+export type VisualNovelDetailedFragment = Pick<VisualNovelDetailedEntry, 'id'> & Partial<VisualNovelDetailedEntry>;
+
+export interface VisualNovelDetailedFragmentQueryResponse {
+  results: VisualNovelDetailedFragment[];
+  more: boolean;
+}
+
 export interface VisualNovelTagQueryResponse {
   results: VisualNovelTagMetadataEntry[];
   more: boolean;
 }
 
+export interface UserVisualNovelListLabelEntry {
+  id: number;
+  label?: string;
+}
+
 export interface UserVisualNovelListEntry {
+  // The VN identifier; ulist entries are keyed by VN.
+  id: string;
+  labels?: UserVisualNovelListLabelEntry[];
+  vn?: VisualNovelDatabaseEntry;
+  // Personal fields are only present when selected.
+  vote?: number | null;
+  notes?: string | null;
+  started?: string | null;
+  finished?: string | null;
+  // Unix timestamp (seconds) of the last change to the entry.
+  lastmod?: number | null;
+}
+
+// The VN fields the personal statistics aggregate: language, play time, developers and tags.
+export interface UserListStatisticsVisualNovel {
+  id: string;
+  title: string;
+  rating: number | null;
+  olang: string | null;
+  // 1 (very short) to 5 (very long); `length_minutes` is the average of user-submitted play times.
+  length: number | null;
+  length_minutes: number | null;
+  developers: VisualNovelContributorEntry[] | null;
+  tags: VisualNovelTagEntry[] | null;
+}
+
+export interface UserListStatisticsEntry {
   id: string;
-  vn: VisualNovelDatabaseEntry;
+  labels?: UserVisualNovelListLabelEntry[];
+  vote?: number | null;
+  started?: string | null;
+  finished?: string | null;
+  vn?: UserListStatisticsVisualNovel;
+}
+
+// The editable personal fields of a ulist entry. Votes use VNDB's 10-100 scale; dates are `YYYY-MM-DD`.
+export interface UserVisualNovelListEntryDetails {
+  vote: number | null;
+  notes: string;
+  started: string | null;
+  finished: string | null;
+}
+
+export interface UserVisualNovelListEntryState extends UserVisualNovelListEntryDetails {
+  isInList: boolean;
+  labels: number[];
+}
+
+// One of the user's ulist labels from `/ulist_labels`. IDs 1-6 are the status labels, 7 is "Voted", custom labels start at 10.
+export interface UserListLabelDefinition {
+  id: number;
+  label: string;
+  private: boolean;
+  // Only present when the `count` field is requested.
+  count?: number;
+}
+
+export interface UserListLabelsResponse {
+  labels: UserListLabelDefinition[];
 }
 
 export interface UserVisualNovelListResponse {
@@ -0,0 +1,147 @@
+// Filter schemas mirror the Kana filter tables per endpoint so typos and wrong operators fail at compile time.
+// Each entry declares the operators VNDB accepts for that filter and the value shape it expects.
+
+export type EqualityOperator = '=' | '!=';
+export type OrderingOperator = EqualityOperator | '>' | '>=' | '<' | '<=';
+
+export interface FilterDefinition<TOperator extends OrderingOperator, TValue> {
+  operator: TOperator;
+  value: TValue;
+}
+
+type EqualityFilter<TValue> = FilterDefinition<EqualityOperator, TValue>;
+type OrderedFilter<TValue> = FilterDefinition<OrderingOperator, TValue>;
+// Boolean flag filters such as `has_description` only accept a truthy value; negate with `!=`.
+type FlagFilter = FilterDefinition<EqualityOperator, true>;
+
+declare const filterSchemaBrand: unique symbol;
+
+// Internal filter tree; kept structural so `not()` can push negation down into predicates.
+export type VndbFilterNode =
+  | { kind: 'predicate'; name: string; operator: OrderingOperator; value: unknown }
+  | { kind: 'and' | 'or'; children: VndbFilterNode[] };
+
+// A filter bound to one endpoint schema. The brand keeps e.g. release filters out of /vn queries.
+export interface VndbFilter<TSchema> {
+  readonly node: VndbFilterNode;
+  readonly [filterSchemaBrand]?: TSchema;
+}
+
+// Kana JSON filter form: `["name", "op", value]` or `["and" | "or", ...filters]`.
+export type SerializedVndbFilter = [string, ...unknown[]];
+
+export interface VisualNovelFilterSchema {
+  id: OrderedFilter<string>;
+  search: EqualityFilter<string>;
+  lang: EqualityFilter<string>;
+  olang: EqualityFilter<string>;
+  platform: EqualityFilter<string>;
+  length: OrderedFilter<number>;
+  released: OrderedFilter<string | null>;
+  rating: OrderedFilter<number | null>;
+  votecount: OrderedFilter<number>;
+  has_description: FlagFilter;
+  has_anime: FlagFilter;
+  has_screenshot: FlagFilter;
+  has_review: FlagFilter;
+  devstatus: EqualityFilter<0 | 1 | 2>;
+  // Tag ID, or `[tagId, maximumSpoilerLevel, minimumTagLevel]`.
+  tag: EqualityFilter<string | [string, number, number]>;
+  dtag: EqualityFilter<string | [string, number, number]>;
+  anime_id: EqualityFilter<number>;
+  // `[userId, labelId]`.
+  label: EqualityFilter<[string, number]>;
+  release: EqualityFilter<VndbFilter<ReleaseFilterSchema>>;
+  character: EqualityFilter<VndbFilter<CharacterFilterSchema>>;
+  staff: EqualityFilter<VndbFilter<StaffFilterSchema>>;
+  developer: EqualityFilter<VndbFilter<ProducerFilterSchema>>;
+}
+
+// `/ulist` accepts every /vn filter (matched against the entry's VN) and replaces `label` with the list's own label IDs.
+export interface UserListFilterSchema extends Omit<VisualNovelFilterSchema, 'label'> {
+  label: EqualityFilter<number>;
+}
+
+export interface ReleaseFilterSchema {
+  id: OrderedFilter<string>;
+  search: EqualityFilter<string>;
+  lang: EqualityFilter<string>;
+  platform: EqualityFilter<string>;
+  released: OrderedFilter<string | null>;
+  // `[width, height]` or the literal "non-standard".
+  resolution: OrderedFilter<[number, number] | 'non-standard'>;
+  resolution_aspect: OrderedFilter<[number, number]>;
+  minage: OrderedFilter<number | null>;
+  medium: EqualityFilter<string | null>;
+  voiced: EqualityFilter<1 | 2 | 3 | 4 | null>;
+  engine: EqualityFilter<string | null>;
+  rtype: EqualityFilter<'trial' | 'partial' | 'complete'>;
+  extlink: EqualityFilter<string | [string, string]>;
+  patch: FlagFilter;
+  freeware: FlagFilter;
+  uncensored: FlagFilter;
+  official: FlagFilter;
+  has_ero: FlagFilter;
+  vn: EqualityFilter<VndbFilter<VisualNovelFilterSchema>>;
+  producer: EqualityFilter<VndbFilter<ProducerFilterSchema>>;
+}
+
+export interface CharacterFilterSchema {
+  id: OrderedFilter<string>;
+  search: EqualityFilter<string>;
+  role: EqualityFilter<'main' | 'primary' | 'side' | 'appears'>;
+  blood_type: EqualityFilter<'a' | 'b' | 'ab' | 'o'>;
+  sex: EqualityFilter<'m' | 'f' | 'b' | 'n'>;
+  height: OrderedFilter<number | null>;
+  weight: OrderedFilter<number | null>;
+  bust: OrderedFilter<number | null>;
+  waist: OrderedFilter<number | null>;
+  hips: OrderedFilter<number | null>;
+  cup: OrderedFilter<string | null>;
+  age: OrderedFilter<number | null>;
+  // Trait ID, or `[traitId, maximumSpoilerLevel]`.
+  trait: EqualityFilter<string | [string, number]>;
+  dtrait: EqualityFilter<string | [string, number]>;
+  // `[month, day]`; day 0 matches the whole month.
+  birthday: EqualityFilter<[number, number]>;
+  seiyuu: EqualityFilter<VndbFilter<StaffFilterSchema>>;
+  vn: EqualityFilter<VndbFilter<VisualNovelFilterSchema>>;
+}
+
+export interface ProducerFilterSchema {
+  id: OrderedFilter<string>;
+  search: EqualityFilter<string>;
+  lang: EqualityFilter<string>;
+  type: EqualityFilter<'co' | 'in' | 'ng'>;
+}
+
+export interface StaffFilterSchema {
+  id: OrderedFilter<string>;
+  aid: EqualityFilter<number>;
+  search: EqualityFilter<string>;
+  lang: EqualityFilter<string>;
+  gender: EqualityFilter<'m' | 'f'>;
+  role: EqualityFilter<string>;
+  extlink: EqualityFilter<string | [string, string]>;
+  ismain: FlagFilter;
+}
+
+export interface TagFilterSchema {
+  id: OrderedFilter<string>;
+  search: EqualityFilter<string>;
+  category: EqualityFilter<'cont' | 'ero' | 'tech'>;
+}
+
+export interface TraitFilterSchema {
+  id: OrderedFilter<string>;
+  search: EqualityFilter<string>;
+}
+
+export type VisualNovelFilter = VndbFilter<VisualNovelFilterSchema>;
+export type UserListFilter = VndbFilter<UserListFilterSchema>;
+export type ReleaseFilter = VndbFilter<ReleaseFilterSchema>;
+export type CharacterFilter = VndbFilter<CharacterFilterSchema>;
+export type ProducerFilter = VndbFilter<ProducerFilterSchema>;
+export type StaffFilter = VndbFilter<StaffFilterSchema>;
+export type TagFilter = VndbFilter<TagFilterSchema>;
+export type TraitFilter = VndbFilter<TraitFilterSchema>;
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { serializeVndbFilter } from '../api/vndbFilterBuilder';
+import {
+  appendAdvancedFilterNode,
+  buildAdvancedVisualNovelFilter,
+  countAdvancedFilterConditions,
+  createAdvancedFilterCondition,
+  createAdvancedFilterGroup,
+  describeAdvancedFilter,
+  parseAdvancedFilter,
+  removeAdvancedFilterNode,
+  serializeAdvancedFilter,
+  type AdvancedFilterCondition,
+  type AdvancedFilterConditionKind,
+  type AdvancedFilterGroup
+} from './advancedVisualNovelFilter';
+import { buildFiltersFromQueryDescriptor } from './visualNovelListQuery';
+
+function buildCondition<TKind extends AdvancedFilterConditionKind>(
+  kind: TKind,
+  overrides: Partial<Extract<AdvancedFilterCondition, { kind: TKind }>>
+): AdvancedFilterCondition {
+  return { ...createAdvancedFilterCondition(kind), ...overrides } as AdvancedFilterCondition;
+}
+
+function buildGroup(combinator: 'and' | 'or', children: AdvancedFilterGroup['children'], isNegated = false): AdvancedFilterGroup {
+  return { ...createAdvancedFilterGroup(combinator), children, isNegated };
+}
+
+// "English, released, nakige, not horror, rating ≥ 75".
+const NAKIGE_FILTER = buildGroup('and', [
+  buildCondition('devstatus', { devstatus: 0 }),
+  buildCondition('tag', { tagIdentifier: 'g1', tagName: 'Nakige', minimumScore: 2 }),
+  buildCondition('tag', { tagIdentifier: 'g7', tagName: 'Horror', isNegated: true }),
+  buildCondition('rating', { comparison: '>=', value: 75 })
+]);
+
+describe('buildAdvancedVisualNovelFilter', () => {
+  it('feeds nested conditions into the search filter', () => {
+    expect(serializeVndbFilter(buildFiltersFromQueryDescriptor({
+      kind: 'text',
+      term: '',
+      filters: { languages: ['en'], originalLanguage: '', onlyWithScreenshots: false, onlyWithDescription: false, advancedFilter: NAKIGE_FILTER },
+      sort: { field: 'default', direction: 'desc' }
+    }))).toEqual([
+      'and',
+      ['id', '>=', 'v1'],
+      ['lang', '=', 'en'],
+      ['devstatus', '=', 0],
+      ['tag', '=', ['g1', 0, 2]],
+      ['tag', '!=', ['g7', 0, 1]],
+      ['rating', '>=', 75]
+    ]);
+  });
+
+  it('negates groups and reaches age ratings and developers through sub-filters', () => {
+    const filterGroup = buildGroup('and', [
+      buildGroup('or', [
+        buildCondition('platform', { platform: 'swi' }),
+        buildCondition('length', { comparison: '<=', value: 2 })
+      ], true),
+      buildCondition('minage', { comparison: '<=', value: 15 }),
+      buildCondition('developer', { producerIdentifier: 'p24', producerName: 'KID' })
+    ]);
+
+    expect(serializeVndbFilter(buildAdvancedVisualNovelFilter(filterGroup)!)).toEqual([
+      'and',
+      ['platform', '!=', 'swi'],
+      ['length', '>', 2],
+      ['release', '=', ['minage', '<=', 15]],
+      ['developer', '=', ['id', '=', 'p24']]
+    ]);
+  });
+
+  it('widens partial release dates and skips unfinished conditions', () => {
+    const filterGroup = buildGroup('and', [
+      buildCondition('released', { comparison: '<=', value: '2024-02' }),
+      buildCondition('released', { comparison: '=', value: '2010' }),
+      buildCondition('released', { comparison: '>=', value: 'soon' }),
+      buildCondition('tag', {}),
+      buildGroup('or', [])
+    ]);
+
+    expect(serializeVndbFilter(buildAdvancedVisualNovelFilter(filterGroup)!)).toEqual([
+      'and',
+      ['released', '<=', '2024-02-29'],
+      ['released', '>=', '2010-01-01'],
+      ['released', '<=', '2010-12-31']
+    ]);
+    expect(countAdvancedFilterConditions(filterGroup)).toBe(2);
+    expect(buildAdvancedVisualNovelFilter(buildGroup('and', [buildCondition('tag', {})]))).toBeNull();
+  });
+});
+
+describe('advanced filter editing and storage', () => {
+  it('appends and removes nodes anywhere in the tree', () => {
+    const nestedGroup = createAdvancedFilterGroup('or');
+    const ratingCondition = buildCondition('rating', { value: 80 });
+    let rootGroup = appendAdvancedFilterNode(createAdvancedFilterGroup(), createAdvancedFilterGroup().nodeIdentifier, ratingCondition);
+    expect(rootGroup.children).toHaveLength(0);
+
+    rootGroup = appendAdvancedFilterNode(rootGroup, rootGroup.nodeIdentifier, nestedGroup);
+    rootGroup = appendAdvancedFilterNode(rootGroup, nestedGroup.nodeIdentifier, ratingCondition);
+    expect(countAdvancedFilterConditions(rootGroup)).toBe(1);
+    expect(countAdvancedFilterConditions(removeAdvancedFilterNode(rootGroup, ratingCondition.nodeIdentifier))).toBe(0);
+  });
+
+  it('round-trips through its serialized form and describes itself', () => {
+    const parsedFilter = parseAdvancedFilter(serializeAdvancedFilter(NAKIGE_FILTER));
+
+    expect(serializeVndbFilter(buildAdvancedVisualNovelFilter(parsedFilter)!)).toEqual(serializeVndbFilter(buildAdvancedVisualNovelFilter(NAKIGE_FILTER)!));
+    expect(describeAdvancedFilter(parsedFilter)).toBe('finished and Nakige ≥ 2 and not Horror ≥ 1 and rating ≥ 75');
+    expect(parseAdvancedFilter('{"kind":"group","children":[{"kind":"tag","tagIdentifier":"bogus"}]}')).toBeNull();
+    expect(parseAdvancedFilter('not json')).toBeNull();
+  });
+});
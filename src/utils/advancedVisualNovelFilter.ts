@@ -0,0 +1,392 @@
+import { producerFilters, releaseFilters, visualNovelFilters } from '../api/vndbFilterBuilder';
+import { type VisualNovelFilter } from '../types/filterTypes';
+import { formatReleaseAgeRating, formatReleasePlatformLabel } from './releaseLabels';
+
+// The advanced search panel edits a tree of AND/OR groups over /vn filters. Any node can be negated, which is how
+// excluded tags ("NOT tag Horror") and "anything but" groups are written; negated rating, length, age and date
+// conditions still skip VNs without that value (see `not()`). Incomplete conditions (a tag not yet picked, a
+// malformed date) stay in the tree for editing but are left out of the query.
+
+export type AdvancedFilterComparison = '>=' | '<=' | '=';
+export type AdvancedFilterConditionKind = AdvancedFilterCondition['kind'];
+
+interface AdvancedFilterNodeBase {
+  // Only used to address nodes while editing; not part of links or stored filters.
+  nodeIdentifier: string;
+  isNegated: boolean;
+}
+
+export type AdvancedFilterCondition = AdvancedFilterNodeBase & (
+  // `minimumScore` is VNDB's 0-3 tag level; `maximumSpoilerLevel` 0 none, 1 minor, 2 major.
+  | { kind: 'tag'; tagIdentifier: string; tagName: string; minimumScore: number; maximumSpoilerLevel: 0 | 1 | 2 }
+  | { kind: 'developer'; producerIdentifier: string; producerName: string }
+  | { kind: 'platform'; platform: string }
+  | { kind: 'devstatus'; devstatus: 0 | 1 | 2 }
+  // VNDB length categories 1 (very short) to 5 (very long).
+  | { kind: 'length'; comparison: AdvancedFilterComparison; value: number }
+  // Bayesian rating on VNDB's 10-100 scale.
+  | { kind: 'rating'; comparison: AdvancedFilterComparison; value: number }
+  | { kind: 'votecount'; comparison: AdvancedFilterComparison; value: number }
+  // Matches VNs with at least one release carrying this age rating.
+  | { kind: 'minage'; comparison: AdvancedFilterComparison; value: number }
+  // `YYYY`, `YYYY-MM` or `YYYY-MM-DD`; partial dates are widened to the start or end of the period.
+  | { kind: 'released'; comparison: AdvancedFilterComparison; value: string }
+);
+
+export interface AdvancedFilterGroup extends AdvancedFilterNodeBase {
+  kind: 'group';
+  combinator: 'and' | 'or';
+  children: AdvancedFilterNode[];
+}
+
+export type AdvancedFilterNode = AdvancedFilterGroup | AdvancedFilterCondition;
+
+export const ADVANCED_FILTER_CONDITION_LABELS: Record<AdvancedFilterConditionKind, string> = {
+  tag: 'Tag',
+  developer: 'Developer',
+  platform: 'Platform',
+  devstatus: 'Development status',
+  length: 'Length',
+  rating: 'Rating',
+  votecount: 'Vote count',
+  minage: 'Age rating',
+  released: 'Release date'
+};
+
+export const VISUAL_NOVEL_LENGTH_LABELS: Record<number, string> = {
+  1: 'Very short',
+  2: 'Short',
+  3: 'Medium',
+  4: 'Long',
+  5: 'Very long'
+};
+
+export const DEVELOPMENT_STATUS_LABELS: Record<0 | 1 | 2, string> = {
+  0: 'Finished',
+  1: 'In development',
+  2: 'Cancelled'
+};
+
+const RELEASE_DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+const COMPARISON_LABELS: Record<AdvancedFilterComparison, string> = { '>=': '≥', '<=': '≤', '=': '=' };
+let advancedFilterNodeCount = 0;
+
+function createNodeIdentifier() {
+  advancedFilterNodeCount += 1;
+  return `advanced-filter-${advancedFilterNodeCount}`;
+}
+
+export function createAdvancedFilterGroup(combinator: AdvancedFilterGroup['combinator'] = 'and'): AdvancedFilterGroup {
+  return { nodeIdentifier: createNodeIdentifier(), isNegated: false, kind: 'group', combinator, children: [] };
+}
+
+export function createAdvancedFilterCondition(kind: AdvancedFilterConditionKind): AdvancedFilterCondition {
+  const nodeBase = { nodeIdentifier: createNodeIdentifier(), isNegated: false };
+  switch (kind) {
+    case 'tag':
+      return { ...nodeBase, kind, tagIdentifier: '', tagName: '', minimumScore: 1, maximumSpoilerLevel: 0 };
+    case 'developer':
+      return { ...nodeBase, kind, producerIdentifier: '', producerName: '' };
+    case 'platform':
+      return { ...nodeBase, kind, platform: 'win' };
+    case 'devstatus':
+      return { ...nodeBase, kind, devstatus: 0 };
+    case 'length':
+      return { ...nodeBase, kind, comparison: '>=', value: 3 };
+    case 'rating':
+      return { ...nodeBase, kind, comparison: '>=', value: 70 };
+    case 'votecount':
+      return { ...nodeBase, kind, comparison: '>=', value: 100 };
+    case 'minage':
+      return { ...nodeBase, kind, comparison: '<=', value: 17 };
+    case 'released':
+      return { ...nodeBase, kind, comparison: '>=', value: '' };
+  }
+}
+
+// Returns a copy of the tree with `transformNode` applied to the node with this identifier.
+export function updateAdvancedFilterNode(
+  rootGroup: AdvancedFilterGroup,
+  nodeIdentifier: string,
+  transformNode: (filterNode: AdvancedFilterNode) => AdvancedFilterNode
+): AdvancedFilterGroup {
+  function visit(filterNode: AdvancedFilterNode): AdvancedFilterNode {
+    if (filterNode.nodeIdentifier === nodeIdentifier) {
+      return transformNode(filterNode);
+    }
+
+    return filterNode.kind === 'group' ? { ...filterNode, children: filterNode.children.map(visit) } : filterNode;
+  }
+
+  return visit(rootGroup) as AdvancedFilterGroup;
+}
+
+export function appendAdvancedFilterNode(rootGroup: AdvancedFilterGroup, groupIdentifier: string, childNode: AdvancedFilterNode) {
+  return updateAdvancedFilterNode(rootGroup, groupIdentifier, (filterNode) => (
+    filterNode.kind === 'group' ? { ...filterNode, children: [...filterNode.children, childNode] } : filterNode
+  ));
+}
+
+export function removeAdvancedFilterNode(rootGroup: AdvancedFilterGroup, nodeIdentifier: string): AdvancedFilterGroup {
+  function visit(filterGroup: AdvancedFilterGroup): AdvancedFilterGroup {
+    return {
+      ...filterGroup,
+      children: filterGroup.children
+        .filter((childNode) => childNode.nodeIdentifier !== nodeIdentifier)
+        .map((childNode) => (childNode.kind === 'group' ? visit(childNode) : childNode))
+    };
+  }
+
+  return visit(rootGroup);
+}
+
+function widenReleaseDate(releaseDate: string, comparison: AdvancedFilterComparison): string | null {
+  const releaseDateMatch = RELEASE_DATE_PATTERN.exec(releaseDate.trim());
+  if (!releaseDateMatch) {
+    return null;
+  }
+
+  const [, year, month, day] = releaseDateMatch;
+  if (day) {
+    return `${year}-${month}-${day}`;
+  }
+
+  // "Released ≤ 2020" means up to the end of 2020, "≥ 2020-04" from the start of April.
+  if (comparison === '<=') {
+    return month
+      ? `${year}-${month}-${new Date(Date.UTC(Number(year), Number(month), 0)).getUTCDate()}`
+      : `${year}-12-31`;
+  }
+
+  return month ? `${year}-${month}-01` : `${year}-01-01`;
+}
+
+function buildConditionFilter(condition: AdvancedFilterCondition): VisualNovelFilter | null {
+  switch (condition.kind) {
+    case 'tag':
+      return condition.tagIdentifier
+        ? visualNovelFilters.where('tag', '=', [condition.tagIdentifier, condition.maximumSpoilerLevel, condition.minimumScore])
+        : null;
+    case 'developer':
+      return condition.producerIdentifier
+        ? visualNovelFilters.where('developer', '=', producerFilters.where('id', '=', condition.producerIdentifier))
+        : null;
+    case 'platform':
+      return visualNovelFilters.where('platform', '=', condition.platform);
+    case 'devstatus':
+      return visualNovelFilters.where('devstatus', '=', condition.devstatus);
+    case 'length':
+      return visualNovelFilters.where('length', condition.comparison, condition.value);
+    case 'rating':
+      return visualNovelFilters.where('rating', condition.comparison, condition.value);
+    case 'votecount':
+      return visualNovelFilters.where('votecount', condition.comparison, condition.value);
+    case 'minage':
+      return visualNovelFilters.where('release', '=', releaseFilters.where('minage', condition.comparison, condition.value));
+    case 'released': {
+      const releaseDate = widenReleaseDate(condition.value, condition.comparison);
+      if (!releaseDate) {
+        return null;
+      }
+
+      // An exact partial date ("= 2020-04") covers the whole period.
+      if (condition.comparison === '=' && releaseDate !== condition.value.trim()) {
+        return visualNovelFilters.and(
+          visualNovelFilters.where('released', '>=', widenReleaseDate(condition.value, '>=') ?? releaseDate),
+          visualNovelFilters.where('released', '<=', widenReleaseDate(condition.value, '<=') ?? releaseDate)
+        );
+      }
+
+      return visualNovelFilters.where('released', condition.comparison, releaseDate);
+    }
+  }
+}
+
+function buildNodeFilter(filterNode: AdvancedFilterNode): VisualNovelFilter | null {
+  let nodeFilter: VisualNovelFilter | null;
+  if (filterNode.kind === 'group') {
+    const [firstChildFilter, ...remainingChildFilters] = filterNode.children
+      .map(buildNodeFilter)
+      .filter((childFilter): childFilter is VisualNovelFilter => childFilter !== null);
+    nodeFilter = firstChildFilter
+      ? visualNovelFilters[filterNode.combinator](firstChildFilter, ...remainingChildFilters)
+      : null;
+  } else {
+    nodeFilter = buildConditionFilter(filterNode);
+  }
+
+  return nodeFilter && filterNode.isNegated ? visualNovelFilters.not(nodeFilter) : nodeFilter;
+}
+
+// The whole tree as one /vn filter, or null when no condition is complete yet.
+export function buildAdvancedVisualNovelFilter(rootGroup: AdvancedFilterGroup | null): VisualNovelFilter | null {
+  return rootGroup ? buildNodeFilter(rootGroup) : null;
+}
+
+export function isAdvancedFilterConditionComplete(condition: AdvancedFilterCondition) {
+  return buildConditionFilter(condition) !== null;
+}
+
+export function countAdvancedFilterConditions(filterNode: AdvancedFilterNode | null): number {
+  if (!filterNode) {
+    return 0;
+  }
+
+  return filterNode.kind === 'group'
+    ? filterNode.children.reduce((conditionCount, childNode) => conditionCount + countAdvancedFilterConditions(childNode), 0)
+    : Number(isAdvancedFilterConditionComplete(filterNode));
+}
+
+function describeCondition(condition: AdvancedFilterCondition) {
+  switch (condition.kind) {
+    case 'tag':
+      return `${condition.tagName || condition.tagIdentifier}${condition.minimumScore > 0 ? ` ≥ ${condition.minimumScore}` : ''}`;
+    case 'developer':
+      return `by ${condition.producerName || condition.producerIdentifier}`;
+    case 'platform':
+      return `on ${formatReleasePlatformLabel(condition.platform)}`;
+    case 'devstatus':
+      return DEVELOPMENT_STATUS_LABELS[condition.devstatus].toLowerCase();
+    case 'length':
+      return `length ${COMPARISON_LABELS[condition.comparison]} ${VISUAL_NOVEL_LENGTH_LABELS[condition.value]?.toLowerCase() ?? condition.value}`;
+    case 'rating':
+      return `rating ${COMPARISON_LABELS[condition.comparison]} ${condition.value}`;
+    case 'votecount':
+      return `votes ${COMPARISON_LABELS[condition.comparison]} ${condition.value}`;
+    case 'minage':
+      return `age rating ${COMPARISON_LABELS[condition.comparison]} ${formatReleaseAgeRating(condition.value)}`;
+    case 'released':
+      return `released ${COMPARISON_LABELS[condition.comparison]} ${condition.value.trim()}`;
+  }
+}
+
+// One-line summary for the filter bar, e.g. "Nakige ≥ 2 and not Horror and rating ≥ 75".
+export function describeAdvancedFilter(filterNode: AdvancedFilterNode | null, isNested = false): string {
+  if (!filterNode) {
+    return '';
+  }
+
+  let nodeDescription: string;
+  if (filterNode.kind === 'group') {
+    const childDescriptions = filterNode.children
+      .map((childNode) => describeAdvancedFilter(childNode, true))
+      .filter((childDescription) => childDescription !== '');
+    if (childDescriptions.length === 0) {
+      return '';
+    }
+
+    nodeDescription = childDescriptions.join(filterNode.combinator === 'and' ? ' and ' : ' or ');
+    if (childDescriptions.length > 1 && (isNested || filterNode.isNegated)) {
+      nodeDescription = `(${nodeDescription})`;
+    }
+  } else {
+    if (!isAdvancedFilterConditionComplete(filterNode)) {
+      return '';
+    }
+    nodeDescription = describeCondition(filterNode);
+  }
+
+  return filterNode.isNegated ? `not ${nodeDescription}` : nodeDescription;
+}
+
+function readComparison(rawValue: unknown): AdvancedFilterComparison {
+  return rawValue === '<=' || rawValue === '=' ? rawValue : '>=';
+}
+
+function readNumber(rawValue: unknown, minimumValue: number, maximumValue: number, fallbackValue: number) {
+  return typeof rawValue === 'number' && Number.isFinite(rawValue)
+    ? Math.min(maximumValue, Math.max(minimumValue, rawValue))
+    : fallbackValue;
+}
+
+function readString(rawValue: unknown) {
+  return typeof rawValue === 'string' ? rawValue : '';
+}
+
+function readFilterNode(rawNode: unknown, remainingDepth: number): AdvancedFilterNode | null {
+  if (!rawNode || typeof rawNode !== 'object' || remainingDepth < 0) {
+    return null;
+  }
+
+  const rawRecord = rawNode as Record<string, unknown>;
+  const nodeBase = { nodeIdentifier: createNodeIdentifier(), isNegated: rawRecord.isNegated === true };
+  switch (rawRecord.kind) {
+    case 'group':
+      return {
+        ...nodeBase,
+        kind: 'group',
+        combinator: rawRecord.combinator === 'or' ? 'or' : 'and',
+        children: (Array.isArray(rawRecord.children) ? rawRecord.children : [])
+          .map((rawChild) => readFilterNode(rawChild, remainingDepth - 1))
+          .filter((childNode): childNode is AdvancedFilterNode => childNode !== null)
+      };
+    case 'tag':
+      return /^g\d+$/.test(readString(rawRecord.tagIdentifier))
+        ? {
+          ...nodeBase,
+          kind: 'tag',
+          tagIdentifier: readString(rawRecord.tagIdentifier),
+          tagName: readString(rawRecord.tagName),
+          minimumScore: readNumber(rawRecord.minimumScore, 0, 3, 0),
+          maximumSpoilerLevel: readNumber(rawRecord.maximumSpoilerLevel, 0, 2, 0) as 0 | 1 | 2
+        }
+        : null;
+    case 'developer':
+      return /^p\d+$/.test(readString(rawRecord.producerIdentifier))
+        ? { ...nodeBase, kind: 'developer', producerIdentifier: readString(rawRecord.producerIdentifier), producerName: readString(rawRecord.producerName) }
+        : null;
+    case 'platform':
+      return /^[a-z0-9]{2,4}$/.test(readString(rawRecord.platform)) ? { ...nodeBase, kind: 'platform', platform: readString(rawRecord.platform) } : null;
+    case 'devstatus':
+      return { ...nodeBase, kind: 'devstatus', devstatus: readNumber(rawRecord.devstatus, 0, 2, 0) as 0 | 1 | 2 };
+    case 'length':
+      return { ...nodeBase, kind: 'length', comparison: readComparison(rawRecord.comparison), value: readNumber(rawRecord.value, 1, 5, 3) };
+    case 'rating':
+      return { ...nodeBase, kind: 'rating', comparison: readComparison(rawRecord.comparison), value: readNumber(rawRecord.value, 10, 100, 70) };
+    case 'votecount':
+      return { ...nodeBase, kind: 'votecount', comparison: readComparison(rawRecord.comparison), value: readNumber(rawRecord.value, 0, Number.MAX_SAFE_INTEGER, 0) };
+    case 'minage':
+      return { ...nodeBase, kind: 'minage', comparison: readComparison(rawRecord.comparison), value: readNumber(rawRecord.value, 0, 18, 0) };
+    case 'released':
+      return RELEASE_DATE_PATTERN.test(readString(rawRecord.value))
+        ? { ...nodeBase, kind: 'released', comparison: readComparison(rawRecord.comparison), value: readString(rawRecord.value) }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Compact JSON for links and stored settings; editing identifiers and unfinished conditions are dropped.
+export function serializeAdvancedFilter(rootGroup: AdvancedFilterGroup): string {
+  function keepCompleteNodes(filterNode: AdvancedFilterNode): AdvancedFilterNode | null {
+    if (filterNode.kind === 'group') {
+      return {
+        ...filterNode,
+        children: filterNode.children
+          .map(keepCompleteNodes)
+          .filter((childNode): childNode is AdvancedFilterNode => childNode !== null)
+      };
+    }
+
+    return isAdvancedFilterConditionComplete(filterNode) ? filterNode : null;
+  }
+
+  return JSON.stringify(keepCompleteNodes(rootGroup), (fieldName, fieldValue: unknown) => (
+    fieldName === 'nodeIdentifier' ? undefined : fieldValue
+  ));
+}
+
+// Inverse of `serializeAdvancedFilter`; also accepts the parsed object. Anything unreadable is dropped rather than rejected.
+export function parseAdvancedFilter(rawFilter: unknown): AdvancedFilterGroup | null {
+  let parsedFilter = rawFilter;
+  if (typeof rawFilter === 'string') {
+    try {
+      parsedFilter = JSON.parse(rawFilter);
+    } catch {
+      return null;
+    }
+  }
+
+  const rootNode = readFilterNode(parsedFilter, 8);
+  return rootNode?.kind === 'group' && countAdvancedFilterConditions(rootNode) > 0 ? rootNode : null;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { buildAppRoutePath, parseAppRoute, type AppRoute } from './appRoutes';
+
+describe('parseAppRoute', () => {
+  it('reads entity pages from vndb-style paths', () => {
+    expect(parseAppRoute('/v17', '')).toEqual({ kind: 'visual-novel', identifier: 'v17' });
+    expect(parseAppRoute('/c123/', '')).toEqual({ kind: 'character', identifier: 'c123' });
+    expect(parseAppRoute('/p24', '')).toEqual({ kind: 'producer', identifier: 'p24' });
+    expect(parseAppRoute('/s12', '')).toEqual({ kind: 'staff', identifier: 's12' });
+    expect(parseAppRoute('/v017', '')).toEqual({ kind: 'home' });
+    expect(parseAppRoute('/unknown', '?q=ever')).toEqual({ kind: 'home' });
+  });
+
+  it('reads searches with their filters and sort', () => {
+    expect(parseAppRoute('/search', '?q=ever17&lang=en,ja&lang=zh-Hans&olang=ja&screenshots=1&sort=rating&order=asc')).toEqual({
+      kind: 'search',
+      queryDescriptor: {
+        kind: 'text',
+        term: 'ever17',
+        filters: { languages: ['en', 'ja', 'zh-Hans'], originalLanguage: 'ja', onlyWithScreenshots: true, onlyWithDescription: false, advancedFilter: null },
+        sort: { field: 'rating', direction: 'asc' }
+      }
+    });
+    expect(parseAppRoute('/search', '?sort=vote')).toMatchObject({ queryDescriptor: { sort: { field: 'default', direction: 'desc' } } });
+  });
+
+  it('reads tag and developer searches', () => {
+    expect(parseAppRoute('/g45', '?name=Mystery')).toMatchObject({
+      kind: 'search',
+      queryDescriptor: { kind: 'tag', term: 'Mystery', tagIdentifier: 'g45' }
+    });
+    expect(parseAppRoute('/g45', '')).toMatchObject({ queryDescriptor: { term: 'g45' } });
+    expect(parseAppRoute('/search', '?developer=p24&q=KID')).toMatchObject({
+      queryDescriptor: { kind: 'developer', term: 'KID', developerIdentifier: 'p24' }
+    });
+    expect(parseAppRoute('/search', '?developer=bogus&q=KID')).toMatchObject({ queryDescriptor: { kind: 'text', term: 'KID' } });
+  });
+});
+
+describe('buildAppRoutePath', () => {
+  it('round-trips every route kind', () => {
+    const routes: AppRoute[] = [
+      { kind: 'visual-novel', identifier: 'v17' },
+      { kind: 'character', identifier: 'c123' },
+      {
+        kind: 'search',
+        queryDescriptor: {
+          kind: 'text',
+          term: 'Steins;Gate & more',
+          filters: { languages: ['en'], originalLanguage: '', onlyWithScreenshots: false, onlyWithDescription: true, advancedFilter: null },
+          sort: { field: 'released', direction: 'desc' }
+        }
+      },
+      {
+        kind: 'search',
+        queryDescriptor: {
+          kind: 'tag',
+          term: 'Time Travel',
+          tagIdentifier: 'g45',
+          filters: { languages: [], originalLanguage: 'ja', onlyWithScreenshots: false, onlyWithDescription: false, advancedFilter: null },
+          sort: { field: 'default', direction: 'desc' }
+        }
+      }
+    ];
+
+    routes.forEach((route) => {
+      const routeUrl = new URL(buildAppRoutePath(route), 'https://app.example');
+      expect(parseAppRoute(routeUrl.pathname, routeUrl.search)).toEqual(route);
+    });
+  });
+
+  it('maps an empty search to the home page and drops user-list sorts', () => {
+    const emptyFilters = { languages: [], originalLanguage: '', onlyWithScreenshots: false, onlyWithDescription: false, advancedFilter: null };
+
+    expect(buildAppRoutePath({
+      kind: 'search',
+      queryDescriptor: { kind: 'text', term: ' ', filters: emptyFilters, sort: { field: 'vote', direction: 'asc' } }
+    })).toBe('/');
+    expect(buildAppRoutePath({
+      kind: 'search',
+      queryDescriptor: { kind: 'developer', term: 'KID', developerIdentifier: 'p24', filters: emptyFilters, sort: { field: 'id', direction: 'desc' } }
+    })).toBe('/search?developer=p24&q=KID&sort=id');
+  });
+});
@@ -0,0 +1,146 @@
+import { countAdvancedFilterConditions, parseAdvancedFilter, serializeAdvancedFilter } from './advancedVisualNovelFilter';
+import { isUserListSortField, type ListFilterState, type ListQueryDescriptor, type ListSortState } from './visualNovelListQuery';
+
+// What the address bar points at. Paths mirror vndb.org (`/v17`, `/c123`, `/p24`, `/s12`, `/g45`) so links
+// can be swapped between the two sites by changing the host.
+export type AppRoute =
+  | { kind: 'home' }
+  | { kind: 'visual-novel'; identifier: string }
+  | { kind: 'character'; identifier: string }
+  | { kind: 'producer'; identifier: string }
+  | { kind: 'staff'; identifier: string }
+  | { kind: 'search'; queryDescriptor: ListQueryDescriptor };
+
+const ENTITY_ROUTE_KINDS = {
+  v: 'visual-novel',
+  c: 'character',
+  p: 'producer',
+  s: 'staff'
+} as const;
+
+const ENTITY_PATH_PATTERN = /^\/([vcpsg])([1-9]\d*)\/?$/;
+const PRODUCER_IDENTIFIER_PATTERN = /^p[1-9]\d*$/;
+const SEARCH_SORT_FIELDS: ListSortState['field'][] = ['default', 'title', 'released', 'rating', 'votecount', 'id'];
+
+function readListValues(searchParameters: URLSearchParams, parameterName: string) {
+  // Both `lang=en&lang=ja` and `lang=en,ja` are accepted; links built here use the comma form.
+  return searchParameters.getAll(parameterName)
+    .flatMap((parameterValue) => parameterValue.split(','))
+    .map((parameterValue) => parameterValue.trim())
+    .filter((parameterValue) => parameterValue !== '');
+}
+
+function readFilterState(searchParameters: URLSearchParams): ListFilterState {
+  return {
+    languages: readListValues(searchParameters, 'lang'),
+    originalLanguage: searchParameters.get('olang')?.trim() ?? '',
+    onlyWithScreenshots: searchParameters.get('screenshots') === '1',
+    onlyWithDescription: searchParameters.get('description') === '1',
+    advancedFilter: parseAdvancedFilter(searchParameters.get('filter'))
+  };
+}
+
+function readSortState(searchParameters: URLSearchParams): ListSortState {
+  const sortField = searchParameters.get('sort') ?? 'default';
+  return {
+    // User-list sorts only make sense on a personal list, so they are not accepted from a link.
+    field: SEARCH_SORT_FIELDS.find((searchSortField) => searchSortField === sortField) ?? 'default',
+    direction: searchParameters.get('order') === 'asc' ? 'asc' : 'desc'
+  };
+}
+
+function writeQueryState(searchParameters: URLSearchParams, filters: ListFilterState, sort: ListSortState) {
+  if (filters.languages.length > 0) searchParameters.set('lang', filters.languages.join(','));
+  if (filters.originalLanguage.trim() !== '') searchParameters.set('olang', filters.originalLanguage.trim());
+  if (filters.onlyWithScreenshots) searchParameters.set('screenshots', '1');
+  if (filters.onlyWithDescription) searchParameters.set('description', '1');
+  if (filters.advancedFilter && countAdvancedFilterConditions(filters.advancedFilter) > 0) {
+    searchParameters.set('filter', serializeAdvancedFilter(filters.advancedFilter));
+  }
+  if (sort.field !== 'default' && !isUserListSortField(sort.field)) {
+    searchParameters.set('sort', sort.field);
+    if (sort.direction === 'asc') searchParameters.set('order', 'asc');
+  }
+}
+
+function appendSearchParameters(path: string, searchParameters: URLSearchParams) {
+  const queryString = searchParameters.toString();
+  return queryString === '' ? path : `${path}?${queryString}`;
+}
+
+// `pathname` is relative to the app's base path. Unknown paths fall back to the home route.
+export function parseAppRoute(pathname: string, search: string): AppRoute {
+  const searchParameters = new URLSearchParams(search);
+  const entityPathMatch = ENTITY_PATH_PATTERN.exec(pathname);
+  if (entityPathMatch) {
+    const [, identifierPrefix, identifierNumber] = entityPathMatch;
+    const identifier = `${identifierPrefix}${identifierNumber}`;
+    if (identifierPrefix === 'g') {
+      return {
+        kind: 'search',
+        queryDescriptor: {
+          kind: 'tag',
+          // The name only labels the search box; the tag ID drives the query.
+          term: searchParameters.get('name')?.trim() || identifier,
+          tagIdentifier: identifier,
+          filters: readFilterState(searchParameters),
+          sort: readSortState(searchParameters)
+        }
+      };
+    }
+
+    return { kind: ENTITY_ROUTE_KINDS[identifierPrefix as keyof typeof ENTITY_ROUTE_KINDS], identifier };
+  }
+
+  if (pathname.replace(/\/$/, '') !== '/search') {
+    return { kind: 'home' };
+  }
+
+  const searchTerm = searchParameters.get('q')?.trim() ?? '';
+  const developerIdentifier = searchParameters.get('developer')?.trim() ?? '';
+  return {
+    kind: 'search',
+    queryDescriptor: PRODUCER_IDENTIFIER_PATTERN.test(developerIdentifier)
+      ? {
+        kind: 'developer',
+        term: searchTerm || developerIdentifier,
+        developerIdentifier,
+        filters: readFilterState(searchParameters),
+        sort: readSortState(searchParameters)
+      }
+      : {
+        kind: 'text',
+        term: searchTerm,
+        filters: readFilterState(searchParameters),
+        sort: readSortState(searchParameters)
+      }
+  };
+}
+
+// Inverse of `parseAppRoute`. A text search with no term, filter or sort is the home page.
+export function buildAppRoutePath(route: AppRoute): string {
+  if (route.kind === 'home') {
+    return '/';
+  }
+
+  if (route.kind !== 'search') {
+    return `/${route.identifier}`;
+  }
+
+  const { queryDescriptor } = route;
+  const searchParameters = new URLSearchParams();
+  if (queryDescriptor.kind === 'tag' && queryDescriptor.tagIdentifier) {
+    const tagName = queryDescriptor.term.trim();
+    if (tagName !== '' && tagName !== queryDescriptor.tagIdentifier) searchParameters.set('name', tagName);
+    writeQueryState(searchParameters, queryDescriptor.filters, queryDescriptor.sort);
+    return appendSearchParameters(`/${queryDescriptor.tagIdentifier}`, searchParameters);
+  }
+
+  if (queryDescriptor.kind === 'developer' && queryDescriptor.developerIdentifier) {
+    searchParameters.set('developer', queryDescriptor.developerIdentifier);
+  }
+
+  if (queryDescriptor.term.trim() !== '') searchParameters.set('q', queryDescriptor.term.trim());
+  writeQueryState(searchParameters, queryDescriptor.filters, queryDescriptor.sort);
+  return searchParameters.toString() === '' ? '/' : appendSearchParameters('/search', searchParameters);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { VndbPermissionError } from '../api/vndbErrors';
+import { countBatchOutcomes, expandSelectionRange, runBatchOperation } from './batchOperations';
+
+describe('runBatchOperation', () => {
+  it('runs items in order and keeps going after a failure', async () => {
+    const processedIdentifiers: string[] = [];
+    const settledCounts: number[] = [];
+
+    const itemResults = await runBatchOperation({
+      itemIdentifiers: ['v1', 'v2', 'v3'],
+      requestSignal: new AbortController().signal,
+      runItem: async (itemIdentifier) => {
+        processedIdentifiers.push(itemIdentifier);
+        if (itemIdentifier === 'v2') {
+          throw new VndbPermissionError('Your token does not include `listwrite` permission.', 'listwrite');
+        }
+      },
+      onItemSettled: (_itemResult, settledItemCount) => settledCounts.push(settledItemCount)
+    });
+
+    expect(processedIdentifiers).toEqual(['v1', 'v2', 'v3']);
+    expect(settledCounts).toEqual([1, 2, 3]);
+    expect(itemResults.map((itemResult) => itemResult.outcome)).toEqual(['succeeded', 'failed', 'succeeded']);
+    expect(itemResults[1].errorMessage).toMatch(/listwrite/);
+  });
+
+  it('cancels the in-flight item and everything after it once aborted', async () => {
+    const batchAbortController = new AbortController();
+    const processedIdentifiers: string[] = [];
+
+    const itemResults = await runBatchOperation({
+      itemIdentifiers: ['v1', 'v2', 'v3', 'v4'],
+      requestSignal: batchAbortController.signal,
+      runItem: async (itemIdentifier, requestSignal) => {
+        processedIdentifiers.push(itemIdentifier);
+        if (itemIdentifier === 'v2') {
+          batchAbortController.abort();
+          requestSignal.throwIfAborted();
+        }
+      }
+    });
+
+    expect(processedIdentifiers).toEqual(['v1', 'v2']);
+    expect(countBatchOutcomes(itemResults)).toEqual({ succeeded: 1, failed: 0, cancelled: 3 });
+  });
+});
+
+describe('expandSelectionRange', () => {
+  const orderedIdentifiers = ['v10', 'v20', 'v30', 'v40', 'v50'];
+
+  it('selects inclusively in either direction', () => {
+    expect(expandSelectionRange(orderedIdentifiers, 'v20', 'v40')).toEqual(['v20', 'v30', 'v40']);
+    expect(expandSelectionRange(orderedIdentifiers, 'v50', 'v30')).toEqual(['v30', 'v40', 'v50']);
+  });
+
+  it('falls back to the target when the anchor is gone', () => {
+    expect(expandSelectionRange(orderedIdentifiers, 'v99', 'v30')).toEqual(['v30']);
+    expect(expandSelectionRange(orderedIdentifiers, null, 'v30')).toEqual(['v30']);
+  });
+});
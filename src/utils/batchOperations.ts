@@ -0,0 +1,72 @@
+import { isAbortError } from '../api/vndbRequestExecutor';
+import { describeVndbError } from './vndbErrorPresentation';
+
+export type BatchItemOutcome = 'succeeded' | 'failed' | 'cancelled';
+
+export interface BatchItemResult {
+  itemIdentifier: string;
+  outcome: BatchItemOutcome;
+  errorMessage: string | null;
+}
+
+export interface BatchOperationOptions {
+  itemIdentifiers: string[];
+  runItem: (itemIdentifier: string, requestSignal: AbortSignal) => Promise<void>;
+  requestSignal: AbortSignal;
+  // Called once per item as soon as its outcome is known, so progress can render while the batch runs.
+  onItemSettled?: (itemResult: BatchItemResult, settledItemCount: number) => void;
+}
+
+// Runs items one after another so results arrive in selection order and a cancel stops before the next request.
+// One failing item never stops the batch; an abort marks the in-flight item and everything after it as cancelled.
+export async function runBatchOperation({
+  itemIdentifiers,
+  runItem,
+  requestSignal,
+  onItemSettled
+}: BatchOperationOptions): Promise<BatchItemResult[]> {
+  const itemResults: BatchItemResult[] = [];
+
+  for (const itemIdentifier of itemIdentifiers) {
+    let itemResult: BatchItemResult;
+    if (requestSignal.aborted) {
+      itemResult = { itemIdentifier, outcome: 'cancelled', errorMessage: null };
+    } else {
+      try {
+        await runItem(itemIdentifier, requestSignal);
+        itemResult = { itemIdentifier, outcome: 'succeeded', errorMessage: null };
+      } catch (caughtError) {
+        itemResult = isAbortError(caughtError) || requestSignal.aborted
+          ? { itemIdentifier, outcome: 'cancelled', errorMessage: null }
+          : { itemIdentifier, outcome: 'failed', errorMessage: describeVndbError(caughtError, 'Request failed.').message };
+      }
+    }
+
+    itemResults.push(itemResult);
+    onItemSettled?.(itemResult, itemResults.length);
+  }
+
+  return itemResults;
+}
+
+export function countBatchOutcomes(itemResults: BatchItemResult[]): Record<BatchItemOutcome, number> {
+  return itemResults.reduce(
+    (outcomeCounts, itemResult) => ({ ...outcomeCounts, [itemResult.outcome]: outcomeCounts[itemResult.outcome] + 1 }),
+    { succeeded: 0, failed: 0, cancelled: 0 }
+  );
+}
+
+// Shift-click selection: every identifier between the anchor and the target (inclusive) in display order.
+// Falls back to just the target when the anchor is no longer displayed.
+export function expandSelectionRange(orderedIdentifiers: string[], anchorIdentifier: string | null, targetIdentifier: string) {
+  const targetIndex = orderedIdentifiers.indexOf(targetIdentifier);
+  const anchorIndex = anchorIdentifier === null ? -1 : orderedIdentifiers.indexOf(anchorIdentifier);
+  if (targetIndex === -1) {
+    return [];
+  }
+  if (anchorIndex === -1) {
+    return [targetIdentifier];
+  }
+
+  return orderedIdentifiers.slice(Math.min(anchorIndex, targetIndex), Math.max(anchorIndex, targetIndex) + 1);
+}
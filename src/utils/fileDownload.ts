@@ -0,0 +1,13 @@
+// Saves generated text (exports, calendars) through a temporary object URL; the browser decides where it lands.
+export function downloadTextFile(fileName: string, fileContents: string, mimeType: string) {
+  const fileBlob = new Blob([fileContents], { type: mimeType });
+  const objectUrl = URL.createObjectURL(fileBlob);
+  const downloadAnchor = document.createElement('a');
+  downloadAnchor.href = objectUrl;
+  downloadAnchor.download = fileName;
+  document.body.appendChild(downloadAnchor);
+  downloadAnchor.click();
+  downloadAnchor.remove();
+  // Revoking on the next tick gives the browser time to start the download.
+  window.setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+}
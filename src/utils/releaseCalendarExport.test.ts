@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildReleaseCalendarFile } from './releaseCalendarExport';
+import { type TrackedRelease } from './releaseTracker';
+
+function buildTrackedRelease(overrides: Partial<TrackedRelease>): TrackedRelease {
+  return {
+    releaseIdentifier: 'r1',
+    releaseTitle: 'Ever17',
+    visualNovelIdentifier: 'v17',
+    visualNovelTitle: 'Ever17',
+    released: '2026-12-31',
+    languages: ['en'],
+    platforms: ['win', 'swi'],
+    isReleased: false,
+    isNewSinceLastVisit: false,
+    ...overrides
+  };
+}
+
+const GENERATED_AT = new Date('2026-10-19T14:30:00.000Z');
+
+describe('buildReleaseCalendarFile', () => {
+  it('writes one all-day event per dated release with platforms and a link back', () => {
+    const calendarFile = buildReleaseCalendarFile([buildTrackedRelease({})], 'https://app.example/', GENERATED_AT);
+    const calendarLines = calendarFile.calendarText.split('\r\n');
+
+    expect(calendarLines[0]).toBe('BEGIN:VCALENDAR');
+    expect(calendarLines).toContain('UID:r1-v17@vndb-client');
+    expect(calendarLines).toContain('DTSTAMP:20261019T143000Z');
+    expect(calendarLines).toContain('DTSTART;VALUE=DATE:20261231');
+    expect(calendarLines).toContain('DTEND;VALUE=DATE:20270101');
+    expect(calendarLines).toContain('SUMMARY:Ever17 (Windows\\, Switch)');
+    expect(calendarLines).toContain('URL:https://app.example/v17');
+    expect(calendarFile.calendarText.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('skips releases without a full date', () => {
+    const calendarFile = buildReleaseCalendarFile([
+      buildTrackedRelease({}),
+      buildTrackedRelease({ releaseIdentifier: 'r2', released: '2027-03' }),
+      buildTrackedRelease({ releaseIdentifier: 'r3', released: 'TBA' })
+    ], 'https://app.example/', GENERATED_AT);
+
+    expect(calendarFile.eventCount).toBe(1);
+    expect(calendarFile.skippedReleaseCount).toBe(2);
+  });
+
+  it('escapes text and folds long lines at 75 octets', () => {
+    const calendarFile = buildReleaseCalendarFile([buildTrackedRelease({
+      releaseTitle: 'Steins;Gate 0 — 限定版 Collector\'s Edition with a very long subtitle that needs folding',
+      platforms: []
+    })], 'https://app.example/', GENERATED_AT);
+    const calendarLines = calendarFile.calendarText.split('\r\n');
+    const summaryLineIndex = calendarLines.findIndex((calendarLine) => calendarLine.startsWith('SUMMARY:'));
+
+    expect(calendarLines[summaryLineIndex]).toContain('Steins\\;Gate 0');
+    expect(calendarLines[summaryLineIndex + 1].startsWith(' ')).toBe(true);
+    calendarLines.forEach((calendarLine) => expect(new TextEncoder().encode(calendarLine).length).toBeLessThanOrEqual(75));
+    expect(calendarLines.slice(summaryLineIndex, summaryLineIndex + 2).map((calendarLine, lineIndex) => (
+      lineIndex === 0 ? calendarLine : calendarLine.slice(1)
+    )).join('')).toBe('SUMMARY:Steins\\;Gate 0 — 限定版 Collector\'s Edition with a very long subtitle that needs folding');
+  });
+});
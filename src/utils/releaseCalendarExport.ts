@@ -0,0 +1,105 @@
+import { formatReleaseLanguageLabel, formatReleasePlatformLabel } from './releaseLabels';
+import { type TrackedRelease } from './releaseTracker';
+
+export interface ReleaseCalendarFile {
+  calendarText: string;
+  eventCount: number;
+  // Releases dated only to a month or year, or TBA, which cannot become calendar events.
+  skippedReleaseCount: number;
+}
+
+const FULL_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// RFC 5545 limits content lines to 75 octets; longer lines continue on lines starting with a space.
+const MAXIMUM_LINE_OCTETS = 75;
+const utf8Encoder = new TextEncoder();
+
+function escapeCalendarText(text: string) {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function foldCalendarLine(line: string) {
+  const foldedLines: string[] = [];
+  let currentLine = '';
+  let currentOctets = 0;
+  for (const character of line) {
+    const characterOctets = utf8Encoder.encode(character).length;
+    // Continuation lines lose one octet to the leading space.
+    const lineLimit = foldedLines.length === 0 ? MAXIMUM_LINE_OCTETS : MAXIMUM_LINE_OCTETS - 1;
+    if (currentOctets + characterOctets > lineLimit) {
+      foldedLines.push(currentLine);
+      currentLine = '';
+      currentOctets = 0;
+    }
+    currentLine += character;
+    currentOctets += characterOctets;
+  }
+  foldedLines.push(currentLine);
+  return foldedLines.join('\r\n ');
+}
+
+function formatCalendarDate(date: string) {
+  return date.replace(/-/g, '');
+}
+
+function formatFollowingCalendarDate(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatCalendarTimestamp(timestamp: Date) {
+  return timestamp.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// An iCalendar file with one all-day event per release. `visualNovelUrlPrefix` plus the VN ID links each event
+// back to the VN in the app. UIDs are stable per release and VN, so re-importing updates events instead of duplicating them.
+export function buildReleaseCalendarFile(
+  trackedReleases: TrackedRelease[],
+  visualNovelUrlPrefix: string,
+  generatedAt: Date
+): ReleaseCalendarFile {
+  const datedReleases = trackedReleases.filter((trackedRelease) => FULL_DATE_PATTERN.test(trackedRelease.released));
+  const calendarLines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//vndb-client//Release Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:VN releases'
+  ];
+
+  datedReleases.forEach((trackedRelease) => {
+    const platformLabels = trackedRelease.platforms.map(formatReleasePlatformLabel);
+    const visualNovelUrl = `${visualNovelUrlPrefix}${trackedRelease.visualNovelIdentifier}`;
+    const descriptionLines = [
+      trackedRelease.releaseTitle !== trackedRelease.visualNovelTitle ? `Edition of ${trackedRelease.visualNovelTitle}` : '',
+      platformLabels.length > 0 ? `Platforms: ${platformLabels.join(', ')}` : '',
+      trackedRelease.languages.length > 0 ? `Languages: ${trackedRelease.languages.map(formatReleaseLanguageLabel).join(', ')}` : '',
+      visualNovelUrl
+    ].filter((descriptionLine) => descriptionLine !== '');
+
+    calendarLines.push(
+      'BEGIN:VEVENT',
+      `UID:${trackedRelease.releaseIdentifier}-${trackedRelease.visualNovelIdentifier}@vndb-client`,
+      `DTSTAMP:${formatCalendarTimestamp(generatedAt)}`,
+      `DTSTART;VALUE=DATE:${formatCalendarDate(trackedRelease.released)}`,
+      `DTEND;VALUE=DATE:${formatFollowingCalendarDate(trackedRelease.released)}`,
+      `SUMMARY:${escapeCalendarText(platformLabels.length > 0
+        ? `${trackedRelease.releaseTitle} (${platformLabels.join(', ')})`
+        : trackedRelease.releaseTitle)}`,
+      `DESCRIPTION:${escapeCalendarText(descriptionLines.join('\n'))}`,
+      `URL:${visualNovelUrl}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  });
+
+  calendarLines.push('END:VCALENDAR');
+  return {
+    calendarText: `${calendarLines.map(foldCalendarLine).join('\r\n')}\r\n`,
+    eventCount: datedReleases.length,
+    skippedReleaseCount: trackedReleases.length - datedReleases.length
+  };
+}
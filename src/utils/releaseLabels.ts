@@ -0,0 +1,143 @@
+import type { VisualNovelReleaseEntry } from '../types/apiTypes';
+
+const RELEASE_PLATFORM_LABELS: Record<string, string> = {
+  win: 'Windows',
+  lin: 'Linux',
+  mac: 'macOS',
+  web: 'Web',
+  and: 'Android',
+  ios: 'iOS',
+  mob: 'Mobile',
+  swi: 'Switch',
+  ps1: 'PS1',
+  ps2: 'PS2',
+  ps3: 'PS3',
+  ps4: 'PS4',
+  ps5: 'PS5',
+  psp: 'PSP',
+  psv: 'PS Vita',
+  xb1: 'Xbox',
+  xb3: 'Xbox 360',
+  xbo: 'Xbox One',
+  xxs: 'Xbox Series X/S',
+  nds: 'Nintendo DS',
+  n3d: 'Nintendo 3DS',
+  wii: 'Wii',
+  wiu: 'Wii U',
+  dvd: 'DVD Player',
+  bdp: 'Blu-ray Player',
+  oth: 'Other'
+};
+
+const RELEASE_MEDIUM_LABELS: Record<string, string> = {
+  cd: 'CD',
+  dvd: 'DVD',
+  gdr: 'GD-ROM',
+  blr: 'Blu-ray',
+  flp: 'Floppy',
+  cas: 'Cassette',
+  mrt: 'Cartridge',
+  mem: 'Memory card',
+  umd: 'UMD',
+  nod: 'Nintendo Optical Disc',
+  in: 'Internet download',
+  dc: 'Download card',
+  otc: 'Other'
+};
+
+const RELEASE_VOICED_LABELS: Record<number, string> = {
+  1: 'Not voiced',
+  2: 'Ero scenes only',
+  3: 'Partially voiced',
+  4: 'Fully voiced'
+};
+
+const RELEASE_TYPE_LABELS: Record<string, string> = {
+  trial: 'Trial',
+  partial: 'Partial',
+  complete: 'Complete'
+};
+
+const RELEASE_ANIMATION_CATEGORY_LABELS = ['Story sprites', 'Story CGs', 'Ero sprites', 'Ero CGs'] as const;
+
+// The two low bits describe the extent; higher bits flag extra effects we do not surface.
+const RELEASE_ANIMATION_EXTENT_LABELS: Record<number, string> = {
+  1: 'simple',
+  2: 'partially animated',
+  3: 'fully animated'
+};
+
+let languageDisplayNames: Intl.DisplayNames | null | undefined;
+
+export function formatReleaseLanguageLabel(languageCode: string) {
+  if (languageDisplayNames === undefined) {
+    try {
+      languageDisplayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+    } catch {
+      languageDisplayNames = null;
+    }
+  }
+
+  try {
+    return languageDisplayNames?.of(languageCode) ?? languageCode.toUpperCase();
+  } catch {
+    return languageCode.toUpperCase();
+  }
+}
+
+export const RELEASE_PLATFORM_CODES = Object.keys(RELEASE_PLATFORM_LABELS);
+
+export function formatReleasePlatformLabel(platformCode: string) {
+  return RELEASE_PLATFORM_LABELS[platformCode] ?? platformCode.toUpperCase();
+}
+
+export function formatReleaseMediaLabel(releaseEntry: VisualNovelReleaseEntry) {
+  return (releaseEntry.media ?? [])
+    .map((mediaEntry) => {
+      const mediumLabel = RELEASE_MEDIUM_LABELS[mediaEntry.medium] ?? mediaEntry.medium;
+      return mediaEntry.qty > 1 ? `${mediumLabel} ×${mediaEntry.qty}` : mediumLabel;
+    })
+    .join(', ');
+}
+
+export function formatReleaseAgeRating(minimumAge: number | null) {
+  if (minimumAge === null) {
+    return null;
+  }
+  return minimumAge === 0 ? 'All ages' : `${minimumAge}+`;
+}
+
+export function formatReleaseResolution(resolution: VisualNovelReleaseEntry['resolution']) {
+  if (resolution === null || resolution === undefined) {
+    return null;
+  }
+  return resolution === 'non-standard' ? 'Non-standard' : `${resolution[0]}×${resolution[1]}`;
+}
+
+export function formatReleaseVoicedLabel(voiced: VisualNovelReleaseEntry['voiced']) {
+  return voiced === null ? null : RELEASE_VOICED_LABELS[voiced] ?? null;
+}
+
+export function formatReleaseAnimationLabel(animation: VisualNovelReleaseEntry['animation']) {
+  if (!animation) {
+    return null;
+  }
+
+  const animatedCategoryLabels = animation.flatMap((animationValue, categoryIndex) => {
+    const extentLabel = animationValue === null ? undefined : RELEASE_ANIMATION_EXTENT_LABELS[animationValue & 3];
+    return extentLabel ? [`${RELEASE_ANIMATION_CATEGORY_LABELS[categoryIndex]} (${extentLabel})`] : [];
+  });
+  if (animatedCategoryLabels.length > 0) {
+    return animatedCategoryLabels.join(', ');
+  }
+  return animation.some((animationValue) => animationValue === 0) ? 'No animation' : null;
+}
+
+// Release type (trial/partial/complete) as it applies to the VN being viewed.
+export function formatReleaseTypeLabel(releaseEntry: VisualNovelReleaseEntry, visualNovelIdentifier: string) {
+  const normalizedVisualNovelIdentifier = visualNovelIdentifier.trim().toLowerCase();
+  const matchingVisualNovelEntry = (releaseEntry.vns ?? []).find((visualNovelEntry) => (
+    visualNovelEntry.id.toLowerCase() === normalizedVisualNovelIdentifier
+  ));
+  return matchingVisualNovelEntry ? RELEASE_TYPE_LABELS[matchingVisualNovelEntry.rtype] ?? null : null;
+}
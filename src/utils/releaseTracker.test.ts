@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { type UserVisualNovelListEntry, type VisualNovelReleaseEntry } from '../types/apiTypes';
+import { buildReleaseCalendarMonth, buildTrackedReleases, shiftCalendarMonth } from './releaseTracker';
+
+function buildRelease(
+  releaseIdentifier: string,
+  released: string | null,
+  visualNovelIdentifiers: string[],
+  languages: string[],
+  platforms: string[]
+): VisualNovelReleaseEntry {
+  return {
+    id: releaseIdentifier,
+    title: `Release ${releaseIdentifier}`,
+    languages: languages.map((lang) => ({ lang })),
+    platforms,
+    media: [],
+    released,
+    minage: null,
+    patch: false,
+    freeware: false,
+    official: true,
+    resolution: null,
+    voiced: null,
+    animation: null,
+    vns: visualNovelIdentifiers.map((id) => ({ id, rtype: 'complete' }))
+  };
+}
+
+const TRACKED_ENTRIES: UserVisualNovelListEntry[] = [
+  { id: 'v17', labels: [{ id: 5 }], vn: { id: 'v17', title: 'Ever17', rating: null, image: null } },
+  { id: 'v97', labels: [{ id: 1 }], vn: { id: 'v97', title: 'Saya no Uta', rating: null, image: null } }
+];
+
+const RELEASES = [
+  buildRelease('r3', 'TBA', ['v17'], ['en'], ['swi']),
+  buildRelease('r1', '2026-10-02', ['v17'], ['en'], ['win']),
+  buildRelease('r2', '2026-10', ['v97'], ['ja'], ['win']),
+  buildRelease('r4', '2026-11-20', ['v97', 'v4'], ['en', 'ja'], ['win', 'ps4']),
+  buildRelease('r5', '2026-09-28', ['v97'], ['en'], ['win'])
+];
+
+describe('buildTrackedReleases', () => {
+  it('orders releases by date with partial dates after their period and TBA last', () => {
+    const trackedReleases = buildTrackedReleases(RELEASES, TRACKED_ENTRIES, { languages: [], platforms: [] }, '2026-10-19', null);
+
+    expect(trackedReleases.map((trackedRelease) => [trackedRelease.releaseIdentifier, trackedRelease.visualNovelTitle, trackedRelease.isReleased]))
+      .toEqual([
+        ['r5', 'Saya no Uta', true],
+        ['r1', 'Ever17', true],
+        ['r2', 'Saya no Uta', false],
+        ['r4', 'Saya no Uta', false],
+        ['r3', 'Ever17', false]
+      ]);
+  });
+
+  it('keeps releases in a preferred language on a preferred platform', () => {
+    const trackedReleases = buildTrackedReleases(RELEASES, TRACKED_ENTRIES, { languages: ['en'], platforms: ['win'] }, '2026-10-19', null);
+
+    expect(trackedReleases.map((trackedRelease) => trackedRelease.releaseIdentifier)).toEqual(['r5', 'r1', 'r4']);
+  });
+
+  it('flags releases that came out since the last visit', () => {
+    const trackedReleases = buildTrackedReleases(RELEASES, TRACKED_ENTRIES, { languages: [], platforms: [] }, '2026-10-19', '2026-09-30');
+
+    expect(trackedReleases.filter((trackedRelease) => trackedRelease.isNewSinceLastVisit).map((trackedRelease) => trackedRelease.releaseIdentifier))
+      .toEqual(['r1']);
+  });
+});
+
+describe('buildReleaseCalendarMonth', () => {
+  it('lays the month out in Monday-first weeks with month-only dates kept apart', () => {
+    const trackedReleases = buildTrackedReleases(RELEASES, TRACKED_ENTRIES, { languages: [], platforms: [] }, '2026-10-19', null);
+    const calendarMonth = buildReleaseCalendarMonth(trackedReleases, '2026-10');
+
+    // 1 October 2026 is a Thursday.
+    expect(calendarMonth.weeks[0].map((calendarDay) => calendarDay.date)).toEqual([
+      null, null, null, '2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04'
+    ]);
+    expect(calendarMonth.weeks).toHaveLength(5);
+    expect(calendarMonth.weeks[0][4].releases.map((trackedRelease) => trackedRelease.releaseIdentifier)).toEqual(['r1']);
+    expect(calendarMonth.monthOnlyReleases.map((trackedRelease) => trackedRelease.releaseIdentifier)).toEqual(['r2']);
+  });
+
+  it('shifts months across year boundaries', () => {
+    expect(shiftCalendarMonth('2026-12', 1)).toBe('2027-01');
+    expect(shiftCalendarMonth('2026-01', -1)).toBe('2025-12');
+  });
+});
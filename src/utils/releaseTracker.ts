@@ -0,0 +1,140 @@
+import { type UserVisualNovelListEntry, type VisualNovelReleaseEntry } from '../types/apiTypes';
+import { PLAYING_USER_LIST_LABEL_IDENTIFIER, WISHLIST_USER_LIST_LABEL_IDENTIFIER } from './userListLabels';
+
+// Playing and Wishlist: the list entries whose new editions are worth watching.
+export const TRACKED_USER_LIST_LABEL_IDENTIFIERS = [PLAYING_USER_LIST_LABEL_IDENTIFIER, WISHLIST_USER_LIST_LABEL_IDENTIFIER];
+
+// Empty lists mean "any language" / "any platform".
+export interface ReleaseTrackerPreferences {
+  languages: string[];
+  platforms: string[];
+}
+
+export interface TrackedRelease {
+  releaseIdentifier: string;
+  releaseTitle: string;
+  visualNovelIdentifier: string;
+  visualNovelTitle: string;
+  // As VNDB reports it: YYYY-MM-DD, a partial YYYY-MM or YYYY, or "TBA".
+  released: string;
+  languages: string[];
+  platforms: string[];
+  isReleased: boolean;
+  isNewSinceLastVisit: boolean;
+}
+
+export interface ReleaseCalendarDay {
+  // Null for the padding cells before the 1st and after the last day.
+  date: string | null;
+  releases: TrackedRelease[];
+}
+
+export interface ReleaseCalendarMonth {
+  // Monday-first weeks.
+  weeks: ReleaseCalendarDay[][];
+  // Releases dated to the month but not to a day.
+  monthOnlyReleases: TrackedRelease[];
+}
+
+const FULL_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Partial dates sort after every full date of their period, and TBA after everything.
+function padReleaseDate(released: string) {
+  if (FULL_DATE_PATTERN.test(released)) {
+    return released;
+  }
+  if (/^\d{4}-\d{2}$/.test(released)) {
+    return `${released}-99`;
+  }
+  if (/^\d{4}$/.test(released)) {
+    return `${released}-99-99`;
+  }
+  return '9999-99-99';
+}
+
+function padNumber(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+export function formatLocalDate(date: Date) {
+  return `${date.getFullYear()}-${padNumber(date.getMonth() + 1)}-${padNumber(date.getDate())}`;
+}
+
+// `YYYY-MM` moved by whole months.
+export function shiftCalendarMonth(calendarMonth: string, monthOffset: number) {
+  const [year, month] = calendarMonth.split('-').map(Number);
+  const shiftedMonthIndex = year * 12 + (month - 1) + monthOffset;
+  return `${Math.floor(shiftedMonthIndex / 12)}-${padNumber((shiftedMonthIndex % 12) + 1)}`;
+}
+
+function matchesPreferences(releaseEntry: VisualNovelReleaseEntry, preferences: ReleaseTrackerPreferences) {
+  const releaseLanguages = releaseEntry.languages.map((languageEntry) => languageEntry.lang);
+  return (preferences.languages.length === 0 || releaseLanguages.some((language) => preferences.languages.includes(language)))
+    && (preferences.platforms.length === 0 || releaseEntry.platforms.some((platform) => preferences.platforms.includes(platform)));
+}
+
+// One row per release and tracked VN it belongs to, in date order. "New since the last visit" needs a full date
+// after `lastVisitDate` that has already passed; without a previous visit nothing is new.
+export function buildTrackedReleases(
+  releaseEntries: VisualNovelReleaseEntry[],
+  trackedEntries: UserVisualNovelListEntry[],
+  preferences: ReleaseTrackerPreferences,
+  today: string,
+  lastVisitDate: string | null
+): TrackedRelease[] {
+  const trackedTitlesByIdentifier = new Map(trackedEntries.map((trackedEntry) => [trackedEntry.id, trackedEntry.vn?.title ?? trackedEntry.id]));
+  const trackedReleases: TrackedRelease[] = [];
+
+  releaseEntries.filter((releaseEntry) => matchesPreferences(releaseEntry, preferences)).forEach((releaseEntry) => {
+    const released = releaseEntry.released ?? 'TBA';
+    const isReleased = padReleaseDate(released) <= today;
+    (releaseEntry.vns ?? []).forEach((releaseVisualNovel) => {
+      const visualNovelTitle = trackedTitlesByIdentifier.get(releaseVisualNovel.id);
+      if (visualNovelTitle === undefined) {
+        return;
+      }
+      trackedReleases.push({
+        releaseIdentifier: releaseEntry.id,
+        releaseTitle: releaseEntry.title,
+        visualNovelIdentifier: releaseVisualNovel.id,
+        visualNovelTitle,
+        released,
+        languages: releaseEntry.languages.map((languageEntry) => languageEntry.lang),
+        platforms: releaseEntry.platforms,
+        isReleased,
+        isNewSinceLastVisit: lastVisitDate !== null && isReleased && FULL_DATE_PATTERN.test(released) && released > lastVisitDate
+      });
+    });
+  });
+
+  return trackedReleases.sort((first, second) => (
+    padReleaseDate(first.released).localeCompare(padReleaseDate(second.released))
+    || first.visualNovelTitle.localeCompare(second.visualNovelTitle)
+  ));
+}
+
+// Lays out one `YYYY-MM` month for the calendar grid.
+export function buildReleaseCalendarMonth(trackedReleases: TrackedRelease[], calendarMonth: string): ReleaseCalendarMonth {
+  const [year, month] = calendarMonth.split('-').map(Number);
+  const dayCount = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const leadingPaddingCount = (new Date(Date.UTC(year, month - 1, 1)).getUTCDay() + 6) % 7;
+
+  const calendarDays: ReleaseCalendarDay[] = Array.from({ length: leadingPaddingCount }, () => ({ date: null, releases: [] }));
+  for (let dayOfMonth = 1; dayOfMonth <= dayCount; dayOfMonth += 1) {
+    const date = `${calendarMonth}-${padNumber(dayOfMonth)}`;
+    calendarDays.push({ date, releases: trackedReleases.filter((trackedRelease) => trackedRelease.released === date) });
+  }
+  while (calendarDays.length % 7 !== 0) {
+    calendarDays.push({ date: null, releases: [] });
+  }
+
+  const weeks: ReleaseCalendarDay[][] = [];
+  for (let weekStart = 0; weekStart < calendarDays.length; weekStart += 7) {
+    weeks.push(calendarDays.slice(weekStart, weekStart + 7));
+  }
+
+  return {
+    weeks,
+    monthOnlyReleases: trackedReleases.filter((trackedRelease) => trackedRelease.released === calendarMonth)
+  };
+}
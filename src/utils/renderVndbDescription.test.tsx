@@ -0,0 +1,59 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { renderVndbDescription } from './renderVndbDescription';
+
+function renderToMarkup(descriptionText: string) {
+  return renderToStaticMarkup(<>{renderVndbDescription(descriptionText)}</>);
+}
+
+describe('renderVndbDescription', () => {
+  it('returns plain text unchanged', () => {
+    expect(renderToMarkup('Just text.')).toBe('Just text.');
+  });
+
+  it('renders nested formatting tags', () => {
+    expect(renderToMarkup('[b]bold [i]and italic[/i][/b] [u]under[/u]')).toBe(
+      '<strong>bold <em>and italic</em></strong> <u>under</u>'
+    );
+  });
+
+  it('matches tags case-insensitively and renders line breaks', () => {
+    expect(renderToMarkup('[B]Loud[/B][br]Next line')).toBe('<strong>Loud</strong><br/>Next line');
+  });
+
+  it('keeps unclosed tags as literal text', () => {
+    expect(renderToMarkup('[b]never closed')).toBe('[b]never closed');
+    expect(renderToMarkup('[i]outer [b]inner[/b]')).toBe('[i]outer <strong>inner</strong>');
+  });
+
+  it('keeps stray and mismatched closing tags as literal text', () => {
+    expect(renderToMarkup('text[/b] more')).toBe('text[/b] more');
+    expect(renderToMarkup('[b]bold[/i] still bold[/b]')).toBe('<strong>bold[/i] still bold</strong>');
+  });
+
+  it('links [url=...] tags with safe link attributes', () => {
+    expect(renderToMarkup('[url=https://vndb.org/v17]Ever17[/url]')).toBe(
+      '<a href="https://vndb.org/v17" target="_blank" rel="noopener noreferrer">Ever17</a>'
+    );
+  });
+
+  it('uses the tag text as the target for bare [url] tags and adds a missing protocol', () => {
+    expect(renderToMarkup('[url]vndb.org/v17[/url]')).toBe(
+      '<a href="https://vndb.org/v17" target="_blank" rel="noopener noreferrer">vndb.org/v17</a>'
+    );
+  });
+
+  it('allows mailto links', () => {
+    expect(renderToMarkup('[url=mailto:contact@example.com]Mail[/url]')).toContain('href="mailto:contact@example.com"');
+  });
+
+  it('renders links with unsafe or invalid targets as plain text', () => {
+    expect(renderToMarkup('[url=javascript:alert(1)]Click[/url]')).toBe('<span>Click</span>');
+    expect(renderToMarkup('[url=data:text/html;base64,PHNjcmlwdD4=]Click[/url]')).toBe('<span>Click</span>');
+    expect(renderToMarkup('[url=http://[invalid]Click[/url]')).not.toContain('<a');
+  });
+
+  it('leaves unsupported tags untouched', () => {
+    expect(renderToMarkup('[spoiler]hidden[/spoiler]')).toBe('[spoiler]hidden[/spoiler]');
+  });
+});
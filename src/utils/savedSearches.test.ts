@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { serializeVndbFilter } from '../api/vndbFilterBuilder';
+import {
+  createAdvancedFilterCondition,
+  createAdvancedFilterGroup,
+  type AdvancedFilterCondition,
+  type AdvancedFilterGroup
+} from './advancedVisualNovelFilter';
+import {
+  buildSavedSearchNewResultFilter,
+  createSavedSearch,
+  describeSavedSearchQuery,
+  moveSavedSearch,
+  parseSavedSearches,
+  serializeSavedSearches,
+  updateSavedSearch,
+  type SavedSearch
+} from './savedSearches';
+import { type ListQueryDescriptor } from './visualNovelListQuery';
+
+const TEXT_QUERY: ListQueryDescriptor = {
+  kind: 'text',
+  term: 'ever17',
+  filters: { languages: ['en'], originalLanguage: 'ja', onlyWithScreenshots: true, onlyWithDescription: false, advancedFilter: null },
+  sort: { field: 'rating', direction: 'desc' }
+};
+
+const TAG_QUERY: ListQueryDescriptor = {
+  kind: 'tag',
+  term: 'Mystery',
+  tagIdentifier: 'g45',
+  filters: { languages: [], originalLanguage: '', onlyWithScreenshots: false, onlyWithDescription: false, advancedFilter: null },
+  sort: { field: 'default', direction: 'desc' }
+};
+
+function buildSavedSearches(): SavedSearch[] {
+  const firstSearch = createSavedSearch([], ' Weekly mysteries ', TAG_QUERY);
+  const secondSearch = createSavedSearch([firstSearch], 'English ever17', TEXT_QUERY);
+  const thirdSearch = createSavedSearch([firstSearch, secondSearch], 'Everything', { ...TEXT_QUERY, term: '', filters: TAG_QUERY.filters, sort: TAG_QUERY.sort });
+  return [firstSearch, secondSearch, thirdSearch];
+}
+
+describe('saved searches', () => {
+  it('creates searches with trimmed names and unique identifiers', () => {
+    const savedSearches = buildSavedSearches();
+    expect(savedSearches.map((savedSearch) => savedSearch.id)).toEqual(['saved-search-1', 'saved-search-2', 'saved-search-3']);
+    expect(savedSearches[0]).toMatchObject({ name: 'Weekly mysteries', isPinned: false, lastRunAt: null });
+    expect(createSavedSearch(savedSearches.slice(2), 'Later', TEXT_QUERY).id).toBe('saved-search-4');
+  });
+
+  it('round-trips through storage and drops unusable entries', () => {
+    const advancedFilter: AdvancedFilterGroup = {
+      ...createAdvancedFilterGroup('or'),
+      children: [{ ...createAdvancedFilterCondition('platform'), platform: 'swi' } as AdvancedFilterCondition]
+    };
+    const savedSearches = updateSavedSearch(buildSavedSearches(), 'saved-search-2', {
+      isPinned: true,
+      lastRunAt: '2026-10-12T09:00:00.000Z',
+      latestVisualNovelIdentifierAtLastRun: 'v51000',
+      queryDescriptor: { ...TEXT_QUERY, filters: { ...TEXT_QUERY.filters, advancedFilter } }
+    });
+    const storedValue = JSON.stringify([
+      ...JSON.parse(serializeSavedSearches(savedSearches)),
+      { id: 'saved-search-2', name: 'Duplicate', queryPath: '/search?q=x' },
+      { id: 'saved-search-9', name: 'Entity page', queryPath: '/v17' },
+      { id: 'saved-search-10', name: '  ', queryPath: '/search?q=x' }
+    ]);
+
+    const parsedSearches = parseSavedSearches(storedValue);
+    expect(parsedSearches.map((savedSearch) => savedSearch.name)).toEqual(['Weekly mysteries', 'English ever17', 'Everything']);
+    expect(parsedSearches[0].queryDescriptor).toEqual(TAG_QUERY);
+    expect(parsedSearches[1]).toMatchObject({
+      isPinned: true,
+      lastRunAt: '2026-10-12T09:00:00.000Z',
+      latestVisualNovelIdentifierAtLastRun: 'v51000',
+      queryDescriptor: { term: 'ever17', filters: { languages: ['en'], advancedFilter: { combinator: 'or' } } }
+    });
+    expect(parsedSearches[2].queryDescriptor.term).toBe('');
+    expect(parseSavedSearches('not json')).toEqual([]);
+    expect(parseSavedSearches(null)).toEqual([]);
+  });
+
+  it('moves searches up and down within bounds', () => {
+    const savedSearches = buildSavedSearches();
+    expect(moveSavedSearch(savedSearches, 'saved-search-3', -1).map((savedSearch) => savedSearch.id))
+      .toEqual(['saved-search-1', 'saved-search-3', 'saved-search-2']);
+    expect(moveSavedSearch(savedSearches, 'saved-search-1', 5).map((savedSearch) => savedSearch.id))
+      .toEqual(['saved-search-2', 'saved-search-3', 'saved-search-1']);
+    expect(moveSavedSearch(savedSearches, 'saved-search-1', -1)).toBe(savedSearches);
+  });
+
+  it('summarizes the saved query', () => {
+    expect(describeSavedSearchQuery(TAG_QUERY)).toBe('Tag "Mystery"');
+    expect(describeSavedSearchQuery(TEXT_QUERY)).toBe('"ever17" • lang en • original ja • with screenshots • by rating (desc)');
+    expect(describeSavedSearchQuery({ ...TEXT_QUERY, term: ' ', filters: TAG_QUERY.filters })).toBe('All VNs • by rating (desc)');
+  });
+
+  it('narrows the saved query to VNs added since the last run', () => {
+    const [tagSearch] = buildSavedSearches();
+    expect(buildSavedSearchNewResultFilter(tagSearch)).toBeNull();
+
+    const newResultFilter = buildSavedSearchNewResultFilter({ ...tagSearch, latestVisualNovelIdentifierAtLastRun: 'v51000' });
+    expect(newResultFilter && serializeVndbFilter(newResultFilter)).toEqual(['and', ['tag', '=', 'g45'], ['id', '>', 'v51000']]);
+  });
+});
@@ -0,0 +1,197 @@
+import { visualNovelFilters } from '../api/vndbFilterBuilder';
+import { type VisualNovelFilter } from '../types/filterTypes';
+import { describeAdvancedFilter } from './advancedVisualNovelFilter';
+import { buildAppRoutePath, parseAppRoute } from './appRoutes';
+import { buildFiltersFromQueryDescriptor, type ListQueryDescriptor } from './visualNovelListQuery';
+
+// A named list query kept in localStorage so curated searches can be re-run without rebuilding them.
+export interface SavedSearch {
+  id: string;
+  name: string;
+  queryDescriptor: ListQueryDescriptor;
+  isPinned: boolean;
+  lastRunAt: string | null;
+  // Newest VN in the database when the search last ran; VNs added after it count as new results.
+  latestVisualNovelIdentifierAtLastRun: string | null;
+}
+
+// Stored shape: the query is kept as its shareable path so it goes through the same validation as a pasted link.
+interface StoredSavedSearch {
+  id: string;
+  name: string;
+  queryPath: string;
+  isPinned: boolean;
+  lastRunAt: string | null;
+  latestVisualNovelIdentifierAtLastRun: string | null;
+}
+
+const SAVED_SEARCH_IDENTIFIER_PATTERN = /^saved-search-([1-9]\d*)$/;
+const VISUAL_NOVEL_IDENTIFIER_PATTERN = /^v[1-9]\d*$/;
+
+function readQueryDescriptorFromPath(queryPath: string): ListQueryDescriptor | null {
+  const [pathname, search = ''] = queryPath.split('?', 2);
+  const parsedRoute = parseAppRoute(pathname, search);
+  if (parsedRoute.kind === 'search') {
+    return parsedRoute.queryDescriptor;
+  }
+
+  // An empty text search is written as the home path.
+  return pathname === '/' ? buildEmptyTextQueryDescriptor() : null;
+}
+
+function buildEmptyTextQueryDescriptor(): ListQueryDescriptor {
+  return {
+    kind: 'text',
+    term: '',
+    filters: { languages: [], originalLanguage: '', onlyWithScreenshots: false, onlyWithDescription: false, advancedFilter: null },
+    sort: { field: 'default', direction: 'desc' }
+  };
+}
+
+export function serializeSavedSearches(savedSearches: SavedSearch[]): string {
+  return JSON.stringify(savedSearches.map((savedSearch): StoredSavedSearch => ({
+    id: savedSearch.id,
+    name: savedSearch.name,
+    queryPath: buildAppRoutePath({ kind: 'search', queryDescriptor: savedSearch.queryDescriptor }),
+    isPinned: savedSearch.isPinned,
+    lastRunAt: savedSearch.lastRunAt,
+    latestVisualNovelIdentifierAtLastRun: savedSearch.latestVisualNovelIdentifierAtLastRun
+  })));
+}
+
+// Entries that no longer parse are dropped rather than failing the whole list.
+export function parseSavedSearches(storedValue: string | null): SavedSearch[] {
+  if (!storedValue) {
+    return [];
+  }
+
+  let parsedValue: unknown;
+  try {
+    parsedValue = JSON.parse(storedValue);
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(parsedValue)) {
+    return [];
+  }
+
+  const seenIdentifiers = new Set<string>();
+  return parsedValue.flatMap((rawEntry: unknown): SavedSearch[] => {
+    if (!rawEntry || typeof rawEntry !== 'object') {
+      return [];
+    }
+
+    const storedEntry = rawEntry as Partial<Record<keyof StoredSavedSearch, unknown>>;
+    if (
+      typeof storedEntry.id !== 'string' ||
+      seenIdentifiers.has(storedEntry.id) ||
+      typeof storedEntry.name !== 'string' ||
+      storedEntry.name.trim() === '' ||
+      typeof storedEntry.queryPath !== 'string'
+    ) {
+      return [];
+    }
+
+    const queryDescriptor = readQueryDescriptorFromPath(storedEntry.queryPath);
+    if (!queryDescriptor) {
+      return [];
+    }
+
+    seenIdentifiers.add(storedEntry.id);
+    return [{
+      id: storedEntry.id,
+      name: storedEntry.name.trim(),
+      queryDescriptor,
+      isPinned: storedEntry.isPinned === true,
+      lastRunAt: typeof storedEntry.lastRunAt === 'string' ? storedEntry.lastRunAt : null,
+      latestVisualNovelIdentifierAtLastRun:
+        typeof storedEntry.latestVisualNovelIdentifierAtLastRun === 'string' &&
+        VISUAL_NOVEL_IDENTIFIER_PATTERN.test(storedEntry.latestVisualNovelIdentifierAtLastRun)
+          ? storedEntry.latestVisualNovelIdentifierAtLastRun
+          : null
+    }];
+  });
+}
+
+export function createSavedSearch(existingSearches: SavedSearch[], name: string, queryDescriptor: ListQueryDescriptor): SavedSearch {
+  const highestIdentifierNumber = existingSearches.reduce((highestNumber, savedSearch) => {
+    const identifierMatch = SAVED_SEARCH_IDENTIFIER_PATTERN.exec(savedSearch.id);
+    return identifierMatch ? Math.max(highestNumber, Number(identifierMatch[1])) : highestNumber;
+  }, 0);
+
+  return {
+    id: `saved-search-${highestIdentifierNumber + 1}`,
+    name: name.trim(),
+    queryDescriptor,
+    isPinned: false,
+    lastRunAt: null,
+    latestVisualNovelIdentifierAtLastRun: null
+  };
+}
+
+export function updateSavedSearch(
+  savedSearches: SavedSearch[],
+  savedSearchIdentifier: string,
+  searchChanges: Partial<Omit<SavedSearch, 'id'>>
+): SavedSearch[] {
+  return savedSearches.map((savedSearch) => (
+    savedSearch.id === savedSearchIdentifier ? { ...savedSearch, ...searchChanges } : savedSearch
+  ));
+}
+
+// Moves a search up (negative offset) or down; offsets past either end stop at the edge.
+export function moveSavedSearch(savedSearches: SavedSearch[], savedSearchIdentifier: string, positionOffset: number): SavedSearch[] {
+  const currentIndex = savedSearches.findIndex((savedSearch) => savedSearch.id === savedSearchIdentifier);
+  if (currentIndex === -1) {
+    return savedSearches;
+  }
+
+  const targetIndex = Math.min(Math.max(currentIndex + positionOffset, 0), savedSearches.length - 1);
+  if (targetIndex === currentIndex) {
+    return savedSearches;
+  }
+
+  const reorderedSearches = [...savedSearches];
+  const [movedSearch] = reorderedSearches.splice(currentIndex, 1);
+  reorderedSearches.splice(targetIndex, 0, movedSearch);
+  return reorderedSearches;
+}
+
+const SORT_FIELD_LABELS: Partial<Record<ListQueryDescriptor['sort']['field'], string>> = {
+  title: 'title',
+  released: 'release date',
+  rating: 'rating',
+  votecount: 'vote count',
+  id: 'ID'
+};
+
+// One-line summary shown under the search's name, e.g. `Tag "Mystery" • lang en • by rating (desc)`.
+export function describeSavedSearchQuery(queryDescriptor: ListQueryDescriptor): string {
+  const { filters, sort } = queryDescriptor;
+  const searchTerm = queryDescriptor.term.trim();
+  const sortFieldLabel = SORT_FIELD_LABELS[sort.field];
+  return [
+    queryDescriptor.kind === 'tag' ? `Tag "${searchTerm}"`
+      : queryDescriptor.kind === 'developer' ? `Developer "${searchTerm}"`
+        : searchTerm !== '' ? `"${searchTerm}"` : 'All VNs',
+    filters.languages.length > 0 ? `lang ${filters.languages.join(', ')}` : '',
+    filters.originalLanguage.trim() !== '' ? `original ${filters.originalLanguage.trim()}` : '',
+    filters.onlyWithScreenshots ? 'with screenshots' : '',
+    filters.onlyWithDescription ? 'with descriptions' : '',
+    describeAdvancedFilter(filters.advancedFilter),
+    sortFieldLabel ? `by ${sortFieldLabel} (${sort.direction})` : ''
+  ].filter((summarySegment) => summarySegment !== '').join(' • ');
+}
+
+// The saved query narrowed to VNs added since the last run, or null when the search has never run.
+export function buildSavedSearchNewResultFilter(savedSearch: SavedSearch): VisualNovelFilter | null {
+  if (!savedSearch.latestVisualNovelIdentifierAtLastRun) {
+    return null;
+  }
+
+  return visualNovelFilters.and(
+    buildFiltersFromQueryDescriptor(savedSearch.queryDescriptor),
+    visualNovelFilters.where('id', '>', savedSearch.latestVisualNovelIdentifierAtLastRun)
+  );
+}
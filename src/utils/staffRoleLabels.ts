@@ -0,0 +1,31 @@
+// Display order for staff credit groups; anything not listed is grouped under "Staff" at the end.
+export const STAFF_ROLE_DISPLAY_ORDER = [
+  'scenario',
+  'director',
+  'chardesign',
+  'art',
+  'music',
+  'songs',
+  'translator',
+  'editor',
+  'qa',
+  'staff'
+] as const;
+
+const STAFF_ROLE_LABELS: Record<string, string> = {
+  scenario: 'Scenario',
+  director: 'Director',
+  chardesign: 'Character Design',
+  art: 'Artist',
+  music: 'Composer',
+  songs: 'Vocals',
+  translator: 'Translator',
+  editor: 'Editor',
+  qa: 'Quality Assurance',
+  staff: 'Staff',
+  va: 'Voice'
+};
+
+export function formatStaffRoleLabel(roleCode: string) {
+  return STAFF_ROLE_LABELS[roleCode] ?? 'Staff';
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { type UserVisualNovelListEntry } from '../types/apiTypes';
+import { compareUserLists } from './userListComparison';
+
+function buildEntry(visualNovelIdentifier: string, title: string, labelIdentifiers: number[], vote: number | null = null): UserVisualNovelListEntry {
+  return {
+    id: visualNovelIdentifier,
+    labels: labelIdentifiers.map((labelIdentifier) => ({ id: labelIdentifier })),
+    vote,
+    vn: { id: visualNovelIdentifier, title, rating: null, image: null }
+  };
+}
+
+const OUR_ENTRIES = [
+  buildEntry('v17', 'Ever17', [2, 7], 90),
+  buildEntry('v97', 'Saya no Uta', [5]),
+  buildEntry('v4', 'Clannad', [2, 7], 60),
+  buildEntry('v11', 'Fate/stay night', [2, 7], 80),
+  buildEntry('v2002', 'Only Ours', [1])
+];
+
+const THEIR_ENTRIES = [
+  buildEntry('v4', 'Clannad', [2, 7], 100),
+  buildEntry('v97', 'Saya no Uta', [2, 7], 85),
+  buildEntry('v17', 'Ever17', [2, 7], 70),
+  buildEntry('v11', 'Fate/stay night', [2, 7], 80),
+  buildEntry('v5', 'Only Theirs', [2])
+];
+
+describe('compareUserLists', () => {
+  it('lists shared titles alphabetically with both votes', () => {
+    const comparison = compareUserLists(OUR_ENTRIES, THEIR_ENTRIES);
+
+    expect(comparison.sharedTitles.map((sharedTitle) => [sharedTitle.title, sharedTitle.ourVote, sharedTitle.theirVote])).toEqual([
+      ['Clannad', 60, 100],
+      ['Ever17', 90, 70],
+      ['Fate/stay night', 80, 80],
+      ['Saya no Uta', null, 85]
+    ]);
+  });
+
+  it('recommends titles they finished that are on our wishlist', () => {
+    expect(compareUserLists(OUR_ENTRIES, THEIR_ENTRIES).finishedByThemWishlistedByUs.map((title) => title.visualNovelIdentifier))
+      .toEqual(['v97']);
+  });
+
+  it('ranks vote disagreements by size and averages the gap over common votes', () => {
+    const comparison = compareUserLists(OUR_ENTRIES, THEIR_ENTRIES);
+
+    expect(comparison.voteDisagreements.map((disagreement) => [disagreement.title, disagreement.voteDifference])).toEqual([
+      ['Clannad', 40],
+      ['Ever17', -20]
+    ]);
+    expect(comparison.commonVoteCount).toBe(3);
+    expect(comparison.averageVoteDifference).toBe(20);
+    expect(compareUserLists(OUR_ENTRIES, THEIR_ENTRIES, 1).voteDisagreements).toHaveLength(1);
+  });
+});
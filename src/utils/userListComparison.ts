@@ -0,0 +1,86 @@
+import { type UserVisualNovelListEntry } from '../types/apiTypes';
+import { FINISHED_USER_LIST_LABEL_IDENTIFIER, WISHLIST_USER_LIST_LABEL_IDENTIFIER } from './userListLabels';
+
+export interface UserListComparisonTitle {
+  visualNovelIdentifier: string;
+  title: string;
+  ourVote: number | null;
+  theirVote: number | null;
+}
+
+export interface UserListVoteDisagreement extends UserListComparisonTitle {
+  // Their vote minus ours on the 10–100 scale; positive when they liked it more.
+  voteDifference: number;
+}
+
+export interface UserListComparison {
+  sharedTitles: UserListComparisonTitle[];
+  // The friend-recommendation list: finished on their side, still on our wishlist.
+  finishedByThemWishlistedByUs: UserListComparisonTitle[];
+  voteDisagreements: UserListVoteDisagreement[];
+  // Votes on shared titles that both sides cast, for the "how alike are we" summary.
+  commonVoteCount: number;
+  averageVoteDifference: number | null;
+}
+
+const DEFAULT_DISAGREEMENT_LIMIT = 10;
+
+function hasLabel(entry: UserVisualNovelListEntry, labelIdentifier: number) {
+  return (entry.labels ?? []).some((labelEntry) => labelEntry.id === labelIdentifier);
+}
+
+function readVote(entry: UserVisualNovelListEntry) {
+  return typeof entry.vote === 'number' ? entry.vote : null;
+}
+
+function compareTitles(first: UserListComparisonTitle, second: UserListComparisonTitle) {
+  return first.title.localeCompare(second.title);
+}
+
+// Pairs two lists by VN. Titles come from whichever side loaded them; both lists are expected to select
+// `labels`, `vote` and `vn.title`.
+export function compareUserLists(
+  ourEntries: UserVisualNovelListEntry[],
+  theirEntries: UserVisualNovelListEntry[],
+  disagreementLimit = DEFAULT_DISAGREEMENT_LIMIT
+): UserListComparison {
+  const ourEntriesByIdentifier = new Map(ourEntries.map((entry) => [entry.id, entry]));
+  const sharedTitles: UserListComparisonTitle[] = [];
+  const finishedByThemWishlistedByUs: UserListComparisonTitle[] = [];
+
+  theirEntries.forEach((theirEntry) => {
+    const ourEntry = ourEntriesByIdentifier.get(theirEntry.id);
+    if (!ourEntry) {
+      return;
+    }
+
+    const comparisonTitle = {
+      visualNovelIdentifier: theirEntry.id,
+      title: theirEntry.vn?.title ?? ourEntry.vn?.title ?? theirEntry.id,
+      ourVote: readVote(ourEntry),
+      theirVote: readVote(theirEntry)
+    };
+    sharedTitles.push(comparisonTitle);
+    if (hasLabel(theirEntry, FINISHED_USER_LIST_LABEL_IDENTIFIER) && hasLabel(ourEntry, WISHLIST_USER_LIST_LABEL_IDENTIFIER)) {
+      finishedByThemWishlistedByUs.push(comparisonTitle);
+    }
+  });
+
+  const commonlyVotedTitles = sharedTitles
+    .filter((sharedTitle) => sharedTitle.ourVote !== null && sharedTitle.theirVote !== null)
+    .map((sharedTitle) => ({ ...sharedTitle, voteDifference: (sharedTitle.theirVote ?? 0) - (sharedTitle.ourVote ?? 0) }));
+  const voteDisagreements = commonlyVotedTitles
+    .filter((votedTitle) => votedTitle.voteDifference !== 0)
+    .sort((first, second) => Math.abs(second.voteDifference) - Math.abs(first.voteDifference) || compareTitles(first, second))
+    .slice(0, disagreementLimit);
+
+  return {
+    sharedTitles: sharedTitles.sort(compareTitles),
+    finishedByThemWishlistedByUs: finishedByThemWishlistedByUs.sort(compareTitles),
+    voteDisagreements,
+    commonVoteCount: commonlyVotedTitles.length,
+    averageVoteDifference: commonlyVotedTitles.length === 0
+      ? null
+      : commonlyVotedTitles.reduce((total, votedTitle) => total + Math.abs(votedTitle.voteDifference), 0) / commonlyVotedTitles.length
+  };
+}
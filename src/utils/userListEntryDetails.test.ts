@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createUserListEntryDetailsDraft,
+  diffUserListEntryDetails,
+  EMPTY_USER_LIST_ENTRY_DETAILS,
+  parseUserListEntryDetailsDraft,
+  summarizeUserListEntryDetails
+} from './userListEntryDetails';
+
+const SAVED_DETAILS = { vote: 85, notes: 'Route order matters.', started: '2023-10-02', finished: null };
+
+describe('parseUserListEntryDetailsDraft', () => {
+  it('round-trips saved details through the draft', () => {
+    expect(parseUserListEntryDetailsDraft(createUserListEntryDetailsDraft(SAVED_DETAILS))).toEqual({
+      details: SAVED_DETAILS,
+      errorMessage: null
+    });
+  });
+
+  it('treats blank vote and date fields as cleared', () => {
+    const parsedDraft = parseUserListEntryDetailsDraft({ voteText: ' ', notes: '', started: '', finished: '' });
+    expect(parsedDraft.details).toEqual(EMPTY_USER_LIST_ENTRY_DETAILS);
+  });
+
+  it('rejects votes outside 10 to 100 and fractional votes', () => {
+    for (const voteText of ['9', '101', '85.5', 'abc']) {
+      expect(parseUserListEntryDetailsDraft({ voteText, notes: '', started: '', finished: '' }).errorMessage).toMatch(/10 to 100/);
+    }
+  });
+
+  it('rejects impossible dates and a finish before the start', () => {
+    expect(parseUserListEntryDetailsDraft({ voteText: '', notes: '', started: '2023-02-30', finished: '' }).errorMessage)
+      .toMatch(/YYYY-MM-DD/);
+    expect(parseUserListEntryDetailsDraft({ voteText: '', notes: '', started: '2023-10-02', finished: '2023-10-01' }).errorMessage)
+      .toMatch(/before the start/);
+  });
+});
+
+describe('diffUserListEntryDetails', () => {
+  it('returns only the changed fields, including cleared values', () => {
+    expect(diffUserListEntryDetails(SAVED_DETAILS, { ...SAVED_DETAILS, vote: null, finished: '2023-11-20' })).toEqual({
+      vote: null,
+      finished: '2023-11-20'
+    });
+    expect(diffUserListEntryDetails(SAVED_DETAILS, SAVED_DETAILS)).toEqual({});
+  });
+});
+
+describe('summarizeUserListEntryDetails', () => {
+  it('summarizes the vote, the latest date and whether notes exist', () => {
+    expect(summarizeUserListEntryDetails(SAVED_DETAILS)).toBe('Vote 85 · Started 2023-10-02 · Notes');
+    expect(summarizeUserListEntryDetails(EMPTY_USER_LIST_ENTRY_DETAILS)).toBe('');
+  });
+});
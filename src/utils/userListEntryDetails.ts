@@ -0,0 +1,87 @@
+import { type UserVisualNovelListEntryDetails } from '../types/apiTypes';
+
+export const USER_LIST_VOTE_MINIMUM = 10;
+export const USER_LIST_VOTE_MAXIMUM = 100;
+
+export const EMPTY_USER_LIST_ENTRY_DETAILS: UserVisualNovelListEntryDetails = {
+  vote: null,
+  notes: '',
+  started: null,
+  finished: null
+};
+
+// Form state keeps the vote as typed text so partial input ("8") is not rejected mid-edit.
+export interface UserListEntryDetailsDraft {
+  voteText: string;
+  notes: string;
+  started: string;
+  finished: string;
+}
+
+export function createUserListEntryDetailsDraft(entryDetails: UserVisualNovelListEntryDetails): UserListEntryDetailsDraft {
+  return {
+    voteText: entryDetails.vote === null ? '' : String(entryDetails.vote),
+    notes: entryDetails.notes,
+    started: entryDetails.started ?? '',
+    finished: entryDetails.finished ?? ''
+  };
+}
+
+function isCalendarDate(dateText: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateText)) {
+    return false;
+  }
+  const parsedDate = new Date(`${dateText}T00:00:00Z`);
+  return !Number.isNaN(parsedDate.getTime()) && parsedDate.toISOString().startsWith(dateText);
+}
+
+// Returns the parsed details, or a message describing the first invalid field.
+export function parseUserListEntryDetailsDraft(
+  draft: UserListEntryDetailsDraft
+): { details: UserVisualNovelListEntryDetails; errorMessage: null } | { details: null; errorMessage: string } {
+  const trimmedVoteText = draft.voteText.trim();
+  const vote = trimmedVoteText === '' ? null : Number(trimmedVoteText);
+  if (vote !== null && (!Number.isInteger(vote) || vote < USER_LIST_VOTE_MINIMUM || vote > USER_LIST_VOTE_MAXIMUM)) {
+    return { details: null, errorMessage: `Vote must be a whole number from ${USER_LIST_VOTE_MINIMUM} to ${USER_LIST_VOTE_MAXIMUM}.` };
+  }
+
+  const started = draft.started.trim() === '' ? null : draft.started.trim();
+  const finished = draft.finished.trim() === '' ? null : draft.finished.trim();
+  if ((started && !isCalendarDate(started)) || (finished && !isCalendarDate(finished))) {
+    return { details: null, errorMessage: 'Dates must be valid YYYY-MM-DD dates.' };
+  }
+  if (started && finished && finished < started) {
+    return { details: null, errorMessage: 'Finish date cannot be before the start date.' };
+  }
+
+  return {
+    details: { vote, notes: draft.notes, started, finished },
+    errorMessage: null
+  };
+}
+
+// Only changed fields are sent, so a save never overwrites fields edited elsewhere in the meantime.
+export function diffUserListEntryDetails(
+  previousDetails: UserVisualNovelListEntryDetails,
+  nextDetails: UserVisualNovelListEntryDetails
+): Partial<UserVisualNovelListEntryDetails> {
+  const detailChanges: Partial<UserVisualNovelListEntryDetails> = {};
+  if (nextDetails.vote !== previousDetails.vote) detailChanges.vote = nextDetails.vote;
+  if (nextDetails.notes !== previousDetails.notes) detailChanges.notes = nextDetails.notes;
+  if (nextDetails.started !== previousDetails.started) detailChanges.started = nextDetails.started;
+  if (nextDetails.finished !== previousDetails.finished) detailChanges.finished = nextDetails.finished;
+  return detailChanges;
+}
+
+// One-line summary for list cards, e.g. "Vote 85 · Started 2023-10-02".
+export function summarizeUserListEntryDetails(entryDetails: UserVisualNovelListEntryDetails) {
+  const summaryParts: string[] = [];
+  if (entryDetails.vote !== null) summaryParts.push(`Vote ${entryDetails.vote}`);
+  if (entryDetails.finished) {
+    summaryParts.push(`Finished ${entryDetails.finished}`);
+  } else if (entryDetails.started) {
+    summaryParts.push(`Started ${entryDetails.started}`);
+  }
+  if (entryDetails.notes.trim() !== '') summaryParts.push('Notes');
+  return summaryParts.join(' · ');
+}
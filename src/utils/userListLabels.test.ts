@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import {
+  diffUserListLabelAssignment,
+  findStatusLabelIdentifier,
+  selectAssignableUserListLabels
+} from './userListLabels';
+
+describe('userListLabels', () => {
+  it('offers only custom labels for free assignment', () => {
+    const labelDefinitions = [
+      { id: 2, label: 'Finished', private: false },
+      { id: 7, label: 'Voted', private: false },
+      { id: 10, label: 'Owned', private: false },
+      { id: 12, label: 'Re-read', private: true }
+    ];
+
+    expect(selectAssignableUserListLabels(labelDefinitions).map((labelDefinition) => labelDefinition.id)).toEqual([10, 12]);
+  });
+
+  it('finds the status label among custom labels', () => {
+    expect(findStatusLabelIdentifier([10, 7, 3])).toBe(3);
+    expect(findStatusLabelIdentifier([10, 7])).toBeNull();
+  });
+
+  it('diffs two assignments into labels to set and unset', () => {
+    expect(diffUserListLabelAssignment([2, 10, 11], [2, 11, 12])).toEqual({ labelsToSet: [12], labelsToUnset: [10] });
+  });
+});
@@ -0,0 +1,44 @@
+import { type UserListLabelDefinition } from '../types/apiTypes';
+
+// VNDB's built-in status labels. A list entry normally carries exactly one of them.
+export const PLAYING_USER_LIST_LABEL_IDENTIFIER = 1;
+export const FINISHED_USER_LIST_LABEL_IDENTIFIER = 2;
+export const WISHLIST_USER_LIST_LABEL_IDENTIFIER = 5;
+export const USER_LIST_STATUS_OPTIONS = [
+  { id: PLAYING_USER_LIST_LABEL_IDENTIFIER, label: 'Playing' },
+  { id: FINISHED_USER_LIST_LABEL_IDENTIFIER, label: 'Finished' },
+  { id: 3, label: 'Stalled' },
+  { id: 4, label: 'Dropped' },
+  { id: WISHLIST_USER_LIST_LABEL_IDENTIFIER, label: 'Wishlist' },
+  { id: 6, label: 'Blacklist' }
+];
+export const USER_LIST_STATUS_LABEL_IDENTIFIERS = USER_LIST_STATUS_OPTIONS.map((statusOption) => statusOption.id);
+export const DEFAULT_USER_LIST_STATUS_LABEL_IDENTIFIER = WISHLIST_USER_LIST_LABEL_IDENTIFIER;
+
+// VNDB sets and clears "Voted" itself whenever the vote changes; it cannot be assigned directly.
+export const VOTED_USER_LIST_LABEL_IDENTIFIER = 7;
+
+export function isStatusUserListLabel(labelIdentifier: number) {
+  return USER_LIST_STATUS_LABEL_IDENTIFIERS.includes(labelIdentifier);
+}
+
+// Labels that can be toggled freely alongside the status: anything that is neither a status nor "Voted".
+export function isAssignableUserListLabel(labelIdentifier: number) {
+  return !isStatusUserListLabel(labelIdentifier) && labelIdentifier !== VOTED_USER_LIST_LABEL_IDENTIFIER;
+}
+
+export function selectAssignableUserListLabels(labelDefinitions: UserListLabelDefinition[]) {
+  return labelDefinitions.filter((labelDefinition) => isAssignableUserListLabel(labelDefinition.id));
+}
+
+export function findStatusLabelIdentifier(labelIdentifiers: number[]) {
+  return USER_LIST_STATUS_LABEL_IDENTIFIERS.find((statusLabelIdentifier) => labelIdentifiers.includes(statusLabelIdentifier)) ?? null;
+}
+
+// Computes the `labels_set`/`labels_unset` pair that turns one assignment into another, leaving other labels alone.
+export function diffUserListLabelAssignment(previousLabelIdentifiers: number[], nextLabelIdentifiers: number[]) {
+  return {
+    labelsToSet: nextLabelIdentifiers.filter((labelIdentifier) => !previousLabelIdentifiers.includes(labelIdentifier)),
+    labelsToUnset: previousLabelIdentifiers.filter((labelIdentifier) => !nextLabelIdentifiers.includes(labelIdentifier))
+  };
+}
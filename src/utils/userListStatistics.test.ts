@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { type UserListStatisticsEntry, type UserListStatisticsVisualNovel } from '../types/apiTypes';
+import { buildUserListStatistics } from './userListStatistics';
+
+function buildVisualNovel(overrides: Partial<UserListStatisticsVisualNovel>): UserListStatisticsVisualNovel {
+  return {
+    id: 'v1',
+    title: '',
+    rating: null,
+    olang: 'ja',
+    length: null,
+    length_minutes: null,
+    developers: [],
+    tags: [],
+    ...overrides
+  };
+}
+
+const KID = { id: 'p24', name: 'KID' };
+const NITROPLUS = { id: 'p98', name: 'Nitroplus' };
+
+const ENTRIES: UserListStatisticsEntry[] = [
+  {
+    id: 'v17',
+    labels: [{ id: 2 }, { id: 7 }, { id: 10 }],
+    vote: 92,
+    finished: '2023-02-11',
+    vn: buildVisualNovel({
+      id: 'v17',
+      rating: 85,
+      length_minutes: 1800,
+      developers: [KID, KID],
+      tags: [
+        { id: 'g32', name: 'Mystery', rating: 2.8, spoiler: 0, category: 'cont' },
+        { id: 'g7', name: 'Twist Ending', rating: 2.5, spoiler: 2, category: 'cont' }
+      ]
+    })
+  },
+  {
+    id: 'v97',
+    labels: [{ id: 2 }, { id: 7 }],
+    vote: 100,
+    finished: '2023-11-30',
+    vn: buildVisualNovel({
+      id: 'v97',
+      rating: 81,
+      length: 2,
+      developers: [NITROPLUS],
+      tags: [
+        { id: 'g32', name: 'Mystery', rating: 2.1, spoiler: 0, category: 'cont' },
+        { id: 'g99', name: 'Horror', rating: 1.2, spoiler: 0, category: 'cont' }
+      ]
+    })
+  },
+  {
+    id: 'v2002',
+    labels: [{ id: 2 }],
+    vote: null,
+    finished: '2024-01-05',
+    vn: buildVisualNovel({ id: 'v2002', olang: 'en', developers: [KID] })
+  },
+  {
+    id: 'v4',
+    labels: [{ id: 1 }, { id: 7 }],
+    vote: 45,
+    finished: null,
+    vn: buildVisualNovel({ id: 'v4', rating: null, length_minutes: 3000, developers: [NITROPLUS] })
+  }
+];
+
+const LABEL_DEFINITIONS = [
+  { id: 7, label: 'Voted', private: false },
+  { id: 10, label: 'Favorites', private: false },
+  { id: 11, label: 'Unused', private: true }
+];
+
+describe('buildUserListStatistics', () => {
+  it('counts statuses and labels, leaving out unused ones', () => {
+    const statistics = buildUserListStatistics(ENTRIES, LABEL_DEFINITIONS, 'finished');
+
+    expect(statistics.labelCounts.map((labelCount) => [labelCount.label, labelCount.count])).toEqual([
+      ['Playing', 1],
+      ['Finished', 3],
+      ['Voted', 3],
+      ['Favorites', 1]
+    ]);
+  });
+
+  it('buckets votes on the 1–10 scale and compares them with VNDB ratings on the same VNs', () => {
+    const statistics = buildUserListStatistics(ENTRIES, [], 'finished');
+
+    expect(statistics.voteHistogram.filter((bucket) => bucket.count > 0).map((bucket) => bucket.key)).toEqual(['4', '9', '10']);
+    expect(statistics.votedCount).toBe(3);
+    expect(statistics.averageVote).toBeCloseTo(79);
+    expect(statistics.comparedVoteCount).toBe(2);
+    expect(statistics.averageComparedVote).toBe(96);
+    expect(statistics.averageComparedRating).toBe(83);
+  });
+
+  it('groups finish dates by year and month in order', () => {
+    const statistics = buildUserListStatistics(ENTRIES, [], 'all');
+
+    expect(statistics.finishesByYear.map((period) => [period.key, period.count])).toEqual([['2023', 2], ['2024', 1]]);
+    expect(statistics.finishesByMonth.map((period) => period.key)).toEqual(['2023-02', '2023-11', '2024-01']);
+  });
+
+  it('ranks developers, non-spoiler tags and languages within the chosen scope', () => {
+    const finishedStatistics = buildUserListStatistics(ENTRIES, [], 'finished', (languageCode) => languageCode.toUpperCase());
+
+    expect(finishedStatistics.topDevelopers.map((developer) => [developer.label, developer.count])).toEqual([['KID', 2], ['Nitroplus', 1]]);
+    expect(finishedStatistics.topTags.map((tag) => [tag.label, tag.count])).toEqual([['Mystery', 2]]);
+    expect(finishedStatistics.originalLanguages.map((language) => [language.label, language.count])).toEqual([['JA', 2], ['EN', 1]]);
+
+    const wholeListStatistics = buildUserListStatistics(ENTRIES, [], 'all');
+    expect(wholeListStatistics.topDevelopers.map((developer) => developer.count)).toEqual([2, 2]);
+  });
+
+  it('estimates reading time from play times, falling back to the length category', () => {
+    expect(buildUserListStatistics(ENTRIES, [], 'finished')).toMatchObject({
+      scopedEntryCount: 3,
+      estimatedReadingMinutes: 1800 + 360,
+      entriesWithoutLength: 1
+    });
+    expect(buildUserListStatistics(ENTRIES, [], 'all').estimatedReadingMinutes).toBe(1800 + 360 + 3000);
+  });
+});
@@ -0,0 +1,160 @@
+import { type UserListLabelDefinition, type UserListStatisticsEntry } from '../types/apiTypes';
+import { findStatusLabelIdentifier, FINISHED_USER_LIST_LABEL_IDENTIFIER, USER_LIST_STATUS_OPTIONS } from './userListLabels';
+
+// Which entries the VN-derived figures (developers, tags, languages, reading time) are computed from.
+export type UserListStatisticsScope = 'finished' | 'all';
+
+export interface UserListStatisticsCount {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface UserListStatistics {
+  entryCount: number;
+  scopedEntryCount: number;
+  labelCounts: UserListStatisticsCount[];
+  // Ten buckets on VNDB's 1–10 display scale; a vote of 85 falls in bucket 8.
+  voteHistogram: UserListStatisticsCount[];
+  votedCount: number;
+  averageVote: number | null;
+  // Averages over voted entries that also have a VNDB rating, so both sides cover the same VNs.
+  comparedVoteCount: number;
+  averageComparedVote: number | null;
+  averageComparedRating: number | null;
+  finishesByYear: UserListStatisticsCount[];
+  finishesByMonth: UserListStatisticsCount[];
+  topDevelopers: UserListStatisticsCount[];
+  topTags: UserListStatisticsCount[];
+  originalLanguages: UserListStatisticsCount[];
+  estimatedReadingMinutes: number;
+  // Entries with neither user-submitted play times nor a length category.
+  entriesWithoutLength: number;
+}
+
+const TOP_DEVELOPER_COUNT = 10;
+const TOP_TAG_COUNT = 15;
+// Tags voted below this are too weakly applied to say much about what was read.
+const MINIMUM_TAG_RATING = 2;
+
+// VNDB's length categories, used when a VN has no user-submitted play times: rough midpoints in minutes.
+const LENGTH_CATEGORY_MINUTES: Record<number, number> = {
+  1: 60,
+  2: 6 * 60,
+  3: 20 * 60,
+  4: 40 * 60,
+  5: 60 * 60
+};
+
+function averageOf(values: number[]) {
+  return values.length === 0 ? null : values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+// Highest count first; ties keep a stable alphabetical order.
+function rankCounts(countsByKey: Map<string, { label: string; count: number }>, limit?: number): UserListStatisticsCount[] {
+  const rankedCounts = [...countsByKey.entries()]
+    .map(([key, { label, count }]) => ({ key, label, count }))
+    .sort((first, second) => second.count - first.count || first.label.localeCompare(second.label));
+  return limit === undefined ? rankedCounts : rankedCounts.slice(0, limit);
+}
+
+function incrementCount(countsByKey: Map<string, { label: string; count: number }>, key: string, label: string) {
+  const currentCount = countsByKey.get(key);
+  countsByKey.set(key, { label, count: (currentCount?.count ?? 0) + 1 });
+}
+
+function countFinishesByPeriod(finishedDates: string[], periodLength: number) {
+  const countsByPeriod = new Map<string, { label: string; count: number }>();
+  finishedDates
+    .filter((finishedDate) => finishedDate.length >= periodLength)
+    .forEach((finishedDate) => incrementCount(countsByPeriod, finishedDate.slice(0, periodLength), finishedDate.slice(0, periodLength)));
+  return [...countsByPeriod.entries()]
+    .map(([key, { label, count }]) => ({ key, label, count }))
+    .sort((first, second) => first.key.localeCompare(second.key));
+}
+
+function estimateReadingMinutes(entry: UserListStatisticsEntry) {
+  if (entry.vn?.length_minutes) {
+    return entry.vn.length_minutes;
+  }
+  return entry.vn?.length ? (LENGTH_CATEGORY_MINUTES[entry.vn.length] ?? null) : null;
+}
+
+export function buildUserListStatistics(
+  entries: UserListStatisticsEntry[],
+  labelDefinitions: UserListLabelDefinition[],
+  scope: UserListStatisticsScope,
+  formatLanguageLabel: (languageCode: string) => string = (languageCode) => languageCode
+): UserListStatistics {
+  const entryLabelIdentifiers = new Map(entries.map((entry) => [entry.id, (entry.labels ?? []).map((labelEntry) => labelEntry.id)]));
+  const scopedEntries = scope === 'all'
+    ? entries
+    : entries.filter((entry) => findStatusLabelIdentifier(entryLabelIdentifiers.get(entry.id) ?? []) === FINISHED_USER_LIST_LABEL_IDENTIFIER);
+
+  // Status labels first in VNDB's order, then every other label the account defines (including "Voted");
+  // labels no entry carries are left out.
+  const labelOptions = [
+    ...USER_LIST_STATUS_OPTIONS,
+    ...labelDefinitions.filter((labelDefinition) => !USER_LIST_STATUS_OPTIONS.some((statusOption) => statusOption.id === labelDefinition.id))
+  ];
+  const labelCounts = labelOptions.map((labelOption) => ({
+    key: String(labelOption.id),
+    label: labelOption.label,
+    count: entries.filter((entry) => entryLabelIdentifiers.get(entry.id)?.includes(labelOption.id)).length
+  })).filter((labelCount) => labelCount.count > 0);
+
+  const votedEntries = entries.filter((entry) => typeof entry.vote === 'number');
+  const voteHistogram = Array.from({ length: 10 }, (_unused, bucketIndex) => ({
+    key: String(bucketIndex + 1),
+    label: String(bucketIndex + 1),
+    count: votedEntries.filter((entry) => Math.min(10, Math.floor((entry.vote ?? 0) / 10)) === bucketIndex + 1).length
+  }));
+  const comparedEntries = votedEntries.filter((entry) => typeof entry.vn?.rating === 'number');
+
+  const developerCounts = new Map<string, { label: string; count: number }>();
+  const tagCounts = new Map<string, { label: string; count: number }>();
+  const languageCounts = new Map<string, { label: string; count: number }>();
+  let estimatedReadingMinutes = 0;
+  let entriesWithoutLength = 0;
+  scopedEntries.forEach((entry) => {
+    // A VN credited to the same developer twice (e.g. as two brands) still counts once.
+    new Map((entry.vn?.developers ?? []).map((developer) => [developer.id, developer.name]))
+      .forEach((developerName, developerIdentifier) => incrementCount(developerCounts, developerIdentifier, developerName));
+    (entry.vn?.tags ?? [])
+      .filter((tag) => (tag.rating ?? 0) >= MINIMUM_TAG_RATING && (tag.spoiler ?? 0) === 0 && tag.category !== 'ero')
+      .forEach((tag) => incrementCount(tagCounts, tag.id, tag.name));
+    if (entry.vn?.olang) {
+      incrementCount(languageCounts, entry.vn.olang, formatLanguageLabel(entry.vn.olang));
+    }
+
+    const readingMinutes = estimateReadingMinutes(entry);
+    if (readingMinutes === null) {
+      entriesWithoutLength += 1;
+    } else {
+      estimatedReadingMinutes += readingMinutes;
+    }
+  });
+
+  const finishedDates = entries
+    .map((entry) => entry.finished)
+    .filter((finishedDate): finishedDate is string => typeof finishedDate === 'string' && finishedDate !== '');
+
+  return {
+    entryCount: entries.length,
+    scopedEntryCount: scopedEntries.length,
+    labelCounts,
+    voteHistogram,
+    votedCount: votedEntries.length,
+    averageVote: averageOf(votedEntries.map((entry) => entry.vote ?? 0)),
+    comparedVoteCount: comparedEntries.length,
+    averageComparedVote: averageOf(comparedEntries.map((entry) => entry.vote ?? 0)),
+    averageComparedRating: averageOf(comparedEntries.map((entry) => entry.vn?.rating ?? 0)),
+    finishesByYear: countFinishesByPeriod(finishedDates, 4),
+    finishesByMonth: countFinishesByPeriod(finishedDates, 7),
+    topDevelopers: rankCounts(developerCounts, TOP_DEVELOPER_COUNT),
+    topTags: rankCounts(tagCounts, TOP_TAG_COUNT),
+    originalLanguages: rankCounts(languageCounts),
+    estimatedReadingMinutes,
+    entriesWithoutLength
+  };
+}
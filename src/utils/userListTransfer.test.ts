@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import { type UserListLabelDefinition, type UserVisualNovelListEntry } from '../types/apiTypes';
+import {
+  buildUserListTransferRecords,
+  detectUserListTransferFormat,
+  parseUserListTransferFile,
+  planUserListImport,
+  serializeUserListAsCsv,
+  serializeUserListAsJson,
+  type UserListTransferRecord
+} from './userListTransfer';
+
+const LABEL_DEFINITIONS: UserListLabelDefinition[] = [
+  { id: 1, label: 'Playing', private: false },
+  { id: 2, label: 'Finished', private: false },
+  { id: 7, label: 'Voted', private: false },
+  { id: 10, label: 'Favorites', private: false },
+  { id: 11, label: 'Nakige', private: true }
+];
+
+const CURRENT_ENTRIES: UserVisualNovelListEntry[] = [
+  {
+    id: 'v17',
+    labels: [{ id: 2, label: 'Finished' }, { id: 7, label: 'Voted' }, { id: 10, label: 'Favorites' }],
+    vote: 92,
+    notes: 'Best twist, "ever".',
+    started: '2023-01-04',
+    finished: '2023-02-11',
+    vn: { id: 'v17', title: 'Ever17', rating: 85, image: null }
+  },
+  {
+    id: 'v97',
+    labels: [{ id: 1, label: 'Playing' }],
+    vote: null,
+    notes: '',
+    started: null,
+    finished: null,
+    vn: { id: 'v97', title: 'Saya no Uta', rating: 81, image: null }
+  }
+];
+
+function buildRecord(overrides: Partial<UserListTransferRecord>): UserListTransferRecord {
+  return {
+    visualNovelIdentifier: 'v17',
+    title: 'Ever17',
+    labels: [],
+    vote: null,
+    started: null,
+    finished: null,
+    notes: '',
+    ...overrides
+  };
+}
+
+describe('user list export', () => {
+  it('round-trips the list through CSV, including quoted notes', () => {
+    const exportedRecords = buildUserListTransferRecords(CURRENT_ENTRIES, LABEL_DEFINITIONS);
+    const csvText = serializeUserListAsCsv(exportedRecords);
+
+    expect(csvText.split('\r\n')[0]).toBe('vn_id,title,labels,label_ids,vote,started,finished,notes');
+    expect(csvText).toContain('"Best twist, ""ever""."');
+    expect(parseUserListTransferFile(csvText, 'csv')).toEqual({ records: exportedRecords, invalidRowMessages: [] });
+  });
+
+  it('round-trips the list through JSON', () => {
+    const exportedRecords = buildUserListTransferRecords(CURRENT_ENTRIES, LABEL_DEFINITIONS);
+    const jsonText = serializeUserListAsJson(exportedRecords, new Date('2026-01-02T03:04:05Z'));
+
+    expect(JSON.parse(jsonText).exportedAt).toBe('2026-01-02T03:04:05.000Z');
+    expect(parseUserListTransferFile(jsonText, 'json').records).toEqual(exportedRecords);
+  });
+});
+
+describe('user list import parsing', () => {
+  it('detects the format from the file name, then the contents', () => {
+    expect(detectUserListTransferFormat('backup.CSV', '{')).toBe('csv');
+    expect(detectUserListTransferFormat('export', '  <?xml version="1.0"?>')).toBe('vndb-xml');
+    expect(detectUserListTransferFormat('export', '[{"id":"v17"}]')).toBe('json');
+  });
+
+  it('reads the VNDB XML export with 1–10 votes and escaped text', () => {
+    const xmlText = `<?xml version="1.0" encoding="UTF-8"?>
+<vndb-export version="1.0">
+  <vns>
+    <vn id="v17" private="false">
+      <title>Ever17 &amp; Remember11</title>
+      <label id="2" label="Finished"/>
+      <label id="10" label="Favorites"/>
+      <vote>9.2</vote>
+      <started>2023-01-04</started>
+      <finished>2023-02-11</finished>
+      <notes><![CDATA[Loved <it>]]></notes>
+    </vn>
+    <vn id="v97">
+      <title>Saya no Uta</title>
+      <vote>11</vote>
+    </vn>
+  </vns>
+</vndb-export>`;
+
+    expect(parseUserListTransferFile(xmlText, 'vndb-xml')).toEqual({
+      records: [{
+        visualNovelIdentifier: 'v17',
+        title: 'Ever17 & Remember11',
+        labels: [{ id: 2, label: 'Finished' }, { id: 10, label: 'Favorites' }],
+        vote: 92,
+        started: '2023-01-04',
+        finished: '2023-02-11',
+        notes: 'Loved <it>'
+      }],
+      invalidRowMessages: ['VN 2 (v97): Vote must be a whole number from 10 to 100.']
+    });
+  });
+
+  it('accepts the selection export and reports unreadable rows', () => {
+    const parsedFile = parseUserListTransferFile(JSON.stringify([
+      { id: 'v17', title: 'Ever17', rating: 85, labels: ['Finished', 'Favorites'], vote: 92, notes: '', started: null, finished: null },
+      { id: 'abc', title: 'Broken' }
+    ]), 'json');
+
+    expect(parsedFile.records).toEqual([buildRecord({
+      labels: [{ id: null, label: 'Finished' }, { id: null, label: 'Favorites' }],
+      vote: 92
+    })]);
+    expect(parsedFile.invalidRowMessages).toEqual(['Entry 2: "abc" is not a VN ID.']);
+  });
+
+  it('rejects a CSV file without a vn_id column', () => {
+    expect(() => parseUserListTransferFile('title\r\nEver17\r\n', 'csv')).toThrow('vn_id');
+  });
+});
+
+describe('planUserListImport', () => {
+  it('adds missing entries with their labels and filled fields', () => {
+    const plan = planUserListImport([
+      buildRecord({ visualNovelIdentifier: 'v4', title: 'Clannad', labels: [{ id: 2, label: 'Finished' }, { id: 7, label: 'Voted' }], vote: 88 })
+    ], CURRENT_ENTRIES, LABEL_DEFINITIONS, 'keep-current');
+
+    expect(plan).toEqual([expect.objectContaining({
+      visualNovelIdentifier: 'v4',
+      action: 'add',
+      labelsToSet: [2],
+      labelsToUnset: [],
+      detailChanges: { vote: 88 },
+      conflicts: []
+    })]);
+  });
+
+  it('matches custom labels by name and warns about unknown ones', () => {
+    const [planItem] = planUserListImport([
+      buildRecord({ visualNovelIdentifier: 'v97', labels: [{ id: 33, label: 'nakige' }, { id: 34, label: 'Gone' }] })
+    ], CURRENT_ENTRIES, LABEL_DEFINITIONS, 'keep-current');
+
+    expect(planItem.action).toBe('update');
+    expect(planItem.labelsToSet).toEqual([11]);
+    expect(planItem.warnings).toEqual(['Label "Gone" does not exist on this account and was skipped.']);
+  });
+
+  it('reports differing values as conflicts and applies them only when overwriting', () => {
+    const importedRecord = buildRecord({
+      labels: [{ id: 1, label: 'Playing' }, { id: 10, label: 'Favorites' }],
+      vote: 80,
+      notes: 'Best twist, "ever".',
+      started: '2023-01-04'
+    });
+
+    const [keptItem] = planUserListImport([importedRecord], CURRENT_ENTRIES, LABEL_DEFINITIONS, 'keep-current');
+    expect(keptItem).toMatchObject({
+      action: 'unchanged',
+      labelsToSet: [],
+      detailChanges: {},
+      conflicts: ['Status: Finished on VNDB, Playing in file', 'Vote: 92 on VNDB, 80 in file']
+    });
+
+    const [overwrittenItem] = planUserListImport([importedRecord], CURRENT_ENTRIES, LABEL_DEFINITIONS, 'overwrite');
+    expect(overwrittenItem).toMatchObject({
+      action: 'update',
+      labelsToSet: [1],
+      labelsToUnset: [2],
+      detailChanges: { vote: 80 }
+    });
+  });
+
+  it('uses the last occurrence of a duplicated VN', () => {
+    const plan = planUserListImport([
+      buildRecord({ visualNovelIdentifier: 'v97', notes: 'first' }),
+      buildRecord({ visualNovelIdentifier: 'v97', notes: 'second' })
+    ], CURRENT_ENTRIES, LABEL_DEFINITIONS, 'keep-current');
+
+    expect(plan).toHaveLength(1);
+    expect(plan[0].detailChanges).toEqual({ notes: 'second' });
+    expect(plan[0].warnings).toEqual(['Listed more than once in the file; the last occurrence is used.']);
+  });
+});
@@ -0,0 +1,485 @@
+import {
+  type UserListLabelDefinition,
+  type UserVisualNovelListEntry,
+  type UserVisualNovelListEntryDetails
+} from '../types/apiTypes';
+import { parseUserListEntryDetailsDraft } from './userListEntryDetails';
+import {
+  findStatusLabelIdentifier,
+  isAssignableUserListLabel,
+  isStatusUserListLabel,
+  USER_LIST_STATUS_OPTIONS,
+  VOTED_USER_LIST_LABEL_IDENTIFIER
+} from './userListLabels';
+
+export type UserListTransferFormat = 'json' | 'csv' | 'vndb-xml';
+
+// A list entry in portable form. Labels carry their names so custom labels can be matched on another account,
+// where the same label usually has a different ID.
+export interface UserListTransferRecord {
+  visualNovelIdentifier: string;
+  title: string;
+  labels: Array<{ id: number | null; label: string }>;
+  vote: number | null;
+  started: string | null;
+  finished: string | null;
+  notes: string;
+}
+
+export interface ParsedUserListTransferFile {
+  records: UserListTransferRecord[];
+  // Rows that could not be read, e.g. "Row 4: Vote must be a whole number from 10 to 100."
+  invalidRowMessages: string[];
+}
+
+export type UserListImportConflictStrategy = 'keep-current' | 'overwrite';
+
+export interface UserListImportPlanItem {
+  visualNovelIdentifier: string;
+  title: string;
+  action: 'add' | 'update' | 'unchanged';
+  labelsToSet: number[];
+  labelsToUnset: number[];
+  detailChanges: Partial<UserVisualNovelListEntryDetails>;
+  // Fields set differently on VNDB and in the file, e.g. "Vote: 85 on VNDB, 90 in file".
+  conflicts: string[];
+  warnings: string[];
+}
+
+export const USER_LIST_CSV_COLUMNS = ['vn_id', 'title', 'labels', 'label_ids', 'vote', 'started', 'finished', 'notes'] as const;
+
+const LABEL_LIST_SEPARATOR = ';';
+
+function readLabelName(labelIdentifier: number, labelDefinitions: UserListLabelDefinition[]) {
+  return USER_LIST_STATUS_OPTIONS.find((statusOption) => statusOption.id === labelIdentifier)?.label
+    ?? labelDefinitions.find((labelDefinition) => labelDefinition.id === labelIdentifier)?.label
+    ?? '';
+}
+
+export function buildUserListTransferRecords(
+  userListEntries: UserVisualNovelListEntry[],
+  labelDefinitions: UserListLabelDefinition[]
+): UserListTransferRecord[] {
+  return userListEntries.map((userListEntry) => ({
+    visualNovelIdentifier: userListEntry.id,
+    title: userListEntry.vn?.title ?? '',
+    labels: (userListEntry.labels ?? [])
+      .map((labelEntry) => ({ id: labelEntry.id, label: labelEntry.label || readLabelName(labelEntry.id, labelDefinitions) }))
+      .sort((firstLabel, secondLabel) => firstLabel.id - secondLabel.id),
+    vote: userListEntry.vote ?? null,
+    started: userListEntry.started ?? null,
+    finished: userListEntry.finished ?? null,
+    notes: userListEntry.notes ?? ''
+  }));
+}
+
+export function serializeUserListAsJson(records: UserListTransferRecord[], exportedAt = new Date()) {
+  return JSON.stringify({ exportedAt: exportedAt.toISOString(), entries: records }, null, 2);
+}
+
+function escapeCsvField(fieldValue: string) {
+  return /[",\r\n]/.test(fieldValue) || fieldValue.trim() !== fieldValue
+    ? `"${fieldValue.replace(/"/g, '""')}"`
+    : fieldValue;
+}
+
+export function serializeUserListAsCsv(records: UserListTransferRecord[]) {
+  const csvRows = records.map((record) => [
+    record.visualNovelIdentifier,
+    record.title,
+    record.labels.map((labelEntry) => labelEntry.label).join(LABEL_LIST_SEPARATOR),
+    record.labels.map((labelEntry) => labelEntry.id ?? '').join(LABEL_LIST_SEPARATOR),
+    record.vote === null ? '' : String(record.vote),
+    record.started ?? '',
+    record.finished ?? '',
+    record.notes
+  ].map(escapeCsvField).join(','));
+  return [USER_LIST_CSV_COLUMNS.join(','), ...csvRows].join('\r\n') + '\r\n';
+}
+
+export function detectUserListTransferFormat(fileName: string, fileContents: string): UserListTransferFormat {
+  const lowerCaseFileName = fileName.toLowerCase();
+  if (lowerCaseFileName.endsWith('.xml')) return 'vndb-xml';
+  if (lowerCaseFileName.endsWith('.json')) return 'json';
+  if (lowerCaseFileName.endsWith('.csv')) return 'csv';
+
+  const leadingCharacter = fileContents.trimStart().charAt(0);
+  if (leadingCharacter === '<') return 'vndb-xml';
+  if (leadingCharacter === '{' || leadingCharacter === '[') return 'json';
+  return 'csv';
+}
+
+// RFC 4180: quoted fields may contain separators, doubled quotes and line breaks.
+function parseCsvRows(fileContents: string): string[][] {
+  const parsedRows: string[][] = [];
+  let currentRow: string[] = [];
+  let currentField = '';
+  let isInsideQuotes = false;
+
+  for (let characterIndex = 0; characterIndex < fileContents.length; characterIndex += 1) {
+    const character = fileContents[characterIndex];
+    if (isInsideQuotes) {
+      if (character === '"' && fileContents[characterIndex + 1] === '"') {
+        currentField += '"';
+        characterIndex += 1;
+      } else if (character === '"') {
+        isInsideQuotes = false;
+      } else {
+        currentField += character;
+      }
+    } else if (character === '"') {
+      isInsideQuotes = true;
+    } else if (character === ',') {
+      currentRow.push(currentField);
+      currentField = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && fileContents[characterIndex + 1] === '\n') {
+        characterIndex += 1;
+      }
+      currentRow.push(currentField);
+      parsedRows.push(currentRow);
+      currentRow = [];
+      currentField = '';
+    } else {
+      currentField += character;
+    }
+  }
+
+  if (currentField !== '' || currentRow.length > 0) {
+    currentRow.push(currentField);
+    parsedRows.push(currentRow);
+  }
+  return parsedRows.filter((parsedRow) => parsedRow.some((fieldValue) => fieldValue.trim() !== ''));
+}
+
+function normalizeImportedVisualNovelIdentifier(rawIdentifier: string) {
+  const trimmedIdentifier = rawIdentifier.trim().toLowerCase();
+  return /^v?\d+$/.test(trimmedIdentifier)
+    ? (trimmedIdentifier.startsWith('v') ? trimmedIdentifier : `v${trimmedIdentifier}`)
+    : null;
+}
+
+interface RawTransferRow {
+  identifier: string;
+  title: string;
+  labels: Array<{ id: number | null; label: string }>;
+  voteText: string;
+  started: string;
+  finished: string;
+  notes: string;
+}
+
+// Shares the editor's validation so imported votes and dates follow the same rules as manual edits.
+function readTransferRows(rawRows: RawTransferRow[], rowLabel: (rowIndex: number) => string): ParsedUserListTransferFile {
+  const records: UserListTransferRecord[] = [];
+  const invalidRowMessages: string[] = [];
+
+  rawRows.forEach((rawRow, rowIndex) => {
+    const visualNovelIdentifier = normalizeImportedVisualNovelIdentifier(rawRow.identifier);
+    if (!visualNovelIdentifier) {
+      invalidRowMessages.push(`${rowLabel(rowIndex)}: "${rawRow.identifier}" is not a VN ID.`);
+      return;
+    }
+
+    const parsedDetails = parseUserListEntryDetailsDraft({
+      voteText: rawRow.voteText,
+      notes: rawRow.notes,
+      started: rawRow.started,
+      finished: rawRow.finished
+    });
+    if (!parsedDetails.details) {
+      invalidRowMessages.push(`${rowLabel(rowIndex)} (${visualNovelIdentifier}): ${parsedDetails.errorMessage}`);
+      return;
+    }
+
+    records.push({
+      visualNovelIdentifier,
+      title: rawRow.title,
+      labels: rawRow.labels,
+      ...parsedDetails.details
+    });
+  });
+
+  return { records, invalidRowMessages };
+}
+
+function splitLabelList(labelText: string) {
+  return labelText.split(LABEL_LIST_SEPARATOR).map((labelPart) => labelPart.trim()).filter((labelPart) => labelPart !== '');
+}
+
+function parseUserListCsv(fileContents: string): ParsedUserListTransferFile {
+  const [headerRow, ...dataRows] = parseCsvRows(fileContents.replace(/^\uFEFF/, ''));
+  const columnIndexes = Object.fromEntries((headerRow ?? []).map((columnName, columnIndex) => [columnName.trim().toLowerCase(), columnIndex]));
+  if (columnIndexes.vn_id === undefined) {
+    throw new Error('The CSV file needs a header row with a "vn_id" column.');
+  }
+
+  const readColumn = (dataRow: string[], columnName: string) => {
+    const columnIndex = columnIndexes[columnName];
+    return columnIndex === undefined ? '' : (dataRow[columnIndex] ?? '');
+  };
+
+  return readTransferRows(dataRows.map((dataRow) => {
+    const labelNames = splitLabelList(readColumn(dataRow, 'labels'));
+    const labelIdentifiers = splitLabelList(readColumn(dataRow, 'label_ids')).map(Number);
+    const labelCount = Math.max(labelNames.length, labelIdentifiers.length);
+    return {
+      identifier: readColumn(dataRow, 'vn_id'),
+      title: readColumn(dataRow, 'title'),
+      labels: Array.from({ length: labelCount }, (_unused, labelIndex) => ({
+        id: Number.isInteger(labelIdentifiers[labelIndex]) ? labelIdentifiers[labelIndex] : null,
+        label: labelNames[labelIndex] ?? ''
+      })),
+      voteText: readColumn(dataRow, 'vote'),
+      started: readColumn(dataRow, 'started'),
+      finished: readColumn(dataRow, 'finished'),
+      notes: readColumn(dataRow, 'notes')
+    };
+  }), (rowIndex) => `Row ${rowIndex + 2}`);
+}
+
+function readJsonLabel(rawLabel: unknown): { id: number | null; label: string } | null {
+  if (typeof rawLabel === 'string') return { id: null, label: rawLabel };
+  if (typeof rawLabel === 'number') return { id: rawLabel, label: '' };
+  if (rawLabel && typeof rawLabel === 'object') {
+    const labelObject = rawLabel as { id?: unknown; label?: unknown };
+    return {
+      id: typeof labelObject.id === 'number' ? labelObject.id : null,
+      label: typeof labelObject.label === 'string' ? labelObject.label : ''
+    };
+  }
+  return null;
+}
+
+// Accepts this app's list export, a bare array of entries, and the older selection export (`id`, label names).
+function parseUserListJson(fileContents: string): ParsedUserListTransferFile {
+  let parsedDocument: unknown;
+  try {
+    parsedDocument = JSON.parse(fileContents);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const rawEntries = Array.isArray(parsedDocument)
+    ? parsedDocument
+    : (parsedDocument as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(rawEntries)) {
+    throw new Error('The JSON file needs an "entries" array (or a top-level array of entries).');
+  }
+
+  const readText = (rawValue: unknown) => (
+    typeof rawValue === 'string' ? rawValue : typeof rawValue === 'number' ? String(rawValue) : ''
+  );
+  return readTransferRows(rawEntries.map((rawEntry) => {
+    const entryObject = (rawEntry && typeof rawEntry === 'object' ? rawEntry : {}) as Record<string, unknown>;
+    return {
+      identifier: readText(entryObject.visualNovelIdentifier ?? entryObject.vn_id ?? entryObject.id),
+      title: readText(entryObject.title),
+      labels: (Array.isArray(entryObject.labels) ? entryObject.labels : [])
+        .map(readJsonLabel)
+        .filter((labelEntry): labelEntry is { id: number | null; label: string } => labelEntry !== null),
+      voteText: readText(entryObject.vote),
+      started: readText(entryObject.started),
+      finished: readText(entryObject.finished),
+      notes: readText(entryObject.notes)
+    };
+  }), (rowIndex) => `Entry ${rowIndex + 1}`);
+}
+
+function decodeXmlText(xmlText: string) {
+  return xmlText
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_entity, hexCode: string) => String.fromCodePoint(parseInt(hexCode, 16)))
+    .replace(/&#(\d+);/g, (_entity, decimalCode: string) => String.fromCodePoint(Number(decimalCode)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readXmlAttributes(attributeText: string) {
+  const attributes: Record<string, string> = {};
+  for (const attributeMatch of attributeText.matchAll(/([\w-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[attributeMatch[1]] = decodeXmlText(attributeMatch[2]);
+  }
+  return attributes;
+}
+
+function readXmlElementText(elementBody: string, elementName: string) {
+  const elementMatch = elementBody.match(new RegExp(`<${elementName}\\b[^>]*>([\\s\\S]*?)</${elementName}>`));
+  return elementMatch ? decodeXmlText(elementMatch[1]).trim() : '';
+}
+
+// VNDB's list export (`<vndb-export>` → `<vns>` → `<vn id="v17">` with `<title>`, `<label id label>`, `<vote>`,
+// `<started>`, `<finished>` and `<notes>`). It writes votes on the 1–10 display scale ("8.5").
+function parseVndbXmlListExport(fileContents: string): ParsedUserListTransferFile {
+  if (!/<vndb-export\b/.test(fileContents)) {
+    throw new Error('The XML file is not a VNDB list export.');
+  }
+
+  const rawRows = [...fileContents.matchAll(/<vn\b([^>]*)>([\s\S]*?)<\/vn>/g)].map((visualNovelMatch) => {
+    const visualNovelBody = visualNovelMatch[2];
+    const displayVoteText = readXmlElementText(visualNovelBody, 'vote');
+    const displayVote = Number(displayVoteText);
+    return {
+      identifier: readXmlAttributes(visualNovelMatch[1]).id ?? '',
+      title: readXmlElementText(visualNovelBody, 'title'),
+      labels: [...visualNovelBody.matchAll(/<label\b([^>]*?)\/?>/g)].map((labelMatch) => {
+        const labelAttributes = readXmlAttributes(labelMatch[1]);
+        const labelIdentifier = Number(labelAttributes.id);
+        return { id: Number.isInteger(labelIdentifier) ? labelIdentifier : null, label: labelAttributes.label ?? '' };
+      }),
+      voteText: displayVoteText === '' || Number.isNaN(displayVote) ? displayVoteText : String(Math.round(displayVote * 10)),
+      started: readXmlElementText(visualNovelBody, 'started'),
+      finished: readXmlElementText(visualNovelBody, 'finished'),
+      notes: readXmlElementText(visualNovelBody, 'notes')
+    };
+  });
+
+  return readTransferRows(rawRows, (rowIndex) => `VN ${rowIndex + 1}`);
+}
+
+export function parseUserListTransferFile(fileContents: string, format: UserListTransferFormat): ParsedUserListTransferFile {
+  if (format === 'json') return parseUserListJson(fileContents);
+  if (format === 'csv') return parseUserListCsv(fileContents);
+  return parseVndbXmlListExport(fileContents);
+}
+
+// Custom labels are matched by name first (IDs differ between accounts), then by ID; status labels share IDs everywhere.
+function resolveImportedLabels(record: UserListTransferRecord, targetLabelDefinitions: UserListLabelDefinition[]) {
+  const resolvedLabelIdentifiers: number[] = [];
+  const warnings: string[] = [];
+  const customLabelDefinitions = targetLabelDefinitions.filter((labelDefinition) => isAssignableUserListLabel(labelDefinition.id));
+  record.labels.forEach((importedLabel) => {
+    const normalizedLabelName = importedLabel.label.trim().toLowerCase();
+    // "Voted" follows the vote on VNDB and cannot be imported.
+    if (importedLabel.id === VOTED_USER_LIST_LABEL_IDENTIFIER || normalizedLabelName === 'voted') {
+      return;
+    }
+
+    const statusIdentifier = importedLabel.id !== null && isStatusUserListLabel(importedLabel.id)
+      ? importedLabel.id
+      : USER_LIST_STATUS_OPTIONS.find((statusOption) => statusOption.label.toLowerCase() === normalizedLabelName)?.id ?? null;
+    const customLabel = customLabelDefinitions.find((labelDefinition) => (
+      normalizedLabelName !== '' ? labelDefinition.label.trim().toLowerCase() === normalizedLabelName : labelDefinition.id === importedLabel.id
+    ));
+    const resolvedIdentifier = statusIdentifier ?? customLabel?.id ?? null;
+    if (resolvedIdentifier === null) {
+      warnings.push(`Label "${importedLabel.label || importedLabel.id}" does not exist on this account and was skipped.`);
+      return;
+    }
+    if (!resolvedLabelIdentifiers.includes(resolvedIdentifier)) {
+      resolvedLabelIdentifiers.push(resolvedIdentifier);
+    }
+  });
+
+  const statusLabelIdentifiers = resolvedLabelIdentifiers.filter(isStatusUserListLabel);
+  if (statusLabelIdentifiers.length > 1) {
+    warnings.push('More than one status label; only the first is used.');
+  }
+  return {
+    labelIdentifiers: resolvedLabelIdentifiers.filter((labelIdentifier) => (
+      !isStatusUserListLabel(labelIdentifier) || labelIdentifier === statusLabelIdentifiers[0]
+    )),
+    warnings
+  };
+}
+
+const DETAIL_FIELD_NAMES: Record<keyof UserVisualNovelListEntryDetails, string> = {
+  vote: 'Vote',
+  notes: 'Notes',
+  started: 'Started',
+  finished: 'Finished'
+};
+
+// Dry run of an import against the current list. Imports only add: labels missing from an entry are set, empty
+// fields are filled, and nothing is unset or cleared. A field set differently on both sides is a conflict,
+// resolved by `conflictStrategy`.
+export function planUserListImport(
+  records: UserListTransferRecord[],
+  currentEntries: UserVisualNovelListEntry[],
+  targetLabelDefinitions: UserListLabelDefinition[],
+  conflictStrategy: UserListImportConflictStrategy
+): UserListImportPlanItem[] {
+  const currentEntriesByIdentifier = new Map(currentEntries.map((currentEntry) => [currentEntry.id, currentEntry]));
+  const lastRecordsByIdentifier = new Map<string, UserListTransferRecord>();
+  const duplicateIdentifiers = new Set<string>();
+  records.forEach((record) => {
+    if (lastRecordsByIdentifier.has(record.visualNovelIdentifier)) {
+      duplicateIdentifiers.add(record.visualNovelIdentifier);
+    }
+    lastRecordsByIdentifier.set(record.visualNovelIdentifier, record);
+  });
+
+  return [...lastRecordsByIdentifier.values()].map((record) => {
+    const { labelIdentifiers: importedLabelIdentifiers, warnings } = resolveImportedLabels(record, targetLabelDefinitions);
+    if (duplicateIdentifiers.has(record.visualNovelIdentifier)) {
+      warnings.push('Listed more than once in the file; the last occurrence is used.');
+    }
+
+    const currentEntry = currentEntriesByIdentifier.get(record.visualNovelIdentifier);
+    const importedDetails: UserVisualNovelListEntryDetails = {
+      vote: record.vote,
+      notes: record.notes,
+      started: record.started,
+      finished: record.finished
+    };
+    const planItem: UserListImportPlanItem = {
+      visualNovelIdentifier: record.visualNovelIdentifier,
+      title: record.title || currentEntry?.vn?.title || record.visualNovelIdentifier,
+      action: 'unchanged',
+      labelsToSet: [],
+      labelsToUnset: [],
+      detailChanges: {},
+      conflicts: [],
+      warnings
+    };
+
+    if (!currentEntry) {
+      planItem.action = 'add';
+      planItem.labelsToSet = importedLabelIdentifiers;
+      (Object.keys(importedDetails) as Array<keyof UserVisualNovelListEntryDetails>)
+        .filter((fieldName) => importedDetails[fieldName] !== null && importedDetails[fieldName] !== '')
+        .forEach((fieldName) => {
+          planItem.detailChanges = { ...planItem.detailChanges, [fieldName]: importedDetails[fieldName] };
+        });
+      return planItem;
+    }
+
+    const currentLabelIdentifiers = (currentEntry.labels ?? []).map((labelEntry) => labelEntry.id);
+    const currentStatus = findStatusLabelIdentifier(currentLabelIdentifiers);
+    const importedStatus = findStatusLabelIdentifier(importedLabelIdentifiers);
+    if (importedStatus !== null && importedStatus !== currentStatus) {
+      if (currentStatus === null || conflictStrategy === 'overwrite') {
+        planItem.labelsToSet.push(importedStatus);
+        if (currentStatus !== null) planItem.labelsToUnset.push(currentStatus);
+      }
+      if (currentStatus !== null) {
+        planItem.conflicts.push(`Status: ${readLabelName(currentStatus, [])} on VNDB, ${readLabelName(importedStatus, [])} in file`);
+      }
+    }
+    importedLabelIdentifiers
+      .filter((labelIdentifier) => !isStatusUserListLabel(labelIdentifier) && !currentLabelIdentifiers.includes(labelIdentifier))
+      .forEach((labelIdentifier) => planItem.labelsToSet.push(labelIdentifier));
+
+    (Object.keys(importedDetails) as Array<keyof UserVisualNovelListEntryDetails>).forEach((fieldName) => {
+      const importedValue = importedDetails[fieldName];
+      const currentValue = currentEntry[fieldName] ?? null;
+      if (importedValue === null || importedValue === '' || importedValue === currentValue) {
+        return;
+      }
+      const isCurrentValueEmpty = currentValue === null || currentValue === '';
+      if (!isCurrentValueEmpty) {
+        planItem.conflicts.push(`${DETAIL_FIELD_NAMES[fieldName]}: ${String(currentValue)} on VNDB, ${String(importedValue)} in file`);
+      }
+      if (isCurrentValueEmpty || conflictStrategy === 'overwrite') {
+        planItem.detailChanges = { ...planItem.detailChanges, [fieldName]: importedValue };
+      }
+    });
+
+    const hasChanges = planItem.labelsToSet.length > 0 || Object.keys(planItem.detailChanges).length > 0;
+    planItem.action = hasChanges ? 'update' : 'unchanged';
+    return planItem;
+  });
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { serializeVndbFilter } from '../api/vndbFilterBuilder';
+import { type UserVisualNovelListEntryDetails, type VisualNovelDatabaseEntry } from '../types/apiTypes';
+import {
+  buildFiltersFromQueryDescriptor,
+  buildUserListFiltersFromQueryDescriptor,
+  buildUserListSortParameters,
+  DEFAULT_USER_LIST_DETAIL_FILTER_STATE,
+  filterUserListEntries,
+  hasLocalUserListDetailFilter,
+  type ListFilterState,
+  type ListQueryDescriptor,
+  type UserListQueryDescriptor
+} from './visualNovelListQuery';
+
+const EMPTY_FILTER_STATE: ListFilterState = {
+  languages: [],
+  originalLanguage: '',
+  onlyWithScreenshots: false,
+  onlyWithDescription: false,
+  advancedFilter: null
+};
+
+function buildQueryDescriptor(overrides: Partial<ListQueryDescriptor>): ListQueryDescriptor {
+  return {
+    kind: 'text',
+    term: '',
+    filters: EMPTY_FILTER_STATE,
+    sort: { field: 'default', direction: 'desc' },
+    ...overrides
+  };
+}
+
+function buildEntry(id: string, title: string, rating: number | null): VisualNovelDatabaseEntry {
+  return { id, title, rating, image: null };
+}
+
+describe('buildFiltersFromQueryDescriptor', () => {
+  it('matches every VN when there is no search term or filter', () => {
+    expect(serializeVndbFilter(buildFiltersFromQueryDescriptor(buildQueryDescriptor({ term: '   ' })))).toEqual(['id', '>=', 'v1']);
+  });
+
+  it('searches by text', () => {
+    expect(serializeVndbFilter(buildFiltersFromQueryDescriptor(buildQueryDescriptor({ term: 'ever17' })))).toEqual(['search', '=', 'ever17']);
+  });
+
+  it('prefers the tag identifier over the search term in tag mode', () => {
+    const queryDescriptor = buildQueryDescriptor({ kind: 'tag', term: 'Romance', tagIdentifier: 'g2' });
+    expect(serializeVndbFilter(buildFiltersFromQueryDescriptor(queryDescriptor))).toEqual(['tag', '=', 'g2']);
+  });
+
+  it('nests a producer filter in developer mode', () => {
+    const queryDescriptor = buildQueryDescriptor({ kind: 'developer', term: 'KID', developerIdentifier: 'p24' });
+    expect(serializeVndbFilter(buildFiltersFromQueryDescriptor(queryDescriptor))).toEqual(['developer', '=', ['id', '=', 'p24']]);
+  });
+
+  it('falls back to text search when tag mode has no identifier', () => {
+    const queryDescriptor = buildQueryDescriptor({ kind: 'tag', term: 'Romance' });
+    expect(serializeVndbFilter(buildFiltersFromQueryDescriptor(queryDescriptor))).toEqual(['search', '=', 'Romance']);
+  });
+
+  it('combines the UI filters with the base filter', () => {
+    const queryDescriptor = buildQueryDescriptor({
+      term: 'ever17',
+      filters: {
+        languages: ['en', 'ja'],
+        originalLanguage: 'ja',
+        onlyWithScreenshots: true,
+        onlyWithDescription: true,
+        advancedFilter: null
+      }
+    });
+
+    expect(serializeVndbFilter(buildFiltersFromQueryDescriptor(queryDescriptor))).toEqual([
+      'and',
+      ['search', '=', 'ever17'],
+      ['or', ['lang', '=', 'en'], ['lang', '=', 'ja']],
+      ['olang', '=', 'ja'],
+      ['has_screenshot', '=', true],
+      ['has_description', '=', true]
+    ]);
+  });
+});
+
+describe('user list queries', () => {
+  const defaultUserListQuery: UserListQueryDescriptor = {
+    filters: EMPTY_FILTER_STATE,
+    detailFilter: DEFAULT_USER_LIST_DETAIL_FILTER_STATE,
+    sort: { field: 'default', direction: 'desc' }
+  };
+
+  it('sends no filter or sort for the plain list', () => {
+    expect(buildUserListFiltersFromQueryDescriptor(defaultUserListQuery)).toBeUndefined();
+    expect(buildUserListSortParameters(defaultUserListQuery.sort)).toEqual({});
+  });
+
+  it('combines VN filters with label, vote status, tag and release years', () => {
+    const userListFilters = buildUserListFiltersFromQueryDescriptor({
+      ...defaultUserListQuery,
+      filters: { ...EMPTY_FILTER_STATE, languages: ['en'] },
+      detailFilter: {
+        ...DEFAULT_USER_LIST_DETAIL_FILTER_STATE,
+        labelIdentifier: 5,
+        voteStatus: 'unvoted',
+        minimumVote: 80,
+        tag: { id: 'g32', name: 'Mystery' },
+        releasedFromYear: 2000,
+        releasedToYear: 2009
+      }
+    });
+
+    expect(userListFilters && serializeVndbFilter(userListFilters)).toEqual([
+      'and',
+      ['lang', '=', 'en'],
+      ['label', '=', 5],
+      ['label', '!=', 7],
+      ['tag', '=', 'g32'],
+      ['released', '>=', '2000-01-01'],
+      ['released', '<=', '2009-12-31']
+    ]);
+  });
+
+  it('maps list sorts to /ulist sort parameters', () => {
+    expect(buildUserListSortParameters({ field: 'lastmod', direction: 'desc' })).toEqual({ sortField: 'lastmod', reverseSort: true });
+    expect(buildUserListSortParameters({ field: 'title', direction: 'asc' })).toEqual({ sortField: 'title', reverseSort: false });
+  });
+});
+
+describe('user list details', () => {
+  const entries = [
+    buildEntry('v17', 'Ever17', 85),
+    buildEntry('v97', 'Saya no Uta', 81),
+    buildEntry('v2002', 'Steins;Gate', 89),
+    buildEntry('v4', 'Clannad', 88)
+  ];
+  const detailsByIdentifier: Record<string, UserVisualNovelListEntryDetails> = {
+    v17: { vote: 92, notes: 'Best twist.', started: '2023-01-04', finished: '2023-02-11' },
+    v97: { vote: 70, notes: '', started: '2024-05-01', finished: null },
+    v2002: { vote: null, notes: '  ', started: null, finished: null }
+  };
+
+  it('keeps every entry with the default filter', () => {
+    expect(filterUserListEntries(entries, detailsByIdentifier, DEFAULT_USER_LIST_DETAIL_FILTER_STATE)).toEqual(entries);
+  });
+
+  it('filters by vote threshold, progress and notes', () => {
+    const filterIdentifiers = (filterOverrides: Partial<typeof DEFAULT_USER_LIST_DETAIL_FILTER_STATE>) => (
+      filterUserListEntries(entries, detailsByIdentifier, { ...DEFAULT_USER_LIST_DETAIL_FILTER_STATE, ...filterOverrides })
+        .map((entry) => entry.id)
+    );
+
+    expect(filterIdentifiers({ voteStatus: 'unvoted' })).toEqual(['v2002', 'v4']);
+    expect(filterIdentifiers({ voteStatus: 'voted', minimumVote: 80 })).toEqual(['v17']);
+    expect(filterIdentifiers({ voteStatus: 'voted', maximumVote: 80 })).toEqual(['v97']);
+    expect(filterIdentifiers({ progress: 'in-progress' })).toEqual(['v97']);
+    expect(filterIdentifiers({ progress: 'not-started' })).toEqual(['v2002', 'v4']);
+    expect(filterIdentifiers({ onlyWithNotes: true })).toEqual(['v17']);
+  });
+
+  it('tells filters applied to the loaded pages apart from those /ulist applies', () => {
+    expect(hasLocalUserListDetailFilter(DEFAULT_USER_LIST_DETAIL_FILTER_STATE)).toBe(false);
+    expect(hasLocalUserListDetailFilter({ ...DEFAULT_USER_LIST_DETAIL_FILTER_STATE, voteStatus: 'voted', labelIdentifier: 10 })).toBe(false);
+    expect(hasLocalUserListDetailFilter({ ...DEFAULT_USER_LIST_DETAIL_FILTER_STATE, maximumVote: 60 })).toBe(true);
+    expect(hasLocalUserListDetailFilter({ ...DEFAULT_USER_LIST_DETAIL_FILTER_STATE, progress: 'finished' })).toBe(true);
+  });
+
+  it('filters by any assigned label', () => {
+    const labelsByIdentifier = { v17: [2, 7, 10], v97: [1, 10], v2002: [5] };
+    const filterState = { ...DEFAULT_USER_LIST_DETAIL_FILTER_STATE, labelIdentifier: 10 };
+
+    expect(filterUserListEntries(entries, detailsByIdentifier, filterState, labelsByIdentifier).map((entry) => entry.id))
+      .toEqual(['v17', 'v97']);
+  });
+});
@@ -0,0 +1,208 @@
+import { producerFilters, userListFilters, visualNovelFilters } from '../api/vndbFilterBuilder';
+import { type UserListPageQuery, type UserVisualNovelListEntryDetails, type VisualNovelDatabaseEntry } from '../types/apiTypes';
+import { type UserListFilter, type VisualNovelFilter } from '../types/filterTypes';
+import { buildAdvancedVisualNovelFilter, type AdvancedFilterGroup } from './advancedVisualNovelFilter';
+import { VOTED_USER_LIST_LABEL_IDENTIFIER } from './userListLabels';
+
+// Search state for the VN list; kept outside the component so the sort and filter logic can be tested directly.
+export interface ListQueryDescriptor {
+  kind: 'text' | 'tag' | 'developer';
+  term: string;
+  tagIdentifier?: string;
+  developerIdentifier?: string;
+  filters: ListFilterState;
+  sort: ListSortState;
+}
+
+export interface ListFilterState {
+  languages: string[];
+  originalLanguage: string;
+  onlyWithScreenshots: boolean;
+  onlyWithDescription: boolean;
+  // Nested conditions from the advanced panel; only searches use them, /ulist queries ignore them.
+  advancedFilter: AdvancedFilterGroup | null;
+}
+
+export interface ListSortState {
+  field: 'default' | 'title' | 'released' | 'rating' | 'votecount' | 'id' | UserListSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Sort fields backed by personal ulist data; they only apply while viewing the user list.
+export type UserListSortField = 'vote' | 'started' | 'finished' | 'added' | 'lastmod';
+const USER_LIST_SORT_FIELDS: UserListSortField[] = ['vote', 'started', 'finished', 'added', 'lastmod'];
+
+export function isUserListSortField(sortField: ListSortState['field']): sortField is UserListSortField {
+  return (USER_LIST_SORT_FIELDS as string[]).includes(sortField);
+}
+
+// Label, voted/unvoted, tag and release years are sent to /ulist; the vote range, progress and notes have no
+// /ulist filter and are applied to the pages loaded so far (see `hasLocalUserListDetailFilter`).
+export interface UserListDetailFilterState {
+  voteStatus: 'any' | 'voted' | 'unvoted';
+  // Only applies to voted entries; null means no bound.
+  minimumVote: number | null;
+  maximumVote: number | null;
+  progress: 'any' | 'not-started' | 'in-progress' | 'finished';
+  onlyWithNotes: boolean;
+  // Any ulist label, status labels included; null shows every entry.
+  labelIdentifier: number | null;
+  tag: { id: string; name: string } | null;
+  releasedFromYear: number | null;
+  releasedToYear: number | null;
+}
+
+export const DEFAULT_USER_LIST_DETAIL_FILTER_STATE: UserListDetailFilterState = {
+  voteStatus: 'any',
+  minimumVote: null,
+  maximumVote: null,
+  progress: 'any',
+  onlyWithNotes: false,
+  labelIdentifier: null,
+  tag: null,
+  releasedFromYear: null,
+  releasedToYear: null
+};
+
+// Everything a user-list page request depends on; the list counterpart of `ListQueryDescriptor`.
+export interface UserListQueryDescriptor {
+  filters: ListFilterState;
+  detailFilter: UserListDetailFilterState;
+  sort: ListSortState;
+}
+
+// True when part of the filter is applied here rather than by /ulist, so the loaded pages can hold fewer
+// matches than a page's worth and more pages have to be read to fill the list.
+export function hasLocalUserListDetailFilter(filterState: UserListDetailFilterState) {
+  return filterState.minimumVote !== null
+    || filterState.maximumVote !== null
+    || filterState.progress !== 'any'
+    || filterState.onlyWithNotes;
+}
+
+type UserListDetailsByIdentifier = Record<string, UserVisualNovelListEntryDetails | undefined>;
+
+export function filterUserListEntries(
+  entriesToFilter: VisualNovelDatabaseEntry[],
+  userListDetailsByIdentifier: UserListDetailsByIdentifier,
+  filterState: UserListDetailFilterState,
+  userListLabelsByIdentifier: Record<string, number[] | undefined> = {}
+) {
+  return entriesToFilter.filter((visualNovelEntry) => {
+    if (
+      filterState.labelIdentifier !== null
+      && !(userListLabelsByIdentifier[visualNovelEntry.id] ?? []).includes(filterState.labelIdentifier)
+    ) {
+      return false;
+    }
+
+    const entryDetails = userListDetailsByIdentifier[visualNovelEntry.id];
+    const vote = entryDetails?.vote ?? null;
+    if (filterState.voteStatus === 'voted' && vote === null) return false;
+    if (filterState.voteStatus === 'unvoted' && vote !== null) return false;
+    if (filterState.minimumVote !== null && (vote === null || vote < filterState.minimumVote)) return false;
+    if (filterState.maximumVote !== null && (vote === null || vote > filterState.maximumVote)) return false;
+    if (filterState.onlyWithNotes && (entryDetails?.notes ?? '').trim() === '') return false;
+
+    const hasStarted = Boolean(entryDetails?.started);
+    const hasFinished = Boolean(entryDetails?.finished);
+    if (filterState.progress === 'not-started') return !hasStarted && !hasFinished;
+    if (filterState.progress === 'in-progress') return hasStarted && !hasFinished;
+    if (filterState.progress === 'finished') return hasFinished;
+    return true;
+  });
+}
+
+export function buildFiltersFromQueryDescriptor(queryDescriptor: ListQueryDescriptor): VisualNovelFilter {
+  // Build VNDB filter AST from active search mode + optional UI filters.
+  let baseFilter: VisualNovelFilter;
+  if (queryDescriptor.kind === 'tag' && queryDescriptor.tagIdentifier) {
+    baseFilter = visualNovelFilters.where('tag', '=', queryDescriptor.tagIdentifier);
+  } else if (queryDescriptor.kind === 'developer' && queryDescriptor.developerIdentifier) {
+    baseFilter = visualNovelFilters.where('developer', '=', producerFilters.where('id', '=', queryDescriptor.developerIdentifier));
+  } else if (queryDescriptor.term.trim() !== '') {
+    baseFilter = visualNovelFilters.where('search', '=', queryDescriptor.term);
+  } else {
+    baseFilter = visualNovelFilters.where('id', '>=', 'v1');
+  }
+
+  const filterClauses: VisualNovelFilter[] = [];
+  const [firstLanguageCode, ...remainingLanguageCodes] = queryDescriptor.filters.languages;
+  if (firstLanguageCode) {
+    filterClauses.push(visualNovelFilters.anyOf('lang', [firstLanguageCode, ...remainingLanguageCodes]));
+  }
+
+  if (queryDescriptor.filters.originalLanguage.trim() !== '') {
+    filterClauses.push(visualNovelFilters.where('olang', '=', queryDescriptor.filters.originalLanguage));
+  }
+
+  if (queryDescriptor.filters.onlyWithScreenshots) {
+    filterClauses.push(visualNovelFilters.where('has_screenshot', '=', true));
+  }
+
+  if (queryDescriptor.filters.onlyWithDescription) {
+    filterClauses.push(visualNovelFilters.where('has_description', '=', true));
+  }
+
+  const advancedFilter = buildAdvancedVisualNovelFilter(queryDescriptor.filters.advancedFilter);
+  if (advancedFilter) {
+    filterClauses.push(advancedFilter);
+  }
+
+  return visualNovelFilters.and(baseFilter, ...filterClauses);
+}
+
+// The server-side part of a user-list query. Undefined when nothing narrows the list.
+export function buildUserListFiltersFromQueryDescriptor(queryDescriptor: UserListQueryDescriptor): UserListFilter | undefined {
+  const { filters, detailFilter } = queryDescriptor;
+  const filterClauses: UserListFilter[] = [];
+  const [firstLanguageCode, ...remainingLanguageCodes] = filters.languages;
+  if (firstLanguageCode) {
+    filterClauses.push(userListFilters.anyOf('lang', [firstLanguageCode, ...remainingLanguageCodes]));
+  }
+
+  if (filters.originalLanguage.trim() !== '') {
+    filterClauses.push(userListFilters.where('olang', '=', filters.originalLanguage));
+  }
+
+  if (filters.onlyWithScreenshots) {
+    filterClauses.push(userListFilters.where('has_screenshot', '=', true));
+  }
+
+  if (filters.onlyWithDescription) {
+    filterClauses.push(userListFilters.where('has_description', '=', true));
+  }
+
+  if (detailFilter.labelIdentifier !== null) {
+    filterClauses.push(userListFilters.where('label', '=', detailFilter.labelIdentifier));
+  }
+
+  // VNDB keeps the "Voted" label in step with the vote, so it stands in for a vote filter.
+  if (detailFilter.voteStatus !== 'any') {
+    filterClauses.push(userListFilters.where('label', detailFilter.voteStatus === 'voted' ? '=' : '!=', VOTED_USER_LIST_LABEL_IDENTIFIER));
+  }
+
+  if (detailFilter.tag) {
+    filterClauses.push(userListFilters.where('tag', '=', detailFilter.tag.id));
+  }
+
+  if (detailFilter.releasedFromYear !== null) {
+    filterClauses.push(userListFilters.where('released', '>=', `${detailFilter.releasedFromYear}-01-01`));
+  }
+
+  if (detailFilter.releasedToYear !== null) {
+    filterClauses.push(userListFilters.where('released', '<=', `${detailFilter.releasedToYear}-12-31`));
+  }
+
+  const [firstFilterClause, ...remainingFilterClauses] = filterClauses;
+  return firstFilterClause ? userListFilters.and(firstFilterClause, ...remainingFilterClauses) : undefined;
+}
+
+// `/ulist` sorts by the same names as the UI; the default keeps VNDB's own order.
+export function buildUserListSortParameters(sortState: ListSortState): Pick<UserListPageQuery, 'sortField' | 'reverseSort'> {
+  if (sortState.field === 'default') {
+    return {};
+  }
+
+  return { sortField: sortState.field, reverseSort: sortState.direction === 'desc' };
+}
@@ -0,0 +1,105 @@
+import {
+  VndbClientError,
+  VndbDecodeError,
+  VndbOfflineError,
+  VndbPermissionError,
+  VndbRateLimitError
+} from '../api/visualNovelClient';
+
+// What the user can do about a failure: try the same request again, or replace their token.
+export type VndbErrorRecoveryAction = 'retry' | 'reauthenticate' | 'none';
+
+export interface VndbErrorPresentation {
+  title: string;
+  message: string;
+  recoveryAction: VndbErrorRecoveryAction;
+  isOffline: boolean;
+}
+
+function formatRetryDelay(retryAfterMilliseconds: number | null) {
+  if (retryAfterMilliseconds === null) {
+    return 'a moment';
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMilliseconds / 1000));
+  return `${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}`;
+}
+
+// Maps any caught value onto user-facing copy; `fallbackMessage` covers errors outside the VNDB hierarchy.
+export function describeVndbError(caughtError: unknown, fallbackMessage: string): VndbErrorPresentation {
+  if (!(caughtError instanceof VndbClientError)) {
+    return {
+      title: 'Something went wrong',
+      message: caughtError instanceof Error && caughtError.message ? caughtError.message : fallbackMessage,
+      recoveryAction: 'retry',
+      isOffline: false
+    };
+  }
+
+  switch (caughtError.kind) {
+    case 'authentication':
+      return {
+        title: 'Log in again',
+        message: 'Your VNDB token is missing, invalid or has expired. Log in with a current token to continue.',
+        recoveryAction: 'reauthenticate',
+        isOffline: false
+      };
+    case 'permission': {
+      const requiredPermission = caughtError instanceof VndbPermissionError ? caughtError.requiredPermission : null;
+      return {
+        title: 'Missing permission',
+        message: requiredPermission
+          ? `Your VNDB token does not include the \`${requiredPermission}\` permission. Create a token with it on vndb.org and log in again.`
+          : 'Your VNDB token is not allowed to do this. Create a token with list permissions on vndb.org and log in again.',
+        recoveryAction: 'reauthenticate',
+        isOffline: false
+      };
+    }
+    case 'rate-limit':
+      return {
+        title: 'Slow down',
+        message: `VNDB is limiting requests right now. Wait ${formatRetryDelay(
+          caughtError instanceof VndbRateLimitError ? caughtError.retryAfterMilliseconds : null
+        )} and try again.`,
+        recoveryAction: 'retry',
+        isOffline: false
+      };
+    case 'not-found':
+      return {
+        title: 'Not found',
+        message: caughtError.message,
+        recoveryAction: 'none',
+        isOffline: false
+      };
+    case 'offline':
+      return {
+        title: caughtError instanceof VndbOfflineError && caughtError.isBrowserOffline ? "You're offline" : "Can't reach VNDB",
+        message: caughtError.message,
+        recoveryAction: 'retry',
+        isOffline: true
+      };
+    case 'server':
+      return {
+        title: 'VNDB is having trouble',
+        message: `VNDB could not complete the request (HTTP ${caughtError.statusCode ?? 'error'}). This is usually temporary; try again in a few minutes.`,
+        recoveryAction: 'retry',
+        isOffline: false
+      };
+    case 'decode':
+      return {
+        title: 'Unexpected response',
+        message: caughtError instanceof VndbDecodeError
+          ? `VNDB sent data this app could not read (at ${caughtError.fieldPath}). Try again later.`
+          : caughtError.message,
+        recoveryAction: 'retry',
+        isOffline: false
+      };
+    case 'request':
+      return {
+        title: 'Request rejected',
+        message: caughtError.message,
+        recoveryAction: 'none',
+        isOffline: false
+      };
+  }
+}